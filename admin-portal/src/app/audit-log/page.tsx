@@ -0,0 +1,117 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { DataTable } from '@/components/DataTable';
+import { SidePanel, DetailRow } from '@/components/SidePanel';
+import { fetchAuditLogs, AuditAction, AuditLog } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+
+const actionLabels: Record<AuditAction, string> = {
+  login: 'Login',
+  message_replayed: 'Message replayed',
+  handoff_started: 'Conversation taken over',
+  handoff_message_sent: 'Agent message sent',
+  handoff_ended: 'Conversation handed back',
+  job_deleted: 'Job deleted',
+  scraper_health_reset: 'Scraper health reset',
+  scraper_source_created: 'Scraper source created',
+  scraper_source_updated: 'Scraper source updated',
+  scraper_source_deleted: 'Scraper source deleted',
+  scrape_triggered: 'Scrape triggered',
+  admin_user_created: 'Admin user created',
+  admin_user_updated: 'Admin user updated',
+};
+
+const columns = [
+  {
+    key: 'createdAt',
+    header: 'Date',
+    render: (value: string) => formatDate(value, true),
+  },
+  {
+    key: 'actor',
+    header: 'Admin',
+  },
+  {
+    key: 'action',
+    header: 'Action',
+    render: (value: AuditAction) => (
+      <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+        {actionLabels[value] || value}
+      </span>
+    ),
+  },
+  {
+    key: 'target',
+    header: 'Target',
+    render: (value?: string) => value || '-',
+  },
+  {
+    key: 'ip',
+    header: 'IP',
+    render: (value?: string) => value || '-',
+  },
+];
+
+export default function AuditLogPage() {
+  const [selectedLog, setSelectedLog] = useState<AuditLog | null>(null);
+  const [action, setAction] = useState<AuditAction | ''>('');
+
+  const fetchData = useCallback(
+    (page: number, limit: number, search: string) =>
+      fetchAuditLogs(page, limit, search, action || undefined),
+    [action]
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Audit Log</h1>
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as AuditAction | '')}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All actions</option>
+          {(Object.keys(actionLabels) as AuditAction[]).map((key) => (
+            <option key={key} value={key}>
+              {actionLabels[key]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <DataTable
+        columns={columns}
+        fetchData={fetchData}
+        searchPlaceholder="Search by admin username..."
+        onRowClick={(log) => setSelectedLog(log as AuditLog)}
+      />
+
+      <SidePanel
+        isOpen={!!selectedLog}
+        onClose={() => setSelectedLog(null)}
+        title="Audit Log Entry"
+      >
+        {selectedLog && (
+          <dl className="space-y-1">
+            <DetailRow label="Date" value={formatDate(selectedLog.createdAt, true)} />
+            <DetailRow label="Admin" value={selectedLog.actor} />
+            <DetailRow label="Action" value={actionLabels[selectedLog.action] || selectedLog.action} />
+            <DetailRow label="Target" value={selectedLog.target || '-'} />
+            <DetailRow label="IP" value={selectedLog.ip || '-'} />
+            <DetailRow
+              label="Details"
+              value={
+                selectedLog.details ? (
+                  <pre className="text-xs bg-gray-50 rounded p-2 whitespace-pre-wrap break-words">
+                    {JSON.stringify(selectedLog.details, null, 2)}
+                  </pre>
+                ) : '-'
+              }
+            />
+          </dl>
+        )}
+      </SidePanel>
+    </div>
+  );
+}
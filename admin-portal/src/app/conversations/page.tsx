@@ -1,11 +1,21 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { DataTable } from '@/components/DataTable';
 import { ChatPanel } from '@/components/ChatPanel';
-import { fetchConversations, fetchConversationMessages, Conversation, Message, PersonalizedLink } from '@/lib/api';
+import {
+  fetchConversations,
+  fetchConversationMessages,
+  subscribeAdminEvents,
+  Conversation,
+  Message,
+  PersonalizedLink,
+} from '@/lib/api';
 import { formatDate } from '@/lib/utils';
 
+// The table is reloaded once per burst of events, a search sends several messages
+const REFRESH_DEBOUNCE_MS = 1000;
+
 const columns = [
   {
     key: 'phoneNumber',
@@ -48,6 +58,39 @@ export default function ConversationsPage() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [links, setLinks] = useState<PersonalizedLink[]>([]);
   const [loadingMessages, setLoadingMessages] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const selectedConversationRef = useRef<Conversation | null>(null);
+
+  useEffect(() => {
+    selectedConversationRef.current = selectedConversation;
+  }, [selectedConversation]);
+
+  // Live updates: new conversations and messages, link clicks of the open conversation
+  useEffect(() => {
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = subscribeAdminEvents((event) => {
+      if (event.type === 'message.saved' && event.data.conversationId === selectedConversationRef.current?.id) {
+        const message = event.data;
+        setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+      }
+
+      if (event.type === 'link.clicked') {
+        const { id, clickCount } = event.data;
+        setLinks((prev) => prev.map((link) => (link.id === id ? { ...link, clickCount } : link)));
+      }
+
+      if (event.type === 'message.saved' || event.type === 'conversation.started') {
+        clearTimeout(refreshTimer);
+        refreshTimer = setTimeout(() => setRefreshKey((key) => key + 1), REFRESH_DEBOUNCE_MS);
+      }
+    });
+
+    return () => {
+      clearTimeout(refreshTimer);
+      unsubscribe();
+    };
+  }, []);
 
   useEffect(() => {
     if (selectedConversation) {
@@ -64,6 +107,14 @@ export default function ConversationsPage() {
     }
   }, [selectedConversation]);
 
+  // Reload the transcript once an agent message was sent
+  const handleMessageSent = () => {
+    if (!selectedConversation) return;
+    fetchConversationMessages(selectedConversation.id)
+      .then((data) => setMessages(data.messages))
+      .catch(console.error);
+  };
+
   const handleClose = () => {
     setSelectedConversation(null);
     setMessages([]);
@@ -78,6 +129,7 @@ export default function ConversationsPage() {
         fetchData={fetchConversations}
         searchPlaceholder="Search by phone number..."
         onRowClick={(conversation) => setSelectedConversation(conversation as Conversation)}
+        refreshKey={refreshKey}
       />
 
       <ChatPanel
@@ -87,6 +139,7 @@ export default function ConversationsPage() {
         messages={messages}
         links={links}
         loading={loadingMessages}
+        onMessageSent={handleMessageSent}
       />
     </div>
   );
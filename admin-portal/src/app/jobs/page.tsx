@@ -15,6 +15,15 @@ interface Job {
   url: string;
   postedDate: string;
   source: string;
+  contractType?: string;
+  experienceLevel?: string;
+  educationLevel?: string;
+  applicationDeadline?: string;
+  sector?: string;
+  skills?: string[];
+  expiresAt?: string;
+  expiredAt?: string | null;
+  expiryReason?: 'deadline' | 'unavailable' | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -71,6 +80,29 @@ export default function JobsPage() {
               label="Posted Date"
               value={formatDate(selectedJob.postedDate)}
             />
+            <DetailRow label="Contract" value={selectedJob.contractType?.toUpperCase()} />
+            <DetailRow label="Experience" value={selectedJob.experienceLevel} />
+            <DetailRow label="Education" value={selectedJob.educationLevel?.toUpperCase()} />
+            <DetailRow label="Sector" value={selectedJob.sector} />
+            <DetailRow
+              label="Deadline"
+              value={selectedJob.applicationDeadline && formatDate(selectedJob.applicationDeadline)}
+            />
+            <DetailRow label="Skills" value={selectedJob.skills?.join(', ')} />
+            <DetailRow
+              label="Expires At"
+              value={selectedJob.expiresAt && formatDate(selectedJob.expiresAt)}
+            />
+            <DetailRow
+              label="Expired"
+              value={
+                selectedJob.expiredAt
+                  ? `${formatDate(selectedJob.expiredAt, true)} (${
+                      selectedJob.expiryReason === 'unavailable' ? 'removed from source' : 'past deadline'
+                    })`
+                  : 'No'
+              }
+            />
             <DetailRow
               label="Description"
               value={
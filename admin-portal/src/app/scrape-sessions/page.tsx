@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { DataTable, SortConfig } from '@/components/DataTable';
+import { SidePanel, DetailRow } from '@/components/SidePanel';
+import {
+  fetchScrapeSessions,
+  fetchScraperSources,
+  subscribeAdminEvents,
+  ScrapeSession,
+  ScraperSource,
+} from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+
+function formatDuration(ms?: number | null): string {
+  if (ms === undefined || ms === null) return '-';
+  if (ms < 1000) return `${ms} ms`;
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function getDuration(session: ScrapeSession): number | null {
+  if (!session.completedAt) return null;
+  return new Date(session.completedAt).getTime() - new Date(session.startedAt).getTime();
+}
+
+const columns = [
+  {
+    key: 'sourceName',
+    header: 'Source',
+  },
+  {
+    key: 'mode',
+    header: 'Mode',
+  },
+  {
+    key: 'status',
+    header: 'Status',
+    render: (value: string) => {
+      const colors: Record<string, string> = {
+        in_progress: 'bg-yellow-100 text-yellow-800',
+        completed: 'bg-green-100 text-green-800',
+        failed: 'bg-red-100 text-red-800',
+      };
+      return (
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${colors[value] || 'bg-gray-100 text-gray-800'}`}>
+          {value}
+        </span>
+      );
+    },
+  },
+  {
+    key: 'startedAt',
+    header: 'Started',
+    render: (value: string) => formatDate(value, true),
+  },
+  {
+    key: 'pagesScraped',
+    header: 'Pages',
+  },
+  {
+    key: 'jobsFound',
+    header: 'New Jobs',
+  },
+  {
+    key: 'jobsUpdated',
+    header: 'Updated',
+  },
+  {
+    key: 'completedAt',
+    header: 'Duration',
+    render: (_value: string, row: ScrapeSession) => formatDuration(getDuration(row)),
+  },
+];
+
+export default function ScrapeSessionsPage() {
+  const [selectedSession, setSelectedSession] = useState<ScrapeSession | null>(null);
+  const [sources, setSources] = useState<ScraperSource[]>([]);
+  const [sourceId, setSourceId] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    fetchScraperSources()
+      .then((result) => setSources(result.data))
+      .catch(console.error);
+  }, []);
+
+  // Finished runs show up without reloading the page
+  useEffect(
+    () =>
+      subscribeAdminEvents((event) => {
+        if (event.type === 'scrape.finished') setRefreshKey((key) => key + 1);
+      }),
+    []
+  );
+
+  const fetchData = useCallback(
+    (page: number, limit: number, search: string, sort?: SortConfig) =>
+      fetchScrapeSessions(page, limit, search, sort, sourceId || undefined),
+    [sourceId]
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Scrape History</h1>
+        <select
+          value={sourceId}
+          onChange={(e) => setSourceId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All sources</option>
+          {sources.map((source) => (
+            <option key={source.id} value={source.id}>
+              {source.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <DataTable
+        columns={columns}
+        fetchData={fetchData}
+        searchPlaceholder="Search by source name..."
+        onRowClick={(session) => setSelectedSession(session as ScrapeSession)}
+        refreshKey={refreshKey}
+      />
+
+      <SidePanel
+        isOpen={!!selectedSession}
+        onClose={() => setSelectedSession(null)}
+        title="Scrape Session"
+      >
+        {selectedSession && (
+          <dl className="space-y-1">
+            <DetailRow label="Source" value={selectedSession.sourceName} />
+            <DetailRow label="Mode" value={selectedSession.mode} />
+            <DetailRow label="Status" value={selectedSession.status} />
+            <DetailRow label="Started At" value={formatDate(selectedSession.startedAt, true)} />
+            <DetailRow label="Completed At" value={formatDate(selectedSession.completedAt, true)} />
+            <DetailRow label="Duration" value={formatDuration(getDuration(selectedSession))} />
+            <DetailRow label="Pages Scraped" value={selectedSession.pagesScraped} />
+            <DetailRow label="New Jobs" value={selectedSession.jobsFound} />
+            <DetailRow label="Updated Jobs" value={selectedSession.jobsUpdated} />
+            <DetailRow
+              label="Pages"
+              value={
+                selectedSession.pageStats && selectedSession.pageStats.length > 0 ? (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-1">Page</th>
+                        <th className="py-1">Duration</th>
+                        <th className="py-1">Scraped</th>
+                        <th className="py-1">New</th>
+                        <th className="py-1">Updated</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selectedSession.pageStats.map((stat) => (
+                        <tr key={stat.page} className={stat.error ? 'text-red-600' : ''}>
+                          <td className="py-1">{stat.page}</td>
+                          <td className="py-1">{formatDuration(stat.durationMs)}</td>
+                          <td className="py-1">{stat.jobsScraped}</td>
+                          <td className="py-1">{stat.jobsSaved}</td>
+                          <td className="py-1">{stat.jobsUpdated}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : '-'
+              }
+            />
+            <DetailRow
+              label="Errors"
+              value={
+                selectedSession.errors && selectedSession.errors.length > 0 ? (
+                  <ul className="space-y-1 text-sm text-red-600 max-h-64 overflow-y-auto">
+                    {selectedSession.errors.map((error, i) => (
+                      <li key={i} className="break-words">{error}</li>
+                    ))}
+                  </ul>
+                ) : '-'
+              }
+            />
+            <DetailRow label="Session ID" value={<span className="font-mono text-xs">{selectedSession.sessionId}</span>} />
+          </dl>
+        )}
+      </SidePanel>
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Play, Plus, Pencil, Trash2 } from 'lucide-react';
+import { SidePanel } from '@/components/SidePanel';
+import {
+  fetchScraperSources,
+  createScraperSource,
+  updateScraperSource,
+  deleteScraperSource,
+  triggerScrape,
+  subscribeAdminEvents,
+  ScraperSource,
+  ScrapeJob,
+} from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatDate } from '@/lib/utils';
+
+// Progress of pending scrapes is only in the scrape queue, polled while there are some
+const PROGRESS_POLL_INTERVAL_MS = 2000;
+
+interface SourceForm {
+  name: string;
+  url: string;
+  scraperKey: string;
+  scrapeInterval: string;
+  maxPages: string;
+}
+
+const emptyForm: SourceForm = { name: '', url: '', scraperKey: '', scrapeInterval: '30', maxPages: '3' };
+
+function HealthBadge({ source }: { source: ScraperSource }) {
+  const degraded = source.healthStatus === 'degraded';
+  return (
+    <span
+      className={`px-2 py-1 rounded-full text-xs font-medium ${degraded ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}`}
+      title={source.healthMetrics?.reasons?.join('\n') || undefined}
+    >
+      {source.healthStatus}
+    </span>
+  );
+}
+
+function JobProgress({ job }: { job: ScrapeJob }) {
+  if (job.state !== 'active' || !job.progress) {
+    return <span className="text-xs text-gray-500">{job.state === 'active' ? 'starting...' : job.state}</span>;
+  }
+
+  const percent = Math.round((job.progress.page / Math.max(1, job.progress.totalPages)) * 100);
+  return (
+    <div className="w-32">
+      <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="text-xs text-gray-500 mt-1">
+        page {job.progress.page}/{job.progress.totalPages} · {job.progress.jobsFound} new
+      </div>
+    </div>
+  );
+}
+
+function LastRun({ source }: { source: ScraperSource }) {
+  const session = source.lastSession;
+  if (!session) return <span className="text-gray-400">never</span>;
+
+  const colors: Record<string, string> = {
+    in_progress: 'text-yellow-700',
+    completed: 'text-green-700',
+    failed: 'text-red-700',
+  };
+  return (
+    <div className="text-xs">
+      <div className={colors[session.status] || 'text-gray-700'}>{session.status}</div>
+      <div className="text-gray-500">{formatDate(session.startedAt, true)}</div>
+      <div className="text-gray-500">
+        {session.jobsFound} new · {session.jobsUpdated} updated
+      </div>
+    </div>
+  );
+}
+
+export default function ScraperSourcesPage() {
+  const { hasRole } = useAuth();
+  const [sources, setSources] = useState<ScraperSource[]>([]);
+  const [scraperKeys, setScraperKeys] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  // null: closed, a source: editing it, 'new': creating one
+  const [editing, setEditing] = useState<ScraperSource | 'new' | null>(null);
+  const [form, setForm] = useState<SourceForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(
+    () =>
+      fetchScraperSources()
+        .then((result) => {
+          setSources(result.data);
+          setScraperKeys(result.scraperKeys);
+        })
+        .catch((err) => setError((err as Error).message))
+        .finally(() => setLoading(false)),
+    []
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Last runs refresh when a scrape finishes
+  useEffect(
+    () =>
+      subscribeAdminEvents((event) => {
+        if (event.type === 'scrape.finished') load();
+      }),
+    [load]
+  );
+
+  const hasPendingJobs = sources.some((source) => source.pendingJob);
+  useEffect(() => {
+    if (!hasPendingJobs) return;
+    const interval = setInterval(load, PROGRESS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasPendingJobs, load]);
+
+  const runAction = async (action: () => Promise<unknown>): Promise<boolean> => {
+    setError('');
+    try {
+      await action();
+      await load();
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    }
+  };
+
+  const openEditor = (source: ScraperSource | 'new') => {
+    setForm(
+      source === 'new'
+        ? { ...emptyForm, scraperKey: scraperKeys[0] || '' }
+        : {
+            name: source.name,
+            url: source.url,
+            scraperKey: source.scraperKey || '',
+            scrapeInterval: source.scrapeInterval?.toString() || '',
+            maxPages: source.maxPages?.toString() || '',
+          }
+    );
+    setEditing(source);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const fields = {
+      url: form.url,
+      scraperKey: form.scraperKey,
+      scrapeInterval: form.scrapeInterval ? parseInt(form.scrapeInterval) : undefined,
+      maxPages: form.maxPages ? parseInt(form.maxPages) : undefined,
+    };
+
+    setSaving(true);
+    const saved = await runAction(() =>
+      editing === 'new'
+        ? createScraperSource({ name: form.name, ...fields })
+        : updateScraperSource(editing.id, fields)
+    );
+    setSaving(false);
+    if (saved) setEditing(null);
+  };
+
+  const handleDelete = (source: ScraperSource) => {
+    if (!confirm(`Delete the ${source.name} scraper source? Its scrape history is kept.`)) return;
+    runAction(() => deleteScraperSource(source.id));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Scraper Sources</h1>
+        {hasRole('admin') && (
+          <button
+            onClick={() => openEditor('new')}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            Add source
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-3">Source</th>
+              <th className="px-4 py-3">Active</th>
+              <th className="px-4 py-3">Health</th>
+              <th className="px-4 py-3">Interval</th>
+              <th className="px-4 py-3">Max pages</th>
+              <th className="px-4 py-3">Last run</th>
+              <th className="px-4 py-3">Scrape</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {loading ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-gray-500">Loading...</td>
+              </tr>
+            ) : sources.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-gray-500">No scraper sources</td>
+              </tr>
+            ) : (
+              sources.map((source) => (
+                <tr key={source.id}>
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">{source.name}</div>
+                    <div className="text-xs text-gray-500">{source.scraperKey || 'no scraper'}</div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={source.isActive}
+                      disabled={!hasRole('operator')}
+                      onChange={(e) => runAction(() => updateScraperSource(source.id, { isActive: e.target.checked }))}
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <HealthBadge source={source} />
+                  </td>
+                  <td className="px-4 py-3">{source.scrapeInterval ? `${source.scrapeInterval} min` : 'default'}</td>
+                  <td className="px-4 py-3">{source.maxPages || 'default'}</td>
+                  <td className="px-4 py-3">
+                    <LastRun source={source} />
+                  </td>
+                  <td className="px-4 py-3">
+                    {source.pendingJob ? (
+                      <JobProgress job={source.pendingJob} />
+                    ) : (
+                      hasRole('operator') && (
+                        <button
+                          onClick={() => runAction(() => triggerScrape(source.id))}
+                          className="flex items-center gap-1 px-3 py-1 border border-gray-300 rounded-lg text-xs hover:bg-gray-50"
+                        >
+                          <Play className="w-3 h-3" />
+                          Scrape now
+                        </button>
+                      )
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-2 justify-end">
+                      {hasRole('operator') && (
+                        <button onClick={() => openEditor(source)} className="p-1 text-gray-500 hover:text-gray-900" title="Edit">
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                      )}
+                      {hasRole('admin') && (
+                        <button onClick={() => handleDelete(source)} className="p-1 text-gray-500 hover:text-red-600" title="Delete">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <SidePanel
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        title={editing === 'new' ? 'New Scraper Source' : 'Edit Scraper Source'}
+      >
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              disabled={editing !== 'new'}
+              pattern="[a-z0-9_\-]{2,50}"
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">URL</label>
+            <input
+              type="url"
+              value={form.url}
+              onChange={(e) => setForm({ ...form, url: e.target.value })}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Scraper</label>
+            <select
+              value={form.scraperKey}
+              onChange={(e) => setForm({ ...form, scraperKey: e.target.value })}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {scraperKeys.map((key) => (
+                <option key={key} value={key}>
+                  {key}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Interval (minutes)</label>
+              <input
+                type="number"
+                min={5}
+                value={form.scrapeInterval}
+                onChange={(e) => setForm({ ...form, scrapeInterval: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max pages</label>
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={form.maxPages}
+                onChange={(e) => setForm({ ...form, maxPages: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </form>
+      </SidePanel>
+    </div>
+  );
+}
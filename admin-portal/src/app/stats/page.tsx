@@ -214,6 +214,54 @@ export default function StatsPage() {
             )}
           </div>
 
+          <div className="bg-white p-6 rounded-lg shadow">
+            <h2 className="text-lg font-semibold mb-4">Delivery &amp; Read Rates</h2>
+            {stats.deliveryRatesPerBucket.length > 0 ? (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart
+                  data={stats.deliveryRatesPerBucket.map(b => ({
+                    ...b,
+                    time: formatTimestamp(b.bucket, duration),
+                  }))}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="time" />
+                  <YAxis domain={[0, 100]} unit="%" />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="deliveryRate" stroke="#0088FE" name="Delivered (%)" />
+                  <Line type="monotone" dataKey="readRate" stroke="#00C49F" name="Read (%)" />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-[300px] flex items-center justify-center text-gray-500">No data for this period</div>
+            )}
+
+            {stats.failureReasons.length > 0 && (
+              <div className="mt-6">
+                <h3 className="text-sm font-semibold mb-2">Delivery Failures</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1">Code</th>
+                      <th className="py-1">Reason</th>
+                      <th className="py-1 text-right">Messages</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.failureReasons.map((reason) => (
+                      <tr key={reason.code} className="border-t">
+                        <td className="py-1 font-mono">{reason.code}</td>
+                        <td className="py-1">{reason.title}</td>
+                        <td className="py-1 text-right">{reason.count}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
           <div className="bg-white p-6 rounded-lg shadow">
             <h2 className="text-lg font-semibold mb-4">Device Breakdown</h2>
             {stats.deviceBreakdown.length > 0 ? (
@@ -6,7 +6,7 @@ import { useAuth } from '@/contexts/AuthContext'
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'
 
 export function AuthModal() {
-  const { isAuthenticated, setCredentials } = useAuth()
+  const { isAuthenticated, setSession } = useAuth()
   const [username, setUsername] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
@@ -27,32 +27,38 @@ export function AuthModal() {
     setIsVerifying(true)
 
     try {
-      // Verify credentials with backend
-      const credentials = btoa(`${username}:${password}`)
-
       // Create abort controller for timeout
       const controller = new AbortController()
       const timeoutId = setTimeout(() => controller.abort(), 10000) // 10 second timeout
 
       try {
-        // Use a simpler endpoint (conversations) instead of stats
-        const response = await fetch(`${API_URL}/admin/conversations?page=1&limit=1`, {
+        const response = await fetch(`${API_URL}/admin/auth/login`, {
+          method: 'POST',
           headers: {
-            'Authorization': `Basic ${credentials}`
+            'Content-Type': 'application/json'
           },
+          body: JSON.stringify({ username, password }),
           signal: controller.signal
         })
 
         clearTimeout(timeoutId)
 
+        if (response.status === 429) {
+          const retryAfter = parseInt(response.headers.get('Retry-After') || '0')
+          setError(`Too many failed attempts. Try again in ${Math.max(1, Math.ceil(retryAfter / 60))} minute(s).`)
+          setIsVerifying(false)
+          return
+        }
+
         if (!response.ok) {
           setError('Invalid username or password')
           setIsVerifying(false)
           return
         }
 
-        // Credentials are valid, save them
-        setCredentials(username, password)
+        // Credentials are valid, keep the session token
+        const session = await response.json()
+        setSession(session.token, session.admin.username, session.admin.role)
         setShowModal(false)
         setUsername('')
         setPassword('')
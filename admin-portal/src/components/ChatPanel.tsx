@@ -1,8 +1,18 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import { X, MousePointer, RefreshCw, Check, AlertCircle } from 'lucide-react';
-import { Message, Conversation, PersonalizedLink, replayMessage } from '@/lib/api';
+import { X, MousePointer, RefreshCw, Check, AlertCircle, Headset, Bot, Send } from 'lucide-react';
+import {
+  Message,
+  Conversation,
+  PersonalizedLink,
+  HandoffStatus,
+  replayMessage,
+  fetchHandoffStatus,
+  startHandoff,
+  resumeHandoff,
+  sendAgentMessage,
+} from '@/lib/api';
 import { formatDate, formatTime } from '@/lib/utils';
 
 // Parse user agent to get a readable device/browser string
@@ -34,9 +44,11 @@ interface ChatPanelProps {
   messages: Message[];
   links: PersonalizedLink[];
   loading: boolean;
+  // Called after an agent message was sent, to reload the transcript
+  onMessageSent?: () => void;
 }
 
-export function ChatPanel({ isOpen, onClose, conversation, messages, links, loading }: ChatPanelProps) {
+export function ChatPanel({ isOpen, onClose, conversation, messages, links, loading, onMessageSent }: ChatPanelProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -151,14 +163,166 @@ export function ChatPanel({ isOpen, onClose, conversation, messages, links, load
             </div>
           )}
         </div>
+
+        {/* Human handoff */}
+        {conversation && (
+          <HandoffBar phoneNumber={conversation.phoneNumber} onMessageSent={onMessageSent} />
+        )}
       </div>
     </>
   );
 }
 
+function HandoffBar({ phoneNumber, onMessageSent }: { phoneNumber: string; onMessageSent?: () => void }) {
+  const [status, setStatus] = useState<HandoffStatus | null>(null);
+  const [mode, setMode] = useState<'text' | 'template'>('text');
+  const [text, setText] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [templateParameters, setTemplateParameters] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setStatus(null);
+    fetchHandoffStatus(phoneNumber)
+      .then(setStatus)
+      .catch((err) => setError(err.message));
+  }, [phoneNumber]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTakeOver = () => run(async () => {
+    setStatus(await startHandoff(phoneNumber));
+  });
+
+  const handleResume = () => run(async () => {
+    const confirmed = window.confirm('Give this conversation back to the bot?');
+    if (!confirmed) return;
+    setStatus(await resumeHandoff(phoneNumber));
+  });
+
+  const handleSend = () => run(async () => {
+    if (mode === 'text') {
+      await sendAgentMessage(phoneNumber, { type: 'text', text: text.trim() });
+      setText('');
+    } else {
+      // One body parameter ({{1}}, {{2}}...) per line
+      const parameters = templateParameters.split('\n').map((line) => line.trim()).filter(Boolean);
+      await sendAgentMessage(phoneNumber, { type: 'template', templateName: templateName.trim(), parameters });
+      setTemplateParameters('');
+    }
+    onMessageSent?.();
+  });
+
+  const canSend = mode === 'text' ? text.trim().length > 0 : templateName.trim().length > 0;
+
+  return (
+    <div className="border-t border-gray-200 bg-white px-4 py-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm">
+          {status?.active ? (
+            <>
+              <Headset className="w-4 h-4 text-amber-600" />
+              <span className="text-gray-700">
+                Handled by <span className="font-medium">{status.agent}</span>, the bot is paused
+              </span>
+            </>
+          ) : (
+            <>
+              <Bot className="w-4 h-4 text-gray-500" />
+              <span className="text-gray-500">
+                The bot is answering{status ? ` (${status.state})` : ''}
+              </span>
+            </>
+          )}
+        </div>
+        {status && (
+          <button
+            onClick={status.active ? handleResume : handleTakeOver}
+            disabled={busy}
+            className={`px-3 py-1.5 text-sm rounded-lg font-medium transition-colors disabled:opacity-50 ${
+              status.active
+                ? 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                : 'bg-amber-500 hover:bg-amber-600 text-white'
+            }`}
+          >
+            {status.active ? 'Resume bot' : 'Take over'}
+          </button>
+        )}
+      </div>
+
+      {status?.active && (
+        <div className="mt-3 space-y-2">
+          <div className="flex gap-2 text-xs">
+            {(['text', 'template'] as const).map((value) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={`px-2 py-1 rounded ${
+                  mode === value ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {value === 'text' ? 'Free text' : 'Template'}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2 items-end">
+            {mode === 'text' ? (
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="Reply as an agent..."
+                rows={2}
+                className="flex-1 resize-none rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+            ) : (
+              <div className="flex-1 space-y-2">
+                <input
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  placeholder="Template name"
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+                <textarea
+                  value={templateParameters}
+                  onChange={(e) => setTemplateParameters(e.target.value)}
+                  placeholder="Parameters, one per line"
+                  rows={2}
+                  className="w-full resize-none rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+              </div>
+            )}
+            <button
+              onClick={handleSend}
+              disabled={busy || !canSend}
+              className="p-2.5 rounded-lg bg-amber-500 hover:bg-amber-600 text-white disabled:opacity-50 transition-colors"
+              title="Send"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
 function MessageBubble({ message, links }: { message: Message; links: PersonalizedLink[] }) {
   const isOutgoing = message.direction === 'outgoing';
   const isIncoming = message.direction === 'incoming';
+  const isAgent = isOutgoing && !!message.agentUsername;
   const timestamp = formatTime(message.timestamp);
 
   const [replayState, setReplayState] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
@@ -193,11 +357,20 @@ function MessageBubble({ message, links }: { message: Message; links: Personaliz
     <div className={`flex ${isOutgoing ? 'justify-start' : 'justify-end'}`}>
       <div
         className={`max-w-[80%] rounded-2xl px-4 py-2 relative ${
-          isOutgoing
+          isAgent
+            ? 'bg-amber-50 border border-amber-200 text-gray-900 rounded-bl-sm'
+            : isOutgoing
             ? 'bg-white border border-gray-200 text-gray-900 rounded-bl-sm'
             : 'bg-blue-600 text-white rounded-br-sm'
         }`}
       >
+        {/* Agent messages, sent from the portal during a human handoff */}
+        {isAgent && (
+          <div className="text-xs mb-1 flex items-center gap-1 text-amber-700">
+            <Headset className="w-3 h-3" />
+            {message.agentUsername}
+          </div>
+        )}
         {/* Replay button for incoming messages */}
         {isIncoming && message.content.type === 'text' && (
           <button
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { Search, ChevronLeft, ChevronRight, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
 
 interface Column<T> {
@@ -33,6 +33,8 @@ interface DataTableProps<T> {
   searchPlaceholder?: string;
   onRowClick?: (row: T) => void;
   defaultSort?: SortConfig;
+  // Changing it reloads the current page without the loading state (live updates)
+  refreshKey?: number;
 }
 
 export function DataTable<T extends Record<string, any>>({
@@ -41,6 +43,7 @@ export function DataTable<T extends Record<string, any>>({
   searchPlaceholder = 'Search...',
   onRowClick,
   defaultSort,
+  refreshKey,
 }: DataTableProps<T>) {
   const [data, setData] = useState<T[]>([]);
   const [pagination, setPagination] = useState<Pagination>({
@@ -61,8 +64,8 @@ export function DataTable<T extends Record<string, any>>({
     return () => clearTimeout(timer);
   }, [search]);
 
-  const loadData = useCallback(async () => {
-    setLoading(true);
+  const loadData = useCallback(async (silent = false) => {
+    if (!silent) setLoading(true);
     try {
       const result = await fetchData(pagination.page, pagination.limit, debouncedSearch, sort);
       setData(result.data);
@@ -78,6 +81,13 @@ export function DataTable<T extends Record<string, any>>({
     loadData();
   }, [loadData]);
 
+  const lastRefreshKey = useRef(refreshKey);
+  useEffect(() => {
+    if (refreshKey === lastRefreshKey.current) return;
+    lastRefreshKey.current = refreshKey;
+    loadData(true);
+  }, [refreshKey, loadData]);
+
   useEffect(() => {
     setPagination((prev) => ({ ...prev, page: 1 }));
   }, [debouncedSearch, sort]);
@@ -2,10 +2,12 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Briefcase, Users, MessageSquare, BarChart3 } from 'lucide-react';
+import { Briefcase, Users, MessageSquare, BarChart3, History, ShieldCheck, LogOut, Database } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { logout } from '@/lib/api';
+import { useAuth, AdminRole } from '@/contexts/AuthContext';
 
-const menuItems = [
+const menuItems: { name: string; href: string; icon: typeof Briefcase; role?: AdminRole }[] = [
   {
     name: 'Scrapped Jobs',
     href: '/jobs',
@@ -21,23 +23,45 @@ const menuItems = [
     href: '/conversations',
     icon: MessageSquare,
   },
+  {
+    name: 'Scraper Sources',
+    href: '/scraper-sources',
+    icon: Database,
+  },
+  {
+    name: 'Scrape History',
+    href: '/scrape-sessions',
+    icon: History,
+  },
   {
     name: 'Stats',
     href: '/stats',
     icon: BarChart3,
   },
+  {
+    name: 'Audit Log',
+    href: '/audit-log',
+    icon: ShieldCheck,
+    role: 'admin',
+  },
 ];
 
 export function Sidebar() {
   const pathname = usePathname();
+  const { username, role, hasRole, clearSession } = useAuth();
+
+  const handleLogout = async () => {
+    await logout();
+    clearSession();
+  };
 
   return (
-    <aside className="w-64 bg-gray-900 text-white min-h-screen p-4">
+    <aside className="w-64 bg-gray-900 text-white min-h-screen p-4 flex flex-col">
       <div className="mb-8">
         <h1 className="text-xl font-bold">Admin Portal</h1>
       </div>
-      <nav className="space-y-2">
-        {menuItems.map((item) => {
+      <nav className="space-y-2 flex-1">
+        {menuItems.filter((item) => !item.role || hasRole(item.role)).map((item) => {
           const isActive = pathname === item.href;
           return (
             <Link
@@ -56,6 +80,21 @@ export function Sidebar() {
           );
         })}
       </nav>
+      {username && (
+        <div className="border-t border-gray-700 pt-4 flex items-center justify-between">
+          <div className="text-sm">
+            <div className="text-white">{username}</div>
+            <div className="text-gray-400 text-xs">{role}</div>
+          </div>
+          <button
+            onClick={handleLogout}
+            className="p-2 rounded-lg text-gray-300 hover:bg-gray-800 hover:text-white"
+            title="Log out"
+          >
+            <LogOut className="w-5 h-5" />
+          </button>
+        </div>
+      )}
     </aside>
   );
 }
@@ -2,12 +2,17 @@
 
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
 
+export type AdminRole = 'viewer' | 'operator' | 'admin'
+
+const ROLE_ORDER: AdminRole[] = ['viewer', 'operator', 'admin']
+
 interface AuthContextType {
   username: string | null
-  password: string | null
+  role: AdminRole | null
   isAuthenticated: boolean
-  setCredentials: (username: string, password: string) => void
-  clearCredentials: () => void
+  setSession: (token: string, username: string, role: AdminRole) => void
+  clearSession: () => void
+  hasRole: (role: AdminRole) => boolean
   getAuthHeader: () => string
 }
 
@@ -15,56 +20,67 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [username, setUsername] = useState<string | null>(null)
-  const [password, setPassword] = useState<string | null>(null)
+  const [token, setToken] = useState<string | null>(null)
+  const [role, setRole] = useState<AdminRole | null>(null)
   const [isAuthenticated, setIsAuthenticated] = useState(false)
 
-  // Load credentials from localStorage on mount
+  // Load session from localStorage on mount
   useEffect(() => {
     const storedUsername = localStorage.getItem('admin_username')
-    const storedPassword = localStorage.getItem('admin_password')
+    const storedToken = localStorage.getItem('admin_token')
+    const storedRole = localStorage.getItem('admin_role') as AdminRole | null
 
-    if (storedUsername && storedPassword) {
+    if (storedUsername && storedToken) {
       setUsername(storedUsername)
-      setPassword(storedPassword)
+      setToken(storedToken)
+      setRole(storedRole || 'viewer')
       setIsAuthenticated(true)
     }
   }, [])
 
-  const setCredentials = (newUsername: string, newPassword: string) => {
+  const setSession = (newToken: string, newUsername: string, newRole: AdminRole) => {
     setUsername(newUsername)
-    setPassword(newPassword)
+    setToken(newToken)
+    setRole(newRole)
     setIsAuthenticated(true)
 
     // Store in localStorage
     localStorage.setItem('admin_username', newUsername)
-    localStorage.setItem('admin_password', newPassword)
+    localStorage.setItem('admin_token', newToken)
+    localStorage.setItem('admin_role', newRole)
   }
 
-  const clearCredentials = () => {
+  const clearSession = () => {
     setUsername(null)
-    setPassword(null)
+    setToken(null)
+    setRole(null)
     setIsAuthenticated(false)
 
     // Clear from localStorage
     localStorage.removeItem('admin_username')
-    localStorage.removeItem('admin_password')
+    localStorage.removeItem('admin_token')
+    localStorage.removeItem('admin_role')
   }
 
+  // Only hides actions in the UI, the API enforces roles
+  const hasRole = (required: AdminRole) =>
+    !!role && ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(required)
+
   const getAuthHeader = () => {
-    if (!username || !password) return ''
+    if (!token) return ''
 
-    const credentials = btoa(`${username}:${password}`)
-    return `Basic ${credentials}`
+    return `Bearer ${token}`
   }
 
   return (
     <AuthContext.Provider
       value={{
         username,
-        password,
+        role,
         isAuthenticated,
-        setCredentials,
-        clearCredentials,
+        setSession,
+        clearSession,
+        hasRole,
         getAuthHeader,
       }}
     >
@@ -15,16 +15,14 @@ interface ApiResponse<T> {
 }
 
 function getAuthHeaders(): HeadersInit {
-  const username = localStorage.getItem('admin_username')
-  const password = localStorage.getItem('admin_password')
+  const token = localStorage.getItem('admin_token')
 
-  if (!username || !password) {
+  if (!token) {
     return {}
   }
 
-  const credentials = btoa(`${username}:${password}`)
   return {
-    'Authorization': `Basic ${credentials}`
+    'Authorization': `Bearer ${token}`
   }
 }
 
@@ -47,7 +45,7 @@ export async function fetchJobs(page: number, limit: number, search: string, sor
   if (!response.ok) {
     if (response.status === 401) {
       localStorage.removeItem('admin_username')
-      localStorage.removeItem('admin_password')
+      localStorage.removeItem('admin_token')
       window.location.reload()
     }
     throw new Error('Failed to fetch jobs');
@@ -74,7 +72,7 @@ export async function fetchBotUsers(page: number, limit: number, search: string,
   if (!response.ok) {
     if (response.status === 401) {
       localStorage.removeItem('admin_username')
-      localStorage.removeItem('admin_password')
+      localStorage.removeItem('admin_token')
       window.location.reload()
     }
     throw new Error('Failed to fetch bot users');
@@ -100,7 +98,7 @@ export async function fetchBotUserStats(phoneNumber: string): Promise<BotUserSta
   if (!response.ok) {
     if (response.status === 401) {
       localStorage.removeItem('admin_username')
-      localStorage.removeItem('admin_password')
+      localStorage.removeItem('admin_token')
       window.location.reload()
     }
     throw new Error('Failed to fetch bot user stats');
@@ -146,6 +144,8 @@ export interface Message {
     processedAt?: number;
     jobOffersCount?: number;
   };
+  // Admin who wrote the message during a human handoff
+  agentUsername?: string | null;
 }
 
 export async function fetchConversations(page: number, limit: number, search: string, sort?: SortConfig): Promise<ApiResponse<Conversation>> {
@@ -167,7 +167,7 @@ export async function fetchConversations(page: number, limit: number, search: st
   if (!response.ok) {
     if (response.status === 401) {
       localStorage.removeItem('admin_username')
-      localStorage.removeItem('admin_password')
+      localStorage.removeItem('admin_token')
       window.location.reload()
     }
     throw new Error('Failed to fetch conversations');
@@ -213,7 +213,7 @@ export async function fetchConversationMessages(conversationId: string): Promise
   if (!response.ok) {
     if (response.status === 401) {
       localStorage.removeItem('admin_username')
-      localStorage.removeItem('admin_password')
+      localStorage.removeItem('admin_token')
       window.location.reload()
     }
     throw new Error('Failed to fetch conversation messages');
@@ -227,6 +227,16 @@ export interface StatsResponse {
   returningUsersPerBucket: Array<{ bucket: number; count: number }>;
   clicksPerBucket: Array<{ bucket: number; count: number }>;
   deviceBreakdown: Array<{ device: string; count: number }>;
+  deliveryRatesPerBucket: Array<{
+    bucket: number;
+    sent: number;
+    delivered: number;
+    read: number;
+    failed: number;
+    deliveryRate: number;
+    readRate: number;
+  }>;
+  failureReasons: Array<{ code: number; title: string; count: number }>;
   timeRange: { startTime: number; endTime: number };
 }
 
@@ -242,7 +252,7 @@ export async function fetchStats(startTime: number, endTime: number): Promise<St
   if (!response.ok) {
     if (response.status === 401) {
       localStorage.removeItem('admin_username')
-      localStorage.removeItem('admin_password')
+      localStorage.removeItem('admin_token')
       window.location.reload()
     }
     throw new Error('Failed to fetch stats');
@@ -293,7 +303,7 @@ export async function replayMessage(
   if (!response.ok) {
     if (response.status === 401) {
       localStorage.removeItem('admin_username')
-      localStorage.removeItem('admin_password')
+      localStorage.removeItem('admin_token')
       window.location.reload()
     }
     throw new Error('Failed to replay message');
@@ -301,3 +311,382 @@ export async function replayMessage(
 
   return response.json();
 }
+
+export interface HandoffStatus {
+  phoneNumber: string;
+  active: boolean;
+  agent: string | null;
+  state: string;
+}
+
+export type AgentMessage =
+  | { type: 'text'; text: string }
+  | { type: 'template'; templateName: string; languageCode?: string; parameters?: string[] };
+
+async function handoffRequest<T>(phoneNumber: string, path: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(`${API_URL}/admin/handoffs/${encodeURIComponent(phoneNumber)}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getAuthHeaders(),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      localStorage.removeItem('admin_username')
+      localStorage.removeItem('admin_token')
+      window.location.reload()
+    }
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || 'Handoff request failed');
+  }
+
+  return response.json();
+}
+
+export function fetchHandoffStatus(phoneNumber: string): Promise<HandoffStatus> {
+  return handoffRequest(phoneNumber, '', 'GET');
+}
+
+export function startHandoff(phoneNumber: string): Promise<HandoffStatus> {
+  return handoffRequest(phoneNumber, '', 'POST');
+}
+
+export function sendAgentMessage(phoneNumber: string, message: AgentMessage): Promise<Message> {
+  return handoffRequest(phoneNumber, '/messages', 'POST', message);
+}
+
+export function resumeHandoff(phoneNumber: string): Promise<HandoffStatus> {
+  return handoffRequest(phoneNumber, '/resume', 'POST');
+}
+
+export type AdminEvent = { publishedAt: number } & (
+  | { type: 'message.saved'; data: Message }
+  | { type: 'conversation.started'; data: { id: string; phoneNumber: string; sessionId: string; startedAt: number } }
+  | { type: 'link.clicked'; data: { id: string; phoneNumber: string; jobAdId: string; jobTitle?: string; clickCount: number } }
+  | {
+      type: 'scrape.finished';
+      data: {
+        id?: string;
+        sourceName: string;
+        status: string;
+        pagesScraped: number;
+        jobsFound: number;
+        jobsUpdated: number;
+        durationMs: number | null;
+        errors: string[];
+      };
+    }
+);
+
+// Delay before reconnecting a dropped event stream
+const EVENTS_RECONNECT_DELAY_MS = 3000;
+
+/**
+ * Live admin events (Server-Sent Events of /admin/events)
+ * Read with fetch as EventSource can't send the Authorization header, reconnects when the stream drops
+ * @returns Unsubscribe function
+ */
+export function subscribeAdminEvents(onEvent: (event: AdminEvent) => void): () => void {
+  const controller = new AbortController();
+
+  const connect = async () => {
+    while (!controller.signal.aborted) {
+      try {
+        const response = await fetch(`${API_URL}/admin/events`, {
+          headers: getAuthHeaders(),
+          signal: controller.signal,
+        });
+        if (response.status === 401) {
+          localStorage.removeItem('admin_username')
+          localStorage.removeItem('admin_token')
+          window.location.reload()
+          return;
+        }
+        if (!response.ok || !response.body) {
+          throw new Error('Failed to open admin events stream');
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+
+          // Events are separated by a blank line, the last chunk may be incomplete
+          buffer += value;
+          const chunks = buffer.split('\n\n');
+          buffer = chunks.pop() || '';
+
+          for (const chunk of chunks) {
+            const data = chunk
+              .split('\n')
+              .filter((line) => line.startsWith('data: '))
+              .map((line) => line.slice('data: '.length))
+              .join('\n');
+            if (data) onEvent(JSON.parse(data));
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Admin events stream error:', error);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, EVENTS_RECONNECT_DELAY_MS));
+    }
+  };
+
+  connect();
+
+  return () => controller.abort();
+}
+
+export interface ScraperSource {
+  id: string;
+  name: string;
+  url: string;
+  scraperKey?: string;
+  lastScrapedAt?: string;
+  lastPageScrapped?: number;
+  isActive: boolean;
+  shouldScrapeNext: boolean;
+  scrapeInterval?: number;
+  maxPages?: number;
+  totalJobsFound: number;
+  healthStatus: 'healthy' | 'degraded';
+  consecutiveEmptyRuns: number;
+  degradedAt?: string | null;
+  healthMetrics?: {
+    lastRunAt: string;
+    jobsScraped: number;
+    dateParseFailures: number;
+    lastError?: string;
+    reasons: string[];
+  } | null;
+  lastSession?: ScrapeSession | null;
+  pendingJob?: ScrapeJob | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScraperSourceInput {
+  name: string;
+  url: string;
+  scraperKey: string;
+  scrapeInterval?: number;
+  maxPages?: number;
+  isActive?: boolean;
+}
+
+export type ScraperSourceUpdate = Partial<Omit<ScraperSourceInput, 'name'>>;
+
+export interface ScrapeJobProgress {
+  page: number;
+  totalPages: number;
+  jobsFound: number;
+  jobsUpdated: number;
+}
+
+export interface ScrapeJob {
+  id: string;
+  sourceId: string;
+  sourceName: string;
+  mode: 'manual' | 'automatic';
+  state: 'active' | 'waiting' | 'delayed' | 'prioritized' | 'completed' | 'failed' | 'waiting-children' | 'unknown';
+  progress: ScrapeJobProgress | null;
+  attemptsMade: number;
+  failedReason?: string;
+  createdAt: number;
+  processedAt?: number;
+  finishedAt?: number;
+}
+
+export interface ScrapePageStat {
+  page: number;
+  durationMs: number;
+  jobsScraped: number;
+  jobsSaved: number;
+  jobsUpdated: number;
+  error?: string;
+}
+
+export interface ScrapeSession {
+  id: string;
+  sessionId: string;
+  sourceId: string;
+  sourceName: string;
+  mode: 'manual' | 'automatic';
+  status: 'in_progress' | 'completed' | 'failed';
+  startedAt: string;
+  completedAt?: string;
+  pagesScraped: number;
+  jobsFound: number;
+  jobsUpdated: number;
+  pageStats?: ScrapePageStat[];
+  errors?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export async function fetchScrapeSessions(
+  page: number,
+  limit: number,
+  search: string,
+  sort?: SortConfig,
+  sourceId?: string
+): Promise<ApiResponse<ScrapeSession>> {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    limit: limit.toString(),
+  });
+  if (search) {
+    params.set('search', search);
+  }
+  if (sort?.key && sort?.order) {
+    params.set('sortBy', sort.key);
+    params.set('sortOrder', sort.order);
+  }
+  if (sourceId) {
+    params.set('sourceId', sourceId);
+  }
+
+  const response = await fetch(`${API_URL}/admin/scrape-sessions?${params}`, {
+    headers: getAuthHeaders()
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      localStorage.removeItem('admin_username')
+      localStorage.removeItem('admin_token')
+      window.location.reload()
+    }
+    throw new Error('Failed to fetch scrape sessions');
+  }
+  return response.json();
+}
+
+export async function fetchScraperSources(): Promise<{ data: ScraperSource[]; scraperKeys: string[] }> {
+  const response = await fetch(`${API_URL}/admin/scraper-sources`, {
+    headers: getAuthHeaders()
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      localStorage.removeItem('admin_username')
+      localStorage.removeItem('admin_token')
+      window.location.reload()
+    }
+    throw new Error('Failed to fetch scraper sources');
+  }
+  return response.json();
+}
+
+async function scraperRequest<T>(path: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(`${API_URL}/admin${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getAuthHeaders(),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      localStorage.removeItem('admin_username')
+      localStorage.removeItem('admin_token')
+      window.location.reload()
+    }
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || 'Scraper request failed');
+  }
+
+  return response.json();
+}
+
+export function createScraperSource(input: ScraperSourceInput): Promise<ScraperSource> {
+  return scraperRequest('/scraper-sources', 'POST', input);
+}
+
+export function updateScraperSource(id: string, update: ScraperSourceUpdate): Promise<ScraperSource> {
+  return scraperRequest(`/scraper-sources/${id}`, 'PATCH', update);
+}
+
+export function deleteScraperSource(id: string): Promise<{ success: boolean }> {
+  return scraperRequest(`/scraper-sources/${id}`, 'DELETE');
+}
+
+export function triggerScrape(sourceId: string): Promise<ScrapeJob> {
+  return scraperRequest(`/scraper-sources/${sourceId}/scrape`, 'POST');
+}
+
+export function fetchScrapeJobs(sourceId?: string): Promise<{ data: ScrapeJob[] }> {
+  const params = new URLSearchParams();
+  if (sourceId) {
+    params.set('sourceId', sourceId);
+  }
+  return scraperRequest(`/scrape-jobs?${params}`, 'GET');
+}
+
+export type AuditAction =
+  | 'login'
+  | 'message_replayed'
+  | 'handoff_started'
+  | 'handoff_message_sent'
+  | 'handoff_ended'
+  | 'job_deleted'
+  | 'scraper_health_reset'
+  | 'scraper_source_created'
+  | 'scraper_source_updated'
+  | 'scraper_source_deleted'
+  | 'scrape_triggered'
+  | 'admin_user_created'
+  | 'admin_user_updated';
+
+export interface AuditLog {
+  id: string;
+  action: AuditAction;
+  actor: string;
+  target?: string;
+  details?: Record<string, unknown>;
+  ip?: string;
+  createdAt: string;
+}
+
+export async function fetchAuditLogs(
+  page: number,
+  limit: number,
+  actor: string,
+  action?: AuditAction
+): Promise<ApiResponse<AuditLog>> {
+  const params = new URLSearchParams({
+    page: page.toString(),
+    limit: limit.toString(),
+  });
+  if (actor) {
+    params.set('actor', actor);
+  }
+  if (action) {
+    params.set('action', action);
+  }
+
+  const response = await fetch(`${API_URL}/admin/audit-logs?${params}`, {
+    headers: getAuthHeaders()
+  });
+  if (!response.ok) {
+    if (response.status === 401) {
+      localStorage.removeItem('admin_username')
+      localStorage.removeItem('admin_token')
+      window.location.reload()
+    }
+    throw new Error('Failed to fetch audit logs');
+  }
+  return response.json();
+}
+
+export async function logout(): Promise<void> {
+  await fetch(`${API_URL}/admin/auth/logout`, {
+    method: 'POST',
+    headers: getAuthHeaders()
+  }).catch(() => null);
+}
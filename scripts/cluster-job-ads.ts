@@ -0,0 +1,43 @@
+import { initializeDatabase } from '../src/db'
+import { JobAdRepository } from '../src/db/repositories/JobAdRepository'
+import { JobAdMapper } from '../src/db/mappers'
+import { JobDeduplicationService } from '../src/services/job-deduplication.service'
+import { JobFingerprint } from '../src/utils/job-fingerprint'
+
+await initializeDatabase()
+
+console.log('🧬 Fingerprinting and clustering existing job ads...\n')
+
+const BATCH_SIZE = 200
+const jobRepo = new JobAdRepository()
+const deduplication = new JobDeduplicationService()
+
+let processed = 0
+let clustered = 0
+
+try {
+  // Oldest jobs first, so the earliest posting of a vacancy stays the canonical one
+  let batch = await jobRepo.findWithoutFingerprint(BATCH_SIZE)
+
+  while (batch.length > 0) {
+    for (const entity of batch) {
+      // Empty fingerprint for titles with nothing to compare, so they are not picked up again
+      await jobRepo.update(entity.id, { fingerprint: JobFingerprint.compute(entity) || '' })
+
+      if (await deduplication.clusterJob(JobAdMapper.toModel(entity))) {
+        clustered++
+      }
+      processed++
+    }
+
+    console.log(`📊 ${processed} jobs processed, ${clustered} duplicates clustered`)
+    batch = await jobRepo.findWithoutFingerprint(BATCH_SIZE)
+  }
+
+  console.log(`\n✅ Done! ${processed} jobs fingerprinted, ${clustered} duplicates clustered`)
+} catch (error) {
+  console.error('❌ Error clustering job ads:', error)
+  process.exit(1)
+}
+
+process.exit(0)
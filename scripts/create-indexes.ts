@@ -6,18 +6,18 @@ console.log('🔧 Creating database indexes...\n')
 
 const indexes = [
   {
-    name: 'idx_job_ads_fulltext_french',
-    description: 'Full-text search index for French language on job fields',
+    name: 'idx_job_ads_search_vector',
+    description: 'Full-text search index on the weighted searchVector column (French)',
     sql: `
-      CREATE INDEX IF NOT EXISTS idx_job_ads_fulltext_french
-      ON job_ads USING GIN(
-        to_tsvector('french',
-          COALESCE(title, '') || ' ' ||
-          COALESCE(description, '') || ' ' ||
-          COALESCE(company, '') || ' ' ||
-          COALESCE(location, '')
-        )
-      )
+      CREATE INDEX IF NOT EXISTS idx_job_ads_search_vector
+      ON job_ads USING GIN("searchVector")
+    `,
+  },
+  {
+    name: 'drop_idx_job_ads_fulltext_french',
+    description: 'Drop the unweighted full-text index, replaced by idx_job_ads_search_vector',
+    sql: `
+      DROP INDEX IF EXISTS idx_job_ads_fulltext_french
     `,
   },
   {
@@ -79,6 +79,32 @@ const indexes = [
       ON job_ads USING GIN(title gin_trgm_ops)
     `,
   },
+  {
+    name: 'idx_job_ads_fingerprint',
+    description: 'Index on fingerprint for cross-source duplicate detection',
+    sql: `
+      CREATE INDEX IF NOT EXISTS idx_job_ads_fingerprint
+      ON job_ads(fingerprint)
+    `,
+  },
+  {
+    name: 'idx_job_ads_cluster_id',
+    description: 'Index on clusterId for loading alternate links of duplicate jobs',
+    sql: `
+      CREATE INDEX IF NOT EXISTS idx_job_ads_cluster_id
+      ON job_ads("clusterId")
+      WHERE "clusterId" IS NOT NULL
+    `,
+  },
+  {
+    name: 'idx_job_ads_expires_at',
+    description: 'Index on expiresAt for the job expiry sweep',
+    sql: `
+      CREATE INDEX IF NOT EXISTS idx_job_ads_expires_at
+      ON job_ads("expiresAt")
+      WHERE "expiredAt" IS NULL
+    `,
+  },
   {
     name: 'idx_bot_users_phone_number',
     description: 'Index on phoneNumber for quick user lookup',
@@ -95,6 +121,14 @@ const indexes = [
       ON bot_users("lastMessageAt" DESC)
     `,
   },
+  {
+    name: 'idx_personalized_links_job_ad_id',
+    description: 'Index on jobAdId for deactivating the links of expired jobs',
+    sql: `
+      CREATE INDEX IF NOT EXISTS idx_personalized_links_job_ad_id
+      ON personalized_links("jobAdId")
+    `,
+  },
   {
     name: 'idx_personalized_links_link_id',
     description: 'Index on linkId for quick link resolution',
@@ -143,6 +177,14 @@ const indexes = [
       ON messages("createdAt" DESC)
     `,
   },
+  {
+    name: 'idx_messages_whatsapp_message_ids',
+    description: 'GIN index on whatsappMessageIds to match delivery statuses to messages',
+    sql: `
+      CREATE INDEX IF NOT EXISTS idx_messages_whatsapp_message_ids
+      ON messages USING GIN("whatsappMessageIds")
+    `,
+  },
   {
     name: 'idx_scraper_sources_active',
     description: 'Index on isActive for filtering active scrapers',
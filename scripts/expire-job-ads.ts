@@ -0,0 +1,80 @@
+import { AppDataSource } from '../src/db/data-source'
+import { JobAdEntity } from '../src/db/entities/JobAdEntity'
+import { JobExpiryService } from '../src/services/job-expiry.service'
+import { JobExpiryPolicy } from '../src/utils/job-expiry'
+import cliProgress from 'cli-progress'
+import { In } from 'typeorm'
+
+// Usage: bun run expire-jobs [--all] [--revalidate]
+// Computes expiresAt (only for jobs missing it, unless --all), then expires the jobs past it
+// With --revalidate, also checks that the URLs of a batch of jobs still resolve
+const processAll = process.argv.includes('--all')
+const revalidate = process.argv.includes('--revalidate')
+const BATCH_SIZE = 500
+
+async function main() {
+  console.log('🚀 Starting job expiry...\n')
+
+  await AppDataSource.initialize()
+  console.log('✅ Database connected\n')
+
+  const repository = AppDataSource.getRepository(JobAdEntity)
+
+  const query = repository.createQueryBuilder('job').where('job.deletedAt IS NULL').andWhere('job."expiredAt" IS NULL')
+  if (!processAll) {
+    query.andWhere('job."expiresAt" IS NULL')
+  }
+
+  const jobIds = (await query.select('job.id').orderBy('job.createdAt', 'ASC').getMany()).map(job => job.id)
+
+  console.log(`📊 Found ${jobIds.length} jobs to compute expiry for\n`)
+
+  let updated = 0
+  let failed = 0
+
+  if (jobIds.length > 0) {
+    const progressBar = new cliProgress.SingleBar({
+      format: 'Progress |{bar}| {percentage}% | {value}/{total} | Updated: {updated} | Failed: {failed}',
+      barCompleteChar: '█',
+      barIncompleteChar: '░',
+      hideCursor: true,
+    })
+
+    progressBar.start(jobIds.length, 0, { updated, failed })
+
+    for (let i = 0; i < jobIds.length; i += BATCH_SIZE) {
+      const batch = await repository.findBy({ id: In(jobIds.slice(i, i + BATCH_SIZE)) })
+
+      for (const entity of batch) {
+        try {
+          await repository.update(entity.id, { expiresAt: JobExpiryPolicy.computeExpiresAt(entity) })
+          updated++
+        } catch (error: any) {
+          failed++
+        }
+        progressBar.increment(1, { updated, failed })
+      }
+    }
+
+    progressBar.stop()
+  }
+
+  const expiryService = new JobExpiryService()
+  const expired = await expiryService.sweep()
+  const revalidation = revalidate ? await expiryService.revalidate() : null
+
+  await AppDataSource.destroy()
+
+  console.log('\n📈 Expiry Summary:')
+  console.log(`  ✅ expiresAt computed: ${updated}`)
+  console.log(`  ❌ Failed: ${failed}`)
+  console.log(`  ⌛ Expired: ${expired}`)
+  if (revalidation) {
+    console.log(`  🔗 URLs checked: ${revalidation.checked} (${revalidation.expired} gone, ${revalidation.errors} unreachable)`)
+  }
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error)
+  process.exit(1)
+})
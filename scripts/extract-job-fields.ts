@@ -0,0 +1,86 @@
+import { AppDataSource } from '../src/db/data-source'
+import { JobAdEntity } from '../src/db/entities/JobAdEntity'
+import { JobAdMapper } from '../src/db/mappers'
+import { extractStructuredFields } from '../src/scrapers/fields'
+import cliProgress from 'cli-progress'
+import { In } from 'typeorm'
+
+// Usage: bun run extract-job-fields [--all]
+// Without --all, only jobs without any structured field are processed
+const processAll = process.argv.includes('--all')
+const BATCH_SIZE = 500
+
+async function main() {
+  console.log('🚀 Starting structured job fields extraction...\n')
+
+  await AppDataSource.initialize()
+  console.log('✅ Database connected\n')
+
+  const repository = AppDataSource.getRepository(JobAdEntity)
+
+  const query = repository.createQueryBuilder('job').where('job.deletedAt IS NULL')
+  if (!processAll) {
+    query.andWhere(
+      `job."contractType" IS NULL AND job."experienceLevel" IS NULL AND job."educationLevel" IS NULL
+       AND job."applicationDeadline" IS NULL AND job.sector IS NULL AND job.skills IS NULL`
+    )
+  }
+
+  const jobIds = (await query.select('job.id').orderBy('job.createdAt', 'ASC').getMany()).map(job => job.id)
+
+  console.log(`📊 Found ${jobIds.length} jobs to process\n`)
+
+  if (jobIds.length === 0) {
+    console.log('✅ All jobs already have structured fields!')
+    await AppDataSource.destroy()
+    return
+  }
+
+  let updated = 0
+  let empty = 0
+  let failed = 0
+
+  const progressBar = new cliProgress.SingleBar({
+    format: 'Progress |{bar}| {percentage}% | {value}/{total} | Updated: {updated} | Nothing found: {empty} | Failed: {failed}',
+    barCompleteChar: '\u2588',
+    barIncompleteChar: '\u2591',
+    hideCursor: true,
+  })
+
+  progressBar.start(jobIds.length, 0, { updated, empty, failed })
+
+  for (let i = 0; i < jobIds.length; i += BATCH_SIZE) {
+    const batch = await repository.findBy({ id: In(jobIds.slice(i, i + BATCH_SIZE)) })
+
+    for (const entity of batch) {
+      try {
+        const fields = extractStructuredFields(JobAdMapper.toModel(entity))
+
+        if (Object.keys(fields).length === 0) {
+          empty++
+        } else {
+          await repository.update(entity.id, fields)
+          updated++
+        }
+      } catch (error: any) {
+        failed++
+      }
+      progressBar.increment(1, { updated, empty, failed })
+    }
+  }
+
+  progressBar.stop()
+
+  await AppDataSource.destroy()
+
+  console.log('\n📈 Extraction Summary:')
+  console.log(`  ✅ Updated: ${updated}`)
+  console.log(`  ⚠️  Nothing found: ${empty}`)
+  console.log(`  ❌ Failed: ${failed}`)
+  console.log(`  📊 Total: ${jobIds.length}`)
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error)
+  process.exit(1)
+})
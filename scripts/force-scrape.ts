@@ -1,6 +1,7 @@
 import { initializeDatabase } from '../src/db'
 import { ScraperSourceRepository } from '../src/db/repositories/ScraperSourceRepository'
 import { getScrapeQueue, closeScrapeQueue } from '../src/queues/scrape.queue'
+import { ScrapeMode } from '../src/models/ScrapeSession'
 
 await initializeDatabase()
 
@@ -31,6 +32,7 @@ try {
       sourceId: source.id!,
       sourceName: source.name,
       maxPages: source.maxPages || maxPages,
+      mode: ScrapeMode.MANUAL,
     })
     console.log(`✅ ${source.name} - job enqueued for immediate scraping`)
   }
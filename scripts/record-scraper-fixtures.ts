@@ -0,0 +1,53 @@
+import { rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { scraperRegistry } from '../src/scrapers'
+import { FixtureStore } from '../src/scrapers/harness/FixtureStore'
+import { scraperHarness } from '../src/scrapers/harness/ScraperHarness'
+import { createOfflineScraper, toGoldenJobAds } from '../src/scrapers/harness/golden'
+
+// Usage: bun run record-fixtures [scraperKey|all] [page]
+const target = process.argv[2] || 'all'
+const page = parseInt(process.argv[3] || '1')
+const fixturesDir = join(import.meta.dir, '../tests/fixtures/scrapers')
+
+const keys = target === 'all' ? scraperRegistry.keys() : [target]
+const unknown = keys.filter(key => !scraperRegistry.has(key))
+
+if (unknown.length > 0) {
+  console.error(`❌ Unknown scraper: ${unknown.join(', ')}`)
+  console.log(`ℹ️  Available scrapers: ${scraperRegistry.keys().join(', ')}`)
+  process.exit(1)
+}
+
+console.log(`🎥 Recording fixtures for ${keys.length} scraper(s), page ${page}...\n`)
+
+let failures = 0
+
+for (const key of keys) {
+  const dir = join(fixturesDir, key)
+
+  try {
+    // Start from a clean snapshot so stale responses do not linger
+    rmSync(dir, { recursive: true, force: true })
+
+    const store = new FixtureStore(dir, key, page)
+    scraperHarness.useRecord(store)
+
+    const jobs = await createOfflineScraper(key).scrape(page)
+    await scraperHarness.flush()
+
+    store.flush()
+    writeFileSync(join(dir, 'expected.json'), JSON.stringify(toGoldenJobAds(jobs), null, 2) + '\n')
+
+    console.log(`✅ ${key} - ${jobs.length} jobs recorded in ${dir}`)
+  } catch (error: any) {
+    failures++
+    console.error(`❌ ${key} - recording failed: ${error?.message}`)
+  }
+}
+
+scraperHarness.useLive()
+
+console.log(failures > 0 ? `\n⚠️  Completed with ${failures} failure(s)` : '\n✅ Recording completed!')
+console.log('ℹ️  Review expected.json changes before committing them')
+process.exit(failures > 0 ? 1 : 0)
@@ -11,6 +11,7 @@ const sources = [
   new ScraperSource({
     name: 'sociumjob',
     url: 'https://sociumjob.com/api/jobs/get-all-jobs',
+    scraperKey: 'sociumjob',
     isActive: true,
     shouldScrapeNext: false,
     scrapeInterval: 30, // 30 minutes
@@ -20,6 +21,7 @@ const sources = [
   new ScraperSource({
     name: 'djamo',
     url: 'https://djamo.breezy.hr',
+    scraperKey: 'djamo',
     isActive: true,
     shouldScrapeNext: false,
     scrapeInterval: 60, // 1 hour
@@ -29,6 +31,7 @@ const sources = [
   new ScraperSource({
     name: 'educarriere',
     url: 'https://emploi.educarriere.ci',
+    scraperKey: 'educarriere',
     isActive: true,
     shouldScrapeNext: false,
     scrapeInterval: 45, // 45 minutes
@@ -38,6 +41,7 @@ const sources = [
   new ScraperSource({
     name: 'optioncarriere',
     url: 'https://www.optioncarriere.ci/emploi',
+    scraperKey: 'optioncarriere',
     isActive: true,
     shouldScrapeNext: false,
     scrapeInterval: 30,
@@ -47,6 +51,7 @@ const sources = [
   new ScraperSource({
     name: 'jobivoire',
     url: 'https://jobivoire.ci',
+    scraperKey: 'jobivoire',
     isActive: true,
     shouldScrapeNext: false,
     scrapeInterval: 30,
@@ -56,6 +61,7 @@ const sources = [
   new ScraperSource({
     name: 'projobivoire',
     url: 'https://projobivoire.com',
+    scraperKey: 'projobivoire',
     isActive: true,
     shouldScrapeNext: false,
     scrapeInterval: 30,
@@ -71,6 +77,13 @@ for (const source of sources) {
   const existing = await scraperSourceRepo.findModelByName(source.name)
 
   if (existing) {
+    // Backfill the scraper key on sources created before the scraper registry
+    if (!existing.scraperKey && existing.id) {
+      await scraperSourceRepo.update(existing.id, { scraperKey: source.scraperKey })
+      console.log(`🔑 Set scraper key of ${source.name} to ${source.scraperKey}`)
+      continue
+    }
+
     console.log(`⏭️  Skipping ${source.name} (already exists)`)
     continue
   }
@@ -0,0 +1,20 @@
+import { WhatsAppCloudApiSimulator } from '../src/simulators/whatsapp-cloud-api.simulator'
+
+// Local stand-in for the WhatsApp Cloud API, start the bot with WHATSAPP_API_BASE_URL=http://localhost:4010
+const port = parseInt(process.env.WHATSAPP_SIMULATOR_PORT || '4010')
+const webhookUrl = process.env.WHATSAPP_SIMULATOR_WEBHOOK_URL || 'http://localhost:3000/webhook/whatsapp'
+
+const simulator = new WhatsAppCloudApiSimulator({
+  webhookUrl,
+  appSecret: process.env.WHATSAPP_APP_SECRET,
+  phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID,
+  businessAccountId: process.env.WHATSAPP_BUSINESS_ACCOUNT_ID,
+  deliveryStatuses: ['sent', 'delivered', 'read'],
+})
+
+const baseUrl = simulator.start(port)
+
+console.log(`📱 WhatsApp Cloud API simulator running on ${baseUrl}`)
+console.log(`   Webhooks posted to ${webhookUrl}\n`)
+console.log(`   Send a message:  curl -X POST ${baseUrl}/_simulator/inbound -H 'Content-Type: application/json' -d '{"from":"2250700000001","text":"Bonjour"}'`)
+console.log(`   Bot replies:     curl ${baseUrl}/_simulator/messages?to=2250700000001`)
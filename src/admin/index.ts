@@ -4,21 +4,206 @@ import { BotUserRepository } from '../db/repositories/BotUserRepository'
 import { MessageRepository } from '../db/repositories/MessageRepository'
 import { ConversationRepository } from '../db/repositories/ConversationRepository'
 import { PersonalizedLinkRepository } from '../db/repositories/PersonalizedLinkRepository'
+import { ScrapeSessionRepository } from '../db/repositories/ScrapeSessionRepository'
+import { ScraperSourceRepository } from '../db/repositories/ScraperSourceRepository'
+import { WebhookDeadLetterRepository } from '../db/repositories/WebhookDeadLetterRepository'
+import { AdminAuditLogRepository } from '../db/repositories/AdminAuditLogRepository'
+import type { AdminAuditAction } from '../db/entities/AdminAuditLogEntity'
 import { cors } from '@elysiajs/cors'
-import { basicAuth } from '../middleware/basicAuth'
+import { adminAuth, getBearerToken, getClientIp } from '../middleware/adminAuth'
 import { getWhatsAppMessageQueue } from '../queues/whatsapp-message.queue'
+import { ScraperHealthService } from '../services/scraper-health.service'
+import { MessageDeduplicationService } from '../services/message-deduplication.service'
+import { MessageOrderingService } from '../services/message-ordering.service'
+import { ConversationStateService } from '../services/conversation-state.service'
+import { ChatHistoryService } from '../services/chat-history.service'
+import { DelayedMessageService } from '../services/delayed-message.service'
+import { HumanHandoffService } from '../services/human-handoff.service'
+import { ScrapeJobsService } from '../services/scrape-jobs.service'
+import { getDelayedMessageQueue } from '../queues/delayed-message.queue'
+import { getScrapeQueue } from '../queues/scrape.queue'
+import { scraperRegistry } from '@/scrapers'
+import { getRedisConnection } from '@config/redis'
+import { getFeatureFlagService } from '@config/feature-flags'
+import { getExperimentService } from '@config/experiments'
+import { getAdminEventsService } from '@config/admin-events'
+import { getAdminAuthService } from '@config/admin-auth'
+import { JobQueryParser } from '../utils/job-query-parser'
+import { ServerSentEvents } from '../utils/server-sent-events'
+import { ADMIN_ROLES } from '../utils/admin-roles'
 
 // Valid sort columns for each entity
 const jobSortColumns = ['title', 'company', 'location', 'source', 'postedDate', 'createdAt', 'updatedAt']
 const userSortColumns = ['phoneNumber', 'lastMessageAt', 'createdAt', 'updatedAt']
 const conversationSortColumns = ['phoneNumber', 'messageCount', 'status', 'startedAt', 'lastActivityAt', 'createdAt']
+const scrapeSessionSortColumns = ['sourceName', 'mode', 'status', 'startedAt', 'completedAt', 'pagesScraped', 'jobsFound', 'jobsUpdated']
+
+const adminRoleSchema = t.Union(ADMIN_ROLES.map((role) => t.Literal(role)))
+
+/**
+ * Record a privileged action in the admin audit log
+ * @param target - What the action was made on, e.g. a phone number or a job id
+ */
+async function audit(
+  ip: string,
+  actor: string,
+  action: AdminAuditAction,
+  target?: string,
+  details?: Record<string, unknown>
+): Promise<void> {
+  await new AdminAuditLogRepository().create({ action, actor, target, details, ip })
+}
+
+// Comment sent on idle event streams, below the usual 60s proxy timeouts
+const EVENTS_HEARTBEAT_MS = 25_000
+
+function getScrapeJobsService(): ScrapeJobsService {
+  return new ScrapeJobsService(
+    getScrapeQueue(
+      process.env.REDIS_HOST || 'localhost',
+      parseInt(process.env.REDIS_PORT || '6379'),
+      process.env.REDIS_PASSWORD
+    )
+  )
+}
+
+// Kept for the process lifetime, the conversation state service caches the machines in memory
+let humanHandoffService: HumanHandoffService | null = null
+
+function getHumanHandoffService(): HumanHandoffService {
+  if (!humanHandoffService) {
+    const redisHost = process.env.REDIS_HOST || 'localhost'
+    const redisPort = parseInt(process.env.REDIS_PORT || '6379')
+    const redisPassword = process.env.REDIS_PASSWORD
+    const redis = getRedisConnection(redisHost, redisPort, redisPassword)
+
+    humanHandoffService = new HumanHandoffService(
+      new ConversationStateService(redis),
+      new ChatHistoryService(redis),
+      new DelayedMessageService(getDelayedMessageQueue(redisHost, redisPort, redisPassword))
+    )
+  }
+  return humanHandoffService
+}
 
 export const adminRoutes = new Elysia({ prefix: '/admin' })
   .use(cors({
     origin: ['https://wajob.vercel.app', 'http://localhost:3001'],
     credentials: true,
+    // Read by the portal login form
+    exposeHeaders: ['Retry-After'],
   }))
-  .use(basicAuth())
+  // Logins are rate limited per address and privileged actions audited with it
+  .derive(({ request, server }) => ({ clientIp: getClientIp(request, server) }))
+  .post('/auth/login', async ({ body, set, clientIp }) => {
+    const result = await getAdminAuthService().login(body.username, body.password, clientIp)
+
+    if (result.status === 'rate_limited') {
+      set.status = 429
+      set.headers['Retry-After'] = String(result.retryAfterSeconds)
+      return { error: 'Too many failed login attempts, try again later' }
+    }
+    if (result.status === 'invalid_credentials') {
+      set.status = 401
+      return { error: 'Invalid username or password' }
+    }
+
+    await audit(clientIp, result.admin.username, 'login')
+
+    return { token: result.token, expiresAt: result.expiresAt, admin: result.admin }
+  }, {
+    body: t.Object({
+      username: t.String({ minLength: 1 }),
+      password: t.String({ minLength: 1 }),
+    }),
+  })
+  .use(adminAuth())
+  .get('/auth/me', ({ admin }) => admin)
+  .post('/auth/logout', async ({ request }) => {
+    await getAdminAuthService().logout(getBearerToken(request)!)
+    return { success: true }
+  })
+  .get('/admin-users', async () => {
+    return { data: await getAdminAuthService().listUsers() }
+  }, {
+    role: 'admin',
+  })
+  .post('/admin-users', async ({ body, set, admin, clientIp }) => {
+    const user = await getAdminAuthService().createUser(body)
+    if (!user) {
+      set.status = 409
+      return { error: 'Username already taken' }
+    }
+
+    await audit(clientIp, admin.username, 'admin_user_created', user.username, { role: user.role })
+
+    set.status = 201
+    return user
+  }, {
+    role: 'admin',
+    body: t.Object({
+      username: t.String({ pattern: '^[a-zA-Z0-9_.@-]{3,100}$' }),
+      password: t.String({ minLength: 12 }),
+      role: adminRoleSchema,
+    }),
+  })
+  .patch('/admin-users/:id', async ({ params, body, set, admin, clientIp }) => {
+    if (params.id === admin.userId && (body.role || body.isActive === false)) {
+      set.status = 400
+      return { error: 'Admins cannot change their own role or deactivate themselves' }
+    }
+
+    const user = await getAdminAuthService().updateUser(params.id, body)
+    if (!user) {
+      set.status = 404
+      return { error: 'Admin user not found' }
+    }
+
+    await audit(clientIp, admin.username, 'admin_user_updated', user.username, {
+      role: body.role,
+      isActive: body.isActive,
+      passwordChanged: !!body.password,
+    })
+
+    return user
+  }, {
+    role: 'admin',
+    params: t.Object({
+      id: t.String(),
+    }),
+    body: t.Object({
+      password: t.Optional(t.String({ minLength: 12 })),
+      role: t.Optional(adminRoleSchema),
+      isActive: t.Optional(t.Boolean()),
+    }),
+  })
+  .get('/audit-logs', async ({ query }) => {
+    const page = parseInt(query.page || '1')
+    const limit = parseInt(query.limit || '20')
+
+    const { logs, total } = await new AdminAuditLogRepository().findAllPaginated(page, limit, {
+      actor: query.actor || undefined,
+      action: (query.action || undefined) as AdminAuditAction | undefined,
+    })
+
+    return {
+      data: logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    }
+  }, {
+    role: 'admin',
+    query: t.Object({
+      page: t.Optional(t.String()),
+      limit: t.Optional(t.String()),
+      actor: t.Optional(t.String()),
+      action: t.Optional(t.String()),
+    }),
+  })
   .get('/jobs', async ({ query }) => {
     const jobRepo = new JobAdRepository()
     const page = parseInt(query.page || '1')
@@ -50,6 +235,48 @@ export const adminRoutes = new Elysia({ prefix: '/admin' })
       sortOrder: t.Optional(t.String()),
     }),
   })
+  // Same search as the bot; debug=true returns the relevance score breakdown of each result
+  .get('/jobs/search', async ({ query }) => {
+    const jobRepo = new JobAdRepository()
+    const limit = parseInt(query.limit || '10')
+    const offset = parseInt(query.offset || '0')
+    const { keywords, filters } = JobQueryParser.parse(query.q)
+
+    const jobs = await jobRepo.search({ query: keywords || undefined, ...filters }, limit, offset, {
+      debug: query.debug === 'true',
+    })
+
+    return {
+      keywords,
+      filters,
+      data: jobs,
+    }
+  }, {
+    query: t.Object({
+      q: t.String(),
+      limit: t.Optional(t.String()),
+      offset: t.Optional(t.String()),
+      debug: t.Optional(t.String()),
+    }),
+  })
+  .delete('/jobs/:id', async ({ params, set, admin, clientIp }) => {
+    const jobRepo = new JobAdRepository()
+    const job = await jobRepo.findById(params.id)
+    if (!job) {
+      set.status = 404
+      return { error: 'Job not found' }
+    }
+
+    await jobRepo.delete(job.id)
+    await audit(clientIp, admin.username, 'job_deleted', job.id, { title: job.title, company: job.company })
+
+    return { success: true }
+  }, {
+    role: 'admin',
+    params: t.Object({
+      id: t.String(),
+    }),
+  })
   .get('/bot-users', async ({ query }) => {
     const userRepo = new BotUserRepository()
     const page = parseInt(query.page || '1')
@@ -155,6 +382,280 @@ export const adminRoutes = new Elysia({ prefix: '/admin' })
       id: t.String(),
     }),
   })
+  .get('/scrape-sessions', async ({ query }) => {
+    const sessionRepo = new ScrapeSessionRepository()
+    const page = parseInt(query.page || '1')
+    const limit = parseInt(query.limit || '20')
+    const search = query.search || ''
+    const sortBy = query.sortBy || 'startedAt'
+    const sortOrder = (query.sortOrder?.toUpperCase() === 'ASC' ? 'ASC' : 'DESC') as 'ASC' | 'DESC'
+
+    // Validate sort column
+    const validSortBy = scrapeSessionSortColumns.includes(sortBy) ? sortBy : 'startedAt'
+
+    const { sessions, total } = await sessionRepo.findAllPaginated(
+      page,
+      limit,
+      search || undefined,
+      validSortBy,
+      sortOrder,
+      query.sourceId || undefined,
+      query.status || undefined
+    )
+
+    return {
+      data: sessions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    }
+  }, {
+    query: t.Object({
+      page: t.Optional(t.String()),
+      limit: t.Optional(t.String()),
+      search: t.Optional(t.String()),
+      sortBy: t.Optional(t.String()),
+      sortOrder: t.Optional(t.String()),
+      sourceId: t.Optional(t.String()),
+      status: t.Optional(t.String()),
+    }),
+  })
+  .get('/scrape-sessions/:id', async ({ params, set }) => {
+    const sessionRepo = new ScrapeSessionRepository()
+
+    const session = await sessionRepo.findById(params.id)
+    if (!session) {
+      set.status = 404
+      return { error: 'Scrape session not found' }
+    }
+
+    return session
+  }, {
+    params: t.Object({
+      id: t.String(),
+    }),
+  })
+  // Sources with their last run and pending scrape, scraperKeys are the scrapers a source can use
+  .get('/scraper-sources', async () => {
+    const sourceRepo = new ScraperSourceRepository()
+    const sources = await sourceRepo.findAll({ order: { name: 'ASC' } })
+    const lastSessions = await new ScrapeSessionRepository().findLatestPerSource()
+    const pendingJobs = await getScrapeJobsService().list(undefined, ['active', 'waiting', 'delayed', 'prioritized'])
+
+    return {
+      data: sources.map((source) => ({
+        ...source,
+        lastSession: lastSessions.find((session) => session.sourceId === source.id) || null,
+        pendingJob: pendingJobs.find((job) => job.sourceId === source.id) || null,
+      })),
+      scraperKeys: scraperRegistry.keys(),
+    }
+  })
+  .post('/scraper-sources', async ({ body, set, admin, clientIp }) => {
+    const sourceRepo = new ScraperSourceRepository()
+
+    if (!scraperRegistry.has(body.scraperKey)) {
+      set.status = 400
+      return { error: `No scraper registered for key "${body.scraperKey}"` }
+    }
+    if (await sourceRepo.isNameTaken(body.name)) {
+      set.status = 409
+      return { error: 'Scraper source name already taken' }
+    }
+
+    const source = await sourceRepo.create({
+      ...body,
+      isActive: body.isActive ?? true,
+      shouldScrapeNext: false,
+      totalJobsFound: 0,
+    })
+
+    await audit(clientIp, admin.username, 'scraper_source_created', source.name, { ...body })
+
+    set.status = 201
+    return source
+  }, {
+    role: 'admin',
+    body: t.Object({
+      name: t.String({ pattern: '^[a-z0-9_-]{2,50}$' }),
+      url: t.String({ format: 'uri' }),
+      scraperKey: t.String(),
+      scrapeInterval: t.Optional(t.Integer({ minimum: 5 })),
+      maxPages: t.Optional(t.Integer({ minimum: 1, maximum: 50 })),
+      isActive: t.Optional(t.Boolean()),
+    }),
+  })
+  .patch('/scraper-sources/:id', async ({ params, body, set, admin, clientIp }) => {
+    const sourceRepo = new ScraperSourceRepository()
+
+    if (body.scraperKey !== undefined && !scraperRegistry.has(body.scraperKey)) {
+      set.status = 400
+      return { error: `No scraper registered for key "${body.scraperKey}"` }
+    }
+    if (!(await sourceRepo.findById(params.id))) {
+      set.status = 404
+      return { error: 'Scraper source not found' }
+    }
+
+    const source = (await sourceRepo.update(params.id, body))!
+
+    await audit(clientIp, admin.username, 'scraper_source_updated', source.name, { ...body })
+
+    return source
+  }, {
+    role: 'operator',
+    params: t.Object({
+      id: t.String(),
+    }),
+    body: t.Object({
+      url: t.Optional(t.String({ format: 'uri' })),
+      scraperKey: t.Optional(t.String()),
+      scrapeInterval: t.Optional(t.Integer({ minimum: 5 })),
+      maxPages: t.Optional(t.Integer({ minimum: 1, maximum: 50 })),
+      isActive: t.Optional(t.Boolean()),
+    }),
+  })
+  .delete('/scraper-sources/:id', async ({ params, set, admin, clientIp }) => {
+    const sourceRepo = new ScraperSourceRepository()
+    const source = await sourceRepo.findById(params.id)
+    if (!source) {
+      set.status = 404
+      return { error: 'Scraper source not found' }
+    }
+
+    // Soft delete, the scrape sessions of the source are kept
+    await sourceRepo.delete(source.id)
+    await audit(clientIp, admin.username, 'scraper_source_deleted', source.name)
+
+    return { success: true }
+  }, {
+    role: 'admin',
+    params: t.Object({
+      id: t.String(),
+    }),
+  })
+  .post('/scraper-sources/:id/scrape', async ({ params, set, admin, clientIp }) => {
+    const source = await new ScraperSourceRepository().findById(params.id)
+    if (!source) {
+      set.status = 404
+      return { error: 'Scraper source not found' }
+    }
+
+    const job = await getScrapeJobsService().enqueue(
+      source,
+      parseInt(process.env.MAX_PAGES_PER_SCRAPE || '3')
+    )
+    if (!job) {
+      set.status = 409
+      return { error: 'A scrape of this source is already pending' }
+    }
+
+    await audit(clientIp, admin.username, 'scrape_triggered', source.name, { jobId: job.id })
+
+    set.status = 202
+    return job
+  }, {
+    role: 'operator',
+    params: t.Object({
+      id: t.String(),
+    }),
+  })
+  // Jobs of the scrape queue (BullMQ), with the progress reported by the scrape worker
+  .get('/scrape-jobs', async ({ query }) => {
+    return { data: await getScrapeJobsService().list(query.sourceId || undefined) }
+  }, {
+    query: t.Object({
+      sourceId: t.Optional(t.String()),
+    }),
+  })
+  .get('/scrape-jobs/:id', async ({ params, set }) => {
+    const job = await getScrapeJobsService().get(params.id)
+    if (!job) {
+      set.status = 404
+      return { error: 'Scrape job not found' }
+    }
+
+    return job
+  }, {
+    params: t.Object({
+      id: t.String(),
+    }),
+  })
+  .get('/scraper-health', async () => {
+    const sourceRepo = new ScraperSourceRepository()
+    const sources = await sourceRepo.findAll({ order: { name: 'ASC' } })
+
+    // Degraded sources first
+    const data = sources
+      .map((source) => ({
+        id: source.id,
+        name: source.name,
+        scraperKey: source.scraperKey,
+        isActive: source.isActive,
+        lastScrapedAt: source.lastScrapedAt,
+        healthStatus: source.healthStatus,
+        consecutiveEmptyRuns: source.consecutiveEmptyRuns,
+        degradedAt: source.degradedAt,
+        metrics: source.healthMetrics,
+      }))
+      .sort((a, b) => Number(b.healthStatus === 'degraded') - Number(a.healthStatus === 'degraded'))
+
+    return {
+      data,
+      degraded: data.filter((source) => source.healthStatus === 'degraded').length,
+    }
+  })
+  .post('/scraper-sources/:id/health/reset', async ({ params, set, admin, clientIp }) => {
+    const source = await new ScraperHealthService().reset(params.id)
+    if (!source) {
+      set.status = 404
+      return { error: 'Scraper source not found' }
+    }
+
+    await audit(clientIp, admin.username, 'scraper_health_reset', source.name)
+
+    return source
+  }, {
+    role: 'operator',
+    params: t.Object({
+      id: t.String(),
+    }),
+  })
+  .get('/webhook-dead-letters', async ({ query }) => {
+    const deadLetterRepo = new WebhookDeadLetterRepository()
+    const page = parseInt(query.page || '1')
+    const limit = parseInt(query.limit || '20')
+
+    const { deadLetters, total } = await deadLetterRepo.findAllPaginated(page, limit, query.reason || undefined)
+
+    return {
+      data: deadLetters,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    }
+  }, {
+    query: t.Object({
+      page: t.Optional(t.String()),
+      limit: t.Optional(t.String()),
+      reason: t.Optional(t.String()),
+    }),
+  })
+  .get('/message-dedup/stats', async () => {
+    const redis = getRedisConnection(
+      process.env.REDIS_HOST || 'localhost',
+      parseInt(process.env.REDIS_PORT || '6379'),
+      process.env.REDIS_PASSWORD
+    )
+
+    return new MessageDeduplicationService(redis).getStats()
+  })
   .get('/stats', async ({ query }) => {
     const messageRepo = new MessageRepository()
     const userRepo = new BotUserRepository()
@@ -164,12 +665,22 @@ export const adminRoutes = new Elysia({ prefix: '/admin' })
     const endTime = parseInt(query.endTime || Date.now().toString())
 
     // Get all stats in parallel with fallbacks
-    const [messagesPerBucket, newUsersPerBucket, returningUsersPerBucket, clicksPerBucket, deviceBreakdown] = await Promise.all([
+    const [
+      messagesPerBucket,
+      newUsersPerBucket,
+      returningUsersPerBucket,
+      clicksPerBucket,
+      deviceBreakdown,
+      deliveryRatesPerBucket,
+      failureReasons,
+    ] = await Promise.all([
       messageRepo.getMessagesPerTimeBucket(startTime, endTime).catch(() => []),
       userRepo.getNewUsersPerTimeBucket(startTime, endTime).catch(() => []),
       userRepo.getReturningUsersPerTimeBucket(startTime, endTime).catch(() => []),
       linkRepo.getClicksPerTimeBucket(startTime, endTime).catch(() => []),
       linkRepo.getDeviceBreakdown(startTime, endTime).catch(() => []),
+      messageRepo.getDeliveryRatesPerTimeBucket(startTime, endTime).catch(() => []),
+      messageRepo.getFailureReasons(startTime, endTime).catch(() => []),
     ])
 
     return {
@@ -178,6 +689,8 @@ export const adminRoutes = new Elysia({ prefix: '/admin' })
       returningUsersPerBucket,
       clicksPerBucket,
       deviceBreakdown,
+      deliveryRatesPerBucket,
+      failureReasons,
       timeRange: { startTime, endTime },
     }
   }, {
@@ -186,7 +699,264 @@ export const adminRoutes = new Elysia({ prefix: '/admin' })
       endTime: t.Optional(t.String()),
     }),
   })
-  .post('/replay-message', async ({ body, set }) => {
+  .get('/flags', async () => {
+    return { data: await getFeatureFlagService().list() }
+  })
+  .post('/flags', async ({ body, set, admin }) => {
+    const { name, ...input } = body
+    const flag = await getFeatureFlagService().create(name, input, admin.username)
+    if (!flag) {
+      set.status = 409
+      return { error: 'Feature flag already exists' }
+    }
+
+    set.status = 201
+    return flag
+  }, {
+    role: 'admin',
+    body: t.Object({
+      name: t.String({ pattern: '^[a-zA-Z][a-zA-Z0-9_.-]{0,99}$' }),
+      description: t.Optional(t.String()),
+      enabled: t.Optional(t.Boolean()),
+      rolloutPercentage: t.Optional(t.Integer({ minimum: 0, maximum: 100 })),
+      phoneNumbers: t.Optional(t.Array(t.String())),
+    }),
+  })
+  .get('/flags/audit', async ({ query }) => {
+    const page = parseInt(query.page || '1')
+    const limit = parseInt(query.limit || '20')
+
+    const { logs, total } = await getFeatureFlagService().getAuditLog(page, limit, query.name || undefined)
+
+    return {
+      data: logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    }
+  }, {
+    query: t.Object({
+      page: t.Optional(t.String()),
+      limit: t.Optional(t.String()),
+      name: t.Optional(t.String()),
+    }),
+  })
+  .get('/flags/:name', async ({ params, set }) => {
+    const flag = await getFeatureFlagService().get(params.name)
+    if (!flag) {
+      set.status = 404
+      return { error: 'Feature flag not found' }
+    }
+
+    return flag
+  }, {
+    params: t.Object({
+      name: t.String(),
+    }),
+  })
+  .patch('/flags/:name', async ({ params, body, set, admin }) => {
+    const flag = await getFeatureFlagService().update(params.name, body, admin.username)
+    if (!flag) {
+      set.status = 404
+      return { error: 'Feature flag not found' }
+    }
+
+    return flag
+  }, {
+    role: 'admin',
+    params: t.Object({
+      name: t.String(),
+    }),
+    body: t.Object({
+      description: t.Optional(t.String()),
+      enabled: t.Optional(t.Boolean()),
+      rolloutPercentage: t.Optional(t.Integer({ minimum: 0, maximum: 100 })),
+      phoneNumbers: t.Optional(t.Array(t.String())),
+    }),
+  })
+  .delete('/flags/:name', async ({ params, set, admin }) => {
+    if (!(await getFeatureFlagService().delete(params.name, admin.username))) {
+      set.status = 404
+      return { error: 'Feature flag not found' }
+    }
+
+    return { success: true }
+  }, {
+    role: 'admin',
+    params: t.Object({
+      name: t.String(),
+    }),
+  })
+  .post('/flags/:name/users', async ({ params, body, set, admin }) => {
+    const flag = await getFeatureFlagService().addUser(params.name, body.phoneNumber.trim(), admin.username)
+    if (!flag) {
+      set.status = 404
+      return { error: 'Feature flag not found' }
+    }
+
+    return flag
+  }, {
+    role: 'admin',
+    params: t.Object({
+      name: t.String(),
+    }),
+    body: t.Object({
+      phoneNumber: t.String({ minLength: 1 }),
+    }),
+  })
+  .delete('/flags/:name/users/:phoneNumber', async ({ params, set, admin }) => {
+    const flag = await getFeatureFlagService().removeUser(params.name, params.phoneNumber, admin.username)
+    if (!flag) {
+      set.status = 404
+      return { error: 'Feature flag not found' }
+    }
+
+    return flag
+  }, {
+    role: 'admin',
+    params: t.Object({
+      name: t.String(),
+      phoneNumber: t.String(),
+    }),
+  })
+  .get('/experiments', async () => {
+    return { data: await getExperimentService().list() }
+  })
+  .get('/experiments/:name/stats', async ({ params, set }) => {
+    const stats = await getExperimentService().getStats(params.name)
+
+    if (!stats) {
+      set.status = 404
+      return { error: 'Experiment not found' }
+    }
+
+    return stats
+  }, {
+    params: t.Object({
+      name: t.String(),
+    }),
+  })
+  .get('/events', async ({ request }) => {
+    const encoder = new TextEncoder()
+    let cleanup: (() => Promise<void>) | undefined
+
+    // New messages, conversations, link clicks and scrape runs, published through AdminEventsService
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            // Stream closed by the client
+          }
+        }
+
+        const unsubscribe = await getAdminEventsService().subscribe((event) => {
+          send(ServerSentEvents.format(event.type, event))
+        })
+        const heartbeat = setInterval(() => send(ServerSentEvents.comment('heartbeat')), EVENTS_HEARTBEAT_MS)
+
+        cleanup = async () => {
+          cleanup = undefined
+          clearInterval(heartbeat)
+          await unsubscribe()
+        }
+
+        request.signal.addEventListener('abort', () => {
+          cleanup?.()
+          try {
+            controller.close()
+          } catch {
+            // Already closed
+          }
+        })
+
+        send(ServerSentEvents.comment('connected'))
+      },
+      async cancel() {
+        await cleanup?.()
+      },
+    })
+
+    return new Response(stream, { headers: ServerSentEvents.HEADERS })
+  })
+  .get('/handoffs/:phoneNumber', async ({ params }) => {
+    return getHumanHandoffService().getStatus(params.phoneNumber)
+  }, {
+    params: t.Object({
+      phoneNumber: t.String(),
+    }),
+  })
+  .post('/handoffs/:phoneNumber', async ({ params, admin, clientIp }) => {
+    const status = await getHumanHandoffService().start(params.phoneNumber, admin.username)
+    await audit(clientIp, admin.username, 'handoff_started', params.phoneNumber)
+
+    return status
+  }, {
+    role: 'operator',
+    params: t.Object({
+      phoneNumber: t.String(),
+    }),
+  })
+  .post('/handoffs/:phoneNumber/messages', async ({ params, body, set, admin, clientIp }) => {
+    try {
+      const message = await getHumanHandoffService().send(params.phoneNumber, admin.username, body)
+
+      if (!message) {
+        set.status = 409
+        return { error: 'Conversation is not handed off, take it over first' }
+      }
+
+      await audit(clientIp, admin.username, 'handoff_message_sent', params.phoneNumber, {
+        type: body.type,
+        ...(body.type === 'template' ? { templateName: body.templateName } : {}),
+      })
+
+      return message
+    } catch (error) {
+      console.error('Error sending agent message:', error)
+      set.status = 502
+      return { error: 'Failed to send message' }
+    }
+  }, {
+    role: 'operator',
+    params: t.Object({
+      phoneNumber: t.String(),
+    }),
+    body: t.Union([
+      t.Object({
+        type: t.Literal('text'),
+        text: t.String({ minLength: 1, maxLength: 4096 }),
+      }),
+      t.Object({
+        type: t.Literal('template'),
+        templateName: t.String({ minLength: 1 }),
+        languageCode: t.Optional(t.String()),
+        parameters: t.Optional(t.Array(t.String())),
+      }),
+    ]),
+  })
+  .post('/handoffs/:phoneNumber/resume', async ({ params, set, admin, clientIp }) => {
+    const status = await getHumanHandoffService().resume(params.phoneNumber, admin.username)
+
+    if (!status) {
+      set.status = 409
+      return { error: 'Conversation is not handed off' }
+    }
+
+    await audit(clientIp, admin.username, 'handoff_ended', params.phoneNumber)
+
+    return status
+  }, {
+    role: 'operator',
+    params: t.Object({
+      phoneNumber: t.String(),
+    }),
+  })
+  .post('/replay-message', async ({ body, set, admin, clientIp }) => {
     const { messageId, phoneNumber, messageText, contactName } = body
 
     // Validate input
@@ -210,6 +980,7 @@ export const adminRoutes = new Elysia({ prefix: '/admin' })
 
       // Construct WhatsApp webhook payload format
       const webhookPayload = {
+        object: 'whatsapp_business_account',
         entry: [
           {
             id: 'admin-replay',
@@ -226,6 +997,7 @@ export const adminRoutes = new Elysia({ prefix: '/admin' })
                   contacts: contactName
                     ? [
                         {
+                          wa_id: phoneNumber,
                           profile: {
                             name: contactName,
                           },
@@ -250,12 +1022,20 @@ export const adminRoutes = new Elysia({ prefix: '/admin' })
         ],
       }
 
-      // Add to queue
+      // Add to queue, after the messages the user already sent
+      const ticket = await new MessageOrderingService(
+        getRedisConnection(redisHost, redisPort, redisPassword)
+      ).issueTicket(phoneNumber)
+
       await queue.add('process-message', {
         payload: webhookPayload,
         receivedAt: new Date().toISOString(),
+        phoneNumber,
+        ticket,
       })
 
+      await audit(clientIp, admin.username, 'message_replayed', phoneNumber, { messageId, messageText })
+
       return {
         success: true,
         message: 'Message replayed successfully',
@@ -269,6 +1049,7 @@ export const adminRoutes = new Elysia({ prefix: '/admin' })
       }
     }
   }, {
+    role: 'operator',
     body: t.Object({
       messageId: t.String(),
       phoneNumber: t.String(),
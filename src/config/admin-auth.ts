@@ -0,0 +1,17 @@
+import { getRedisConnection } from '@config/redis'
+import { AdminAuthService } from '../services/admin-auth.service'
+
+// Singleton instance
+let adminAuthServiceInstance: AdminAuthService | null = null
+
+export function getAdminAuthService(): AdminAuthService {
+  if (!adminAuthServiceInstance) {
+    const redis = getRedisConnection(
+      process.env.REDIS_HOST || 'localhost',
+      parseInt(process.env.REDIS_PORT || '6379'),
+      process.env.REDIS_PASSWORD
+    )
+    adminAuthServiceInstance = new AdminAuthService(redis)
+  }
+  return adminAuthServiceInstance
+}
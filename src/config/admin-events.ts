@@ -0,0 +1,17 @@
+import { getRedisConnection } from '@config/redis'
+import { AdminEventsService } from '../services/admin-events.service'
+
+// Singleton instance
+let adminEventsServiceInstance: AdminEventsService | null = null
+
+export function getAdminEventsService(): AdminEventsService {
+  if (!adminEventsServiceInstance) {
+    const redis = getRedisConnection(
+      process.env.REDIS_HOST || 'localhost',
+      parseInt(process.env.REDIS_PORT || '6379'),
+      process.env.REDIS_PASSWORD
+    )
+    adminEventsServiceInstance = new AdminEventsService(redis)
+  }
+  return adminEventsServiceInstance
+}
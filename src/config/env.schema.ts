@@ -4,6 +4,8 @@ export const envSchema = {
   // Server
   PORT: t.Optional(t.String({ default: '3000' })),
   APP_URL: t.Optional(t.String({ default: 'http://localhost:3000' })),
+  // Behind a reverse proxy: read the client address from X-Forwarded-For (admin login rate limiting, audit log)
+  TRUST_PROXY: t.Optional(t.String({ default: 'false' })),
 
   // Database (PostgreSQL)
   DB_HOST: t.Optional(t.String({ default: 'localhost' })),
@@ -25,11 +27,25 @@ export const envSchema = {
   SCRAPE_CHECK_CRON: t.Optional(t.String({ default: '*/20 9-19 * * 1-5' })), // Every 20 minutes, Mon-Fri 9am-8pm
   SCRAPE_CHECK_CRON_WEEKEND: t.Optional(t.String({ default: '0 10,16 * * 0,6' })), // 10am & 4pm on Sat-Sun
 
+  // Job expiry - hourly sweep of expired jobs, nightly check that job URLs still resolve
+  JOB_EXPIRY_SWEEP_CRON: t.Optional(t.String({ default: '15 * * * *' })),
+  JOB_REVALIDATION_CRON: t.Optional(t.String({ default: '0 2 * * *' })),
+
+  // Conversations - close the conversations whose Redis session expired
+  CONVERSATION_SWEEP_CRON: t.Optional(t.String({ default: '*/5 * * * *' })),
+
+  // Scraper health alerts (WhatsApp number receiving "scraper degraded" messages)
+  ADMIN_ALERT_PHONE_NUMBER: t.Optional(t.String()),
+
   // WhatsApp
   WHATSAPP_ACCESS_TOKEN: t.String(),
   WHATSAPP_PHONE_NUMBER_ID: t.String(),
   WHATSAPP_BUSINESS_ACCOUNT_ID: t.String(),
   WHATSAPP_VERSION: t.Optional(t.String({ default: 'v23.0' })),
   WHATSAPP_WEBHOOK_VERIFY_TOKEN: t.Optional(t.String({ default: 'your-verify-token-here' })),
+  // App secret used to verify the X-Hub-Signature-256 header of webhooks (required in production)
+  WHATSAPP_APP_SECRET: t.Optional(t.String()),
   WHATSAPP_WEBHOOK_URL: t.Optional(t.String()),
+  // Graph API host, set to the local simulator for end-to-end tests (https://graph.facebook.com by default)
+  WHATSAPP_API_BASE_URL: t.Optional(t.String()),
 }
@@ -0,0 +1,53 @@
+import { getFeatureFlagService } from '@config/feature-flags'
+import { ExperimentService } from '../services/experiment.service'
+import type { ExperimentDefinition } from '../utils/experiment'
+
+/**
+ * A/B Experiments Configuration
+ * An experiment runs for the users of the feature flag `experiment.<name>` (see /admin/flags),
+ * e.g. rolloutPercentage 20 to try the variants on 20% of the users
+ *
+ * Users out of the experiment get the first variant (control) and aren't counted in the stats
+ */
+export const EXPERIMENTS = {
+  WELCOME_COPY: 'welcomeCopy', // Welcome message sent by BotMessages.sendWelcomeFlow
+  RESULTS_PER_PAGE: 'resultsPerPage', // Job offers sent per search / "voir plus"
+  INTENT_RESOLVER: 'intentResolver', // Intent resolver, in place of the conversation flags
+} as const
+
+export const EXPERIMENT_DEFINITIONS: ExperimentDefinition[] = [
+  {
+    name: EXPERIMENTS.WELCOME_COPY,
+    description: 'Current welcome message vs a shorter one asking for the job title',
+    variants: [
+      { name: 'control', weight: 50, params: { copy: 'default' } },
+      { name: 'short', weight: 50, params: { copy: 'short' } },
+    ],
+  },
+  {
+    name: EXPERIMENTS.RESULTS_PER_PAGE,
+    description: '3 vs 5 job offers per page',
+    variants: [
+      { name: 'control', weight: 50, params: { pageSize: 3 } },
+      { name: 'five', weight: 50, params: { pageSize: 5 } },
+    ],
+  },
+  {
+    name: EXPERIMENTS.INTENT_RESOLVER,
+    description: 'Rule-based vs NLP intent resolver',
+    variants: [
+      { name: 'control', weight: 50, params: { resolver: 'rules' } },
+      { name: 'nlp', weight: 50, params: { resolver: 'nlp' } },
+    ],
+  },
+]
+
+// Singleton instance
+let experimentServiceInstance: ExperimentService | null = null
+
+export function getExperimentService(): ExperimentService {
+  if (!experimentServiceInstance) {
+    experimentServiceInstance = new ExperimentService(getFeatureFlagService(), EXPERIMENT_DEFINITIONS)
+  }
+  return experimentServiceInstance
+}
@@ -4,11 +4,15 @@ let whatsappClient: WhatsAppBusinessSDK | null = null
 
 export function getWhatsAppClient(): WhatsAppBusinessSDK {
   if (!whatsappClient) {
+    const version = process.env.WHATSAPP_VERSION || 'v23.0'
+
     whatsappClient = new WhatsAppBusinessSDK({
       phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID!,
       businessAccountId: process.env.WHATSAPP_BUSINESS_ACCOUNT_ID!,
       accessToken: process.env.WHATSAPP_ACCESS_TOKEN!,
-      version: process.env.WHATSAPP_VERSION || 'v23.0',
+      version,
+      // Graph API host, e.g. the local simulator (bun run simulate:whatsapp), https://graph.facebook.com by default
+      baseUrl: process.env.WHATSAPP_API_BASE_URL ? `${process.env.WHATSAPP_API_BASE_URL}/${version}` : undefined,
     })
   }
   return whatsappClient
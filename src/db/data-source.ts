@@ -7,6 +7,12 @@ import { BotUserEntity } from './entities/BotUserEntity'
 import { PersonalizedLinkEntity } from './entities/PersonalizedLinkEntity'
 import { ConversationEntity } from './entities/ConversationEntity'
 import { MessageEntity } from './entities/MessageEntity'
+import { JobAlertEntity } from './entities/JobAlertEntity'
+import { WebhookDeadLetterEntity } from './entities/WebhookDeadLetterEntity'
+import { FeatureFlagEntity } from './entities/FeatureFlagEntity'
+import { FeatureFlagAuditLogEntity } from './entities/FeatureFlagAuditLogEntity'
+import { AdminUserEntity } from './entities/AdminUserEntity'
+import { AdminAuditLogEntity } from './entities/AdminAuditLogEntity'
 
 export const AppDataSource = new DataSource({
   type: 'postgres',
@@ -25,6 +31,12 @@ export const AppDataSource = new DataSource({
     PersonalizedLinkEntity,
     ConversationEntity,
     MessageEntity,
+    JobAlertEntity,
+    WebhookDeadLetterEntity,
+    FeatureFlagEntity,
+    FeatureFlagAuditLogEntity,
+    AdminUserEntity,
+    AdminAuditLogEntity,
   ],
   migrations: [],
   subscribers: [],
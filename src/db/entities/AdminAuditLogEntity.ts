@@ -0,0 +1,42 @@
+import { Entity, Column, Index } from 'typeorm'
+import { BaseEntity } from './BaseEntity'
+
+export type AdminAuditAction =
+  | 'login'
+  | 'message_replayed'
+  | 'handoff_started'
+  | 'handoff_message_sent'
+  | 'handoff_ended'
+  | 'job_deleted'
+  | 'scraper_health_reset'
+  | 'scraper_source_created'
+  | 'scraper_source_updated'
+  | 'scraper_source_deleted'
+  | 'scrape_triggered'
+  | 'admin_user_created'
+  | 'admin_user_updated'
+
+/**
+ * Privileged action of an admin, feature flag changes have their own log (FeatureFlagAuditLogEntity)
+ */
+@Entity('admin_audit_logs')
+@Index(['actor', 'createdAt'])
+@Index(['action', 'createdAt'])
+export class AdminAuditLogEntity extends BaseEntity {
+  @Column('varchar', { length: 40 })
+  action!: AdminAuditAction
+
+  // Admin username
+  @Column('varchar', { length: 100 })
+  actor!: string
+
+  // What the action was made on, e.g. a phone number, a job id or an admin username
+  @Column('varchar', { length: 255, nullable: true })
+  target?: string | null
+
+  @Column('simple-json', { nullable: true })
+  details?: Record<string, unknown> | null
+
+  @Column('varchar', { length: 64, nullable: true })
+  ip?: string | null
+}
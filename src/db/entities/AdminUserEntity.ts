@@ -0,0 +1,27 @@
+import { Entity, Column, Index } from 'typeorm'
+import { BaseEntity } from './BaseEntity'
+import type { AdminRole } from '../../utils/admin-roles'
+
+/**
+ * Admin portal account, see AdminAuthService
+ */
+@Entity('admin_users')
+@Index(['username'], { unique: true })
+export class AdminUserEntity extends BaseEntity {
+  @Column('varchar', { length: 100 })
+  username!: string
+
+  // Bun.password hash (argon2id)
+  @Column('varchar', { length: 255, select: false })
+  passwordHash!: string
+
+  @Column('varchar', { length: 20, default: 'viewer' })
+  role!: AdminRole
+
+  // Deactivated accounts can't log in, their sessions stop working
+  @Column('boolean', { default: true })
+  isActive!: boolean
+
+  @Column('timestamp', { nullable: true })
+  lastLoginAt?: Date | null
+}
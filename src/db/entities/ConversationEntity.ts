@@ -34,6 +34,8 @@ export class ConversationEntity extends BaseEntity {
     jobOffersShownCount: number
     paginationRequestsCount: number
     finalState?: string
+    // Experiment variants the user saw in this conversation, { [experiment]: variant }
+    experiments?: Record<string, string>
   }
 
   @OneToMany('MessageEntity', 'conversation')
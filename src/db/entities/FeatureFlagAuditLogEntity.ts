@@ -0,0 +1,25 @@
+import { Entity, Column, Index } from 'typeorm'
+import { BaseEntity } from './BaseEntity'
+
+export type FeatureFlagAuditAction = 'created' | 'updated' | 'user_added' | 'user_removed' | 'deleted'
+
+/**
+ * Change made to a feature flag, who made it and the values before / after
+ */
+@Entity('feature_flag_audit_logs')
+@Index(['flagName', 'createdAt'])
+export class FeatureFlagAuditLogEntity extends BaseEntity {
+  @Column('varchar', { length: 100 })
+  flagName!: string
+
+  @Column('varchar', { length: 20 })
+  action!: FeatureFlagAuditAction
+
+  // Admin username, 'system' for the flags imported from the environment
+  @Column('varchar', { length: 100 })
+  actor!: string
+
+  // Changed fields only, e.g. { rolloutPercentage: { from: 10, to: 25 } }
+  @Column('simple-json', { nullable: true })
+  changes?: Record<string, { from: unknown; to: unknown }>
+}
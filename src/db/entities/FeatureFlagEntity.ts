@@ -0,0 +1,28 @@
+import { Entity, Column, Index } from 'typeorm'
+import { BaseEntity } from './BaseEntity'
+
+/**
+ * Feature flag, editable at runtime from /admin/flags
+ * On for the listed phone numbers, and for rolloutPercentage % of the others
+ */
+@Entity('feature_flags')
+@Index(['name'], { unique: true })
+export class FeatureFlagEntity extends BaseEntity {
+  // e.g. 'nlpConversation', 'langchainConversation'
+  @Column('varchar', { length: 100 })
+  name!: string
+
+  @Column('text', { nullable: true })
+  description?: string
+
+  // Kill switch: off for everyone when false, whatever the users and rollout
+  @Column('boolean', { default: true })
+  enabled!: boolean
+
+  // 0-100, users picked by a hash of flag name + phone number
+  @Column('int', { default: 0 })
+  rolloutPercentage!: number
+
+  @Column('simple-array', { default: '' })
+  phoneNumbers!: string[]
+}
@@ -29,4 +29,63 @@ export class JobAdEntity extends BaseEntity {
 
   @Column({ type: 'jsonb', nullable: true })
   internalExtras?: Record<string, any>
+
+  // Normalized title hash, jobs sharing it are duplicate candidates (see JobFingerprint)
+  @Column('varchar', { length: 16, nullable: true })
+  fingerprint?: string
+
+  // Id of the canonical job of the cluster; null when the job has no known duplicate
+  @Column('uuid', { nullable: true })
+  clusterId?: string | null
+
+  // Structured fields (see JobStructuredFields)
+  @Column('varchar', { length: 20, nullable: true })
+  contractType?: string
+
+  @Column('varchar', { length: 20, nullable: true })
+  experienceLevel?: string
+
+  @Column('varchar', { length: 20, nullable: true })
+  educationLevel?: string
+
+  @Column('timestamp', { nullable: true })
+  applicationDeadline?: Date
+
+  @Column('varchar', { length: 50, nullable: true })
+  sector?: string
+
+  @Column({ type: 'jsonb', nullable: true })
+  skills?: string[]
+
+  // Expiry (see JobExpiryPolicy): expired jobs are kept but no longer searchable
+  @Column('timestamp', { nullable: true })
+  expiresAt?: Date
+
+  @Column('timestamp', { nullable: true })
+  expiredAt?: Date | null
+
+  @Column('varchar', { length: 20, nullable: true })
+  expiryReason?: string | null
+
+  // Last time the job URL was checked on its source
+  @Column('timestamp', { nullable: true })
+  urlCheckedAt?: Date
+
+  // Weighted full-text document used for ranking: title A, company/location B, description C, metadata D
+  // Maintained by PostgreSQL, indexed by idx_job_ads_search_vector (scripts/create-indexes.ts)
+  @Column({
+    type: 'tsvector',
+    nullable: true,
+    select: false,
+    insert: false,
+    update: false,
+    generatedType: 'STORED',
+    asExpression: `
+      setweight(to_tsvector('french'::regconfig, COALESCE(title, '')), 'A') ||
+      setweight(to_tsvector('french'::regconfig, COALESCE(company, '') || ' ' || COALESCE(location, '')), 'B') ||
+      setweight(to_tsvector('french'::regconfig, COALESCE(description, '')), 'C') ||
+      setweight(to_tsvector('french'::regconfig, COALESCE("pageMetadata"::text, '')), 'D')
+    `,
+  })
+  searchVector?: string
 }
@@ -0,0 +1,32 @@
+import { Entity, Column, Index } from 'typeorm'
+import { BaseEntity } from './BaseEntity'
+
+@Entity('job_alerts')
+@Index(['phoneNumber', 'isActive'])
+export class JobAlertEntity extends BaseEntity {
+  @Column('varchar', { length: 20 })
+  phoneNumber!: string
+
+  @Column()
+  query!: string
+
+  @Column('boolean', { default: true })
+  isActive!: boolean
+
+  @Column('timestamp', { nullable: true })
+  lastNotifiedAt?: Date
+
+  @Column('int', { default: 0 })
+  notificationsToday!: number
+
+  @Column('varchar', { length: 10, nullable: true })
+  notificationsDay?: string
+
+  @Column('int', { default: 0 })
+  totalJobsSent!: number
+
+  @Column('simple-json', { nullable: true })
+  metadata?: {
+    notifiedJobIds?: string[]
+  }
+}
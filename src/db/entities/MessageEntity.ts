@@ -35,8 +35,42 @@ export class MessageEntity extends BaseEntity {
     state?: string
     processedAt?: number
     jobOffersCount?: number
+    // Experiment variants that shaped this message, { [experiment]: variant }
+    experiments?: Record<string, string>
   }
 
+  // WhatsApp ids (wamid) of an outgoing message, several when job offers are sent one by one
+  @Column('text', { array: true, nullable: true })
+  whatsappMessageIds?: string[] | null
+
+  // Admin who wrote this outgoing message during a human handoff, null when sent by the bot
+  @Column('varchar', { length: 100, nullable: true })
+  agentUsername?: string | null
+
+  // Latest status received through the webhook, see MessageDeliveryTracker
+  @Column('varchar', { length: 10, nullable: true })
+  deliveryStatus?: 'sent' | 'delivered' | 'read' | 'failed' | null
+
+  @Column('bigint', { nullable: true })
+  sentAt?: number | null
+
+  @Column('bigint', { nullable: true })
+  deliveredAt?: number | null
+
+  @Column('bigint', { nullable: true })
+  readAt?: number | null
+
+  @Column('bigint', { nullable: true })
+  failedAt?: number | null
+
+  @Column('json', { nullable: true })
+  failureReason?: {
+    code: number
+    title: string
+    message?: string
+    details?: string
+  } | null
+
   @ManyToOne('ConversationEntity', 'messages')
   @JoinColumn({ name: 'conversationId' })
   conversation?: any
@@ -21,7 +21,7 @@ export class ScrapeSessionEntity extends BaseEntity {
   mode!: 'manual' | 'automatic'
 
   @Column()
-  status!: 'completed' | 'failed'
+  status!: 'in_progress' | 'completed' | 'failed'
 
   @Column('timestamp')
   startedAt!: Date
@@ -32,9 +32,23 @@ export class ScrapeSessionEntity extends BaseEntity {
   @Column({ default: 0 })
   pagesScraped!: number
 
+  // New jobs saved by the run, the jobs returned by the scraper are in pageStats[].jobsScraped
   @Column({ default: 0 })
   jobsFound!: number
 
+  @Column({ default: 0 })
+  jobsUpdated!: number
+
+  @Column('simple-json', { nullable: true })
+  pageStats?: Array<{
+    page: number
+    durationMs: number
+    jobsScraped: number
+    jobsSaved: number
+    jobsUpdated: number
+    error?: string
+  }>
+
   @Column('simple-json', { nullable: true })
   errors?: string[]
 }
@@ -9,6 +9,10 @@ export class ScraperSourceEntity extends BaseEntity {
   @Column()
   url!: string
 
+  // Key of the scraper implementation in the scraper registry
+  @Column('varchar', { length: 50, nullable: true })
+  scraperKey?: string
+
   @Column('timestamp', { nullable: true })
   lastScrapedAt?: Date
 
@@ -29,4 +33,26 @@ export class ScraperSourceEntity extends BaseEntity {
 
   @Column({ default: 0 })
   totalJobsFound!: number
+
+  // Health of the scraper, see ScraperHealthEvaluator
+  @Column('varchar', { length: 20, default: 'healthy' })
+  healthStatus!: 'healthy' | 'degraded'
+
+  @Column({ default: 0 })
+  consecutiveEmptyRuns!: number
+
+  @Column('timestamp', { nullable: true })
+  degradedAt?: Date | null
+
+  @Column('simple-json', { nullable: true })
+  healthMetrics?: {
+    lastRunAt: string
+    jobsScraped: number
+    fillRatios: { company: number; location: number; description: number } | null
+    baselineFillRatios?: { company: number; location: number; description: number }
+    dateParseFailures: number
+    dateParseFailureSamples?: string[]
+    lastError?: string
+    reasons: string[]
+  } | null
 }
@@ -0,0 +1,27 @@
+import { Entity, Column, Index } from 'typeorm'
+import { BaseEntity } from './BaseEntity'
+
+/**
+ * Webhook that passed signature verification but could not be processed (malformed JSON, unexpected shape)
+ * Kept for inspection instead of being retried forever
+ */
+@Entity('webhook_dead_letters')
+@Index(['receivedAt'])
+export class WebhookDeadLetterEntity extends BaseEntity {
+  @Column('varchar', { length: 30 })
+  source!: string
+
+  // 'invalid_json' | 'invalid_payload'
+  @Column('varchar', { length: 30 })
+  reason!: string
+
+  @Column('text')
+  rawBody!: string
+
+  // Validation issues, e.g. [{ path: 'entry.0.changes', message: 'Invalid input' }]
+  @Column('simple-json', { nullable: true })
+  errors?: { path: string; message: string }[]
+
+  @Column('timestamp')
+  receivedAt!: Date
+}
@@ -6,3 +6,9 @@ export * from './BotUserEntity'
 export * from './PersonalizedLinkEntity'
 export * from './ConversationEntity'
 export * from './MessageEntity'
+export * from './JobAlertEntity'
+export * from './WebhookDeadLetterEntity'
+export * from './FeatureFlagEntity'
+export * from './FeatureFlagAuditLogEntity'
+export * from './AdminUserEntity'
+export * from './AdminAuditLogEntity'
@@ -1,6 +1,8 @@
-import { JobAd } from '@models/JobAd'
+import { JobAd, ContractType, EducationLevel, ExperienceLevel, type JobExpiryReason } from '@models/JobAd'
 import { JobAdEntity } from '../entities/JobAdEntity'
 import { BaseMapper } from './BaseMapper'
+import { JobFingerprint } from '../../utils/job-fingerprint'
+import { JobExpiryPolicy } from '../../utils/job-expiry'
 
 class JobAdMapperClass extends BaseMapper<JobAd, JobAdEntity> {
   private stripHtml(text: string | undefined): string | undefined {
@@ -24,6 +26,14 @@ class JobAdMapperClass extends BaseMapper<JobAd, JobAdEntity> {
       source: model.source,
       pageMetadata: model.pageMetadata,
       internalExtras: { ...model.internalExtras },
+      fingerprint: JobFingerprint.compute(model),
+      contractType: model.contractType,
+      experienceLevel: model.experienceLevel,
+      educationLevel: model.educationLevel,
+      applicationDeadline: model.applicationDeadline,
+      sector: model.sector,
+      skills: model.skills,
+      expiresAt: JobExpiryPolicy.computeExpiresAt(model),
     }
   }
 
@@ -38,6 +48,16 @@ class JobAdMapperClass extends BaseMapper<JobAd, JobAdEntity> {
       source: entity.source,
       pageMetadata: entity.pageMetadata,
       internalExtras: entity.internalExtras,
+      clusterId: entity.clusterId,
+      contractType: entity.contractType as ContractType | undefined,
+      experienceLevel: entity.experienceLevel as ExperienceLevel | undefined,
+      educationLevel: entity.educationLevel as EducationLevel | undefined,
+      applicationDeadline: entity.applicationDeadline,
+      sector: entity.sector,
+      skills: entity.skills,
+      expiresAt: entity.expiresAt,
+      expiredAt: entity.expiredAt,
+      expiryReason: entity.expiryReason as JobExpiryReason | null | undefined,
     })
 
     // Set base fields
@@ -18,6 +18,8 @@ class ScrapeSessionMapperClass extends BaseMapper<
       completedAt: model.completedAt,
       pagesScraped: model.pagesScraped,
       jobsFound: model.jobsFound,
+      jobsUpdated: model.jobsUpdated,
+      pageStats: model.pageStats,
       errors: model.errors,
     }
   }
@@ -31,6 +33,8 @@ class ScrapeSessionMapperClass extends BaseMapper<
       completedAt: entity.completedAt,
       pagesScraped: entity.pagesScraped,
       jobsFound: entity.jobsFound,
+      jobsUpdated: entity.jobsUpdated,
+      pageStats: entity.pageStats || [],
       errors: entity.errors || [],
     })
 
@@ -11,6 +11,7 @@ class ScraperSourceMapperClass extends BaseMapper<
       ...this.mapBaseToEntity(model),
       name: model.name,
       url: model.url,
+      scraperKey: model.scraperKey,
       lastScrapedAt: model.lastScrapedAt,
       lastPageScrapped: model.lastPageScrapped || 0,
       isActive: model.isActive,
@@ -18,6 +19,10 @@ class ScraperSourceMapperClass extends BaseMapper<
       scrapeInterval: model.scrapeInterval,
       maxPages: model.maxPages,
       totalJobsFound: model.totalJobsFound || 0,
+      healthStatus: model.healthStatus,
+      consecutiveEmptyRuns: model.consecutiveEmptyRuns,
+      degradedAt: model.degradedAt,
+      healthMetrics: model.healthMetrics,
     }
   }
 
@@ -25,6 +30,7 @@ class ScraperSourceMapperClass extends BaseMapper<
     const model = new ScraperSource({
       name: entity.name,
       url: entity.url,
+      scraperKey: entity.scraperKey,
       lastScrapedAt: entity.lastScrapedAt,
       lastPageScrapped: entity.lastPageScrapped,
       isActive: entity.isActive,
@@ -32,6 +38,10 @@ class ScraperSourceMapperClass extends BaseMapper<
       scrapeInterval: entity.scrapeInterval,
       maxPages: entity.maxPages,
       totalJobsFound: entity.totalJobsFound,
+      healthStatus: entity.healthStatus,
+      consecutiveEmptyRuns: entity.consecutiveEmptyRuns,
+      degradedAt: entity.degradedAt,
+      healthMetrics: entity.healthMetrics,
     })
 
     // Set base fields
@@ -0,0 +1,32 @@
+import { AppDataSource } from '../data-source'
+import { AdminAuditLogEntity, type AdminAuditAction } from '../entities/AdminAuditLogEntity'
+import { BaseRepository } from './BaseRepository'
+
+export class AdminAuditLogRepository extends BaseRepository<AdminAuditLogEntity> {
+  constructor() {
+    super(AppDataSource.getRepository(AdminAuditLogEntity))
+  }
+
+  async findAllPaginated(
+    page: number,
+    limit: number,
+    filters: { actor?: string; action?: AdminAuditAction } = {}
+  ): Promise<{ logs: AdminAuditLogEntity[]; total: number }> {
+    const queryBuilder = this.repository.createQueryBuilder('log')
+
+    if (filters.actor) {
+      queryBuilder.andWhere('log.actor ILIKE :actor', { actor: `%${filters.actor}%` })
+    }
+    if (filters.action) {
+      queryBuilder.andWhere('log.action = :action', { action: filters.action })
+    }
+
+    const [logs, total] = await queryBuilder
+      .orderBy('log.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount()
+
+    return { logs, total }
+  }
+}
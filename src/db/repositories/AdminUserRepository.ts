@@ -0,0 +1,28 @@
+import { AppDataSource } from '../data-source'
+import { AdminUserEntity } from '../entities/AdminUserEntity'
+import { BaseRepository } from './BaseRepository'
+
+export class AdminUserRepository extends BaseRepository<AdminUserEntity> {
+  constructor() {
+    super(AppDataSource.getRepository(AdminUserEntity))
+  }
+
+  async findByUsername(username: string): Promise<AdminUserEntity | null> {
+    return await this.repository.findOne({ where: { username } })
+  }
+
+  /**
+   * With the password hash, not selected by default
+   */
+  async findWithPasswordHash(username: string): Promise<AdminUserEntity | null> {
+    return await this.repository
+      .createQueryBuilder('admin')
+      .addSelect('admin.passwordHash')
+      .where('admin.username = :username', { username })
+      .getOne()
+  }
+
+  async count(): Promise<number> {
+    return await this.repository.count()
+  }
+}
@@ -1,3 +1,4 @@
+import { In } from 'typeorm'
 import { AppDataSource } from '../data-source'
 import { ConversationEntity } from '../entities/ConversationEntity'
 import { BaseRepository } from './BaseRepository'
@@ -16,6 +17,25 @@ export class ConversationRepository extends BaseRepository<ConversationEntity> {
     })
   }
 
+  async findByPhoneNumbers(phoneNumbers: string[]) {
+    if (phoneNumbers.length === 0) return []
+    return this.repository.find({
+      where: { phoneNumber: In(phoneNumbers) },
+      select: { id: true, phoneNumber: true, startedAt: true },
+    })
+  }
+
+  /**
+   * Conversations in which the users saw a variant of the experiment
+   */
+  async findExposedToExperiment(experimentName: string) {
+    return this.repository
+      .createQueryBuilder('conversation')
+      .where("conversation.metadata::jsonb -> 'experiments' ->> :experimentName IS NOT NULL", { experimentName })
+      .andWhere('conversation.deletedAt IS NULL')
+      .getMany()
+  }
+
   async findActiveByPhoneNumber(phoneNumber: string) {
     return this.repository.findOne({
       where: { phoneNumber, status: 'active' },
@@ -41,6 +61,27 @@ export class ConversationRepository extends BaseRepository<ConversationEntity> {
     })
   }
 
+  /**
+   * Active conversations without activity since the given time, oldest first
+   */
+  async findStaleActive(lastActivityBefore: number, limit = 200) {
+    return this.repository
+      .createQueryBuilder('conversation')
+      .where('conversation.status = :status', { status: 'active' })
+      .andWhere('conversation.lastActivityAt < :lastActivityBefore', { lastActivityBefore })
+      .andWhere('conversation.deletedAt IS NULL')
+      .orderBy('conversation.lastActivityAt', 'ASC')
+      .take(limit)
+      .getMany()
+  }
+
+  async close(id: string, status: 'completed' | 'abandoned', endedAt: number, finalState?: string) {
+    await this.updateStatus(id, status, endedAt)
+    if (finalState) {
+      await this.updateMetadata(id, { finalState })
+    }
+  }
+
   async updateStatus(id: string, status: 'active' | 'completed' | 'abandoned', endedAt?: number) {
     return this.repository.update(id, {
       status,
@@ -64,6 +105,7 @@ export class ConversationRepository extends BaseRepository<ConversationEntity> {
       jobOffersShownCount?: number
       paginationRequestsCount?: number
       finalState?: string
+      experiments?: Record<string, string>
     }
   ) {
     const conversation = await this.findById(id)
@@ -0,0 +1,24 @@
+import { AppDataSource } from '../data-source'
+import { FeatureFlagAuditLogEntity } from '../entities/FeatureFlagAuditLogEntity'
+import { BaseRepository } from './BaseRepository'
+
+export class FeatureFlagAuditLogRepository extends BaseRepository<FeatureFlagAuditLogEntity> {
+  constructor() {
+    super(AppDataSource.getRepository(FeatureFlagAuditLogEntity))
+  }
+
+  async findAllPaginated(
+    page: number,
+    limit: number,
+    flagName?: string
+  ): Promise<{ logs: FeatureFlagAuditLogEntity[]; total: number }> {
+    const [logs, total] = await this.repository.findAndCount({
+      where: flagName ? { flagName } : {},
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    })
+
+    return { logs, total }
+  }
+}
@@ -0,0 +1,17 @@
+import { AppDataSource } from '../data-source'
+import { FeatureFlagEntity } from '../entities/FeatureFlagEntity'
+import { BaseRepository } from './BaseRepository'
+
+export class FeatureFlagRepository extends BaseRepository<FeatureFlagEntity> {
+  constructor() {
+    super(AppDataSource.getRepository(FeatureFlagEntity))
+  }
+
+  async findByName(name: string): Promise<FeatureFlagEntity | null> {
+    return this.findOneBy({ name })
+  }
+
+  async findAllOrdered(): Promise<FeatureFlagEntity[]> {
+    return this.findAll({ order: { name: 'ASC' } })
+  }
+}
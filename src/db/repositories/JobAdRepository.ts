@@ -1,9 +1,38 @@
+import { Between, In, IsNull, Not } from 'typeorm'
 import { AppDataSource } from '../data-source'
 import { JobAdEntity } from '../entities/JobAdEntity'
 import { BaseRepository } from './BaseRepository'
 import { JobAdMapper } from '../mappers'
-import { JobAd } from '@models/JobAd'
+import { JobAd, type JobAdAlternateLink, type JobExpiryReason } from '@models/JobAd'
 import { TitleTransformer } from '../../utils/title-transformer'
+import type { JobSearchFilters } from '../../utils/job-query-parser'
+import { JobSearchRanking } from '../../utils/job-search-ranking'
+
+export interface JobAdSaveResult {
+  job: JobAd | null
+  action: 'created' | 'updated' | 'skipped'
+}
+
+/**
+ * Structured search: full-text keywords plus filters parsed from the chat message
+ */
+export interface JobSearchCriteria extends JobSearchFilters {
+  query?: string
+}
+
+// Ways remote work is written in job ads
+const REMOTE_PATTERNS = ['%télétravail%', '%teletravail%', '%remote%', '%à distance%']
+
+// Only the canonical job of a duplicate cluster is returned by searches (clusterId is a uuid, ids are varchar)
+const CANONICAL_JOB_CONDITION = '(job."clusterId" IS NULL OR job."clusterId"::varchar = job.id)'
+
+// Search query, every word must match (French stemming, e.g. "comptables" matches "comptable")
+const TS_QUERY_SQL = "plainto_tsquery('french', :query)"
+
+const RECENCY_SQL = JobSearchRanking.recencySql('job.postedDate')
+
+// Expired jobs (past deadline, removed from their source) are kept for history but never returned
+const NOT_EXPIRED_CONDITION = 'job."expiredAt" IS NULL'
 
 export class JobAdRepository extends BaseRepository<JobAdEntity> {
   constructor() {
@@ -25,8 +54,128 @@ export class JobAdRepository extends BaseRepository<JobAdEntity> {
     })
   }
 
+  /**
+   * Jobs from other boards sharing a fingerprint and posted around the same date
+   */
+  async findClusterCandidates(
+    fingerprint: string,
+    source: string,
+    postedDate: Date,
+    windowDays: number,
+    excludeId?: string
+  ): Promise<JobAdEntity[]> {
+    const windowMs = windowDays * 24 * 60 * 60 * 1000
+
+    return this.repository.find({
+      where: {
+        fingerprint,
+        source: Not(source),
+        postedDate: Between(new Date(postedDate.getTime() - windowMs), new Date(postedDate.getTime() + windowMs)),
+        ...(excludeId && { id: Not(excludeId) }),
+      },
+      order: { createdAt: 'ASC' },
+      take: 20,
+    })
+  }
+
+  /**
+   * Jobs of a cluster that are still live, oldest first
+   */
+  async findLiveClusterMembers(clusterId: string): Promise<JobAdEntity[]> {
+    return this.repository.find({
+      where: { clusterId, expiredAt: IsNull() },
+      order: { createdAt: 'ASC' },
+    })
+  }
+
+  async setClusterId(ids: string[], clusterId: string): Promise<number> {
+    return this.updateWhere({ id: In(ids) }, { clusterId })
+  }
+
+  async moveCluster(fromClusterId: string, toClusterId: string): Promise<number> {
+    return this.updateWhere({ clusterId: fromClusterId }, { clusterId: toClusterId })
+  }
+
+  /**
+   * Jobs still missing a fingerprint, oldest first (backfill)
+   */
+  async findWithoutFingerprint(limit: number): Promise<JobAdEntity[]> {
+    return this.repository.find({
+      where: { fingerprint: IsNull() },
+      order: { createdAt: 'ASC' },
+      take: limit,
+    })
+  }
+
+  /**
+   * Flag as expired the jobs whose expiresAt is past
+   * @returns Ids of the newly expired jobs
+   */
+  async expireDue(now: Date = new Date()): Promise<string[]> {
+    const result = await this.repository
+      .createQueryBuilder()
+      .update(JobAdEntity)
+      .set({ expiredAt: now, expiryReason: 'deadline' })
+      .where('"expiredAt" IS NULL AND "deletedAt" IS NULL AND "expiresAt" <= :now', { now })
+      .returning('id')
+      .execute()
+
+    return (result.raw as { id: string }[]).map(row => row.id)
+  }
+
+  async expire(ids: string[], reason: JobExpiryReason, now: Date = new Date()): Promise<number> {
+    if (ids.length === 0) return 0
+    return this.updateWhere({ id: In(ids), expiredAt: IsNull() }, { expiredAt: now, expiryReason: reason })
+  }
+
+  /**
+   * Live jobs whose URL was never checked or not since checkedBefore, least recently checked first
+   */
+  async findDueForRevalidation(checkedBefore: Date, limit: number): Promise<JobAdEntity[]> {
+    return this.repository
+      .createQueryBuilder('job')
+      .where('job.deletedAt IS NULL')
+      .andWhere(NOT_EXPIRED_CONDITION)
+      .andWhere('(job."urlCheckedAt" IS NULL OR job."urlCheckedAt" < :checkedBefore)', { checkedBefore })
+      .orderBy('job."urlCheckedAt"', 'ASC', 'NULLS FIRST')
+      .addOrderBy('job.postedDate', 'ASC')
+      .take(limit)
+      .getMany()
+  }
+
+  async markUrlChecked(ids: string[], checkedAt: Date = new Date()): Promise<number> {
+    if (ids.length === 0) return 0
+    return this.updateWhere({ id: In(ids) }, { urlCheckedAt: checkedAt })
+  }
+
+  /**
+   * Fill alternateLinks with the other jobs of each model's cluster
+   */
+  async attachAlternateLinks(models: JobAd[]): Promise<JobAd[]> {
+    const clusterIds = [...new Set(models.map(model => model.clusterId).filter((id): id is string => !!id))]
+    if (clusterIds.length === 0) return models
+
+    const members = await this.repository.find({
+      where: { clusterId: In(clusterIds), expiredAt: IsNull() },
+      select: ['id', 'clusterId', 'source', 'url'],
+      order: { createdAt: 'ASC' },
+    })
+
+    for (const model of models) {
+      if (!model.clusterId) continue
+      model.alternateLinks = members
+        .filter(member => member.clusterId === model.clusterId && member.id !== model.id)
+        .map((member): JobAdAlternateLink => ({ source: member.source, url: member.url }))
+    }
+
+    return models
+  }
+
   // Model-based methods
-  async saveModel(model: JobAd): Promise<JobAd | null> {
+  /**
+   * Save a scraped job, telling whether it was created, updated or skipped
+   */
+  async saveModelWithResult(model: JobAd): Promise<JobAdSaveResult> {
     // Check if a job with the same URL already exists
     const existingJob = await this.findByUrl(model.url)
 
@@ -46,19 +195,24 @@ export class JobAdRepository extends BaseRepository<JobAdEntity> {
           ...JobAdMapper.toEntity(model),
           id: existingJob.id,
         })
-        return JobAdMapper.toModel(updatedEntity)
+        return { job: JobAdMapper.toModel(updatedEntity), action: 'updated' }
       }
 
       // Otherwise, skip saving (same version or lower version)
       console.log(`[JobAdRepository] Skipping job ${model.url} - existing version: ${existingVersion}, new version: ${newVersion}`)
-      return null
+      return { job: null, action: 'skipped' }
     }
 
     // Transform the title before saving
     model.title = TitleTransformer.transformWithArticles(model.title)
 
     const entity = await this.create(JobAdMapper.toEntity(model))
-    return JobAdMapper.toModel(entity)
+    return { job: JobAdMapper.toModel(entity), action: 'created' }
+  }
+
+  async saveModel(model: JobAd): Promise<JobAd | null> {
+    const { job } = await this.saveModelWithResult(model)
+    return job
   }
 
   async findModelByUrl(url: string): Promise<JobAd | null> {
@@ -78,53 +232,145 @@ export class JobAdRepository extends BaseRepository<JobAdEntity> {
 
   /**
    * Search jobs using PostgreSQL full-text search with French language support
-   * and fuzzy matching for typo tolerance
    *
-   * Search Strategy:
-   * 1. Full-text search (primary): Uses ts_vector and ts_query for exact word matching
-   * 2. Fuzzy search (fallback): Uses trigram similarity to catch typos and similar strings
-   *
-   * Fuzzy Search Configuration:
-   * - Fields: title, description, company
-   * - Similarity threshold: 0.4 (40%) - strict matching
-   * - Examples: "Comptabel" → "Comptable", "Developeur" → "Développeur"
+   * Results are ranked by relevance blended with recency (see search)
+   * Duplicates posted on several boards are returned once (canonical job, with alternateLinks)
    *
    * @param query - Search query
    * @param limit - Maximum number of results (default: 3)
    * @param offset - Pagination offset (default: 0)
    */
   async searchByQuery(query: string, limit: number = 3, offset: number = 0): Promise<JobAd[]> {
-    // Prepare the query for ts_query (handle multiple words and French text)
-    const tsQuery = query.trim().split(/\s+/).join(' & ')
-    const rawQuery = query.trim()
+    return this.search({ query }, limit, offset)
+  }
 
-    const entities = await this.repository
+  /**
+   * Search jobs with full-text keywords and structured filters
+   * Filters can be used without keywords, e.g. "stage à Bouaké"
+   *
+   * Ranked by relevance blended with recency, see JobSearchRanking
+   *
+   * @param criteria - Keywords and filters
+   * @param limit - Maximum number of results (default: 3)
+   * @param offset - Pagination offset (default: 0)
+   * @param options.debug - Attach the score breakdown to each result (searchScore)
+   */
+  async search(
+    criteria: JobSearchCriteria,
+    limit: number = 3,
+    offset: number = 0,
+    options: { debug?: boolean } = {}
+  ): Promise<JobAd[]> {
+    const queryBuilder = this.repository
       .createQueryBuilder('job')
       .where('job.deletedAt IS NULL')
-      .andWhere(
-        `(
-          -- Full-text search (primary)
-          (
-            to_tsvector('french', COALESCE(job.title, '')) ||
-            to_tsvector('french', COALESCE(job.description, '')) ||
-            to_tsvector('french', COALESCE(job.company, '')) ||
-            to_tsvector('french', COALESCE(job.location, '')) ||
-            to_tsvector('french', COALESCE(job."pageMetadata"::text, ''))
-          ) @@ to_tsquery('french', :tsQuery)
-          -- OR
-          -- Fuzzy search using trigram similarity (catches typos and similar strings)
-          -- (
-          --   similarity(job.title, :rawQuery) > 0.4
-          --   OR similarity(job.description, :rawQuery) > 0.4
-          --   OR similarity(job.company, :rawQuery) > 0.4
-          -- )
-        )`,
-        { tsQuery /*, rawQuery */ }
+      .andWhere(CANONICAL_JOB_CONDITION)
+      .andWhere(NOT_EXPIRED_CONDITION)
+
+    const query = criteria.query?.trim()
+    const textRank = query ? this.textRankSql(JobSearchRanking.rankWeights()) : null
+    const score = JobSearchRanking.scoreSql(textRank, RECENCY_SQL)
+
+    if (query) {
+      queryBuilder.andWhere(`job."searchVector" @@ ${TS_QUERY_SQL}`, { query })
+    }
+
+    if (criteria.location) {
+      queryBuilder.andWhere('job.location ILIKE ANY(:locationPatterns)', {
+        locationPatterns: this.locationPatterns(criteria.location),
+      })
+    }
+
+    // Most older jobs have no extracted contract type, those match on the contract word ("cdi", "stage") instead
+    if (criteria.contractType) {
+      queryBuilder.andWhere(
+        `(job."contractType" = :contractType OR (job."contractType" IS NULL AND job."searchVector" @@ plainto_tsquery('french', :contractType)))`,
+        { contractType: criteria.contractType }
       )
-      .addOrderBy(`CASE WHEN job."internalExtras"->>'version' = '2' THEN 0 ELSE 1 END`, 'ASC')
+    }
+
+    if (criteria.postedWithinDays) {
+      queryBuilder.andWhere('job.postedDate >= :postedSince', {
+        postedSince: new Date(Date.now() - criteria.postedWithinDays * 24 * 60 * 60 * 1000),
+      })
+    }
+
+    if (criteria.remote) {
+      queryBuilder.andWhere('(job.title ILIKE ANY(:remotePatterns) OR job.description ILIKE ANY(:remotePatterns))', {
+        remotePatterns: REMOTE_PATTERNS,
+      })
+    }
+
+    queryBuilder.addSelect(score, 'score')
+
+    if (options.debug) {
+      queryBuilder
+        .addSelect(textRank ?? '0', 'text_rank')
+        .addSelect(RECENCY_SQL, 'recency')
+        .addSelect(query ? this.textRankSql(JobSearchRanking.rankWeights('title')) : '0', 'rank_title')
+        .addSelect(query ? this.textRankSql(JobSearchRanking.rankWeights('companyLocation')) : '0', 'rank_company_location')
+        .addSelect(query ? this.textRankSql(JobSearchRanking.rankWeights('description')) : '0', 'rank_description')
+        .addSelect(query ? this.textRankSql(JobSearchRanking.rankWeights('pageMetadata')) : '0', 'rank_page_metadata')
+    }
+
+    // offset/limit (not skip/take): one raw row per job, without the distinct id subquery
+    const { entities, raw } = await queryBuilder
+      .orderBy('score', 'DESC')
+      .addOrderBy('job.postedDate', 'DESC')
+      .offset(offset)
+      .limit(limit)
+      .getRawAndEntities()
+
+    const models = JobAdMapper.toModels(entities)
+
+    if (options.debug) {
+      const rowsById = new Map(raw.map(row => [row.job_id, row]))
+      for (const model of models) {
+        model.searchScore = JobSearchRanking.toSearchScore(rowsById.get(model.id!))
+      }
+    }
+
+    return this.attachAlternateLinks(models)
+  }
+
+  /**
+   * ts_rank_cd of the search query with the given {D, C, B, A} weights, normalized to [0, 1)
+   */
+  private textRankSql(weights: string): string {
+    return `ts_rank_cd('${weights}', job."searchVector", ${TS_QUERY_SQL}, 32)`
+  }
+
+  /**
+   * ILIKE patterns matching a location written with or without accents and hyphens
+   * e.g. "Port-Bouët" -> "%Port-Bouët%", "%Port-Bouet%", "%Port Bouët%", "%Port Bouet%"
+   */
+  private locationPatterns(location: string): string[] {
+    const unaccented = location.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    const variants = [location, unaccented].flatMap(name => [name, name.replace(/-/g, ' ')])
+
+    return [...new Set(variants)].map(name => `%${name}%`)
+  }
+
+  /**
+   * Find, among the given job ids, the jobs matching a full-text query
+   * Used by job alerts to match freshly scraped jobs against subscriptions
+   * Duplicates of an already known job are left out
+   *
+   * @param ids - Candidate job ids
+   * @param query - Search query of the subscription
+   */
+  async findByIdsMatchingQuery(ids: string[], query: string): Promise<JobAd[]> {
+    if (ids.length === 0) return []
+
+    const entities = await this.repository
+      .createQueryBuilder('job')
+      .where('job.deletedAt IS NULL')
+      .andWhere('job.id IN (:...ids)', { ids })
+      .andWhere(CANONICAL_JOB_CONDITION)
+      .andWhere(NOT_EXPIRED_CONDITION)
+      .andWhere(`job."searchVector" @@ ${TS_QUERY_SQL}`, { query: query.trim() })
+      .orderBy(this.textRankSql(JobSearchRanking.rankWeights()), 'DESC')
       .addOrderBy('job.postedDate', 'DESC')
-      .skip(offset)
-      .take(limit)
       .getMany()
 
     return JobAdMapper.toModels(entities)
@@ -0,0 +1,61 @@
+import { AppDataSource } from '../data-source'
+import { JobAlertEntity } from '../entities/JobAlertEntity'
+import { BaseRepository } from './BaseRepository'
+
+export class JobAlertRepository extends BaseRepository<JobAlertEntity> {
+  constructor() {
+    super(AppDataSource.getRepository(JobAlertEntity))
+  }
+
+  async findActive(): Promise<JobAlertEntity[]> {
+    return this.findBy({ isActive: true })
+  }
+
+  async findActiveByPhoneNumber(phoneNumber: string): Promise<JobAlertEntity[]> {
+    return this.repository.find({
+      where: { phoneNumber, isActive: true },
+      order: { createdAt: 'ASC' },
+    })
+  }
+
+  async findActiveByQuery(phoneNumber: string, query: string): Promise<JobAlertEntity | null> {
+    return this.repository
+      .createQueryBuilder('alert')
+      .where('alert.phoneNumber = :phoneNumber', { phoneNumber })
+      .andWhere('alert.isActive = true')
+      .andWhere('LOWER(alert.query) = LOWER(:query)', { query })
+      .getOne()
+  }
+
+  async deactivate(id: string): Promise<JobAlertEntity | null> {
+    return this.update(id, { isActive: false })
+  }
+
+  async deactivateAllForPhoneNumber(phoneNumber: string): Promise<number> {
+    return this.updateWhere({ phoneNumber, isActive: true }, { isActive: false })
+  }
+
+  /**
+   * Record a sent notification, resetting the daily counter when the day changes
+   */
+  async recordNotification(
+    alert: JobAlertEntity,
+    jobIds: string[],
+    day: string,
+    maxRememberedJobs: number
+  ): Promise<JobAlertEntity | null> {
+    const notificationsToday = alert.notificationsDay === day ? alert.notificationsToday + 1 : 1
+    const notifiedJobIds = [...(alert.metadata?.notifiedJobIds || []), ...jobIds].slice(-maxRememberedJobs)
+
+    return this.update(alert.id, {
+      lastNotifiedAt: new Date(),
+      notificationsDay: day,
+      notificationsToday,
+      totalJobsSent: alert.totalJobsSent + jobIds.length,
+      metadata: {
+        ...alert.metadata,
+        notifiedJobIds,
+      },
+    })
+  }
+}
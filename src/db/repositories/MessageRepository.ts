@@ -38,6 +38,13 @@ export class MessageRepository extends BaseRepository<MessageEntity> {
     })
   }
 
+  async findLatestByConversationId(conversationId: string) {
+    return this.repository.findOne({
+      where: { conversationId },
+      order: { timestamp: 'DESC' },
+    })
+  }
+
   async getLatestByPhoneNumber(phoneNumber: string) {
     return this.repository.findOne({
       where: { phoneNumber },
@@ -110,6 +117,96 @@ export class MessageRepository extends BaseRepository<MessageEntity> {
     }
   }
 
+  /**
+   * Outgoing message holding a WhatsApp message id (uses idx_messages_whatsapp_message_ids)
+   */
+  async findByWhatsAppMessageId(whatsappMessageId: string): Promise<MessageEntity | null> {
+    return this.repository
+      .createQueryBuilder('message')
+      .where('message.whatsappMessageIds @> ARRAY[:whatsappMessageId]::text[]', { whatsappMessageId })
+      .getOne()
+  }
+
+  /**
+   * Delivery and read rates (in %) of outgoing messages sent through WhatsApp
+   * Messages saved without a WhatsApp id (sent before ids were stored) are left out
+   */
+  async getDeliveryRatesPerTimeBucket(
+    startTime: number,
+    endTime: number
+  ): Promise<Array<{ bucket: number; sent: number; delivered: number; read: number; failed: number; deliveryRate: number; readRate: number }>> {
+    const bucketSize = this.calculateBucketSize(startTime, endTime)
+
+    try {
+      const results = await this.repository.query(`
+        SELECT
+          FLOOR(timestamp / $1) * $1 as bucket,
+          COUNT(*) as sent,
+          COUNT(*) FILTER (WHERE "deliveredAt" IS NOT NULL) as delivered,
+          COUNT(*) FILTER (WHERE "readAt" IS NOT NULL) as read,
+          COUNT(*) FILTER (WHERE "deliveryStatus" = 'failed') as failed
+        FROM messages
+        WHERE "deletedAt" IS NULL
+          AND direction = 'outgoing'
+          AND "whatsappMessageIds" IS NOT NULL
+          AND timestamp >= $2
+          AND timestamp <= $3
+        GROUP BY bucket
+        ORDER BY bucket ASC
+      `, [bucketSize, startTime, endTime])
+
+      const rate = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 1000) / 10 : 0)
+
+      return results.map((r: any) => {
+        const sent = parseInt(r.sent)
+        const delivered = parseInt(r.delivered)
+        const read = parseInt(r.read)
+        return {
+          bucket: parseInt(r.bucket),
+          sent,
+          delivered,
+          read,
+          failed: parseInt(r.failed),
+          deliveryRate: rate(delivered, sent),
+          readRate: rate(read, sent),
+        }
+      })
+    } catch {
+      return []
+    }
+  }
+
+  /**
+   * Most frequent WhatsApp error codes of failed messages (e.g. 131047: outside the 24h window)
+   */
+  async getFailureReasons(startTime: number, endTime: number, limit = 10): Promise<Array<{ code: number; title: string; count: number }>> {
+    try {
+      const results = await this.repository.query(`
+        SELECT
+          "failureReason"->>'code' as code,
+          MAX("failureReason"->>'title') as title,
+          COUNT(*) as count
+        FROM messages
+        WHERE "deletedAt" IS NULL
+          AND "deliveryStatus" = 'failed'
+          AND "failureReason" IS NOT NULL
+          AND timestamp >= $1
+          AND timestamp <= $2
+        GROUP BY code
+        ORDER BY count DESC
+        LIMIT $3
+      `, [startTime, endTime, limit])
+
+      return results.map((r: any) => ({
+        code: parseInt(r.code),
+        title: r.title,
+        count: parseInt(r.count),
+      }))
+    } catch {
+      return []
+    }
+  }
+
   private calculateBucketSize(startTime: number, endTime: number): number {
     const duration = endTime - startTime
     const fifteenMin = 15 * 60 * 1000
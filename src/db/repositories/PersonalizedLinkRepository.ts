@@ -1,3 +1,4 @@
+import { Between, In, MoreThan } from 'typeorm'
 import { AppDataSource } from '../index'
 import { PersonalizedLinkEntity } from '../entities/PersonalizedLinkEntity'
 import { BaseRepository } from './BaseRepository'
@@ -30,10 +31,32 @@ export class PersonalizedLinkRepository extends BaseRepository<PersonalizedLinkE
     })
   }
 
+  /**
+   * Deactivate the links sent for the given jobs, e.g. once the jobs expired
+   */
+  async deactivateByJobAdIds(jobAdIds: string[]): Promise<number> {
+    if (jobAdIds.length === 0) return 0
+    return this.updateWhere({ jobAdId: In(jobAdIds), isActive: true }, { isActive: false })
+  }
+
   async findByPhoneNumber(phoneNumber: string): Promise<PersonalizedLinkEntity[]> {
     return await this.findBy({ phoneNumber })
   }
 
+  async findByPhoneNumbers(phoneNumbers: string[]): Promise<PersonalizedLinkEntity[]> {
+    if (phoneNumbers.length === 0) return []
+    return await this.findBy({ phoneNumber: In(phoneNumbers) })
+  }
+
+  /**
+   * Links sent to a user during a time range that were opened at least once
+   */
+  async countClickedSentBetween(phoneNumber: string, from: Date, to: Date): Promise<number> {
+    return this.repository.count({
+      where: { phoneNumber, createdAt: Between(from, to), clickCount: MoreThan(0) },
+    })
+  }
+
   async getClicksPerTimeBucket(startTime: number, endTime: number): Promise<Array<{ bucket: number; count: number }>> {
     const bucketSize = this.calculateBucketSize(startTime, endTime)
 
@@ -18,7 +18,7 @@ export class ScrapeSessionRepository extends BaseRepository<ScrapeSessionEntity>
   }
 
   async findByStatus(
-    status: 'pending' | 'in_progress' | 'completed' | 'failed'
+    status: ScrapeSessionEntity['status']
   ): Promise<ScrapeSessionEntity[]> {
     return this.findBy({ status })
   }
@@ -30,6 +30,54 @@ export class ScrapeSessionRepository extends BaseRepository<ScrapeSessionEntity>
     })
   }
 
+  /**
+   * Last run of each source
+   */
+  async findLatestPerSource(): Promise<ScrapeSessionEntity[]> {
+    return this.repository
+      .createQueryBuilder('session')
+      .distinctOn(['session.sourceId'])
+      .where('session.deletedAt IS NULL')
+      .orderBy('session.sourceId')
+      .addOrderBy('session.startedAt', 'DESC')
+      .getMany()
+  }
+
+  async findAllPaginated(
+    page: number,
+    limit: number,
+    search?: string,
+    sortBy: string = 'startedAt',
+    sortOrder: 'ASC' | 'DESC' = 'DESC',
+    sourceId?: string,
+    status?: string
+  ): Promise<{ sessions: ScrapeSessionEntity[]; total: number }> {
+    const offset = (page - 1) * limit
+    const queryBuilder = this.repository
+      .createQueryBuilder('session')
+      .where('session.deletedAt IS NULL')
+
+    if (search) {
+      queryBuilder.andWhere('session.sourceName ILIKE :search', { search: `%${search}%` })
+    }
+
+    if (sourceId) {
+      queryBuilder.andWhere('session.sourceId = :sourceId', { sourceId })
+    }
+
+    if (status) {
+      queryBuilder.andWhere('session.status = :status', { status })
+    }
+
+    const [sessions, total] = await queryBuilder
+      .orderBy(`session.${sortBy}`, sortOrder)
+      .skip(offset)
+      .take(limit)
+      .getManyAndCount()
+
+    return { sessions, total }
+  }
+
   async markCompleted(
     sessionId: string,
     pagesScraped: number,
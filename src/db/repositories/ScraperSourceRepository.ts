@@ -13,6 +13,13 @@ export class ScraperSourceRepository extends BaseRepository<ScraperSourceEntity>
     return this.findOneBy({ name })
   }
 
+  /**
+   * Names stay taken by deleted sources, their scrape sessions still reference them
+   */
+  async isNameTaken(name: string): Promise<boolean> {
+    return this.repository.exists({ where: { name }, withDeleted: true })
+  }
+
   async findActive(): Promise<ScraperSourceEntity[]> {
     return this.findBy({ isActive: true })
   }
@@ -38,6 +45,17 @@ export class ScraperSourceRepository extends BaseRepository<ScraperSourceEntity>
     })
   }
 
+  async findDegraded(): Promise<ScraperSourceEntity[]> {
+    return this.findBy({ healthStatus: 'degraded' })
+  }
+
+  async updateHealth(
+    id: string,
+    health: Pick<ScraperSourceEntity, 'healthStatus' | 'consecutiveEmptyRuns' | 'degradedAt' | 'healthMetrics'>
+  ): Promise<ScraperSourceEntity | null> {
+    return this.update(id, health)
+  }
+
   // Model-based methods
   async saveModel(model: ScraperSource): Promise<ScraperSource> {
     const entity = await this.create(ScraperSourceMapper.toEntity(model))
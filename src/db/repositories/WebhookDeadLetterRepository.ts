@@ -0,0 +1,24 @@
+import { AppDataSource } from '../data-source'
+import { WebhookDeadLetterEntity } from '../entities/WebhookDeadLetterEntity'
+import { BaseRepository } from './BaseRepository'
+
+export class WebhookDeadLetterRepository extends BaseRepository<WebhookDeadLetterEntity> {
+  constructor() {
+    super(AppDataSource.getRepository(WebhookDeadLetterEntity))
+  }
+
+  async findAllPaginated(
+    page: number,
+    limit: number,
+    reason?: string
+  ): Promise<{ deadLetters: WebhookDeadLetterEntity[]; total: number }> {
+    const [deadLetters, total] = await this.repository.findAndCount({
+      where: reason ? { reason } : {},
+      order: { receivedAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    })
+
+    return { deadLetters, total }
+  }
+}
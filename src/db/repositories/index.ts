@@ -4,3 +4,9 @@ export * from './ScraperSourceRepository'
 export * from './ScrapeSessionRepository'
 export * from './BotUserRepository'
 export * from './PersonalizedLinkRepository'
+export * from './JobAlertRepository'
+export * from './WebhookDeadLetterRepository'
+export * from './FeatureFlagRepository'
+export * from './FeatureFlagAuditLogRepository'
+export * from './AdminUserRepository'
+export * from './AdminAuditLogRepository'
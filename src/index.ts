@@ -4,14 +4,26 @@ import { envSchema } from '@config/env.schema'
 import { initializeDatabase } from './db'
 import { ScraperSourceRepository } from './db/repositories/ScraperSourceRepository'
 import { PersonalizedLinkRepository } from './db/repositories/PersonalizedLinkRepository'
+import { JobAdRepository } from './db/repositories/JobAdRepository'
 import { BotUserRepository } from './db/repositories/BotUserRepository'
 import { WhatsAppMessageService } from './services/whatsapp-message.service'
+import { WhatsAppWebhookService } from './services/whatsapp-webhook.service'
 import { ConversationStateService } from './services/conversation-state.service'
 import { ChatHistoryService } from './services/chat-history.service'
+import { MessageDeduplicationService } from './services/message-deduplication.service'
+import { MessageOrderingService } from './services/message-ordering.service'
+import { DelayedMessageService } from './services/delayed-message.service'
+import { IntentResolverSelector } from './intents'
 import { ScrapeSchedulerService } from './services/scrape-scheduler.service'
+import { ScrapeMode } from './models/ScrapeSession'
+import { getWebhookSender } from './models/WhatsAppWebhook'
 import { getWhatsAppMessageQueue, closeWhatsAppMessageQueue } from './queues/whatsapp-message.queue'
+import { getDelayedMessageQueue, closeDelayedMessageQueue } from './queues/delayed-message.queue'
 import { getRedisConnection } from '@config/redis'
+import { getExperimentService } from '@config/experiments'
+import { getAdminEventsService } from '@config/admin-events'
 import { Logger } from './utils/logger'
+import { ExpiredLinkPage } from './utils/expired-link-page'
 import { adminRoutes } from './admin'
 
 // Initialize database
@@ -28,8 +40,20 @@ const redis = getRedisConnection(
 // Initialize conversation services
 const conversationStateService = new ConversationStateService(redis)
 const chatHistoryService = new ChatHistoryService(redis)
+const deduplicationService = new MessageDeduplicationService(redis)
+const orderingService = new MessageOrderingService(redis)
+const delayedMessageService = new DelayedMessageService(
+  getDelayedMessageQueue(
+    process.env.REDIS_HOST || 'localhost',
+    parseInt(process.env.REDIS_PORT || '6379'),
+    process.env.REDIS_PASSWORD
+  )
+)
 Logger.success('Conversation services initialized')
 
+// Verifies and validates incoming WhatsApp webhooks
+const whatsappWebhookService = new WhatsAppWebhookService()
+
 // Initialize WhatsApp message queue
 const whatsappQueue = getWhatsAppMessageQueue(
   process.env.REDIS_HOST || 'localhost',
@@ -117,7 +141,14 @@ const app = new Elysia()
     }
   })
   .get('/webhook/whatsapp', async ({ query, set }) => {
-    const whatsappService = new WhatsAppMessageService(conversationStateService, chatHistoryService)
+    const whatsappService = new WhatsAppMessageService(
+      conversationStateService,
+      chatHistoryService,
+      deduplicationService,
+      delayedMessageService,
+      new IntentResolverSelector(redis),
+      getExperimentService()
+    )
     const mode = query['hub.mode']
     const token = query['hub.verify_token']
     const challenge = query['hub.challenge']
@@ -137,14 +168,37 @@ const app = new Elysia()
     set.status = 403
     return { error: 'Verification failed' }
   })
-  .post('/webhook/whatsapp', async ({ body, set }) => {
+  .post('/webhook/whatsapp', async ({ body, request, set }) => {
     try {
-      Logger.info('Received WhatsApp webhook - enqueueing message', { body })
+      // Signature is computed on the raw body, hence parse: 'text'
+      const intake = await whatsappWebhookService.receive(
+        typeof body === 'string' ? body : '',
+        request.headers.get('x-hub-signature-256')
+      )
+
+      if (intake.status === 'rejected') {
+        set.status = 401
+        return { error: 'Invalid signature' }
+      }
+
+      if (intake.status === 'quarantined') {
+        // Acknowledged so that WhatsApp does not retry a payload we cannot process
+        set.status = 200
+        return { success: false, quarantined: true }
+      }
+
+      Logger.info('Received WhatsApp webhook - enqueueing message', { body: intake.payload })
+
+      // Tickets keep the messages of a user in reception order across workers
+      const phoneNumber = getWebhookSender(intake.payload)
+      const ticket = phoneNumber ? await orderingService.issueTicket(phoneNumber) : undefined
 
       // Enqueue the message for processing instead of processing synchronously
       await whatsappQueue.add('process-message', {
-        payload: body,
+        payload: intake.payload,
         receivedAt: new Date().toISOString(),
+        phoneNumber,
+        ticket,
       })
 
       Logger.success('WhatsApp message enqueued successfully')
@@ -156,6 +210,8 @@ const app = new Elysia()
       set.status = 500
       return { error: 'Internal server error' }
     }
+  }, {
+    parse: 'text',
   })
   .post('/api/scrape/trigger', async ({ set }) => {
     try {
@@ -171,7 +227,7 @@ const app = new Elysia()
         parseInt(process.env.MAX_PAGES_PER_SCRAPE || '3')
       )
 
-      await scheduler.checkAndEnqueueScrapingTasks()
+      await scheduler.checkAndEnqueueScrapingTasks(ScrapeMode.MANUAL)
 
       Logger.success('Scraping tasks triggered successfully')
 
@@ -269,9 +325,16 @@ const app = new Elysia()
       return { error: 'Link not found' }
     }
 
-    if (!link.isActive) {
+    const job = await new JobAdRepository().findById(link.jobAdId)
+
+    if (!link.isActive || job?.expiredAt) {
+      if (link.isActive) {
+        await linkRepo.update(link.id, { isActive: false })
+      }
+
       set.status = 410
-      return { error: 'Link is no longer active' }
+      set.headers['Content-Type'] = 'text/html; charset=utf-8'
+      return ExpiredLinkPage.render(job)
     }
 
     const metadata = {
@@ -284,6 +347,17 @@ const app = new Elysia()
 
     await linkRepo.incrementClickCount(id, metadata)
 
+    await getAdminEventsService().publish({
+      type: 'link.clicked',
+      data: {
+        id: link.id,
+        phoneNumber: link.phoneNumber,
+        jobAdId: link.jobAdId,
+        jobTitle: link.metadata?.jobTitle,
+        clickCount: link.clickCount + 1,
+      },
+    })
+
     set.status = 302
     set.headers['Location'] = link.jobAdUrl
     set.headers['Cache-Control'] = 'no-store, no-cache, must-revalidate, proxy-revalidate'
@@ -296,6 +370,7 @@ const app = new Elysia()
 const shutdown = async (signal: string) => {
   Logger.info(`${signal} received, shutting down gracefully`)
   await closeWhatsAppMessageQueue()
+  await closeDelayedMessageQueue()
   process.exit(0)
 }
 
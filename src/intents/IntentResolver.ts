@@ -0,0 +1,27 @@
+/**
+ * What the user wants, whatever understood their message
+ * - search: look for jobs (query holds the job title when the resolver extracted it)
+ * - paginate: more results for the last search ("voir plus")
+ * - greeting / help / goodbye: small talk, answered without searching
+ * - unknown: not understood, the user is asked to rephrase
+ */
+export type IntentType = 'greeting' | 'search' | 'paginate' | 'help' | 'goodbye' | 'unknown'
+
+export type IntentResolverName = 'rules' | 'nlp' | 'langchain'
+
+export interface Intent {
+  type: IntentType
+  // Job title to search, defaults to the message
+  query?: string
+  confidence: number
+  resolver: IntentResolverName
+}
+
+/**
+ * Turns a user message into an intent, fed to the conversation machine
+ * Strategies are switched per user by the feature flags (see selectIntentResolver)
+ */
+export interface IntentResolver {
+  readonly name: IntentResolverName
+  resolve(phoneNumber: string, message: string): Promise<Intent>
+}
@@ -0,0 +1,42 @@
+import type { Redis } from 'ioredis'
+import { LangchainService, type ConversationAction } from '../services/langchain.service'
+import type { Intent, IntentResolver, IntentType } from './IntentResolver'
+
+/**
+ * Langchain + Grok, extracts the job title from free text ("je cherche un poste de comptable")
+ */
+export class LlmIntentResolver implements IntentResolver {
+  readonly name = 'langchain' as const
+
+  private readonly INTENTS: Record<ConversationAction['action'], IntentType> = {
+    welcome: 'greeting',
+    search: 'search',
+    paginate: 'paginate',
+    help: 'help',
+    goodbye: 'goodbye',
+    unknown: 'unknown',
+  }
+
+  private langchain: LangchainService
+
+  constructor(redis: Redis) {
+    this.langchain = new LangchainService(redis)
+  }
+
+  async resolve(phoneNumber: string, message: string): Promise<Intent> {
+    const action = await this.langchain.analyzeMessage(phoneNumber, message)
+    const type = this.INTENTS[action.action]
+
+    // A search without job title can't be run
+    if (type === 'search' && !action.query) {
+      return { type: 'unknown', confidence: action.confidence, resolver: this.name }
+    }
+
+    return {
+      type,
+      query: action.query,
+      confidence: action.confidence,
+      resolver: this.name,
+    }
+  }
+}
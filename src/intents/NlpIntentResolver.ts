@@ -0,0 +1,40 @@
+import { NLPService } from '../services/nlp.service'
+import type { Intent, IntentResolver, IntentType } from './IntentResolver'
+import { RuleIntentResolver } from './RuleIntentResolver'
+
+/**
+ * node-nlp intent classification, rules below the confidence threshold
+ * (the model is trained on a few job titles and misses most of them)
+ */
+export class NlpIntentResolver implements IntentResolver {
+  readonly name = 'nlp' as const
+
+  private readonly MIN_SCORE = 0.7
+  private readonly INTENTS: Record<string, IntentType> = {
+    greeting: 'greeting',
+    icebreaker: 'greeting',
+    pagination: 'paginate',
+    help: 'help',
+    goodbye: 'goodbye',
+    'job.search': 'search',
+  }
+
+  private nlp = new NLPService()
+  private rules = new RuleIntentResolver()
+
+  async resolve(_phoneNumber: string, message: string): Promise<Intent> {
+    const classification = await this.nlp.classify(message)
+    const type = this.INTENTS[classification.intent]
+
+    if (!type || classification.score <= this.MIN_SCORE) {
+      return this.rules.resolveText(message)
+    }
+
+    return {
+      type,
+      query: type === 'search' ? message.trim() : undefined,
+      confidence: classification.score,
+      resolver: this.name,
+    }
+  }
+}
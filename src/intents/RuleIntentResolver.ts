@@ -0,0 +1,47 @@
+import type { Intent, IntentResolver } from './IntentResolver'
+
+/**
+ * Keyword rules, the default resolver: anything that is not small talk is a job search
+ */
+export class RuleIntentResolver implements IntentResolver {
+  readonly name = 'rules' as const
+
+  // Small talk rules match the whole message, "Aide soignante" or "Bonjour, comptable" are searches
+  private readonly GREETING = /^(bonjour|bonsoir|salut|hello|hey|coucou|slt|bjr)( à tous| tout le monde)?$/
+  private readonly ICE_BREAKER = /^(je (cherche|veux|recherche) (un |du )?(emploi|travail|job|boulot)|recherche emploi|besoin de travail)$/
+  private readonly PAGINATION = /^(voir plus|plus|suivant|suite|encore|autres( offres)?|d'autres offres|next|more)$/
+  private readonly HELP = /^(aide|help|comment (ça|ca) marche|comment faire|que faire)$/
+  private readonly GOODBYE = /^(au revoir|bye|à bientôt|a bientot|adieu|merci au revoir)$/
+  // Acknowledgements are not job titles, short ones like "RH" or "IT" are
+  private readonly ACKNOWLEDGEMENT = /^(ok|okay|oui|non|ah|oh|hm+|d'accord)$/
+
+  async resolve(_phoneNumber: string, message: string): Promise<Intent> {
+    return this.resolveText(message)
+  }
+
+  resolveText(message: string): Intent {
+    const text = message.toLowerCase().trim().replace(/[\s!?.,]+$/, '')
+
+    if (this.PAGINATION.test(text)) {
+      return this.intent('paginate')
+    }
+    if (this.GREETING.test(text) || this.ICE_BREAKER.test(text)) {
+      return this.intent('greeting')
+    }
+    if (this.HELP.test(text)) {
+      return this.intent('help')
+    }
+    if (this.GOODBYE.test(text)) {
+      return this.intent('goodbye')
+    }
+    if (text.length > 1 && !this.ACKNOWLEDGEMENT.test(text)) {
+      return { ...this.intent('search'), query: message.trim() }
+    }
+
+    return { ...this.intent('unknown'), confidence: 0.3 }
+  }
+
+  private intent(type: Intent['type']): Intent {
+    return { type, confidence: 1, resolver: this.name }
+  }
+}
@@ -0,0 +1,59 @@
+import type { Redis } from 'ioredis'
+import { FeatureFlags } from '@config/feature-flags'
+import { Logger } from '../utils/logger'
+import type { IntentResolver, IntentResolverName } from './IntentResolver'
+import { RuleIntentResolver } from './RuleIntentResolver'
+import { NlpIntentResolver } from './NlpIntentResolver'
+import { LlmIntentResolver } from './LlmIntentResolver'
+
+export * from './IntentResolver'
+export { RuleIntentResolver, NlpIntentResolver, LlmIntentResolver }
+
+/**
+ * Intent resolver of a user, the feature flags pick it in priority order: Langchain > NLP > rules
+ * unless a resolver is forced (intentResolver experiment)
+ * Resolvers are created on first use (NLP training, Grok API key)
+ */
+export class IntentResolverSelector {
+  private rules = new RuleIntentResolver()
+  private nlp: NlpIntentResolver | null = null
+  private langchain: LlmIntentResolver | null = null
+
+  constructor(private readonly redis: Redis) {}
+
+  async select(phoneNumber: string, forced?: IntentResolverName): Promise<IntentResolver> {
+    if (forced) {
+      return this.get(forced)
+    }
+
+    if (await FeatureFlags.isLangchainEnabled(phoneNumber)) {
+      return this.get('langchain')
+    }
+
+    if (await FeatureFlags.isNLPEnabled(phoneNumber)) {
+      return this.get('nlp')
+    }
+
+    return this.rules
+  }
+
+  private get(name: IntentResolverName): IntentResolver {
+    if (name === 'langchain') {
+      try {
+        this.langchain ??= new LlmIntentResolver(this.redis)
+        return this.langchain
+      } catch (error: any) {
+        // GROK_API_KEY missing
+        Logger.error('Langchain intent resolver unavailable, using rules', { error: error?.message })
+        return this.rules
+      }
+    }
+
+    if (name === 'nlp') {
+      this.nlp ??= new NlpIntentResolver()
+      return this.nlp
+    }
+
+    return this.rules
+  }
+}
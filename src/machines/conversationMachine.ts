@@ -1,4 +1,5 @@
 import { assign, setup } from 'xstate'
+import type { IntentType } from '@/intents/IntentResolver'
 
 /**
  * CONVERSATION STATE MACHINE
@@ -25,6 +26,7 @@ import { assign, setup } from 'xstate'
  *    - Welcome message sent, waiting for user to provide job search query
  *    - Also used for moderately stale conversations (2-10 min)
  *    - Transitions: → searchingJobs (normal message) OR → browsing (pagination) OR → idle (timeout)
+ *    - Stays here on small talk (greeting, help...)
  *
  * 4. searchingJobs
  *    - Processing user's job search query
@@ -41,12 +43,18 @@ import { assign, setup } from 'xstate'
  *    - Can continue paginating or start new search
  *    - Transitions: → browsing (more pagination) OR → searchingJobs (new query) OR → idle (timeout)
  *
+ * 7. humanHandoff
+ *    - An admin took the conversation over from the portal, the bot doesn't answer
+ *    - Reached from any state on HANDOFF_STARTED, user messages and buttons stay here
+ *    - Transitions: → awaitingJobTitle (on HANDOFF_ENDED)
+ *
  *
  * EVENTS:
  * -------
  *
- * 1. USER_MESSAGE { message: string, timestamp: number }
+ * 1. USER_MESSAGE { message: string, timestamp: number, intent?: IntentType }
  *    - User sent a text message
+ *    - intent: what the IntentResolver of the user understood (rules, NLP or LLM)
  *    - Triggers state transitions based on current state and guards
  *
  * 2. WELCOME_SENT { timestamp: number }
@@ -70,6 +78,22 @@ import { assign, setup } from 'xstate'
  * 6. RESET
  *    - Manual reset (future use)
  *
+ * 7. SEE_MORE_CLICKED { timestamp: number }
+ *    - User tapped the "Voir plus" reply button
+ *    - Same as a "voir plus" USER_MESSAGE → browsing
+ *
+ * 8. NEW_SEARCH_CLICKED { timestamp: number }
+ *    - User tapped the "Nouvelle recherche" reply button
+ *    - → awaitingJobTitle, the bot asks for the job title
+ *
+ * 9. HANDOFF_STARTED { agent: string, timestamp: number }
+ *    - An admin paused the bot for this user
+ *    - Any state → humanHandoff
+ *
+ * 10. HANDOFF_ENDED { timestamp: number }
+ *    - The admin gave the conversation back to the bot
+ *    - humanHandoff → awaitingJobTitle, the next message is a job search again
+ *
  *
  * GUARDS:
  * -------
@@ -85,13 +109,14 @@ import { assign, setup } from 'xstate'
  *    - Used to determine if session should be reset
  *
  * 3. isPaginationRequest
- *    - Checks if message is "voir plus" or "plus" (case-insensitive)
+ *    - Checks if the intent is "paginate", or without intent if the message is
+ *      "voir plus" or "plus" (case-insensitive)
  *    - Routes to pagination flow instead of new search
  *
- * 4. isIceBreaker
- *    - Checks if message matches predefined ice breaker phrases
- *    - Examples: "je cherche un emploi", "bonjour", "salut", "job"
- *    - Keeps user in awaitingJobTitle state instead of treating as search query
+ * 4. isSmallTalk
+ *    - Checks if the intent is greeting, help, goodbye or unknown
+ *    - Examples: "je cherche un emploi", "bonjour", "aide"
+ *    - Keeps the user in the current state instead of treating it as a search query
  *
  *
  * ACTIONS:
@@ -123,6 +148,9 @@ import { assign, setup } from 'xstate'
  *    - Runs on TIMEOUT events
  *    - Prepares for fresh conversation
  *
+ * 6. startHandoff / endHandoff
+ *    - Set / clear handoffAgent and handoffStartedAt
+ *
  *
  * CONTEXT:
  * --------
@@ -134,6 +162,8 @@ import { assign, setup } from 'xstate'
  * - lastMessageAt: Timestamp of last activity (for session expiry)
  * - lastQuery?: Last job search query (for pagination)
  * - lastOffset?: Current pagination offset (for "Voir plus")
+ * - handoffAgent?: Admin username during a human handoff
+ * - handoffStartedAt?: Timestamp when the admin took the conversation over
  *
  *
  * PERSISTENCE:
@@ -177,15 +207,21 @@ export interface ConversationContext {
   lastMessageAt: number
   lastQuery?: string
   lastOffset?: number
+  handoffAgent?: string
+  handoffStartedAt?: number
 }
 
 export type ConversationEvent =
-  | { type: 'USER_MESSAGE'; message: string; timestamp: number }
+  | { type: 'USER_MESSAGE'; message: string; timestamp: number; intent?: IntentType }
   | { type: 'WELCOME_SENT'; timestamp: number }
   | { type: 'SEARCH_COMPLETED'; query: string; offset: number }
   | { type: 'PAGINATION_REQUESTED'; offset: number }
   | { type: 'TIMEOUT' }
   | { type: 'RESET' }
+  | { type: 'SEE_MORE_CLICKED'; timestamp: number }
+  | { type: 'NEW_SEARCH_CLICKED'; timestamp: number }
+  | { type: 'HANDOFF_STARTED'; agent: string; timestamp: number }
+  | { type: 'HANDOFF_ENDED'; timestamp: number }
 
 export const conversationMachine = setup({
   types: {
@@ -200,14 +236,23 @@ export const conversationMachine = setup({
     },
     isPaginationRequest: ({ event }) => {
       if (event.type !== 'USER_MESSAGE') return false
+      if (event.intent) return event.intent === 'paginate'
       const message = event.message.toLowerCase().trim()
       return message === 'voir plus' || message === 'plus'
     },
+    isSmallTalk: ({ event }) => {
+      if (event.type !== 'USER_MESSAGE' || !event.intent) return false
+      return event.intent !== 'search' && event.intent !== 'paginate'
+    },
   },
   actions: {
     updateLastMessageTime: assign({
       lastMessageAt: ({ event }) => {
-        if (event.type === 'USER_MESSAGE') {
+        if (
+          event.type === 'USER_MESSAGE' ||
+          event.type === 'SEE_MORE_CLICKED' ||
+          event.type === 'NEW_SEARCH_CLICKED'
+        ) {
           return event.timestamp
         }
         return Date.now()
@@ -248,14 +293,38 @@ export const conversationMachine = setup({
       lastQuery: undefined,
       lastOffset: undefined,
     }),
+    startHandoff: assign({
+      handoffAgent: ({ event }) => (event.type === 'HANDOFF_STARTED' ? event.agent : undefined),
+      handoffStartedAt: ({ event }) => (event.type === 'HANDOFF_STARTED' ? event.timestamp : Date.now()),
+    }),
+    endHandoff: assign({
+      handoffAgent: undefined,
+      handoffStartedAt: undefined,
+    }),
   },
 }).createMachine({
   id: 'conversation',
   initial: 'idle',
   context: ({ input }) => input,
+  on: {
+    // The admin can take the conversation over whatever the state
+    HANDOFF_STARTED: {
+      target: '.humanHandoff',
+      actions: 'startHandoff',
+    },
+  },
   states: {
     idle: {
       on: {
+        // Buttons of an expired session, nothing to paginate anymore
+        SEE_MORE_CLICKED: {
+          target: 'awaitingJobTitle',
+          actions: 'updateLastMessageTime',
+        },
+        NEW_SEARCH_CLICKED: {
+          target: 'awaitingJobTitle',
+          actions: 'updateLastMessageTime',
+        },
         USER_MESSAGE: [
           {
             guard: 'canSendWelcome',
@@ -275,6 +344,15 @@ export const conversationMachine = setup({
     },
     welcomed: {
       on: {
+        // Buttons of an expired session, nothing to paginate anymore
+        SEE_MORE_CLICKED: {
+          target: 'awaitingJobTitle',
+          actions: 'updateLastMessageTime',
+        },
+        NEW_SEARCH_CLICKED: {
+          target: 'awaitingJobTitle',
+          actions: 'updateLastMessageTime',
+        },
         WELCOME_SENT: {
           target: 'awaitingJobTitle',
           actions: ['markWelcomeSent', 'updateLastMessageTime'],
@@ -288,12 +366,25 @@ export const conversationMachine = setup({
     },
     awaitingJobTitle: {
       on: {
+        SEE_MORE_CLICKED: {
+          target: 'browsing',
+          actions: 'updateLastMessageTime',
+        },
+        NEW_SEARCH_CLICKED: {
+          target: 'awaitingJobTitle',
+          actions: 'updateLastMessageTime',
+        },
         USER_MESSAGE: [
           {
             guard: 'isPaginationRequest',
             target: 'browsing',
             actions: 'updateLastMessageTime',
           },
+          {
+            guard: 'isSmallTalk',
+            target: 'awaitingJobTitle',
+            actions: 'updateLastMessageTime',
+          },
           {
             target: 'searchingJobs',
             actions: 'updateLastMessageTime',
@@ -307,6 +398,14 @@ export const conversationMachine = setup({
     },
     searchingJobs: {
       on: {
+        SEE_MORE_CLICKED: {
+          target: 'browsing',
+          actions: 'updateLastMessageTime',
+        },
+        NEW_SEARCH_CLICKED: {
+          target: 'awaitingJobTitle',
+          actions: 'updateLastMessageTime',
+        },
         SEARCH_COMPLETED: {
           target: 'displayingResults',
           actions: ['saveSearchContext', 'updateLastMessageTime'],
@@ -320,12 +419,25 @@ export const conversationMachine = setup({
     },
     displayingResults: {
       on: {
+        SEE_MORE_CLICKED: {
+          target: 'browsing',
+          actions: 'updateLastMessageTime',
+        },
+        NEW_SEARCH_CLICKED: {
+          target: 'awaitingJobTitle',
+          actions: 'updateLastMessageTime',
+        },
         USER_MESSAGE: [
           {
             guard: 'isPaginationRequest',
             target: 'browsing',
             actions: 'updateLastMessageTime',
           },
+          {
+            guard: 'isSmallTalk',
+            target: 'displayingResults',
+            actions: 'updateLastMessageTime',
+          },
           {
             // New search query
             target: 'searchingJobs',
@@ -340,6 +452,14 @@ export const conversationMachine = setup({
     },
     browsing: {
       on: {
+        SEE_MORE_CLICKED: {
+          target: 'browsing',
+          actions: 'updateLastMessageTime',
+        },
+        NEW_SEARCH_CLICKED: {
+          target: 'awaitingJobTitle',
+          actions: 'updateLastMessageTime',
+        },
         PAGINATION_REQUESTED: {
           target: 'browsing',
           actions: ['updatePaginationOffset', 'updateLastMessageTime'],
@@ -350,6 +470,11 @@ export const conversationMachine = setup({
             target: 'browsing',
             actions: 'updateLastMessageTime',
           },
+          {
+            guard: 'isSmallTalk',
+            target: 'browsing',
+            actions: 'updateLastMessageTime',
+          },
           {
             // New search query
             target: 'searchingJobs',
@@ -362,6 +487,32 @@ export const conversationMachine = setup({
         },
       },
     },
+    humanHandoff: {
+      on: {
+        // The admin answers, no automated reply until the handoff ends
+        USER_MESSAGE: {
+          target: 'humanHandoff',
+          actions: 'updateLastMessageTime',
+        },
+        SEE_MORE_CLICKED: {
+          target: 'humanHandoff',
+          actions: 'updateLastMessageTime',
+        },
+        NEW_SEARCH_CLICKED: {
+          target: 'humanHandoff',
+          actions: 'updateLastMessageTime',
+        },
+        HANDOFF_STARTED: {
+          // Another admin takes over
+          target: 'humanHandoff',
+          actions: 'startHandoff',
+        },
+        HANDOFF_ENDED: {
+          target: 'awaitingJobTitle',
+          actions: ['endHandoff', 'updateLastMessageTime'],
+        },
+      },
+    },
   },
 })
 
@@ -0,0 +1,55 @@
+import { Elysia } from 'elysia'
+import type { Server } from 'bun'
+import { getAdminAuthService } from '@config/admin-auth'
+import { AdminRoles, type AdminRole } from '../utils/admin-roles'
+
+/**
+ * Session token of a Bearer Authorization header
+ */
+export function getBearerToken(request: Request): string | null {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) return null
+  return authHeader.slice('Bearer '.length).trim() || null
+}
+
+/**
+ * Client address, recorded with logins and audit logs
+ * Forwarded headers are set by whoever sends the request, they are only read behind a reverse proxy (TRUST_PROXY=true).
+ * The proxy appends the address it got the request from to X-Forwarded-For, behind a single proxy the last one is the client's.
+ */
+export function getClientIp(request: Request, server: Pick<Server<unknown>, 'requestIP'> | null): string {
+  if (process.env.TRUST_PROXY === 'true') {
+    const forwarded = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || request.headers.get('x-real-ip')
+    if (forwarded) return forwarded
+  }
+
+  return server?.requestIP(request)?.address || 'unknown'
+}
+
+/**
+ * Admin Authentication Middleware for Elysia
+ * Every route registered after it requires a session token (see AdminAuthService) and gets `admin`,
+ * the `role` option restricts a route to a role and the ones above it:
+ *
+ *   .post('/replay-message', handler, { role: 'operator' })
+ */
+export const adminAuth = () => new Elysia({ name: 'admin-auth' })
+  .resolve({ as: 'scoped' }, async ({ request, status }) => {
+    const token = getBearerToken(request)
+    const admin = token ? await getAdminAuthService().authenticate(token) : null
+
+    if (!admin) {
+      return status(401, { error: 'Authentication required' })
+    }
+
+    return { admin }
+  })
+  .macro({
+    role: (role: AdminRole) => ({
+      beforeHandle({ admin, status }) {
+        if (!admin || !AdminRoles.allows(admin.role, role)) {
+          return status(403, { error: `Requires the ${role} role` })
+        }
+      },
+    }),
+  })
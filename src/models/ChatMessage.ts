@@ -17,8 +17,13 @@ export const ChatMessageSchema = z.object({
       state: z.string().optional(),
       processedAt: z.number().optional(),
       jobOffersCount: z.number().optional(),
+      experiments: z.record(z.string(), z.string()).optional(),
     })
     .optional(),
+  // WhatsApp ids (wamid) of the outgoing message(s), used to match delivery statuses
+  whatsappMessageIds: z.array(z.string()).optional(),
+  // Admin who wrote an outgoing message during a human handoff, undefined for the bot
+  agentUsername: z.string().optional(),
 })
 
 export type ChatMessage = z.infer<typeof ChatMessageSchema>
@@ -30,6 +35,8 @@ export const ConversationContextSchema = z.object({
   lastMessageAt: z.number(),
   lastQuery: z.string().optional(),
   lastOffset: z.number().optional(),
+  handoffAgent: z.string().optional(),
+  handoffStartedAt: z.number().optional(),
 })
 
 export const ConversationSessionSchema = z.object({
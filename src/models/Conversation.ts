@@ -16,6 +16,7 @@ export const ConversationSchema = z.object({
       jobOffersShownCount: z.number(),
       paginationRequestsCount: z.number(),
       finalState: z.string().optional(),
+      experiments: z.record(z.string(), z.string()).optional(),
     })
     .optional(),
 })
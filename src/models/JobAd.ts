@@ -1,4 +1,41 @@
-export interface JobAdData {
+export enum ContractType {
+  CDI = 'cdi',
+  CDD = 'cdd',
+  INTERNSHIP = 'stage',
+  FREELANCE = 'freelance',
+}
+
+export enum ExperienceLevel {
+  JUNIOR = 'junior', // 0-2 years
+  INTERMEDIATE = 'intermediaire', // 3-5 years
+  SENIOR = 'senior', // 6+ years
+}
+
+export enum EducationLevel {
+  BAC = 'bac',
+  BAC_2 = 'bac+2',
+  BAC_3 = 'bac+3',
+  BAC_4 = 'bac+4',
+  BAC_5 = 'bac+5',
+  DOCTORATE = 'doctorat',
+}
+
+/**
+ * Normalized facts about a job, extracted from scraped content
+ */
+export interface JobStructuredFields {
+  contractType?: ContractType
+  experienceLevel?: ExperienceLevel
+  educationLevel?: EducationLevel
+  applicationDeadline?: Date
+  sector?: string
+  skills?: string[]
+}
+
+// Past its deadline / TTL, or removed from its source
+export type JobExpiryReason = 'deadline' | 'unavailable'
+
+export interface JobAdData extends JobStructuredFields {
   title: string
   url: string
   postedDate: Date
@@ -8,6 +45,35 @@ export interface JobAdData {
   description?: string
   pageMetadata?: Record<string, any>
   internalExtras?: Record<string, any>
+  clusterId?: string | null
+  expiresAt?: Date
+  expiredAt?: Date | null
+  expiryReason?: JobExpiryReason | null
+}
+
+/**
+ * Relevance of a search result, returned in search debug mode
+ */
+export interface JobSearchScore {
+  // Final score: text relevance blended with recency
+  score: number
+  // ts_rank_cd of the weighted document, normalized to [0, 1)
+  textRank: number
+  // 1 for a job posted now, halves every JobSearchRanking.RECENCY_HALF_LIFE_DAYS
+  recency: number
+  // Rank of the query against each weighted part alone
+  fields: {
+    title: number
+    companyLocation: number
+    description: number
+    pageMetadata: number
+  }
+}
+
+// Same vacancy found on another job board
+export interface JobAdAlternateLink {
+  source: string
+  url: string
 }
 
 export class JobAd {
@@ -24,6 +90,18 @@ export class JobAd {
   description?: string
   pageMetadata?: Record<string, any>
   internalExtras?: Record<string, any>
+  clusterId?: string | null
+  alternateLinks?: JobAdAlternateLink[]
+  searchScore?: JobSearchScore
+  contractType?: ContractType
+  experienceLevel?: ExperienceLevel
+  educationLevel?: EducationLevel
+  applicationDeadline?: Date
+  sector?: string
+  skills?: string[]
+  expiresAt?: Date
+  expiredAt?: Date | null
+  expiryReason?: JobExpiryReason | null
 
   constructor(data: JobAdData) {
     this.title = data.title
@@ -35,6 +113,16 @@ export class JobAd {
     this.description = data.description
     this.pageMetadata = data.pageMetadata
     this.internalExtras = { version: '2', ...data.internalExtras }
+    this.clusterId = data.clusterId
+    this.contractType = data.contractType
+    this.experienceLevel = data.experienceLevel
+    this.educationLevel = data.educationLevel
+    this.applicationDeadline = data.applicationDeadline
+    this.sector = data.sector
+    this.skills = data.skills
+    this.expiresAt = data.expiresAt
+    this.expiredAt = data.expiredAt
+    this.expiryReason = data.expiryReason
 
     console.log(`JobAd created: ${this.title} from ${this.source}`)
   }
@@ -53,6 +141,18 @@ export class JobAd {
       source: this.source,
       pageMetadata: this.pageMetadata,
       internalExtras: this.internalExtras,
+      clusterId: this.clusterId,
+      alternateLinks: this.alternateLinks,
+      searchScore: this.searchScore,
+      contractType: this.contractType,
+      experienceLevel: this.experienceLevel,
+      educationLevel: this.educationLevel,
+      applicationDeadline: this.applicationDeadline,
+      sector: this.sector,
+      skills: this.skills,
+      expiresAt: this.expiresAt,
+      expiredAt: this.expiredAt,
+      expiryReason: this.expiryReason,
     }
   }
 }
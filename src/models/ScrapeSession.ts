@@ -4,10 +4,21 @@ export enum ScrapeMode {
 }
 
 export enum ScrapeStatus {
+  IN_PROGRESS = 'in_progress',
   COMPLETED = 'completed',
   FAILED = 'failed',
 }
 
+export interface ScrapePageStat {
+  page: number
+  durationMs: number
+  // Jobs returned by the scraper, jobsSaved of them were new (ScrapeSession.jobsFound counts those)
+  jobsScraped: number
+  jobsSaved: number
+  jobsUpdated: number
+  error?: string
+}
+
 export interface ScrapeSessionData {
   sourceName: string
   mode: ScrapeMode
@@ -16,6 +27,8 @@ export interface ScrapeSessionData {
   completedAt?: Date
   pagesScraped: number
   jobsFound: number
+  jobsUpdated?: number
+  pageStats?: ScrapePageStat[]
   errors?: string[]
 }
 
@@ -33,6 +46,8 @@ export class ScrapeSession {
   completedAt?: Date
   pagesScraped: number
   jobsFound: number
+  jobsUpdated: number
+  pageStats: ScrapePageStat[]
   errors: string[]
 
   constructor(data: ScrapeSessionData) {
@@ -44,6 +59,8 @@ export class ScrapeSession {
     this.completedAt = data.completedAt
     this.pagesScraped = data.pagesScraped
     this.jobsFound = data.jobsFound
+    this.jobsUpdated = data.jobsUpdated || 0
+    this.pageStats = data.pageStats || []
     this.errors = data.errors || []
 
     console.log(
@@ -66,6 +83,14 @@ export class ScrapeSession {
     this.jobsFound = jobsFound
   }
 
+  recordPage(stat: ScrapePageStat): void {
+    this.pageStats.push(stat)
+    this.pagesScraped = this.pageStats.length
+    this.jobsFound += stat.jobsSaved
+    this.jobsUpdated += stat.jobsUpdated
+    if (stat.error) this.errors.push(`Page ${stat.page}: ${stat.error}`)
+  }
+
   markFailed(error: string): void {
     this.status = ScrapeStatus.FAILED
     this.completedAt = new Date()
@@ -95,6 +120,8 @@ export class ScrapeSession {
       completedAt: this.completedAt,
       pagesScraped: this.pagesScraped,
       jobsFound: this.jobsFound,
+      jobsUpdated: this.jobsUpdated,
+      pageStats: this.pageStats,
       errors: this.errors,
       duration: this.getDuration(),
     }
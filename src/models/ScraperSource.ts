@@ -1,6 +1,9 @@
+import type { ScraperHealthMetrics, ScraperHealthStatus } from '@/utils/scraper-health'
+
 export interface ScraperSourceData {
   name: string
   url: string
+  scraperKey?: string // key in the scraper registry
   lastScrapedAt?: Date
   lastPageScrapped?: number
   isActive: boolean
@@ -8,6 +11,10 @@ export interface ScraperSourceData {
   scrapeInterval?: number // in minutes
   maxPages?: number
   totalJobsFound?: number
+  healthStatus?: ScraperHealthStatus
+  consecutiveEmptyRuns?: number
+  degradedAt?: Date | null
+  healthMetrics?: ScraperHealthMetrics | null
 }
 
 export class ScraperSource {
@@ -17,6 +24,7 @@ export class ScraperSource {
 
   name: string
   url: string
+  scraperKey?: string
   lastScrapedAt?: Date
   lastPageScrapped?: number
   isActive: boolean
@@ -24,10 +32,15 @@ export class ScraperSource {
   scrapeInterval?: number
   maxPages?: number
   totalJobsFound?: number
+  healthStatus: ScraperHealthStatus
+  consecutiveEmptyRuns: number
+  degradedAt?: Date | null
+  healthMetrics?: ScraperHealthMetrics | null
 
   constructor(data: ScraperSourceData) {
     this.name = data.name
     this.url = data.url
+    this.scraperKey = data.scraperKey
     this.lastScrapedAt = data.lastScrapedAt
     this.lastPageScrapped = data.lastPageScrapped
     this.isActive = data.isActive
@@ -35,6 +48,10 @@ export class ScraperSource {
     this.scrapeInterval = data.scrapeInterval
     this.maxPages = data.maxPages
     this.totalJobsFound = data.totalJobsFound
+    this.healthStatus = data.healthStatus || 'healthy'
+    this.consecutiveEmptyRuns = data.consecutiveEmptyRuns || 0
+    this.degradedAt = data.degradedAt
+    this.healthMetrics = data.healthMetrics
 
     console.log(`ScraperSource created: ${this.name}`)
   }
@@ -66,6 +83,7 @@ export class ScraperSource {
       updatedAt: this.updatedAt,
       name: this.name,
       url: this.url,
+      scraperKey: this.scraperKey,
       lastScrapedAt: this.lastScrapedAt,
       lastPageScrapped: this.lastPageScrapped,
       isActive: this.isActive,
@@ -73,6 +91,10 @@ export class ScraperSource {
       scrapeInterval: this.scrapeInterval,
       maxPages: this.maxPages,
       totalJobsFound: this.totalJobsFound,
+      healthStatus: this.healthStatus,
+      consecutiveEmptyRuns: this.consecutiveEmptyRuns,
+      degradedAt: this.degradedAt,
+      healthMetrics: this.healthMetrics,
     }
   }
 }
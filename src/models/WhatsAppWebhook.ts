@@ -0,0 +1,88 @@
+import { z } from 'zod'
+
+/**
+ * WhatsApp Cloud API webhook envelope
+ * Only the fields the bot relies on are required, unknown fields and message types are kept
+ * so that a new WhatsApp feature does not get legitimate webhooks quarantined
+ */
+export const WhatsAppWebhookErrorSchema = z.looseObject({
+  code: z.number(),
+  title: z.string(),
+  message: z.string().optional(),
+  error_data: z.looseObject({ details: z.string().optional() }).optional(),
+})
+
+// Reply to one of our reply buttons or list messages
+export const WhatsAppWebhookInteractiveSchema = z.looseObject({
+  type: z.string(),
+  button_reply: z.looseObject({ id: z.string(), title: z.string() }).optional(),
+  list_reply: z.looseObject({ id: z.string(), title: z.string(), description: z.string().optional() }).optional(),
+})
+
+export const WhatsAppWebhookMessageSchema = z.looseObject({
+  from: z.string().min(1),
+  id: z.string().min(1),
+  timestamp: z.string(),
+  type: z.string(),
+  text: z.looseObject({ body: z.string() }).optional(),
+  interactive: WhatsAppWebhookInteractiveSchema.optional(),
+  errors: z.array(WhatsAppWebhookErrorSchema).optional(),
+})
+
+export const WhatsAppWebhookStatusSchema = z.looseObject({
+  id: z.string().min(1),
+  status: z.enum(['sent', 'delivered', 'read', 'failed', 'deleted']),
+  timestamp: z.string(),
+  recipient_id: z.string(),
+  errors: z.array(WhatsAppWebhookErrorSchema).optional(),
+})
+
+export const WhatsAppWebhookContactSchema = z.looseObject({
+  wa_id: z.string(),
+  profile: z.looseObject({ name: z.string() }).optional(),
+})
+
+export const WhatsAppWebhookChangeSchema = z.looseObject({
+  field: z.string(),
+  value: z.looseObject({
+    messaging_product: z.literal('whatsapp'),
+    metadata: z.looseObject({
+      display_phone_number: z.string(),
+      phone_number_id: z.string(),
+    }),
+    contacts: z.array(WhatsAppWebhookContactSchema).optional(),
+    messages: z.array(WhatsAppWebhookMessageSchema).optional(),
+    statuses: z.array(WhatsAppWebhookStatusSchema).optional(),
+    errors: z.array(WhatsAppWebhookErrorSchema).optional(),
+  }),
+})
+
+export const WhatsAppWebhookEnvelopeSchema = z.object({
+  object: z.literal('whatsapp_business_account'),
+  entry: z
+    .array(
+      z.looseObject({
+        id: z.string(),
+        changes: z.array(WhatsAppWebhookChangeSchema).min(1),
+      })
+    )
+    .min(1),
+})
+
+export type WhatsAppWebhookEnvelope = z.infer<typeof WhatsAppWebhookEnvelopeSchema>
+export type WhatsAppWebhookStatus = z.infer<typeof WhatsAppWebhookStatusSchema>
+export type WhatsAppWebhookMessage = z.infer<typeof WhatsAppWebhookMessageSchema>
+
+/**
+ * Phone number of the first incoming message of a webhook, if any
+ */
+export function getWebhookSender(payload: WhatsAppWebhookEnvelope): string | undefined {
+  for (const entry of payload.entry) {
+    for (const change of entry.changes) {
+      const sender = change.value.messages?.[0]?.from
+      if (sender) return sender
+    }
+  }
+
+  return undefined
+}
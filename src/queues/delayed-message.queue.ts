@@ -0,0 +1,61 @@
+import { Queue } from 'bullmq'
+import { getRedisConnection } from '@config/redis'
+import { Logger } from '../utils/logger'
+
+export type DelayedMessageType = 'seeMorePrompt'
+
+export interface DelayedMessageJobData {
+  type: DelayedMessageType
+  phoneNumber: string
+  sessionId: string
+  // Conversation state saved in the chat history with the message
+  state: string
+  scheduledAt: number
+  // Checked when the message is about to be sent, the message is dropped when they no longer hold
+  conditions?: {
+    // Conversation machine states in which the message still makes sense (XState handler only)
+    states?: string[]
+    // Search the message follows up on
+    lastQuery?: string
+  }
+}
+
+let delayedMessageQueue: Queue<DelayedMessageJobData> | null = null
+
+export function getDelayedMessageQueue(
+  redisHost: string,
+  redisPort: number,
+  redisPassword?: string
+): Queue<DelayedMessageJobData> {
+  if (!delayedMessageQueue) {
+    const connection = getRedisConnection(redisHost, redisPort, redisPassword)
+
+    delayedMessageQueue = new Queue<DelayedMessageJobData>('delayed-messages', {
+      connection,
+      defaultJobOptions: {
+        attempts: 2,
+        backoff: {
+          type: 'fixed',
+          delay: 5000,
+        },
+        // Job ids are reused per user and message type, finished jobs must not keep them taken
+        removeOnComplete: true,
+        removeOnFail: {
+          count: 500,
+        },
+      },
+    })
+
+    Logger.success('Delayed message queue initialized')
+  }
+
+  return delayedMessageQueue
+}
+
+export async function closeDelayedMessageQueue(): Promise<void> {
+  if (delayedMessageQueue) {
+    await delayedMessageQueue.close()
+    delayedMessageQueue = null
+    Logger.info('Delayed message queue closed')
+  }
+}
@@ -0,0 +1,50 @@
+import { Queue } from 'bullmq'
+import { getRedisConnection } from '@config/redis'
+import { Logger } from '../utils/logger'
+
+export interface JobAlertJobData {
+  jobAdIds: string[]
+  sourceName?: string
+}
+
+let jobAlertQueue: Queue<JobAlertJobData> | null = null
+
+export function getJobAlertQueue(
+  redisHost: string,
+  redisPort: number,
+  redisPassword?: string
+): Queue<JobAlertJobData> {
+  if (!jobAlertQueue) {
+    const connection = getRedisConnection(redisHost, redisPort, redisPassword)
+
+    jobAlertQueue = new Queue<JobAlertJobData>('job-alerts', {
+      connection,
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+        removeOnComplete: {
+          count: 100,
+          age: 24 * 3600,
+        },
+        removeOnFail: {
+          count: 500,
+        },
+      },
+    })
+
+    Logger.success('Job alert queue initialized')
+  }
+
+  return jobAlertQueue
+}
+
+export async function closeJobAlertQueue(): Promise<void> {
+  if (jobAlertQueue) {
+    await jobAlertQueue.close()
+    jobAlertQueue = null
+    Logger.info('Job alert queue closed')
+  }
+}
@@ -1,11 +1,24 @@
 import { Queue } from 'bullmq'
 import { getRedisConnection } from '@config/redis'
 import { Logger } from '../utils/logger'
+import { ScrapeMode } from '@/models/ScrapeSession'
 
 export interface ScrapeJobData {
   sourceId: string
   sourceName: string
   maxPages: number
+  // Recorded on the scrape session, defaults to automatic
+  mode?: ScrapeMode
+}
+
+/**
+ * Reported by the scrape worker after each page, shown in the admin portal
+ */
+export interface ScrapeJobProgress {
+  page: number
+  totalPages: number
+  jobsFound: number
+  jobsUpdated: number
 }
 
 let scrapeQueue: Queue<ScrapeJobData> | null = null
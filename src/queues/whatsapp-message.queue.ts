@@ -5,6 +5,11 @@ import { Logger } from '../utils/logger'
 export interface WhatsAppMessageJobData {
   payload: any
   receivedAt: string
+  // Sender and its MessageOrderingService ticket, absent for status-only webhooks
+  phoneNumber?: string
+  ticket?: number
+  // Times the statuses of messages not saved yet were re-queued (MessageStatusService)
+  statusRetry?: number
 }
 
 let whatsappMessageQueue: Queue<WhatsAppMessageJobData> | null = null
@@ -1,6 +1,8 @@
 import puppeteer, { type Page } from 'puppeteer'
 import { puppeteerConfig } from '@config/infra/puppeteer'
 import { JobAd, type JobAdData } from '@models/JobAd'
+import type { Scraper, ScraperCapabilities } from './Scraper'
+import { scraperHarness } from './harness/ScraperHarness'
 
 interface ScrapedJob {
   title: string
@@ -18,12 +20,20 @@ const COUNTRY_FLAGS: Record<string, string> = {
   SN: '🇸🇳',
 }
 
-export class DjamoScraper {
+export class DjamoScraper implements Scraper {
+  readonly sourceName = 'Djamo'
+  readonly capabilities: ScraperCapabilities = { paginated: false, fetchesDetails: true }
   private readonly baseUrl = 'https://djamo.breezy.hr'
 
-  async scrape(): Promise<JobAd[]> {
+  async scrape(pageNumber: number = 1): Promise<JobAd[]> {
+    // Breezy lists every open position on a single page
+    if (pageNumber > 1) {
+      return []
+    }
+
     const browser = await puppeteer.launch(puppeteerConfig)
     const page = await browser.newPage()
+    await scraperHarness.attachPage(page)
 
     try {
       await page.goto(this.baseUrl, { waitUntil: 'networkidle0' })
@@ -93,7 +103,7 @@ export class DjamoScraper {
       location: job.location,
       url: job.url,
       postedDate: new Date(),
-      source: 'Djamo',
+      source: this.sourceName,
       description: details?.description,
     }
 
@@ -1,6 +1,9 @@
 import puppeteer from 'puppeteer'
 import { puppeteerConfig } from '@config/infra/puppeteer'
 import { JobAd, type JobAdData } from '@models/JobAd'
+import type { Scraper, ScraperCapabilities } from './Scraper'
+import { ScraperDiagnostics } from './ScraperDiagnostics'
+import { scraperHarness } from './harness/ScraperHarness'
 import { JobAdRepository } from '../db/repositories/JobAdRepository'
 import { Logger } from '@/utils/logger'
 
@@ -20,13 +23,21 @@ interface ScrapedJob {
   }
 }
 
-export class EduCarriereScraper {
+export class EduCarriereScraper implements Scraper {
+  readonly sourceName = 'EduCarriere'
+  readonly capabilities: ScraperCapabilities = { paginated: true, fetchesDetails: true }
+  readonly diagnostics = new ScraperDiagnostics()
   private readonly baseUrl = 'https://emploi.educarriere.ci'
-  private readonly jobAdRepository = new JobAdRepository()
+
+  constructor(
+    // Used to skip already known offers; replaced by a stub when replaying fixtures
+    private readonly jobAdRepository: Pick<JobAdRepository, 'findBySource'> = new JobAdRepository()
+  ) {}
 
   async scrape(pageNumber: number = 1): Promise<JobAd[]> {
     const browser = await puppeteer.launch(puppeteerConfig)
     const page = await browser.newPage()
+    await scraperHarness.attachPage(page)
 
     try {
       const url =
@@ -49,9 +60,10 @@ export class EduCarriereScraper {
 
         return urls
       })
+      this.diagnostics.recordListingItems(jobUrls.length)
 
       // Get existing URLs from database to avoid re-scraping
-      const existingJobs = await this.jobAdRepository.findBySource('EduCarriere')
+      const existingJobs = await this.jobAdRepository.findBySource(this.sourceName)
       const existingUrls = new Set(existingJobs.map(job => job.url))
 
       // Filter out already scraped URLs
@@ -150,6 +162,9 @@ export class EduCarriereScraper {
 
   private mapToJobAd(job: ScrapedJob): JobAd {
     const postedDate = this.parseDate(job.dateEdition)
+    if (!postedDate) {
+      this.diagnostics.recordDateParseFailure(job.dateEdition)
+    }
 
     const jobData: JobAdData = {
       title: job.title,
@@ -157,7 +172,7 @@ export class EduCarriereScraper {
       location: job.location,
       url: job.url,
       postedDate: postedDate || new Date(),
-      source: 'EduCarriere',
+      source: this.sourceName,
       description: job.description,
       pageMetadata: job.pageMetadata,
     }
@@ -176,6 +191,8 @@ export class EduCarriereScraper {
     const month = parseInt(parts[1], 10) - 1 // Months are 0-indexed
     const year = parseInt(parts[2], 10)
 
+    if (isNaN(day) || isNaN(month) || isNaN(year)) return null
+
     return new Date(year, month, day)
   }
 }
@@ -1,6 +1,8 @@
 import puppeteer, { type Page } from 'puppeteer'
 import { puppeteerConfig } from '@config/infra/puppeteer'
 import { JobAd, type JobAdData } from '@models/JobAd'
+import type { Scraper, ScraperCapabilities } from './Scraper'
+import { scraperHarness } from './harness/ScraperHarness'
 
 interface ScrapedJob {
   title: string
@@ -16,12 +18,15 @@ interface JobDetails {
   }
 }
 
-export class JobIvoireScraper {
+export class JobIvoireScraper implements Scraper {
+  readonly sourceName = 'JobIvoire'
+  readonly capabilities: ScraperCapabilities = { paginated: true, fetchesDetails: true }
   private readonly baseUrl = 'https://www.jobivoire.ci'
 
   async scrape(pageNumber: number = 1): Promise<JobAd[]> {
     const browser = await puppeteer.launch(puppeteerConfig)
     const page = await browser.newPage()
+    await scraperHarness.attachPage(page)
 
     try {
       const url = `${this.baseUrl}/jobs?page=${pageNumber}`
@@ -90,7 +95,7 @@ export class JobIvoireScraper {
       location: job.location,
       url: job.url,
       postedDate: new Date(),
-      source: 'JobIvoire',
+      source: this.sourceName,
       description: details?.description,
       pageMetadata: details?.pageMetadata,
     }
@@ -1,6 +1,8 @@
 import puppeteer, { type Page } from 'puppeteer'
 import { puppeteerConfig } from '@config/infra/puppeteer'
 import { JobAd, type JobAdData } from '@models/JobAd'
+import type { Scraper, ScraperCapabilities } from './Scraper'
+import { scraperHarness } from './harness/ScraperHarness'
 
 interface ScrapedJob {
   title: string
@@ -15,12 +17,15 @@ interface JobDetails {
     keywords?: string
   }
 }
-export class OptionCarriereScraper {
+export class OptionCarriereScraper implements Scraper {
+  readonly sourceName = 'OptionCarriere'
+  readonly capabilities: ScraperCapabilities = { paginated: true, fetchesDetails: true }
   private readonly baseUrl = 'https://www.optioncarriere.ci'
 
   async scrape(pageNumber: number = 1, location: string = ''): Promise<JobAd[]> {
     const browser = await puppeteer.launch(puppeteerConfig)
     const page = await browser.newPage()
+    await scraperHarness.attachPage(page)
 
     try {
       const encodedLocation = encodeURIComponent(location)
@@ -99,7 +104,7 @@ export class OptionCarriereScraper {
       location: job.location,
       url: job.url,
       postedDate: new Date(),
-      source: 'OptionCarriere',
+      source: this.sourceName,
       description: details?.description,
       pageMetadata: details?.pageMetadata,
     }
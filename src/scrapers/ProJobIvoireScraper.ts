@@ -1,6 +1,9 @@
 import puppeteer, { type Page } from 'puppeteer'
 import { puppeteerConfig } from '@config/infra/puppeteer'
 import { JobAd, type JobAdData } from '@models/JobAd'
+import type { Scraper, ScraperCapabilities } from './Scraper'
+import { ScraperDiagnostics } from './ScraperDiagnostics'
+import { scraperHarness } from './harness/ScraperHarness'
 
 interface ProJobIvoireJob {
   title: string
@@ -17,7 +20,10 @@ interface JobDetails {
     keywords?: string
   }
 }
-export class ProJobIvoireScraper {
+export class ProJobIvoireScraper implements Scraper {
+  readonly sourceName = 'ProJobIvoire'
+  readonly capabilities: ScraperCapabilities = { paginated: true, fetchesDetails: true }
+  readonly diagnostics = new ScraperDiagnostics()
   private readonly apiUrl = 'https://projobivoire.com/wp-admin/admin-ajax.php'
 
   async scrape(page: number = 1): Promise<JobAd[]> {
@@ -33,7 +39,7 @@ export class ProJobIvoireScraper {
       page: (page - 1).toString(),
     })
 
-    const response = await fetch(this.apiUrl, {
+    const response = await scraperHarness.fetch(this.apiUrl, {
       method: 'POST',
       headers: {
         accept: '*/*',
@@ -60,6 +66,7 @@ export class ProJobIvoireScraper {
     // Fetch details for each job
     const browser = await puppeteer.launch(puppeteerConfig)
     const pageInstance = await browser.newPage()
+    await scraperHarness.attachPage(pageInstance)
 
     try {
       const jobAds: JobAd[] = []
@@ -118,15 +125,23 @@ export class ProJobIvoireScraper {
   }
 
   private mapToJobAd(job: ProJobIvoireJob, details?: JobDetails): JobAd {
+    const postedDate = this.parseDate(job.postedDate)
+    if (!postedDate) {
+      this.diagnostics.recordDateParseFailure(job.postedDate)
+    }
+
     const jobData: JobAdData = {
       title: job.title,
       company: job.company,
       location: job.location,
       url: job.url,
-      postedDate: this.parseDate(job.postedDate) || new Date(),
-      source: 'ProJobIvoire',
+      postedDate: postedDate || new Date(),
+      source: this.sourceName,
       description: details?.description,
-      pageMetadata: details?.pageMetadata,
+      pageMetadata: {
+        ...details?.pageMetadata,
+        ...(job.closingDate && { closingDate: job.closingDate }),
+      },
     }
 
     return new JobAd(jobData)
@@ -0,0 +1,29 @@
+import type { JobAd } from '@models/JobAd'
+import type { ScraperDiagnostics } from './ScraperDiagnostics'
+
+/**
+ * What a scraper is able to do, used by the scrape worker to drive it
+ */
+export interface ScraperCapabilities {
+  // Listing can be walked page by page (page 2, 3, ...)
+  paginated: boolean
+  // Each job is enriched by visiting its detail page
+  fetchesDetails: boolean
+}
+
+/**
+ * Common interface implemented by every job board scraper
+ */
+export interface Scraper {
+  // Value written in JobAd.source
+  readonly sourceName: string
+  readonly capabilities: ScraperCapabilities
+  // Parsing problems of the current run, for scrapers parsing dates or other free text
+  readonly diagnostics?: ScraperDiagnostics
+
+  /**
+   * Scrape one listing page
+   * @param page - Page number (1-based); non paginated scrapers only have page 1
+   */
+  scrape(page?: number): Promise<JobAd[]>
+}
@@ -0,0 +1,27 @@
+/**
+ * Parsing problems noticed by a scraper during a run
+ * Read by the scrape worker to feed the source health metrics
+ */
+export class ScraperDiagnostics {
+  private readonly MAX_SAMPLES = 5
+
+  dateParseFailures = 0
+  // A few raw values that could not be parsed, to help fixing the scraper
+  readonly dateParseFailureSamples: string[] = []
+  // Items of the listing pages, known jobs included; null for scrapers returning every listing item
+  listingItemsFound: number | null = null
+
+  /**
+   * For scrapers skipping jobs already in the database, an empty result is not an empty listing
+   */
+  recordListingItems(count: number): void {
+    this.listingItemsFound = (this.listingItemsFound ?? 0) + count
+  }
+
+  recordDateParseFailure(raw: string): void {
+    this.dateParseFailures++
+    if (this.dateParseFailureSamples.length < this.MAX_SAMPLES) {
+      this.dateParseFailureSamples.push(raw)
+    }
+  }
+}
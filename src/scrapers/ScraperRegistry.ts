@@ -0,0 +1,62 @@
+import type { Scraper } from './Scraper'
+
+export type ScraperFactory = () => Scraper
+
+export class UnknownScraperError extends Error {
+  constructor(public readonly scraperKey: string | null | undefined) {
+    super(`No scraper registered for key "${scraperKey ?? ''}"`)
+    this.name = 'UnknownScraperError'
+  }
+}
+
+/**
+ * Registry of available scrapers, keyed by ScraperSourceEntity.scraperKey
+ *
+ * Adding a job board:
+ * 1. Implement the Scraper interface
+ * 2. Register it in src/scrapers/index.ts
+ * 3. Create a scraper source with the same scraperKey
+ */
+export class ScraperRegistry {
+  private readonly factories = new Map<string, ScraperFactory>()
+
+  register(key: string, factory: ScraperFactory): void {
+    if (this.factories.has(key)) {
+      throw new Error(`Scraper "${key}" is already registered`)
+    }
+    this.factories.set(key, factory)
+  }
+
+  has(key: string | null | undefined): boolean {
+    return !!key && this.factories.has(key)
+  }
+
+  /**
+   * Scraper key of a source, sources created before scraper keys existed are matched by name
+   * @returns null when no scraper matches
+   */
+  resolveKey(source: { scraperKey?: string | null; name: string }): string | null {
+    if (source.scraperKey) {
+      return this.has(source.scraperKey) ? source.scraperKey : null
+    }
+
+    const nameKey = source.name.trim().toLowerCase()
+    return this.has(nameKey) ? nameKey : null
+  }
+
+  /**
+   * Create a new scraper instance
+   * @throws UnknownScraperError when no scraper is registered for the key
+   */
+  create(key: string | null | undefined): Scraper {
+    const factory = key ? this.factories.get(key) : undefined
+    if (!factory) {
+      throw new UnknownScraperError(key)
+    }
+    return factory()
+  }
+
+  keys(): string[] {
+    return [...this.factories.keys()]
+  }
+}
@@ -1,4 +1,6 @@
 import { JobAd, type JobAdData } from '@models/JobAd'
+import type { Scraper, ScraperCapabilities } from './Scraper'
+import { scraperHarness } from './harness/ScraperHarness'
 
 interface SociumJobResult {
   slug: string
@@ -23,7 +25,9 @@ interface SociumApiResponse {
   results: SociumJobResult[]
 }
 
-export class SociumScraper {
+export class SociumScraper implements Scraper {
+  readonly sourceName = 'Socium'
+  readonly capabilities: ScraperCapabilities = { paginated: true, fetchesDetails: false }
   private readonly baseUrl = 'https://sociumjob.com'
   private readonly apiUrl = `${this.baseUrl}/api/jobs/get-all-jobs`
 
@@ -40,7 +44,7 @@ export class SociumScraper {
       ...(keyword && { keyword }),
     }
 
-    const response = await fetch(this.apiUrl, {
+    const response = await scraperHarness.fetch(this.apiUrl, {
       method: 'POST',
       headers: {
         accept: 'application/json',
@@ -76,7 +80,7 @@ export class SociumScraper {
       location: job.city,
       url: `${this.baseUrl}/jobs/${job.slug}`,
       postedDate: new Date(job.createdAt),
-      source: 'Socium',
+      source: this.sourceName,
       description: job.description,
       pageMetadata: {
         skills: job.skills,
@@ -0,0 +1,33 @@
+import type { JobAd, JobStructuredFields } from '@models/JobAd'
+import { JobFieldExtractor } from '@/utils/job-field-extractor'
+import type { JobFieldMapper } from './JobFieldMapper'
+
+/**
+ * EduCarriere detail pages list "Label: value" items, e.g. "Date limite: 30/06/2025"
+ */
+export class EduCarriereFieldMapper implements JobFieldMapper {
+  map(job: JobAd): JobStructuredFields {
+    const fields: JobStructuredFields = {}
+    const listItems: string[] = Array.isArray(job.pageMetadata?.listItems) ? job.pageMetadata.listItems : []
+
+    for (const item of listItems) {
+      const separator = item.indexOf(':')
+      if (separator === -1) continue
+
+      const label = item.slice(0, separator).toLowerCase()
+      const value = item.slice(separator + 1).trim()
+
+      if (label.includes('limite')) {
+        fields.applicationDeadline = JobFieldExtractor.parseDate(value)
+      } else if (label.includes('niveau') || label.includes('diplôme')) {
+        fields.educationLevel = JobFieldExtractor.parseEducationLevel(value)
+      } else if (label.includes('expérience')) {
+        fields.experienceLevel = JobFieldExtractor.parseExperienceLevel(`${value} d'expérience`)
+      } else if (label.includes('contrat')) {
+        fields.contractType = JobFieldExtractor.parseContractType(value)
+      }
+    }
+
+    return fields
+  }
+}
@@ -0,0 +1,9 @@
+import type { JobAd, JobStructuredFields } from '@models/JobAd'
+
+/**
+ * Reads the structured data a job board exposes (usually kept in pageMetadata)
+ * Fields it returns take precedence over the rule-based extraction
+ */
+export interface JobFieldMapper {
+  map(job: JobAd): JobStructuredFields
+}
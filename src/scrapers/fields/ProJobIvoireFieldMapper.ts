@@ -0,0 +1,16 @@
+import type { JobAd, JobStructuredFields } from '@models/JobAd'
+import { JobFieldExtractor } from '@/utils/job-field-extractor'
+import type { JobFieldMapper } from './JobFieldMapper'
+
+/**
+ * ProJobIvoire listings give the closing date, e.g. "30 juin 2025"
+ */
+export class ProJobIvoireFieldMapper implements JobFieldMapper {
+  map(job: JobAd): JobStructuredFields {
+    const closingDate = job.pageMetadata?.closingDate
+
+    return {
+      applicationDeadline: closingDate ? JobFieldExtractor.parseDate(closingDate) : undefined,
+    }
+  }
+}
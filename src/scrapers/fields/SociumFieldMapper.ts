@@ -0,0 +1,22 @@
+import type { JobAd, JobStructuredFields } from '@models/JobAd'
+import { JobFieldExtractor } from '@/utils/job-field-extractor'
+import type { JobFieldMapper } from './JobFieldMapper'
+
+/**
+ * Socium API gives contractType, educationLevel, skills and bestCandidateProfil
+ */
+export class SociumFieldMapper implements JobFieldMapper {
+  map(job: JobAd): JobStructuredFields {
+    const metadata = job.pageMetadata || {}
+    const skills = Array.isArray(metadata.skills)
+      ? metadata.skills.filter((skill: unknown): skill is string => typeof skill === 'string' && skill.trim().length > 0)
+      : []
+
+    return {
+      contractType: JobFieldExtractor.parseContractType(metadata.contractType || ''),
+      educationLevel: JobFieldExtractor.parseEducationLevel(metadata.educationLevel || ''),
+      experienceLevel: JobFieldExtractor.parseExperienceLevel(metadata.bestCandidateProfil || ''),
+      skills: skills.length > 0 ? skills.map((skill: string) => skill.trim()) : undefined,
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import type { JobAd, JobStructuredFields } from '@models/JobAd'
+import { JobFieldExtractor } from '@/utils/job-field-extractor'
+import type { JobFieldMapper } from './JobFieldMapper'
+import { SociumFieldMapper } from './SociumFieldMapper'
+import { EduCarriereFieldMapper } from './EduCarriereFieldMapper'
+import { ProJobIvoireFieldMapper } from './ProJobIvoireFieldMapper'
+
+export * from './JobFieldMapper'
+
+// Keyed by JobAd.source
+export const jobFieldMappers: Record<string, JobFieldMapper> = {
+  Socium: new SociumFieldMapper(),
+  EduCarriere: new EduCarriereFieldMapper(),
+  ProJobIvoire: new ProJobIvoireFieldMapper(),
+}
+
+/**
+ * Structured fields of a job: board data first, rule-based extraction for the rest
+ */
+export function extractStructuredFields(job: JobAd): JobStructuredFields {
+  const metadataText = Object.values(job.pageMetadata || {})
+    .map(value => (Array.isArray(value) ? value.join(' ') : typeof value === 'string' ? value : ''))
+    .join(' ')
+
+  const extracted = JobFieldExtractor.extract(job.title, `${job.description || ''} ${metadataText}`)
+  const mapped = jobFieldMappers[job.source]?.map(job) || {}
+
+  const fields: JobStructuredFields = { ...extracted }
+  for (const [key, value] of Object.entries(mapped)) {
+    if (value !== undefined) {
+      (fields as Record<string, unknown>)[key] = value
+    }
+  }
+
+  return fields
+}
+
+/**
+ * Fill the structured fields of a job in place
+ */
+export function applyStructuredFields(job: JobAd): JobAd {
+  return Object.assign(job, extractStructuredFields(job))
+}
@@ -0,0 +1,115 @@
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+
+export interface FixtureRequest {
+  method: string
+  url: string
+  body?: string
+}
+
+export interface FixtureResponse {
+  status: number
+  contentType: string
+  body: string
+}
+
+interface FixtureEntry extends FixtureRequest {
+  status: number
+  contentType: string
+  file: string
+}
+
+export interface FixtureManifest {
+  scraperKey: string
+  page: number
+  recordedAt: string
+  entries: FixtureEntry[]
+}
+
+/**
+ * Snapshots of HTTP responses stored on disk
+ *
+ * Layout of a fixture directory:
+ * - manifest.json: recorded requests and the file holding each response body
+ * - one file per response body (HTML or JSON)
+ */
+export class FixtureStore {
+  private manifest: FixtureManifest
+
+  constructor(
+    private readonly dir: string,
+    scraperKey: string = '',
+    page: number = 1
+  ) {
+    const manifestPath = join(dir, 'manifest.json')
+    this.manifest = existsSync(manifestPath)
+      ? JSON.parse(readFileSync(manifestPath, 'utf-8'))
+      : { scraperKey, page, recordedAt: new Date().toISOString(), entries: [] }
+  }
+
+  get page(): number {
+    return this.manifest.page
+  }
+
+  get recordedAt(): Date {
+    return new Date(this.manifest.recordedAt)
+  }
+
+  find(request: FixtureRequest): FixtureResponse | null {
+    const entry = this.manifest.entries.find(
+      e => e.method === request.method.toUpperCase() && e.url === request.url && (e.body || '') === (request.body || '')
+    )
+    if (!entry) return null
+
+    return {
+      status: entry.status,
+      contentType: entry.contentType,
+      body: readFileSync(join(this.dir, entry.file), 'utf-8'),
+    }
+  }
+
+  save(request: FixtureRequest, response: FixtureResponse): void {
+    const method = request.method.toUpperCase()
+    const file = this.fileName(method, request.url, request.body, response.contentType)
+
+    mkdirSync(this.dir, { recursive: true })
+    writeFileSync(join(this.dir, file), response.body)
+
+    this.manifest.entries = this.manifest.entries.filter(
+      e => !(e.method === method && e.url === request.url && (e.body || '') === (request.body || ''))
+    )
+    this.manifest.entries.push({
+      method,
+      url: request.url,
+      ...(request.body && { body: request.body }),
+      status: response.status,
+      contentType: response.contentType,
+      file,
+    })
+  }
+
+  /**
+   * Write the manifest to disk, resetting the recording date
+   */
+  flush(): void {
+    mkdirSync(this.dir, { recursive: true })
+    this.manifest.recordedAt = new Date().toISOString()
+    writeFileSync(join(this.dir, 'manifest.json'), JSON.stringify(this.manifest, null, 2) + '\n')
+  }
+
+  /**
+   * Readable and unique file name, e.g. www-jobivoire-ci-jobs-page-1.3f2a9c1d.html
+   */
+  private fileName(method: string, url: string, body: string | undefined, contentType: string): string {
+    const slug = url
+      .replace(/^https?:\/\//, '')
+      .replace(/[^a-zA-Z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .slice(0, 80)
+    const hash = createHash('sha1').update(`${method} ${url} ${body || ''}`).digest('hex').slice(0, 8)
+    const extension = contentType.includes('json') ? 'json' : contentType.includes('html') ? 'html' : 'txt'
+
+    return `${slug}.${hash}.${extension}`
+  }
+}
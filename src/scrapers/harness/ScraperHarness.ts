@@ -0,0 +1,158 @@
+import type { HTTPRequest, HTTPResponse, Page } from 'puppeteer'
+import { FixtureStore } from './FixtureStore'
+import { Logger } from '@/utils/logger'
+
+export type ScraperHarnessMode = 'live' | 'record' | 'replay'
+
+// Responses worth snapshotting; everything else (images, css, scripts, fonts) is not needed to parse pages
+const RECORDED_RESOURCE_TYPES = ['document', 'xhr', 'fetch']
+
+/**
+ * Network layer shared by all scrapers
+ *
+ * - live: real network (default)
+ * - record: real network, responses are saved to a FixtureStore
+ * - replay: responses are served from a FixtureStore, nothing leaves the machine
+ *
+ * Scrapers go through `scraperHarness.fetch()` instead of `fetch()` and call
+ * `scraperHarness.attachPage()` on every Puppeteer page they open.
+ */
+export class ScraperHarness {
+  private mode: ScraperHarnessMode = 'live'
+  private store: FixtureStore | null = null
+  private pendingRecords: Promise<void>[] = []
+
+  // Requests that had no fixture during replay
+  readonly missing: string[] = []
+
+  useLive(): void {
+    this.mode = 'live'
+    this.store = null
+  }
+
+  useRecord(store: FixtureStore): void {
+    this.mode = 'record'
+    this.store = store
+  }
+
+  useReplay(store: FixtureStore): void {
+    this.mode = 'replay'
+    this.store = store
+    this.missing.length = 0
+  }
+
+  getMode(): ScraperHarnessMode {
+    return this.mode
+  }
+
+  /**
+   * Drop-in replacement for fetch()
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const request = {
+      method: init.method || 'GET',
+      url,
+      body: typeof init.body === 'string' ? init.body : undefined,
+    }
+
+    if (this.mode === 'replay' && this.store) {
+      const fixture = this.store.find(request)
+      if (!fixture) {
+        this.missing.push(`${request.method} ${url}`)
+        throw new Error(`No fixture recorded for ${request.method} ${url}`)
+      }
+      return new Response(fixture.body, {
+        status: fixture.status,
+        headers: { 'content-type': fixture.contentType },
+      })
+    }
+
+    const response = await fetch(url, init)
+
+    if (this.mode === 'record' && this.store) {
+      this.store.save(request, {
+        status: response.status,
+        contentType: response.headers.get('content-type') || 'text/plain',
+        body: await response.clone().text(),
+      })
+    }
+
+    return response
+  }
+
+  /**
+   * Hook a Puppeteer page into the harness
+   */
+  async attachPage(page: Page): Promise<void> {
+    const store = this.store
+    if (this.mode === 'live' || !store) return
+
+    if (this.mode === 'replay') {
+      await page.setRequestInterception(true)
+      page.on('request', (request: HTTPRequest) => this.replayRequest(store, request))
+      return
+    }
+
+    page.on('response', (response: HTTPResponse) => {
+      this.pendingRecords.push(this.recordResponse(store, response))
+    })
+  }
+
+  /**
+   * Wait for responses still being written in record mode
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pendingRecords)
+    this.pendingRecords = []
+  }
+
+  private replayRequest(store: FixtureStore, request: HTTPRequest): void {
+    if (!RECORDED_RESOURCE_TYPES.includes(request.resourceType())) {
+      request.abort()
+      return
+    }
+
+    const fixture = store.find({
+      method: request.method(),
+      url: request.url(),
+      body: request.postData(),
+    })
+
+    if (!fixture) {
+      this.missing.push(`${request.method()} ${request.url()}`)
+      request.respond({ status: 404, contentType: 'text/plain', body: 'No fixture recorded' })
+      return
+    }
+
+    request.respond({
+      status: fixture.status,
+      contentType: fixture.contentType,
+      body: fixture.body,
+    })
+  }
+
+  private async recordResponse(store: FixtureStore, response: HTTPResponse): Promise<void> {
+    const request = response.request()
+    const status = response.status()
+
+    // Redirects have no body, the final response is recorded on its own
+    if (!RECORDED_RESOURCE_TYPES.includes(request.resourceType()) || status >= 300 && status < 400) {
+      return
+    }
+
+    try {
+      store.save(
+        { method: request.method(), url: response.url(), body: request.postData() },
+        {
+          status,
+          contentType: response.headers()['content-type'] || 'text/html',
+          body: await response.text(),
+        }
+      )
+    } catch (error: any) {
+      Logger.warn('Could not record response', { url: response.url(), error: error?.message })
+    }
+  }
+}
+
+export const scraperHarness = new ScraperHarness()
@@ -0,0 +1,51 @@
+import type { JobAd } from '@models/JobAd'
+import { scraperRegistry, type Scraper } from '@/scrapers'
+import { EduCarriereScraper } from '../EduCarriereScraper'
+
+export interface GoldenJobAd {
+  title: string
+  company?: string
+  location?: string
+  url: string
+  source: string
+  postedDate: string
+  description?: string
+  pageMetadata?: Record<string, any>
+}
+
+/**
+ * Stable projection of scraped jobs compared by the golden tests
+ * Dates are reduced to the local day so replays are not sensitive to the time of day
+ */
+export function toGoldenJobAds(jobs: JobAd[]): GoldenJobAd[] {
+  return JSON.parse(
+    JSON.stringify(
+      jobs.map(job => ({
+        title: job.title,
+        company: job.company,
+        location: job.location,
+        url: job.url,
+        source: job.source,
+        postedDate: formatDay(job.postedDate),
+        description: job.description,
+        pageMetadata: job.pageMetadata,
+      }))
+    )
+  )
+}
+
+/**
+ * Create a scraper that does not need the database
+ */
+export function createOfflineScraper(key: string): Scraper {
+  if (key === 'educarriere') {
+    return new EduCarriereScraper({ findBySource: async () => [] })
+  }
+  return scraperRegistry.create(key)
+}
+
+function formatDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
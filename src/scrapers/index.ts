@@ -0,0 +1,20 @@
+import { ScraperRegistry } from './ScraperRegistry'
+import { SociumScraper } from './SociumScraper'
+import { DjamoScraper } from './DjamoScraper'
+import { EduCarriereScraper } from './EduCarriereScraper'
+import { OptionCarriereScraper } from './OptionCarriereScraper'
+import { JobIvoireScraper } from './JobIvoireScraper'
+import { ProJobIvoireScraper } from './ProJobIvoireScraper'
+
+export * from './Scraper'
+export * from './ScraperRegistry'
+export * from './ScraperDiagnostics'
+
+export const scraperRegistry = new ScraperRegistry()
+
+scraperRegistry.register('sociumjob', () => new SociumScraper())
+scraperRegistry.register('djamo', () => new DjamoScraper())
+scraperRegistry.register('educarriere', () => new EduCarriereScraper())
+scraperRegistry.register('optioncarriere', () => new OptionCarriereScraper())
+scraperRegistry.register('jobivoire', () => new JobIvoireScraper())
+scraperRegistry.register('projobivoire', () => new ProJobIvoireScraper())
@@ -0,0 +1,204 @@
+import type { Redis } from 'ioredis'
+import { AdminUserRepository } from '../db/repositories/AdminUserRepository'
+import type { AdminUserEntity } from '../db/entities/AdminUserEntity'
+import { AdminRoles, AdminSessionTokens, type AdminRole } from '../utils/admin-roles'
+import { Logger } from '../utils/logger'
+
+/**
+ * Admin authenticated by a session token
+ */
+export interface AdminSession {
+  userId: string
+  username: string
+  role: AdminRole
+}
+
+export type AdminLoginResult =
+  | { status: 'authenticated'; token: string; expiresAt: number; admin: AdminSession }
+  | { status: 'invalid_credentials' }
+  | { status: 'rate_limited'; retryAfterSeconds: number }
+
+export interface AdminUserInput {
+  username: string
+  password: string
+  role: AdminRole
+}
+
+export interface AdminUserUpdate {
+  password?: string
+  role?: AdminRole
+  isActive?: boolean
+}
+
+/**
+ * Admin Auth Service
+ * Admin accounts are stored in Postgres with hashed passwords, logging in gives a session token
+ * stored in Redis (the portal sends it as `Authorization: Bearer <token>`)
+ *
+ * The first account is created from ADMIN_USERNAME / ADMIN_PASSWORD at the first login,
+ * the others from the portal by an admin
+ */
+export class AdminAuthService {
+  private readonly SESSION_PREFIX = 'admin:session:'
+  private readonly SESSION_TTL = 12 * 60 * 60 // 12 hours in seconds, renewed on each request
+  private readonly LOGIN_ATTEMPTS_PREFIX = 'admin:login:attempts:'
+  private readonly LOGIN_WINDOW = 15 * 60 // 15 minutes in seconds
+  private readonly MAX_LOGIN_ATTEMPTS = 5
+
+  private userRepo = new AdminUserRepository()
+
+  constructor(private readonly redis: Redis) {}
+
+  /**
+   * @param ip - Client address, failed attempts are limited per username and per address
+   */
+  async login(username: string, password: string, ip: string): Promise<AdminLoginResult> {
+    const attemptKeys = [this.getAttemptsKey(`user:${username}`), this.getAttemptsKey(`ip:${ip}`)]
+
+    const retryAfterSeconds = await this.getRetryAfter(attemptKeys)
+    if (retryAfterSeconds > 0) {
+      Logger.warn('Admin login rate limited', { username, ip })
+      return { status: 'rate_limited', retryAfterSeconds }
+    }
+
+    await this.seedFromEnvironment()
+
+    const user = await this.userRepo.findWithPasswordHash(username)
+    const valid = !!user && user.isActive && (await Bun.password.verify(password, user.passwordHash))
+
+    if (!user || !valid) {
+      await this.recordFailedAttempt(attemptKeys)
+      Logger.warn('Admin login failed', { username, ip })
+      return { status: 'invalid_credentials' }
+    }
+
+    await this.redis.del(...attemptKeys)
+    await this.userRepo.update(user.id, { lastLoginAt: new Date() })
+
+    const admin = this.toSession(user)
+    const token = AdminSessionTokens.generate()
+    await this.redis.set(this.getSessionKey(token), JSON.stringify(admin), 'EX', this.SESSION_TTL)
+
+    Logger.info('Admin logged in', { username, role: admin.role })
+
+    return { status: 'authenticated', token, expiresAt: Date.now() + this.SESSION_TTL * 1000, admin }
+  }
+
+  /**
+   * Admin of a session token, with the current role of the account
+   * @returns null when the session expired or the account was deactivated
+   */
+  async authenticate(token: string): Promise<AdminSession | null> {
+    const key = this.getSessionKey(token)
+    const stored = await this.redis.get(key)
+    if (!stored) return null
+
+    const session: AdminSession = JSON.parse(stored)
+    const user = await this.userRepo.findById(session.userId)
+    if (!user || !user.isActive) {
+      await this.redis.del(key)
+      return null
+    }
+
+    await this.redis.expire(key, this.SESSION_TTL)
+
+    return this.toSession(user)
+  }
+
+  async logout(token: string): Promise<void> {
+    await this.redis.del(this.getSessionKey(token))
+  }
+
+  async listUsers(): Promise<AdminUserEntity[]> {
+    return this.userRepo.findAll({ order: { username: 'ASC' } })
+  }
+
+  /**
+   * @returns null when the username is taken
+   */
+  async createUser(input: AdminUserInput): Promise<AdminUserEntity | null> {
+    if (await this.userRepo.findByUsername(input.username)) {
+      return null
+    }
+
+    const user = await this.userRepo.create({
+      username: input.username,
+      passwordHash: await Bun.password.hash(input.password),
+      role: input.role,
+      isActive: true,
+    })
+
+    // Not returned with the account
+    return this.userRepo.findById(user.id)
+  }
+
+  /**
+   * @returns null when the account doesn't exist
+   */
+  async updateUser(id: string, update: AdminUserUpdate): Promise<AdminUserEntity | null> {
+    if (!(await this.userRepo.findById(id))) {
+      return null
+    }
+
+    return this.userRepo.update(id, {
+      ...(update.role ? { role: update.role } : {}),
+      ...(update.isActive !== undefined ? { isActive: update.isActive } : {}),
+      ...(update.password ? { passwordHash: await Bun.password.hash(update.password) } : {}),
+    })
+  }
+
+  /**
+   * First admin account, from the credentials of the former Basic Auth
+   */
+  private async seedFromEnvironment(): Promise<void> {
+    const username = process.env.ADMIN_USERNAME
+    const password = process.env.ADMIN_PASSWORD
+    if (!username || !password || (await this.userRepo.count()) > 0) {
+      return
+    }
+
+    await this.createUser({ username, password, role: 'admin' })
+    Logger.success('Admin account created from the environment', { username })
+  }
+
+  /**
+   * Seconds until the attempts window of the most limited key ends, 0 when login is allowed
+   */
+  private async getRetryAfter(keys: string[]): Promise<number> {
+    let retryAfter = 0
+
+    for (const key of keys) {
+      const attempts = parseInt((await this.redis.get(key)) || '0')
+      if (attempts >= this.MAX_LOGIN_ATTEMPTS) {
+        retryAfter = Math.max(retryAfter, await this.redis.ttl(key), 1)
+      }
+    }
+
+    return retryAfter
+  }
+
+  private async recordFailedAttempt(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      // Window starts at the first failed attempt
+      if ((await this.redis.incr(key)) === 1) {
+        await this.redis.expire(key, this.LOGIN_WINDOW)
+      }
+    }
+  }
+
+  private toSession(user: AdminUserEntity): AdminSession {
+    return {
+      userId: user.id,
+      username: user.username,
+      role: AdminRoles.isRole(user.role) ? user.role : 'viewer',
+    }
+  }
+
+  private getSessionKey(token: string): string {
+    return `${this.SESSION_PREFIX}${AdminSessionTokens.hash(token)}`
+  }
+
+  private getAttemptsKey(subject: string): string {
+    return `${this.LOGIN_ATTEMPTS_PREFIX}${subject}`
+  }
+}
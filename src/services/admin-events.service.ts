@@ -0,0 +1,106 @@
+import type { Redis } from 'ioredis'
+import type { ChatMessage } from '@/models/ChatMessage'
+import { Logger } from '../utils/logger'
+
+/**
+ * What happened, streamed to the admin portal
+ */
+export type AdminEventPayload =
+  | { type: 'message.saved'; data: ChatMessage & { conversationId: string } }
+  | {
+      type: 'conversation.started'
+      data: { id: string; phoneNumber: string; sessionId: string; startedAt: number }
+    }
+  | {
+      type: 'link.clicked'
+      data: { id: string; phoneNumber: string; jobAdId: string; jobTitle?: string; clickCount: number }
+    }
+  | {
+      type: 'scrape.finished'
+      data: {
+        id?: string
+        sourceName: string
+        status: string
+        pagesScraped: number
+        jobsFound: number
+        jobsUpdated: number
+        durationMs: number | null
+        errors: string[]
+      }
+    }
+
+export type AdminEvent = AdminEventPayload & { publishedAt: number }
+
+export type AdminEventType = AdminEvent['type']
+
+export type AdminEventListener = (event: AdminEvent) => void
+
+/**
+ * Admin Events Service
+ * Redis pub/sub between the processes where things happen (API, WhatsApp worker, scrape worker)
+ * and the API streaming them to the admin portal, see GET /admin/events
+ *
+ * Publishing never fails the caller, events are only a live view of what is saved anyway
+ */
+export class AdminEventsService {
+  static readonly CHANNEL = 'admin:events'
+
+  // Subscriber connection shared by all the listeners of this process, only open while there are some
+  private subscriber: Redis | null = null
+  private listeners = new Set<AdminEventListener>()
+
+  constructor(private readonly redis: Redis) {}
+
+  async publish(payload: AdminEventPayload): Promise<void> {
+    const event = { ...payload, publishedAt: Date.now() } as AdminEvent
+
+    try {
+      await this.redis.publish(AdminEventsService.CHANNEL, JSON.stringify(event))
+    } catch (error: any) {
+      Logger.error('Failed publishing admin event', { type: payload.type, error: error?.message })
+    }
+  }
+
+  /**
+   * @returns Unsubscribe function
+   */
+  async subscribe(listener: AdminEventListener): Promise<() => Promise<void>> {
+    this.listeners.add(listener)
+
+    if (!this.subscriber) {
+      // A connection in subscriber mode can't run other commands
+      const subscriber = this.redis.duplicate()
+      this.subscriber = subscriber
+      subscriber.on('message', (_channel: string, message: string) => this.dispatch(message))
+      await subscriber.subscribe(AdminEventsService.CHANNEL)
+    }
+
+    return async () => {
+      this.listeners.delete(listener)
+
+      if (this.listeners.size === 0 && this.subscriber) {
+        const subscriber = this.subscriber
+        this.subscriber = null
+        await subscriber.quit()
+      }
+    }
+  }
+
+  private dispatch(message: string): void {
+    let event: AdminEvent
+    try {
+      event = JSON.parse(message)
+    } catch {
+      Logger.warn('Invalid admin event', { message })
+      return
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch (error: any) {
+        Logger.error('Admin event listener failed', { type: event.type, error: error?.message })
+      }
+    }
+  }
+}
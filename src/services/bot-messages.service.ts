@@ -1,25 +1,52 @@
+import type { ApiResponse } from '@microfox/whatsapp-business'
 import { getWhatsAppClient } from '@config/whatsapp'
 import { Logger } from '../utils/logger'
+import {
+  InteractiveMessageBuilder,
+  type InteractiveMessageOptions,
+  type ListSection,
+  type ReplyButton,
+} from '../utils/interactive-message'
+import { InteractiveReplyParser } from '../utils/interactive-reply'
 
 /**
  * BotMessages class handles all WhatsApp bot message sending
  * This centralizes all bot messaging logic and templates
+ *
+ * Send methods resolve with the WhatsApp message id (wamid) so that delivery and
+ * read statuses received later through the webhook can be matched to the saved message
  */
 export class BotMessages {
+  static readonly SEE_MORE_PROMPT = `Souhaitez-vous voir plus d'offres? 🔍`
+
+  /**
+   * Welcome messages by copy, see the welcomeCopy experiment
+   */
+  static readonly WELCOME_COPIES: Record<string, (contactName: string) => string> = {
+    default: (contactName) =>
+      `Bonjour ${contactName}! 👋 Je suis Eska 🤖, votre assistant emploi!\n\nDites-moi le poste que vous cherchez et je vous trouve des offres 💼✨`,
+    short: (contactName) => `Bonjour ${contactName}! 👋 Quel poste cherchez-vous? 💼`,
+  }
+
   private whatsapp = getWhatsAppClient()
 
   /**
    * Send welcome flow: Direct welcome message
    * @param phoneNumber - Recipient's phone number
    * @param contactName - User's name from WhatsApp profile
+   * @param copy - Welcome message to send, see WELCOME_COPIES
    */
-  async sendWelcomeFlow(phoneNumber: string, contactName: string = 'User'): Promise<void> {
+  async sendWelcomeFlow(
+    phoneNumber: string,
+    contactName: string = 'User',
+    copy: string = 'default'
+  ): Promise<string | undefined> {
     try {
-      Logger.info('Sending welcome flow', { phoneNumber, contactName })
+      Logger.info('Sending welcome flow', { phoneNumber, contactName, copy })
 
-      const welcomeMessage = `Bonjour ${contactName}! 👋 Je suis Eska 🤖, votre assistant emploi!\n\nDites-moi le poste que vous cherchez et je vous trouve des offres 💼✨`
+      const welcomeMessage = (BotMessages.WELCOME_COPIES[copy] ?? BotMessages.WELCOME_COPIES.default!)(contactName)
 
-      await this.whatsapp.sendTextMessage(
+      const response = await this.whatsapp.sendTextMessage(
         phoneNumber,
         welcomeMessage,
         {
@@ -29,6 +56,7 @@ export class BotMessages {
       )
 
       Logger.success('Welcome flow completed', { phoneNumber, contactName })
+      return BotMessages.messageId(response)
     } catch (error) {
       Logger.error('Error sending welcome flow', { error, phoneNumber })
       throw error
@@ -39,7 +67,7 @@ export class BotMessages {
    * Send "no exact match found" message with similar opportunities intro
    * @param phoneNumber - Recipient's phone number
    */
-  async sendNoExactMatchMessage(phoneNumber: string): Promise<void> {
+  async sendNoExactMatchMessage(phoneNumber: string): Promise<string | undefined> {
     try {
       Logger.info('Sending no exact match message', { phoneNumber })
 
@@ -47,7 +75,7 @@ export class BotMessages {
 
 Mais voici quelques opportunités similaires qui pourraient vous intéresser 👇`
 
-      await this.whatsapp.sendTextMessage(
+      const response = await this.whatsapp.sendTextMessage(
         phoneNumber,
         message,
         {
@@ -57,6 +85,7 @@ Mais voici quelques opportunités similaires qui pourraient vous intéresser 
       )
 
       Logger.success('No exact match message sent', { phoneNumber })
+      return BotMessages.messageId(response)
     } catch (error) {
       Logger.error('Error sending no exact match message', { error, phoneNumber })
       throw error
@@ -77,7 +106,7 @@ Mais voici quelques opportunités similaires qui pourraient vous intéresser 
     company: string,
     location: string,
     linkId: string
-  ): Promise<void> {
+  ): Promise<string | undefined> {
     try {
       Logger.info('Sending job offer', {
         phoneNumber,
@@ -95,7 +124,7 @@ Mais voici quelques opportunités similaires qui pourraient vous intéresser 
       // Button parameter:
       // {{1}} - Link ID (appended to APP_URL from WhatsApp template config)
 
-      await this.whatsapp.sendTemplateMessage(
+      const response = await this.whatsapp.sendTemplateMessage(
         phoneNumber,
         'eska_job_offer_single',
         'fr',
@@ -133,6 +162,7 @@ Mais voici quelques opportunités similaires qui pourraient vous intéresser 
       )
 
       Logger.success('Job offer sent', { phoneNumber, jobTitle })
+      return BotMessages.messageId(response)
     } catch (error) {
       Logger.error('Error sending job offer', { error, phoneNumber, jobTitle })
       throw error
@@ -140,7 +170,52 @@ Mais voici quelques opportunités similaires qui pourraient vous intéresser 
   }
 
   /**
-   * Send multiple job offers in parallel
+   * Send job alert intro using template (usable outside the 24h window)
+   * @param phoneNumber - Recipient's phone number
+   * @param query - Alert query ({{1}})
+   * @param count - Number of new offers ({{2}})
+   */
+  async sendJobAlertTemplate(phoneNumber: string, query: string, count: number): Promise<string | undefined> {
+    try {
+      Logger.info('Sending job alert template', { phoneNumber, query, count })
+
+      // Template: eska_job_alert
+      // Body parameters:
+      // {{1}} - Alert query
+      // {{2}} - Number of new offers
+
+      const response = await this.whatsapp.sendTemplateMessage(
+        phoneNumber,
+        'eska_job_alert',
+        'fr',
+        [
+          {
+            type: 'BODY' as any,
+            parameters: [
+              {
+                type: 'text',
+                text: query
+              },
+              {
+                type: 'text',
+                text: String(count)
+              }
+            ]
+          }
+        ] as any,
+        { recipientType: 'individual' }
+      )
+
+      Logger.success('Job alert template sent', { phoneNumber, query })
+      return BotMessages.messageId(response)
+    } catch (error) {
+      Logger.error('Error sending job alert template', { error, phoneNumber, query })
+      throw error
+    }
+  }
+
+  /**
+   * Send multiple job offers, in order
    * @param phoneNumber - Recipient's phone number
    * @param jobs - Array of job objects with title, company, location, and linkId
    */
@@ -152,36 +227,39 @@ Mais voici quelques opportunités similaires qui pourraient vous intéresser 
       location: string
       linkId: string
     }>
-  ): Promise<void> {
+  ): Promise<string[]> {
     try {
       Logger.info('Sending multiple job offers', {
         phoneNumber,
         count: jobs.length
       })
 
-      await Promise.all(
-        jobs.map((job, i) => {
-          Logger.info('Sending job offer', {
-            index: i,
-            total: jobs.length,
-            title: job.title,
-            linkId: job.linkId
-          })
+      // One after the other, sent in parallel they reach the user in random order
+      const messageIds: Array<string | undefined> = []
+      for (const [i, job] of jobs.entries()) {
+        Logger.info('Sending job offer', {
+          index: i,
+          total: jobs.length,
+          title: job.title,
+          linkId: job.linkId
+        })
 
-          return this.sendJobOffer(
+        messageIds.push(
+          await this.sendJobOffer(
             phoneNumber,
             job.title,
             job.company,
             job.location,
             job.linkId
           )
-        })
-      )
+        )
+      }
 
       Logger.success('All job offers sent', {
         phoneNumber,
         count: jobs.length
       })
+      return messageIds.filter((id): id is string => !!id)
     } catch (error) {
       Logger.error('Error sending multiple job offers', { error, phoneNumber })
       throw error
@@ -214,9 +292,9 @@ Mais voici quelques opportunités similaires qui pourraient vous intéresser 
     phoneNumber: string,
     message: string,
     previewUrl: boolean = false
-  ): Promise<void> {
+  ): Promise<string | undefined> {
     try {
-      await this.whatsapp.sendTextMessage(
+      const response = await this.whatsapp.sendTextMessage(
         phoneNumber,
         message,
         {
@@ -226,12 +304,53 @@ Mais voici quelques opportunités similaires qui pourraient vous intéresser 
       )
 
       Logger.success('Text message sent', { phoneNumber })
+      return BotMessages.messageId(response)
     } catch (error) {
       Logger.error('Error sending text message', { error, phoneNumber })
       throw error
     }
   }
 
+  /**
+   * Send an approved template chosen by an admin during a human handoff,
+   * the only messages allowed outside of the 24h customer service window
+   * @param phoneNumber - Recipient's phone number
+   * @param templateName - Approved template name
+   * @param languageCode - Template language
+   * @param parameters - Body parameters ({{1}}, {{2}}...)
+   */
+  async sendAgentTemplate(
+    phoneNumber: string,
+    templateName: string,
+    languageCode: string = 'fr',
+    parameters: string[] = []
+  ): Promise<string | undefined> {
+    try {
+      Logger.info('Sending agent template', { phoneNumber, templateName })
+
+      const response = await this.whatsapp.sendTemplateMessage(
+        phoneNumber,
+        templateName,
+        languageCode as any,
+        (parameters.length > 0
+          ? [
+              {
+                type: 'BODY' as any,
+                parameters: parameters.map(text => ({ type: 'text', text })),
+              },
+            ]
+          : []) as any,
+        { recipientType: 'individual' }
+      )
+
+      Logger.success('Agent template sent', { phoneNumber, templateName })
+      return BotMessages.messageId(response)
+    } catch (error) {
+      Logger.error('Error sending agent template', { error, phoneNumber, templateName })
+      throw error
+    }
+  }
+
   /**
    * Send "no jobs found" message (when there are truly no results)
    * Random from 20 variants with personalization
@@ -243,7 +362,7 @@ Mais voici quelques opportunités similaires qui pourraient vous intéresser 
     phoneNumber: string,
     searchTerm: string,
     contactName: string = 'User'
-  ): Promise<void> {
+  ): Promise<string | undefined> {
     try {
       const messages = [
         `Désolé ${contactName}, aucune offre trouvée 😔\n\nEntrez simplement le titre du poste recherché! Ex: "Comptable", "Chauffeur" 💼`,
@@ -290,9 +409,10 @@ Mais voici quelques opportunités similaires qui pourraient vous intéresser 
       // Select a random message
       const randomMessage = messages[Math.floor(Math.random() * messages.length)]
 
-      await this.sendTextMessage(phoneNumber, randomMessage)
+      const messageId = await this.sendTextMessage(phoneNumber, randomMessage)
 
       Logger.success('No jobs found message sent', { phoneNumber, searchTerm, contactName })
+      return messageId
     } catch (error) {
       Logger.error('Error sending no jobs found message', { error, phoneNumber })
       throw error
@@ -303,7 +423,7 @@ Mais voici quelques opportunités similaires qui pourraient vous intéresser 
    * Send "re-enter job title" prompt for stale conversations (2-10 minutes)
    * @param phoneNumber - Recipient's phone number
    */
-  async sendReenterJobTitlePrompt(phoneNumber: string): Promise<void> {
+  async sendReenterJobTitlePrompt(phoneNumber: string): Promise<string | undefined> {
     try {
       const message = `Bonjour! 👋
 
@@ -311,9 +431,10 @@ Pour rechercher des offres d'emploi, veuillez me dire directement le titre du po
 
 Par exemple: "Développeur", "Comptable", "Marketing Manager", etc. 💼`
 
-      await this.sendTextMessage(phoneNumber, message)
+      const messageId = await this.sendTextMessage(phoneNumber, message)
 
       Logger.success('Re-enter job title prompt sent', { phoneNumber })
+      return messageId
     } catch (error) {
       Logger.error('Error sending re-enter job title prompt', { error, phoneNumber })
       throw error
@@ -321,30 +442,108 @@ Par exemple: "Développeur", "Comptable", "Marketing Manager", etc. 💼`
   }
 
   /**
-   * Send "see more" prompt after showing initial job results
+   * Send "see more" prompt after showing job results, with reply buttons
+   * (Voir plus / Nouvelle recherche / Créer une alerte)
    * @param phoneNumber - Recipient's phone number
    */
-  async sendSeeMorePrompt(phoneNumber: string): Promise<void> {
+  async sendSeeMorePrompt(phoneNumber: string): Promise<string | undefined> {
     try {
-      const message = `Souhaitez-vous voir plus d'offres? 🔍
-
-Envoyez *Voir plus* pour afficher d'autres opportunités! 📋`
-
-      await this.sendTextMessage(phoneNumber, message)
+      const messageId = await this.sendReplyButtons(
+        phoneNumber,
+        BotMessages.SEE_MORE_PROMPT,
+        InteractiveReplyParser.RESULT_BUTTONS
+      )
 
       Logger.success('See more prompt sent', { phoneNumber })
+      return messageId
     } catch (error) {
       Logger.error('Error sending see more prompt', { error, phoneNumber })
       throw error
     }
   }
 
+  /**
+   * Ask for the job title after a click on "Nouvelle recherche"
+   * @param phoneNumber - Recipient's phone number
+   */
+  async sendNewSearchPrompt(phoneNumber: string): Promise<string | undefined> {
+    try {
+      const message = `Quel poste recherchez-vous? 💼
+
+Par exemple: "Comptable", "Chauffeur à Abidjan", "Stage marketing" 🔍`
+
+      const messageId = await this.sendTextMessage(phoneNumber, message)
+
+      Logger.success('New search prompt sent', { phoneNumber })
+      return messageId
+    } catch (error) {
+      Logger.error('Error sending new search prompt', { error, phoneNumber })
+      throw error
+    }
+  }
+
+  /**
+   * Send a message with up to 3 reply buttons
+   * @param phoneNumber - Recipient's phone number
+   * @param body - Message text
+   * @param buttons - Buttons, their id comes back in the button_reply webhook
+   */
+  async sendReplyButtons(
+    phoneNumber: string,
+    body: string,
+    buttons: ReplyButton[],
+    options?: InteractiveMessageOptions
+  ): Promise<string | undefined> {
+    try {
+      const response = await this.whatsapp.sendInteractiveMessage(
+        phoneNumber,
+        InteractiveMessageBuilder.replyButtons(body, buttons, options),
+        { recipientType: 'individual' }
+      )
+
+      Logger.success('Reply buttons sent', { phoneNumber, buttons: buttons.map((button) => button.id) })
+      return BotMessages.messageId(response)
+    } catch (error) {
+      Logger.error('Error sending reply buttons', { error, phoneNumber })
+      throw error
+    }
+  }
+
+  /**
+   * Send a list message (up to 10 rows)
+   * @param phoneNumber - Recipient's phone number
+   * @param body - Message text
+   * @param buttonLabel - Label of the button opening the list
+   * @param sections - Rows, their id comes back in the list_reply webhook
+   */
+  async sendListMessage(
+    phoneNumber: string,
+    body: string,
+    buttonLabel: string,
+    sections: ListSection[],
+    options?: InteractiveMessageOptions
+  ): Promise<string | undefined> {
+    try {
+      const response = await this.whatsapp.sendInteractiveMessage(
+        phoneNumber,
+        InteractiveMessageBuilder.list(body, buttonLabel, sections, options),
+        { recipientType: 'individual' }
+      )
+
+      Logger.success('List message sent', { phoneNumber })
+      return BotMessages.messageId(response)
+    } catch (error) {
+      Logger.error('Error sending list message', { error, phoneNumber })
+      throw error
+    }
+  }
+
   /**
    * Send unsupported media type message (random from 10 variants)
    * @param phoneNumber - Recipient's phone number
    * @param mediaType - Type of media that was sent (image, audio, video, etc.)
    */
-  async sendUnsupportedMediaMessage(phoneNumber: string, mediaType: string): Promise<void> {
+  async sendUnsupportedMediaMessage(phoneNumber: string, mediaType: string): Promise<string | undefined> {
     try {
       const messages = [
         `Désolé, je ne peux pas traiter les ${mediaType === 'image' ? 'images' : 'messages vocaux'} pour le moment 🙈\n\nPour rechercher des offres d'emploi, envoyez-moi simplement le titre du poste en texte! 💼`,
@@ -371,12 +570,21 @@ Envoyez *Voir plus* pour afficher d'autres opportunités! 📋`
       // Select a random message
       const randomMessage = messages[Math.floor(Math.random() * messages.length)]
 
-      await this.sendTextMessage(phoneNumber, randomMessage)
+      const messageId = await this.sendTextMessage(phoneNumber, randomMessage)
 
       Logger.success('Unsupported media message sent', { phoneNumber, mediaType })
+      return messageId
     } catch (error) {
       Logger.error('Error sending unsupported media message', { error, phoneNumber })
       throw error
     }
   }
+
+  /**
+   * WhatsApp message id (wamid) of a sent message
+   * @param response - Cloud API response, data is { messages: [{ id }] }
+   */
+  private static messageId(response: ApiResponse): string | undefined {
+    return response?.data?.messages?.[0]?.id
+  }
 }
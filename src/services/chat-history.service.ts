@@ -2,6 +2,9 @@ import type { Redis } from 'ioredis'
 import { ChatMessage, ChatMessageSchema } from '@/models/ChatMessage'
 import { MessageRepository } from '@/db/repositories/MessageRepository'
 import { ConversationRepository } from '@/db/repositories/ConversationRepository'
+import { ConversationLifecycleService } from './conversation-lifecycle.service'
+import { AdminEventsService } from './admin-events.service'
+import { ConversationLifecycle } from '@/utils/conversation-lifecycle'
 import { randomUUID } from 'crypto'
 
 export class ChatHistoryService {
@@ -11,15 +14,22 @@ export class ChatHistoryService {
 
   private messageRepo = new MessageRepository()
   private conversationRepo = new ConversationRepository()
+  private lifecycle: ConversationLifecycleService
+  private adminEvents: AdminEventsService
 
-  constructor(private readonly redis: Redis) {}
+  constructor(private readonly redis: Redis) {
+    this.lifecycle = new ConversationLifecycleService(redis)
+    this.adminEvents = new AdminEventsService(redis)
+  }
 
   async saveMessage(
     phoneNumber: string,
     sessionId: string,
     direction: 'incoming' | 'outgoing',
     content: ChatMessage['content'],
-    metadata?: ChatMessage['metadata']
+    metadata?: ChatMessage['metadata'],
+    whatsappMessageIds?: string[],
+    agentUsername?: string
   ): Promise<ChatMessage> {
     const message: ChatMessage = {
       id: randomUUID(),
@@ -29,6 +39,8 @@ export class ChatHistoryService {
       direction,
       content,
       metadata,
+      whatsappMessageIds: whatsappMessageIds?.length ? whatsappMessageIds : undefined,
+      agentUsername,
     }
 
     const key = this.getHistoryKey(phoneNumber)
@@ -44,6 +56,29 @@ export class ChatHistoryService {
     try {
       // Get or create active conversation
       let conversation = await this.conversationRepo.findActiveByPhoneNumber(phoneNumber)
+      const isJobAlert = sessionId === ConversationLifecycle.JOB_ALERT_SESSION_ID
+
+      // One conversation per session: close the previous one if the sweep didn't yet
+      if (
+        conversation &&
+        ConversationLifecycle.startsNewConversation(
+          { sessionId: conversation.sessionId, lastActivityAt: Number(conversation.lastActivityAt) },
+          { sessionId, direction },
+          message.timestamp,
+          ConversationLifecycleService.SESSION_TTL_MS
+        )
+      ) {
+        await this.lifecycle.close(conversation)
+        conversation = null
+      }
+
+      // Job alerts go to the last conversation instead of opening one
+      if (!conversation && isJobAlert) {
+        const [lastConversation] = await this.conversationRepo.findByPhoneNumber(phoneNumber, 1)
+        // No conversation to add it to, the alert is only kept in the Redis history
+        if (!lastConversation) return message
+        conversation = lastConversation
+      }
 
       if (!conversation) {
         // Create new conversation if none exists
@@ -61,6 +96,16 @@ export class ChatHistoryService {
             paginationRequestsCount: 0,
           },
         })
+
+        await this.adminEvents.publish({
+          type: 'conversation.started',
+          data: {
+            id: conversation.id,
+            phoneNumber,
+            sessionId,
+            startedAt: Number(conversation.startedAt),
+          },
+        })
       }
 
       // Save message to database
@@ -73,11 +118,28 @@ export class ChatHistoryService {
         direction,
         content,
         metadata,
+        whatsappMessageIds: message.whatsappMessageIds,
+        agentUsername: message.agentUsername,
       })
 
+      // Experiment variants seen by the user, kept on the conversation for the experiment stats
+      if (metadata?.experiments) {
+        await this.conversationRepo.updateMetadata(conversation.id, {
+          experiments: { ...conversation.metadata?.experiments, ...metadata.experiments },
+        })
+      }
+
       // Update conversation activity and message count
       await this.conversationRepo.incrementMessageCount(conversation.id)
-      await this.conversationRepo.updateLastActivity(conversation.id, message.timestamp)
+      // A job alert doesn't keep the conversation from being swept
+      if (!isJobAlert) {
+        await this.conversationRepo.updateLastActivity(conversation.id, message.timestamp)
+      }
+
+      await this.adminEvents.publish({
+        type: 'message.saved',
+        data: { ...message, conversationId: conversation.id },
+      })
     } catch (error) {
       console.error('Failed to save message to database:', error)
       // Don't fail the entire operation if DB save fails
@@ -138,7 +200,8 @@ export class ChatHistoryService {
     phoneNumber: string,
     sessionId: string,
     message: string,
-    state?: string
+    state?: string,
+    experiments?: Record<string, string>
   ): Promise<ChatMessage> {
     return this.saveMessage(
       phoneNumber,
@@ -151,6 +214,7 @@ export class ChatHistoryService {
       {
         state,
         processedAt: Date.now(),
+        experiments,
       }
     )
   }
@@ -159,7 +223,8 @@ export class ChatHistoryService {
     phoneNumber: string,
     sessionId: string,
     message: string,
-    state?: string
+    state?: string,
+    whatsappMessageId?: string
   ): Promise<ChatMessage> {
     return this.saveMessage(
       phoneNumber,
@@ -171,7 +236,8 @@ export class ChatHistoryService {
       },
       {
         state,
-      }
+      },
+      whatsappMessageId ? [whatsappMessageId] : undefined
     )
   }
 
@@ -179,7 +245,9 @@ export class ChatHistoryService {
     phoneNumber: string,
     sessionId: string,
     templateName: string,
-    state?: string
+    state?: string,
+    whatsappMessageId?: string,
+    experiments?: Record<string, string>
   ): Promise<ChatMessage> {
     return this.saveMessage(
       phoneNumber,
@@ -191,7 +259,9 @@ export class ChatHistoryService {
       },
       {
         state,
-      }
+        experiments,
+      },
+      whatsappMessageId ? [whatsappMessageId] : undefined
     )
   }
 
@@ -201,7 +271,9 @@ export class ChatHistoryService {
     text: string,
     buttons: any[],
     state?: string,
-    jobOffersCount?: number
+    jobOffersCount?: number,
+    whatsappMessageIds?: string[],
+    experiments?: Record<string, string>
   ): Promise<ChatMessage> {
     return this.saveMessage(
       phoneNumber,
@@ -215,7 +287,33 @@ export class ChatHistoryService {
       {
         state,
         jobOffersCount,
-      }
+        experiments,
+      },
+      whatsappMessageIds
+    )
+  }
+
+  /**
+   * Save a text or template message written by an admin during a human handoff
+   */
+  async saveAgentMessage(
+    phoneNumber: string,
+    sessionId: string,
+    content: ChatMessage['content'],
+    agentUsername: string,
+    state?: string,
+    whatsappMessageId?: string
+  ): Promise<ChatMessage> {
+    return this.saveMessage(
+      phoneNumber,
+      sessionId,
+      'outgoing',
+      content,
+      {
+        state,
+      },
+      whatsappMessageId ? [whatsappMessageId] : undefined,
+      agentUsername
     )
   }
 
@@ -238,6 +336,7 @@ export class ChatHistoryService {
         direction: msg.direction,
         content: msg.content,
         metadata: msg.metadata,
+        agentUsername: msg.agentUsername ?? undefined,
       }))
     } catch (error) {
       console.error('Failed to get history from database:', error)
@@ -267,6 +366,7 @@ export class ChatHistoryService {
             direction: msg.direction,
             content: msg.content,
             metadata: msg.metadata,
+            agentUsername: msg.agentUsername ?? undefined,
           })) || [],
       }
     } catch (error) {
@@ -311,6 +411,38 @@ export class ChatHistoryService {
     }
   }
 
+  /**
+   * Count a new search (not "voir plus") in the active conversation
+   */
+  async recordSearch(phoneNumber: string) {
+    await this.incrementMetadataCount(phoneNumber, 'searchQueriesCount', 1)
+  }
+
+  /**
+   * Count job offers shown in the active conversation, completes it when it ends
+   */
+  async recordJobOffersShown(phoneNumber: string, count: number) {
+    await this.incrementMetadataCount(phoneNumber, 'jobOffersShownCount', count)
+  }
+
+  private async incrementMetadataCount(
+    phoneNumber: string,
+    key: 'searchQueriesCount' | 'jobOffersShownCount',
+    count: number
+  ) {
+    try {
+      const conversation = await this.conversationRepo.findActiveByPhoneNumber(phoneNumber)
+
+      if (conversation) {
+        await this.conversationRepo.updateMetadata(conversation.id, {
+          [key]: (conversation.metadata?.[key] || 0) + count,
+        })
+      }
+    } catch (error) {
+      console.error(`Failed to update ${key}:`, error)
+    }
+  }
+
   /**
    * Mark conversation as completed
    */
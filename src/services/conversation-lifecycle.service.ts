@@ -0,0 +1,100 @@
+import type { Redis } from 'ioredis'
+import { ConversationRepository } from '../db/repositories/ConversationRepository'
+import { MessageRepository } from '../db/repositories/MessageRepository'
+import { PersonalizedLinkRepository } from '../db/repositories/PersonalizedLinkRepository'
+import type { ConversationEntity } from '../db/entities/ConversationEntity'
+import { ConversationStateService } from './conversation-state.service'
+import { ConversationLifecycle, type ConversationOutcome } from '../utils/conversation-lifecycle'
+import { Logger } from '../utils/logger'
+
+export interface ConversationSweepResult {
+  checked: number
+  completed: number
+  abandoned: number
+}
+
+/**
+ * Conversation Lifecycle Service
+ * A conversation row (ConversationEntity) lives as long as the user's Redis session:
+ * once the session expired it is closed, completed or abandoned depending on its outcome
+ *
+ * - sweep: closes the conversations whose session expired (cron)
+ * - close: also used by ChatHistoryService when a message starts a new session before the sweep
+ */
+export class ConversationLifecycleService {
+  // Redis session TTL, see ConversationStateService
+  static readonly SESSION_TTL_MS = 20 * 60 * 1000
+
+  private readonly SWEEP_BATCH_SIZE = 200
+
+  private conversationRepo = new ConversationRepository()
+  private messageRepo = new MessageRepository()
+  private linkRepo = new PersonalizedLinkRepository()
+  private conversationState: ConversationStateService
+
+  constructor(redis: Redis) {
+    this.conversationState = new ConversationStateService(redis)
+  }
+
+  /**
+   * Close the active conversations without activity for longer than a session
+   */
+  async sweep(now: number = Date.now()): Promise<ConversationSweepResult> {
+    const result: ConversationSweepResult = { checked: 0, completed: 0, abandoned: 0 }
+    const stale = await this.conversationRepo.findStaleActive(
+      now - ConversationLifecycleService.SESSION_TTL_MS,
+      this.SWEEP_BATCH_SIZE
+    )
+
+    for (const conversation of stale) {
+      result.checked++
+
+      // Activity not saved yet, e.g. a message being processed right now
+      const session = await this.conversationState.findActiveSession(conversation.phoneNumber)
+      if (session?.sessionId === conversation.sessionId) {
+        continue
+      }
+
+      try {
+        result[await this.close(conversation)]++
+      } catch (error: any) {
+        Logger.error('Error closing conversation', { conversationId: conversation.id, error: error?.message })
+      }
+    }
+
+    if (result.completed + result.abandoned > 0) {
+      Logger.success('Stale conversations closed', { ...result })
+    }
+
+    return result
+  }
+
+  /**
+   * Close a conversation at its last activity, with the state the user left it in
+   */
+  async close(conversation: ConversationEntity): Promise<ConversationOutcome> {
+    const startedAt = Number(conversation.startedAt)
+    const endedAt = Number(conversation.lastActivityAt)
+
+    const [lastMessage, linksClicked] = await Promise.all([
+      this.messageRepo.findLatestByConversationId(conversation.id),
+      this.linkRepo.countClickedSentBetween(conversation.phoneNumber, new Date(startedAt), new Date(endedAt)),
+    ])
+
+    const outcome = ConversationLifecycle.classify({
+      jobOffersShown: conversation.metadata?.jobOffersShownCount || 0,
+      linksClicked,
+    })
+
+    await this.conversationRepo.close(conversation.id, outcome, endedAt, lastMessage?.metadata?.state)
+
+    Logger.info('Conversation closed', {
+      conversationId: conversation.id,
+      phoneNumber: conversation.phoneNumber,
+      outcome,
+      finalState: lastMessage?.metadata?.state,
+    })
+
+    return outcome
+  }
+}
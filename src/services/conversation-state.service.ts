@@ -3,15 +3,19 @@ import { createActor } from 'xstate'
 import {
   conversationMachine,
   type ConversationContext,
+  type ConversationEvent,
 } from '@/machines/conversationMachine'
+import type { IntentType } from '@/intents/IntentResolver'
 import { ConversationSession, ConversationSessionSchema } from '@/models/ChatMessage'
 import { randomUUID } from 'crypto'
 
 export class ConversationStateService {
   private readonly SESSION_PREFIX = 'conversation:session:'
   private readonly ACTIVE_TOKEN_PREFIX = 'conversation:active:'
+  private readonly HANDOFF_PREFIX = 'conversation:handoff:'
   private readonly SESSION_TTL = 20 * 60 // 20 minutes in seconds
   private readonly ACTIVE_TOKEN_TTL = 20 * 60 // 20 minutes in seconds
+  private readonly HANDOFF_TTL = 24 * 60 * 60 // 24 hours in seconds, the WhatsApp customer service window
 
   // In-memory cache of active actors (for performance)
   private actors = new Map<string, ReturnType<typeof createActor<typeof conversationMachine>>>()
@@ -19,6 +23,17 @@ export class ConversationStateService {
   constructor(private readonly redis: Redis) {}
 
   async loadOrCreateSession(phoneNumber: string): Promise<ConversationSession> {
+    const session = await this.findActiveSession(phoneNumber)
+
+    // Token doesn't exist or session invalid → create new session
+    return session ?? this.createNewSession(phoneNumber)
+  }
+
+  /**
+   * Session of an active conversation, without creating one
+   * @returns null when the conversation expired or the session is invalid
+   */
+  async findActiveSession(phoneNumber: string): Promise<ConversationSession | null> {
     const key = this.getSessionKey(phoneNumber)
 
     // Check if conversation is active (token exists)
@@ -41,12 +56,11 @@ export class ConversationStateService {
 
         return session
       } catch (error) {
-        console.error('Failed to parse session, creating new one:', error)
+        console.error('Failed to parse session:', error)
       }
     }
 
-    // Token doesn't exist or session invalid → create new session
-    return this.createNewSession(phoneNumber)
+    return null
   }
 
   /**
@@ -66,7 +80,26 @@ export class ConversationStateService {
     await this.redis.set(tokenKey, '1', 'EX', this.ACTIVE_TOKEN_TTL)
   }
 
-  async handleMessage(phoneNumber: string, message: string): Promise<{
+  /**
+   * @param intent - What the user's intent resolver understood, routes small talk and pagination
+   */
+  async handleMessage(phoneNumber: string, message: string, intent?: IntentType): Promise<{
+    state: string
+    context: ConversationContext
+    shouldSendWelcome: boolean
+  }> {
+    return this.handleEvent(phoneNumber, {
+      type: 'USER_MESSAGE',
+      message,
+      timestamp: Date.now(),
+      intent,
+    })
+  }
+
+  /**
+   * Send a user event (message, reply button) to the conversation machine and persist the result
+   */
+  async handleEvent(phoneNumber: string, event: ConversationEvent): Promise<{
     state: string
     context: ConversationContext
     shouldSendWelcome: boolean
@@ -87,14 +120,12 @@ export class ConversationStateService {
       this.actors.set(phoneNumber, actor)
     }
 
+    // The handoff may have been started or ended by another process (admin API)
+    await this.syncHandoff(phoneNumber, actor)
+
     const previousState = actor.getSnapshot().value as string
 
-    // Send USER_MESSAGE event
-    actor.send({
-      type: 'USER_MESSAGE',
-      message,
-      timestamp: Date.now(),
-    })
+    actor.send(event)
 
     const snapshot = actor.getSnapshot()
     const newState = snapshot.value as string
@@ -186,6 +217,60 @@ export class ConversationStateService {
     )
   }
 
+  /**
+   * Pause the bot for a user: an admin answers from the portal until endHandoff
+   * Stored apart from the session so that it outlives it and every worker sees it
+   */
+  async startHandoff(phoneNumber: string, agent: string): Promise<{
+    state: string
+    context: ConversationContext
+  }> {
+    await this.redis.set(this.getHandoffKey(phoneNumber), agent, 'EX', this.HANDOFF_TTL)
+
+    return this.handleEvent(phoneNumber, {
+      type: 'HANDOFF_STARTED',
+      agent,
+      timestamp: Date.now(),
+    })
+  }
+
+  /**
+   * Give the conversation back to the bot
+   */
+  async endHandoff(phoneNumber: string): Promise<{
+    state: string
+    context: ConversationContext
+  }> {
+    await this.redis.del(this.getHandoffKey(phoneNumber))
+
+    return this.handleEvent(phoneNumber, {
+      type: 'HANDOFF_ENDED',
+      timestamp: Date.now(),
+    })
+  }
+
+  /**
+   * Admin handling the conversation
+   * @returns null when the bot answers
+   */
+  async getHandoffAgent(phoneNumber: string): Promise<string | null> {
+    return this.redis.get(this.getHandoffKey(phoneNumber))
+  }
+
+  private async syncHandoff(
+    phoneNumber: string,
+    actor: ReturnType<typeof createActor<typeof conversationMachine>>
+  ): Promise<void> {
+    const agent = await this.getHandoffAgent(phoneNumber)
+    const inHandoff = actor.getSnapshot().value === 'humanHandoff'
+
+    if (agent && !inHandoff) {
+      actor.send({ type: 'HANDOFF_STARTED', agent, timestamp: Date.now() })
+    } else if (!agent && inHandoff) {
+      actor.send({ type: 'HANDOFF_ENDED', timestamp: Date.now() })
+    }
+  }
+
   async getCurrentState(phoneNumber: string): Promise<string> {
     const session = await this.loadOrCreateSession(phoneNumber)
     return session.currentState
@@ -262,6 +347,10 @@ export class ConversationStateService {
     return `${this.ACTIVE_TOKEN_PREFIX}${phoneNumber}`
   }
 
+  private getHandoffKey(phoneNumber: string): string {
+    return `${this.HANDOFF_PREFIX}${phoneNumber}`
+  }
+
   // Cleanup method to remove inactive actors (call periodically)
   cleanupInactiveActors(): void {
     const twentyMinutesAgo = Date.now() - 20 * 60 * 1000
@@ -0,0 +1,97 @@
+import type { DelayedMessageJobData, DelayedMessageType } from '../queues/delayed-message.queue'
+import { BotMessages } from './bot-messages.service'
+import { ChatHistoryService } from './chat-history.service'
+import { ConversationStateService } from './conversation-state.service'
+import { InteractiveReplyParser } from '../utils/interactive-reply'
+import { Logger } from '../utils/logger'
+
+export type DelayedMessageResult = 'sent' | 'skipped'
+
+/**
+ * Sender of a delayed message: what to send and what to save in the chat history
+ */
+interface DelayedMessageDefinition {
+  send: (botMessages: BotMessages, phoneNumber: string) => Promise<string | undefined>
+  text: string
+  buttons: string[]
+}
+
+/**
+ * Delayed Message Sender
+ * Sends the messages scheduled by DelayedMessageService once their delay is over,
+ * unless the conversation moved on in the meantime
+ */
+export class DelayedMessageSender {
+  private botMessages = new BotMessages()
+
+  /**
+   * Table-Driven Pattern: one definition per delayed message type
+   */
+  private readonly definitions: Record<DelayedMessageType, DelayedMessageDefinition> = {
+    seeMorePrompt: {
+      send: (botMessages, phoneNumber) => botMessages.sendSeeMorePrompt(phoneNumber),
+      text: BotMessages.SEE_MORE_PROMPT,
+      buttons: InteractiveReplyParser.RESULT_BUTTONS.map((button) => button.title),
+    },
+  }
+
+  constructor(
+    private readonly chatHistory: ChatHistoryService,
+    private readonly conversationState: ConversationStateService
+  ) {}
+
+  async deliver(data: DelayedMessageJobData): Promise<DelayedMessageResult> {
+    const skipReason = await this.getSkipReason(data)
+    if (skipReason) {
+      Logger.info('Delayed message skipped', { type: data.type, phoneNumber: data.phoneNumber, reason: skipReason })
+      return 'skipped'
+    }
+
+    const definition = this.definitions[data.type]
+    const messageId = await definition.send(this.botMessages, data.phoneNumber)
+
+    await this.chatHistory.saveOutgoingInteractiveMessage(
+      data.phoneNumber,
+      data.sessionId,
+      definition.text,
+      definition.buttons,
+      data.state,
+      undefined,
+      messageId ? [messageId] : undefined
+    )
+
+    return 'sent'
+  }
+
+  /**
+   * Why the message no longer makes sense, null when it can be sent
+   */
+  private async getSkipReason(data: DelayedMessageJobData): Promise<string | null> {
+    // The user wrote since (normally cancelled, unless the message was already being sent)
+    const recentMessages = await this.chatHistory.getRecentHistory(data.phoneNumber, 10)
+    const answered = recentMessages.some(
+      (message) => message.direction === 'incoming' && message.timestamp > data.scheduledAt
+    )
+    if (answered) {
+      return 'user_answered'
+    }
+
+    const { states, lastQuery } = data.conditions ?? {}
+    if (!states && !lastQuery) {
+      return null
+    }
+
+    const session = await this.conversationState.findActiveSession(data.phoneNumber)
+    if (!session || session.sessionId !== data.sessionId) {
+      return 'conversation_ended'
+    }
+    if (states && !states.includes(session.currentState)) {
+      return 'state_changed'
+    }
+    if (lastQuery && session.context.lastQuery !== lastQuery) {
+      return 'query_changed'
+    }
+
+    return null
+  }
+}
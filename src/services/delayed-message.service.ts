@@ -0,0 +1,68 @@
+import type { Queue } from 'bullmq'
+import type { DelayedMessageJobData, DelayedMessageType } from '../queues/delayed-message.queue'
+import { Logger } from '../utils/logger'
+
+/**
+ * Delayed Message Service
+ * Schedules bot messages sent some time after the user's message ("see more" prompt),
+ * as BullMQ delayed jobs so they survive worker restarts
+ *
+ * A user has at most one pending message of each type: scheduling again replaces it,
+ * and any new message of the user cancels them (see cancel)
+ */
+export class DelayedMessageService {
+  private readonly TYPES: DelayedMessageType[] = ['seeMorePrompt']
+
+  constructor(private readonly queue: Queue<DelayedMessageJobData>) {}
+
+  async schedule(
+    data: Omit<DelayedMessageJobData, 'scheduledAt'>,
+    delayMs: number
+  ): Promise<void> {
+    const jobId = this.getJobId(data.type, data.phoneNumber)
+
+    // A job id is only added once, drop the previous message of this type first
+    await this.removeJob(jobId)
+
+    await this.queue.add(
+      data.type,
+      { ...data, scheduledAt: Date.now() },
+      { jobId, delay: delayMs }
+    )
+
+    Logger.debug('Delayed message scheduled', { type: data.type, phoneNumber: data.phoneNumber, delayMs })
+  }
+
+  /**
+   * Cancel the pending messages of a user, who answered before they were sent
+   */
+  async cancel(phoneNumber: string): Promise<void> {
+    for (const type of this.TYPES) {
+      if (await this.removeJob(this.getJobId(type, phoneNumber))) {
+        Logger.debug('Delayed message cancelled', { type, phoneNumber })
+      }
+    }
+  }
+
+  /**
+   * @returns Whether a pending job was removed
+   */
+  private async removeJob(jobId: string): Promise<boolean> {
+    const job = await this.queue.getJob(jobId)
+    if (!job) return false
+
+    try {
+      await job.remove()
+      return true
+    } catch (error: any) {
+      // Being sent right now (locked by a worker), the checks at send time take over
+      Logger.debug('Could not remove delayed message', { jobId, error: error?.message })
+      return false
+    }
+  }
+
+  // BullMQ custom job ids can't contain ":"
+  private getJobId(type: DelayedMessageType, phoneNumber: string): string {
+    return `${type}-${phoneNumber}`
+  }
+}
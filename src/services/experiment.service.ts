@@ -0,0 +1,118 @@
+import { ConversationRepository } from '../db/repositories/ConversationRepository'
+import { PersonalizedLinkRepository } from '../db/repositories/PersonalizedLinkRepository'
+import type { FeatureFlagService } from './feature-flag.service'
+import {
+  ExperimentAssigner,
+  ExperimentMetrics,
+  type ExperimentDefinition,
+  type ExperimentVariant,
+} from '../utils/experiment'
+import { Logger } from '../utils/logger'
+
+/**
+ * Variant to apply for a user
+ */
+export interface ExperimentAssignment {
+  params: ExperimentVariant['params']
+  // { [experiment]: variant } to save with the messages shaped by the variant, undefined out of the experiment
+  exposure?: Record<string, string>
+}
+
+/**
+ * Experiment Service
+ * Users are enrolled through the feature flag of the experiment, then bucketed on their phone number
+ *
+ * Exposures are logged by saving the assignment exposure with the message the variant changed
+ * (MessageEntity metadata.experiments), ChatHistoryService copies it on the conversation
+ */
+export class ExperimentService {
+  private readonly FLAG_PREFIX = 'experiment.'
+
+  private conversationRepo = new ConversationRepository()
+  private linkRepo = new PersonalizedLinkRepository()
+
+  constructor(
+    private readonly featureFlags: FeatureFlagService,
+    private readonly definitions: ExperimentDefinition[]
+  ) {}
+
+  /**
+   * Feature flag enrolling users in an experiment
+   */
+  flagName(experimentName: string): string {
+    return `${this.FLAG_PREFIX}${experimentName}`
+  }
+
+  async list() {
+    return Promise.all(
+      this.definitions.map(async (definition) => ({
+        ...definition,
+        flag: this.flagName(definition.name),
+        running: await this.isRunning(definition.name),
+      }))
+    )
+  }
+
+  get(name: string): ExperimentDefinition | undefined {
+    return this.definitions.find((definition) => definition.name === name)
+  }
+
+  async assign(name: string, phoneNumber: string): Promise<ExperimentAssignment> {
+    const experiment = this.get(name)
+    if (!experiment) {
+      throw new Error(`Unknown experiment: ${name}`)
+    }
+
+    const control = experiment.variants[0]!
+    if (!(await this.featureFlags.isEnabled(this.flagName(name), phoneNumber))) {
+      return { params: control.params }
+    }
+
+    const variant = ExperimentAssigner.assign(experiment, phoneNumber)
+    Logger.debug('Experiment variant assigned', { experiment: name, variant: variant.name, phoneNumber })
+
+    return { params: variant.params, exposure: { [name]: variant.name } }
+  }
+
+  /**
+   * Outcome metrics of each variant, null for an unknown experiment
+   */
+  async getStats(name: string) {
+    const experiment = this.get(name)
+    if (!experiment) return null
+
+    const exposedConversations = await this.conversationRepo.findExposedToExperiment(name)
+    const exposures = exposedConversations.map((conversation) => ({
+      phoneNumber: conversation.phoneNumber,
+      variant: conversation.metadata!.experiments![name]!,
+      startedAt: Number(conversation.startedAt),
+      searchQueriesCount: conversation.metadata?.searchQueriesCount || 0,
+    }))
+
+    const phoneNumbers = [...new Set(exposures.map((exposure) => exposure.phoneNumber))]
+    const [conversations, links] = await Promise.all([
+      this.conversationRepo.findByPhoneNumbers(phoneNumbers),
+      this.linkRepo.findByPhoneNumbers(phoneNumbers),
+    ])
+
+    return {
+      experiment: experiment.name,
+      description: experiment.description,
+      running: await this.isRunning(name),
+      variants: ExperimentMetrics.compute(
+        experiment,
+        exposures,
+        conversations.map((conversation) => ({
+          phoneNumber: conversation.phoneNumber,
+          startedAt: Number(conversation.startedAt),
+        })),
+        links
+      ),
+    }
+  }
+
+  private async isRunning(name: string): Promise<boolean> {
+    const flag = await this.featureFlags.get(this.flagName(name))
+    return !!flag && flag.enabled && (flag.rolloutPercentage > 0 || flag.phoneNumbers.length > 0)
+  }
+}
@@ -0,0 +1,204 @@
+import type { Redis } from 'ioredis'
+import { FeatureFlagRepository } from '../db/repositories/FeatureFlagRepository'
+import { FeatureFlagAuditLogRepository } from '../db/repositories/FeatureFlagAuditLogRepository'
+import type { FeatureFlagEntity } from '../db/entities/FeatureFlagEntity'
+import type { FeatureFlagAuditAction } from '../db/entities/FeatureFlagAuditLogEntity'
+import { FeatureFlagEvaluator, type FeatureFlagRule } from '../utils/feature-flag'
+import { Logger } from '../utils/logger'
+
+export interface FeatureFlagInput {
+  description?: string
+  enabled?: boolean
+  rolloutPercentage?: number
+  phoneNumbers?: string[]
+}
+
+/**
+ * Feature Flag Service
+ * Flags are stored in Postgres (with an audit log of every change) and cached in memory
+ *
+ * Each change bumps a version in Redis, the API and worker processes reload their
+ * cache when they see a new version, so a toggle applies everywhere within seconds
+ */
+export class FeatureFlagService {
+  private readonly VERSION_KEY = 'feature-flags:version'
+  private readonly VERSION_CHECK_INTERVAL_MS = 5_000
+
+  private flagRepo = new FeatureFlagRepository()
+  private auditRepo = new FeatureFlagAuditLogRepository()
+
+  private cache: Map<string, FeatureFlagRule> | null = null
+  private cacheVersion: string | null = null
+  private versionCheckedAt = 0
+  private defaultsCreated = false
+
+  /**
+   * @param defaults - Flags created on first use when missing, e.g. from the environment
+   */
+  constructor(
+    private readonly redis: Redis,
+    private readonly defaults: (FeatureFlagInput & { name: string })[] = []
+  ) {}
+
+  async isEnabled(name: string, phoneNumber: string): Promise<boolean> {
+    const flags = await this.getFlags()
+    return FeatureFlagEvaluator.isEnabled(flags.get(name), phoneNumber)
+  }
+
+  async list(): Promise<FeatureFlagEntity[]> {
+    return this.flagRepo.findAllOrdered()
+  }
+
+  async get(name: string): Promise<FeatureFlagEntity | null> {
+    return this.flagRepo.findByName(name)
+  }
+
+  /**
+   * @returns null when a flag with this name already exists
+   */
+  async create(name: string, input: FeatureFlagInput, actor: string): Promise<FeatureFlagEntity | null> {
+    if (await this.flagRepo.findByName(name)) {
+      return null
+    }
+
+    const flag = await this.flagRepo.create({
+      name,
+      description: input.description,
+      enabled: input.enabled ?? true,
+      rolloutPercentage: input.rolloutPercentage ?? 0,
+      phoneNumbers: this.uniquePhoneNumbers(input.phoneNumbers ?? []),
+    })
+
+    await this.audit(name, 'created', actor, FeatureFlagEvaluator.diff({}, this.toRule(flag)))
+    return flag
+  }
+
+  /**
+   * @returns null when the flag doesn't exist
+   */
+  async update(name: string, input: FeatureFlagInput, actor: string): Promise<FeatureFlagEntity | null> {
+    const flag = await this.flagRepo.findByName(name)
+    if (!flag) return null
+
+    const data = {
+      ...input,
+      phoneNumbers: input.phoneNumbers ? this.uniquePhoneNumbers(input.phoneNumbers) : undefined,
+    }
+    const changes = FeatureFlagEvaluator.diff(flag, data)
+    if (Object.keys(changes).length === 0) {
+      return flag
+    }
+
+    const updated = await this.flagRepo.update(flag.id, data)
+    await this.audit(name, 'updated', actor, changes)
+    return updated
+  }
+
+  async addUser(name: string, phoneNumber: string, actor: string): Promise<FeatureFlagEntity | null> {
+    const flag = await this.flagRepo.findByName(name)
+    if (!flag) return null
+    if (flag.phoneNumbers.includes(phoneNumber)) return flag
+
+    const phoneNumbers = [...flag.phoneNumbers, phoneNumber]
+    const updated = await this.flagRepo.update(flag.id, { phoneNumbers })
+    await this.audit(name, 'user_added', actor, { phoneNumbers: { from: flag.phoneNumbers, to: phoneNumbers } })
+    return updated
+  }
+
+  async removeUser(name: string, phoneNumber: string, actor: string): Promise<FeatureFlagEntity | null> {
+    const flag = await this.flagRepo.findByName(name)
+    if (!flag) return null
+    if (!flag.phoneNumbers.includes(phoneNumber)) return flag
+
+    const phoneNumbers = flag.phoneNumbers.filter((phone) => phone !== phoneNumber)
+    const updated = await this.flagRepo.update(flag.id, { phoneNumbers })
+    await this.audit(name, 'user_removed', actor, { phoneNumbers: { from: flag.phoneNumbers, to: phoneNumbers } })
+    return updated
+  }
+
+  async delete(name: string, actor: string): Promise<boolean> {
+    const flag = await this.flagRepo.findByName(name)
+    if (!flag) return false
+
+    // Hard delete, the name can be reused
+    await this.flagRepo.hardDelete(flag.id)
+    await this.audit(name, 'deleted', actor, FeatureFlagEvaluator.diff(this.toRule(flag), {}))
+    return true
+  }
+
+  async getAuditLog(page: number, limit: number, name?: string) {
+    return this.auditRepo.findAllPaginated(page, limit, name)
+  }
+
+  /**
+   * Flags by name, reloaded from Postgres when another process changed them
+   */
+  private async getFlags(): Promise<Map<string, FeatureFlagRule>> {
+    const now = Date.now()
+
+    if (this.cache && now - this.versionCheckedAt < this.VERSION_CHECK_INTERVAL_MS) {
+      return this.cache
+    }
+
+    try {
+      const version = (await this.redis.get(this.VERSION_KEY)) || '0'
+      this.versionCheckedAt = now
+
+      if (!this.cache || version !== this.cacheVersion) {
+        if (!this.defaultsCreated) {
+          await this.createDefaults()
+          this.defaultsCreated = true
+        }
+
+        const flags = await this.flagRepo.findAll()
+        this.cache = new Map(flags.map((flag) => [flag.name, this.toRule(flag)]))
+        this.cacheVersion = version
+      }
+    } catch (error: any) {
+      // Keep answering from the last known flags (all off before the first load)
+      Logger.error('Error loading feature flags', { error: error?.message })
+      return this.cache ?? new Map()
+    }
+
+    return this.cache
+  }
+
+  private async createDefaults(): Promise<void> {
+    for (const { name, ...input } of this.defaults) {
+      try {
+        await this.create(name, input, 'system')
+      } catch (error: any) {
+        // Created by another process at the same time (unique name)
+        Logger.debug('Default feature flag not created', { name, error: error?.message })
+      }
+    }
+  }
+
+  private async audit(
+    flagName: string,
+    action: FeatureFlagAuditAction,
+    actor: string,
+    changes: Record<string, { from: unknown; to: unknown }>
+  ): Promise<void> {
+    await this.auditRepo.create({ flagName, action, actor, changes })
+
+    // Make every process reload its flags
+    await this.redis.incr(this.VERSION_KEY)
+    this.cache = null
+
+    Logger.info('Feature flag changed', { flagName, action, actor })
+  }
+
+  private toRule(flag: FeatureFlagEntity): FeatureFlagRule {
+    return {
+      name: flag.name,
+      enabled: flag.enabled,
+      rolloutPercentage: flag.rolloutPercentage,
+      phoneNumbers: flag.phoneNumbers,
+    }
+  }
+
+  private uniquePhoneNumbers(phoneNumbers: string[]): string[] {
+    return [...new Set(phoneNumbers.map((phone) => phone.trim()).filter((phone) => phone.length > 0))]
+  }
+}
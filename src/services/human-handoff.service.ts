@@ -0,0 +1,114 @@
+import type { ChatMessage } from '@/models/ChatMessage'
+import { BotMessages } from './bot-messages.service'
+import { ConversationStateService } from './conversation-state.service'
+import { ChatHistoryService } from './chat-history.service'
+import { DelayedMessageService } from './delayed-message.service'
+import { Logger } from '../utils/logger'
+
+/**
+ * Message written by an admin, free text or an approved template
+ */
+export type AgentMessage =
+  | { type: 'text'; text: string }
+  | { type: 'template'; templateName: string; languageCode?: string; parameters?: string[] }
+
+export interface HandoffStatus {
+  phoneNumber: string
+  active: boolean
+  // Admin handling the conversation, null when the bot answers
+  agent: string | null
+  state: string
+}
+
+/**
+ * Human Handoff Service
+ * Lets an admin take a conversation over from the portal: the bot is paused for the user
+ * (humanHandoff state of the conversation machine), the admin answers through BotMessages
+ * and gives the conversation back to the bot when done
+ *
+ * User messages received meanwhile are only saved, see WhatsAppMessageService
+ */
+export class HumanHandoffService {
+  private botMessages = new BotMessages()
+
+  constructor(
+    private readonly conversationState: ConversationStateService,
+    private readonly chatHistory: ChatHistoryService,
+    private readonly delayedMessages: DelayedMessageService
+  ) {}
+
+  async getStatus(phoneNumber: string): Promise<HandoffStatus> {
+    const [agent, session] = await Promise.all([
+      this.conversationState.getHandoffAgent(phoneNumber),
+      this.conversationState.findActiveSession(phoneNumber),
+    ])
+
+    return {
+      phoneNumber,
+      active: agent !== null,
+      agent,
+      state: session?.currentState ?? 'idle',
+    }
+  }
+
+  async start(phoneNumber: string, agent: string): Promise<HandoffStatus> {
+    // The "see more" prompt would be sent in the middle of the admin's answers
+    await this.delayedMessages.cancel(phoneNumber)
+
+    const { state } = await this.conversationState.startHandoff(phoneNumber, agent)
+
+    Logger.info('Human handoff started', { phoneNumber, agent })
+
+    return { phoneNumber, active: true, agent, state }
+  }
+
+  /**
+   * Send a message as the admin, saved as written by them
+   * @returns null when the conversation is not handed off, the bot would answer on top of the admin
+   */
+  async send(phoneNumber: string, agent: string, message: AgentMessage): Promise<ChatMessage | null> {
+    if (!(await this.conversationState.getHandoffAgent(phoneNumber))) {
+      return null
+    }
+
+    const whatsappMessageId =
+      message.type === 'text'
+        ? await this.botMessages.sendTextMessage(phoneNumber, message.text)
+        : await this.botMessages.sendAgentTemplate(
+            phoneNumber,
+            message.templateName,
+            message.languageCode,
+            message.parameters
+          )
+
+    const sessionId = await this.conversationState.getSessionId(phoneNumber)
+
+    return this.chatHistory.saveAgentMessage(
+      phoneNumber,
+      sessionId,
+      message.type === 'text'
+        ? { type: 'text', text: message.text }
+        : { type: 'template', templateName: message.templateName },
+      agent,
+      'humanHandoff',
+      whatsappMessageId
+    )
+  }
+
+  /**
+   * Give the conversation back to the bot
+   * @returns null when the conversation is not handed off
+   */
+  async resume(phoneNumber: string, agent: string): Promise<HandoffStatus | null> {
+    const handoffAgent = await this.conversationState.getHandoffAgent(phoneNumber)
+    if (!handoffAgent) {
+      return null
+    }
+
+    const { state } = await this.conversationState.endHandoff(phoneNumber)
+
+    Logger.info('Human handoff ended', { phoneNumber, agent, handoffAgent })
+
+    return { phoneNumber, active: false, agent: null, state }
+  }
+}
@@ -0,0 +1,287 @@
+import { JobAlertRepository } from '../db/repositories/JobAlertRepository'
+import { JobAdRepository } from '../db/repositories/JobAdRepository'
+import { BotUserRepository } from '../db/repositories/BotUserRepository'
+import { JobAlertEntity } from '../db/entities/JobAlertEntity'
+import { BotMessages } from './bot-messages.service'
+import { JobSearchService } from './job-search.service'
+import { ChatHistoryService } from './chat-history.service'
+import { Logger } from '../utils/logger'
+import { JobAlertCommandParser } from '../utils/job-alert-command'
+import { InteractiveReplyParser } from '../utils/interactive-reply'
+import { JobAlertPolicy } from '../utils/job-alert-policy'
+import { ConversationLifecycle } from '../utils/conversation-lifecycle'
+
+/**
+ * Job Alert Service
+ * Lets users subscribe to a search and pushes matching jobs after each scrape
+ */
+export class JobAlertService {
+  private alertRepo = new JobAlertRepository()
+  private jobRepo = new JobAdRepository()
+  private botUserRepo = new BotUserRepository()
+  private botMessages = new BotMessages()
+  private jobSearch = new JobSearchService()
+
+  private readonly MAX_ACTIVE_ALERTS = 5
+  private readonly MAX_JOBS_PER_NOTIFICATION = 3
+  private readonly MAX_REMEMBERED_JOBS = 200
+
+  constructor(private readonly chatHistory: ChatHistoryService) {}
+
+  /**
+   * Handle a job alert command coming from chat
+   * Saves the exchange to chat history and refreshes the user's last message time
+   * @returns true if the message was an alert command and has been answered
+   */
+  async handleCommand(phoneNumber: string, sessionId: string, messageText: string): Promise<boolean> {
+    const command = JobAlertCommandParser.parse(messageText)
+    if (!command) {
+      return false
+    }
+
+    Logger.info('Job alert command received', { phoneNumber, command })
+
+    await this.chatHistory.saveIncomingMessage(phoneNumber, sessionId, messageText, 'jobAlert')
+
+    const existingUser = await this.botUserRepo.findByPhoneNumber(phoneNumber)
+    if (!existingUser) {
+      await this.botUserRepo.create({
+        phoneNumber,
+        preferences: {},
+        lastMessageAt: new Date(),
+      })
+    } else {
+      await this.botUserRepo.update(existingUser.id, {
+        lastMessageAt: new Date(),
+      })
+    }
+
+    let reply: string
+    switch (command.type) {
+      case 'subscribe':
+        reply = await this.subscribe(phoneNumber, command.query)
+        break
+      case 'list':
+        reply = await this.list(phoneNumber)
+        break
+      case 'unsubscribe':
+        reply = await this.unsubscribe(phoneNumber, command.target)
+        break
+    }
+
+    if (command.type === 'list') {
+      await this.sendAlertList(phoneNumber, sessionId, reply)
+      return true
+    }
+
+    const messageId = await this.botMessages.sendTextMessage(phoneNumber, reply)
+    await this.chatHistory.saveOutgoingTextMessage(phoneNumber, sessionId, reply, 'jobAlert', messageId)
+
+    return true
+  }
+
+  /**
+   * Send the alert list with a row per alert to stop it
+   * @param text - Reply of list(), used as the message body
+   */
+  private async sendAlertList(phoneNumber: string, sessionId: string, text: string): Promise<void> {
+    const alerts = await this.alertRepo.findActiveByPhoneNumber(phoneNumber)
+
+    if (alerts.length === 0) {
+      const messageId = await this.botMessages.sendTextMessage(phoneNumber, text)
+      await this.chatHistory.saveOutgoingTextMessage(phoneNumber, sessionId, text, 'jobAlert', messageId)
+      return
+    }
+
+    const rows = alerts.map((alert) => ({
+      id: `${InteractiveReplyParser.STOP_ALERT_PREFIX}${alert.query}`,
+      title: alert.query,
+      description: 'Arrêter cette alerte',
+    }))
+
+    const messageId = await this.botMessages.sendListMessage(phoneNumber, text, 'Arrêter une alerte', [
+      { title: 'Mes alertes', rows },
+    ])
+    await this.chatHistory.saveOutgoingInteractiveMessage(
+      phoneNumber,
+      sessionId,
+      text,
+      rows.map((row) => row.title),
+      'jobAlert',
+      undefined,
+      messageId ? [messageId] : undefined
+    )
+  }
+
+  /**
+   * Create an alert for the given query
+   * @returns Reply text for the user
+   */
+  async subscribe(phoneNumber: string, query: string): Promise<string> {
+    const existing = await this.alertRepo.findActiveByQuery(phoneNumber, query)
+    if (existing) {
+      return `Vous avez déjà une alerte pour *${existing.query}* 🔔`
+    }
+
+    const activeAlerts = await this.alertRepo.findActiveByPhoneNumber(phoneNumber)
+    if (activeAlerts.length >= this.MAX_ACTIVE_ALERTS) {
+      return `Vous avez atteint la limite de ${this.MAX_ACTIVE_ALERTS} alertes 🚫\n\nEnvoyez *Mes alertes* pour les voir, puis *Stop alerte <numéro>* pour en supprimer une.`
+    }
+
+    await this.alertRepo.create({
+      phoneNumber,
+      query,
+      isActive: true,
+      notificationsToday: 0,
+      totalJobsSent: 0,
+      metadata: { notifiedJobIds: [] },
+    })
+
+    Logger.success('Job alert created', { phoneNumber, query })
+
+    return `Alerte créée pour *${query}* 🔔\n\nJe vous enverrai les nouvelles offres dès qu'elles sont publiées (maximum ${JobAlertPolicy.MAX_NOTIFICATIONS_PER_DAY} fois par jour).\n\nEnvoyez *Stop alerte ${query}* pour l'arrêter.`
+  }
+
+  /**
+   * List the user's active alerts
+   * @returns Reply text for the user
+   */
+  async list(phoneNumber: string): Promise<string> {
+    const alerts = await this.alertRepo.findActiveByPhoneNumber(phoneNumber)
+
+    if (alerts.length === 0) {
+      return `Vous n'avez aucune alerte active 🔕\n\nEnvoyez *Alerte <poste>* pour en créer une (ex: "Alerte comptable").`
+    }
+
+    const lines = alerts.map((alert, i) => `${i + 1}. ${alert.query}`)
+
+    return `Vos alertes actives 🔔\n\n${lines.join('\n')}\n\nEnvoyez *Stop alerte <numéro>* pour en supprimer une.`
+  }
+
+  /**
+   * Deactivate one alert (by query or list number), or all of them when no target is given
+   * @returns Reply text for the user
+   */
+  async unsubscribe(phoneNumber: string, target?: string): Promise<string> {
+    if (!target) {
+      const count = await this.alertRepo.deactivateAllForPhoneNumber(phoneNumber)
+      if (count === 0) {
+        return `Vous n'avez aucune alerte active 🔕`
+      }
+      Logger.info('All job alerts deactivated', { phoneNumber, count })
+      return `Toutes vos alertes ont été supprimées 🔕`
+    }
+
+    let alert: JobAlertEntity | null = null
+    if (/^\d+$/.test(target)) {
+      const alerts = await this.alertRepo.findActiveByPhoneNumber(phoneNumber)
+      alert = alerts[parseInt(target, 10) - 1] || null
+    } else {
+      alert = await this.alertRepo.findActiveByQuery(phoneNumber, target)
+    }
+
+    if (!alert) {
+      return `Je n'ai pas trouvé l'alerte *${target}* 🤔\n\nEnvoyez *Mes alertes* pour voir vos alertes actives.`
+    }
+
+    await this.alertRepo.deactivate(alert.id)
+    Logger.info('Job alert deactivated', { phoneNumber, alertId: alert.id })
+
+    return `Alerte *${alert.query}* supprimée 🔕`
+  }
+
+  /**
+   * Match newly saved jobs against active alerts and push them to subscribers
+   * @param jobAdIds - Ids of the jobs saved by a scrape run
+   */
+  async notifyNewJobs(jobAdIds: string[]): Promise<void> {
+    if (jobAdIds.length === 0) {
+      return
+    }
+
+    const alerts = await this.alertRepo.findActive()
+    const now = new Date()
+    const today = JobAlertPolicy.notificationDay(now)
+
+    // A job matching several alerts of the same user is only sent once per run
+    const sentByPhone = new Map<string, Set<string>>()
+    let notificationsSent = 0
+
+    Logger.info('Matching new jobs against alerts', { jobs: jobAdIds.length, alerts: alerts.length })
+
+    for (const alert of alerts) {
+      try {
+        if (!JobAlertPolicy.canNotify(alert, now)) {
+          continue
+        }
+
+        const alreadySent = sentByPhone.get(alert.phoneNumber) || new Set<string>()
+        const notified = new Set(alert.metadata?.notifiedJobIds || [])
+
+        const jobs = (await this.jobRepo.findByIdsMatchingQuery(jobAdIds, alert.query))
+          .filter(job => job.id && !notified.has(job.id) && !alreadySent.has(job.id))
+          .slice(0, this.MAX_JOBS_PER_NOTIFICATION)
+
+        if (jobs.length === 0) {
+          continue
+        }
+
+        const results = await this.jobSearch.createResultsForJobs(jobs, alert.phoneNumber, {
+          query: alert.query,
+          jobAlertId: alert.id,
+        })
+
+        await this.sendNotification(alert, results.length)
+        const messageIds = await this.botMessages.sendMultipleJobOffers(alert.phoneNumber, results)
+
+        await this.chatHistory.saveOutgoingInteractiveMessage(
+          alert.phoneNumber,
+          ConversationLifecycle.JOB_ALERT_SESSION_ID,
+          'Job offers',
+          results.map((r) => r.title),
+          'jobAlert',
+          results.length,
+          messageIds
+        )
+
+        const jobIds = jobs.map(job => job.id as string)
+        await this.alertRepo.recordNotification(alert, jobIds, today, this.MAX_REMEMBERED_JOBS)
+
+        jobIds.forEach(id => alreadySent.add(id))
+        sentByPhone.set(alert.phoneNumber, alreadySent)
+        notificationsSent++
+
+        Logger.success('Job alert notification sent', {
+          alertId: alert.id,
+          phoneNumber: alert.phoneNumber,
+          count: jobIds.length,
+        })
+      } catch (error: any) {
+        // One failing recipient must not block the other alerts
+        Logger.error('Error sending job alert notification', {
+          alertId: alert.id,
+          phoneNumber: alert.phoneNumber,
+          error: error?.message,
+        })
+      }
+    }
+
+    Logger.success('Job alerts processed', { alerts: alerts.length, notificationsSent })
+  }
+
+  /**
+   * Send the alert intro: free-form text inside the 24h window, approved template outside of it
+   */
+  private async sendNotification(alert: JobAlertEntity, count: number): Promise<void> {
+    const user = await this.botUserRepo.findByPhoneNumber(alert.phoneNumber)
+
+    if (JobAlertPolicy.isInsideServiceWindow(user?.lastMessageAt, new Date())) {
+      const message = `🔔 Alerte *${alert.query}*\n\n${count} nouvelle${count > 1 ? 's' : ''} offre${count > 1 ? 's' : ''} pour vous 👇`
+      const messageId = await this.botMessages.sendTextMessage(alert.phoneNumber, message)
+      await this.chatHistory.saveOutgoingTextMessage(alert.phoneNumber, ConversationLifecycle.JOB_ALERT_SESSION_ID, message, 'jobAlert', messageId)
+    } else {
+      const messageId = await this.botMessages.sendJobAlertTemplate(alert.phoneNumber, alert.query, count)
+      await this.chatHistory.saveOutgoingTemplateMessage(alert.phoneNumber, ConversationLifecycle.JOB_ALERT_SESSION_ID, 'eska_job_alert', 'jobAlert', messageId)
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { JobAdRepository } from '../db/repositories/JobAdRepository'
+import { JobAd } from '../models/JobAd'
+import { Logger } from '../utils/logger'
+import { JobFingerprint } from '../utils/job-fingerprint'
+
+/**
+ * Job Deduplication Service
+ * Groups the same vacancy posted on several job boards into one cluster
+ *
+ * The first job saved becomes the canonical job (clusterId = its own id),
+ * duplicates found later point to it and show up as its alternate links.
+ */
+export class JobDeduplicationService {
+  private jobRepo = new JobAdRepository()
+
+  /**
+   * Attach a saved job to the cluster of a duplicate from another board, if any
+   * @returns The cluster id, or null if no duplicate was found
+   */
+  async clusterJob(job: JobAd): Promise<string | null> {
+    const fingerprint = JobFingerprint.compute(job)
+    if (!job.id || !fingerprint) {
+      return null
+    }
+
+    const candidates = await this.jobRepo.findClusterCandidates(
+      fingerprint,
+      job.source,
+      new Date(job.postedDate),
+      JobFingerprint.POSTING_WINDOW_DAYS,
+      job.id
+    )
+
+    const duplicate = candidates.find(candidate => JobFingerprint.isDuplicate(candidate, job))
+    if (!duplicate) {
+      return null
+    }
+
+    const clusterId = duplicate.clusterId || duplicate.id
+    await this.jobRepo.setClusterId(duplicate.clusterId ? [job.id] : [duplicate.id, job.id], clusterId)
+    job.clusterId = clusterId
+
+    Logger.info('Duplicate job clustered', {
+      jobId: job.id,
+      source: job.source,
+      clusterId,
+      duplicateOf: duplicate.url,
+    })
+
+    return clusterId
+  }
+}
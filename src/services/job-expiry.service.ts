@@ -0,0 +1,127 @@
+import { JobAdRepository } from '../db/repositories/JobAdRepository'
+import { PersonalizedLinkRepository } from '../db/repositories/PersonalizedLinkRepository'
+import { JobAdEntity } from '../db/entities/JobAdEntity'
+import { Logger } from '../utils/logger'
+
+export interface JobRevalidationResult {
+  checked: number
+  expired: number
+  errors: number
+}
+
+/**
+ * Job Expiry Service
+ * Takes expired jobs out of search results and deactivates the links already sent for them
+ *
+ * - sweep: jobs past their deadline / source TTL (expiresAt, see JobExpiryPolicy)
+ * - revalidate: jobs whose page was removed from the source
+ */
+export class JobExpiryService {
+  private jobRepo = new JobAdRepository()
+  private linkRepo = new PersonalizedLinkRepository()
+
+  private readonly REVALIDATION_BATCH_SIZE = 100
+  private readonly REVALIDATION_INTERVAL_MS = 3 * 24 * 60 * 60 * 1000 // 3 days
+  private readonly URL_CHECK_TIMEOUT_MS = 10_000
+
+  /**
+   * Expire the jobs whose expiresAt is past
+   * @returns Number of expired jobs
+   */
+  async sweep(now: Date = new Date()): Promise<number> {
+    const expiredIds = await this.jobRepo.expireDue(now)
+    if (expiredIds.length === 0) {
+      return 0
+    }
+
+    await this.afterExpiry(expiredIds)
+    Logger.success('Expired jobs swept', { expired: expiredIds.length })
+
+    return expiredIds.length
+  }
+
+  /**
+   * Check that the source pages of the least recently checked jobs still exist
+   */
+  async revalidate(limit: number = this.REVALIDATION_BATCH_SIZE): Promise<JobRevalidationResult> {
+    const jobs = await this.jobRepo.findDueForRevalidation(new Date(Date.now() - this.REVALIDATION_INTERVAL_MS), limit)
+    const gone: string[] = []
+    const checked: string[] = []
+    let errors = 0
+
+    for (const job of jobs) {
+      const available = await this.isStillAvailable(job)
+      if (available === null) {
+        errors++
+        continue
+      }
+
+      checked.push(job.id)
+      if (!available) {
+        gone.push(job.id)
+      }
+    }
+
+    await this.jobRepo.markUrlChecked(checked)
+
+    if (gone.length > 0) {
+      await this.jobRepo.expire(gone, 'unavailable')
+      await this.afterExpiry(gone)
+    }
+
+    Logger.info('Job URLs revalidated', { checked: checked.length, expired: gone.length, errors })
+
+    return { checked: checked.length, expired: gone.length, errors }
+  }
+
+  /**
+   * Tell whether the source page of a job still exists
+   * @returns null when the source could not be reached (the job is checked again later)
+   */
+  private async isStillAvailable(job: JobAdEntity): Promise<boolean | null> {
+    try {
+      let response = await fetch(job.url, {
+        method: 'HEAD',
+        redirect: 'follow',
+        signal: AbortSignal.timeout(this.URL_CHECK_TIMEOUT_MS),
+      })
+
+      // Some boards do not answer HEAD requests
+      if (response.status === 405 || response.status === 501) {
+        response = await fetch(job.url, {
+          redirect: 'follow',
+          signal: AbortSignal.timeout(this.URL_CHECK_TIMEOUT_MS),
+        })
+      }
+
+      if (response.status === 404 || response.status === 410) {
+        return false
+      }
+
+      // Removed offers often redirect to the board's home page
+      if (response.redirected && new URL(response.url).pathname === '/' && new URL(job.url).pathname !== '/') {
+        return false
+      }
+
+      return response.ok ? true : null
+    } catch (error: any) {
+      Logger.debug('Job URL check failed', { jobId: job.id, url: job.url, error: error?.message })
+      return null
+    }
+  }
+
+  private async afterExpiry(jobIds: string[]): Promise<void> {
+    const deactivatedLinks = await this.linkRepo.deactivateByJobAdIds(jobIds)
+    if (deactivatedLinks > 0) {
+      Logger.info('Links of expired jobs deactivated', { links: deactivatedLinks })
+    }
+
+    // Searches only return the canonical job of a cluster, hand that role to a live duplicate
+    for (const jobId of jobIds) {
+      const [successor] = await this.jobRepo.findLiveClusterMembers(jobId)
+      if (successor) {
+        await this.jobRepo.moveCluster(jobId, successor.id)
+      }
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { JobAdRepository } from '../db/repositories/JobAdRepository'
 import { PersonalizedLinkRepository } from '../db/repositories/PersonalizedLinkRepository'
 import { JobAd } from '../models/JobAd'
 import { Logger } from '../utils/logger'
+import { JobQueryParser } from '../utils/job-query-parser'
 
 export interface JobSearchResult {
   title: string
@@ -12,7 +13,7 @@ export interface JobSearchResult {
 
 /**
  * Job Search Service using PostgreSQL full-text search
- * Always returns max 3 results per page
+ * Returns max 3 results per page unless asked otherwise (see the resultsPerPage experiment)
  */
 export class JobSearchService {
   private jobRepo = new JobAdRepository()
@@ -24,15 +25,22 @@ export class JobSearchService {
    * @param query - Search query from user
    * @param phoneNumber - User's phone number for personalized links
    * @param offset - Pagination offset (default: 0)
-   * @returns Array of max 3 job results with personalized links
+   * @param limit - Results per page (default: 3)
+   * @returns Array of max `limit` job results with personalized links
    */
-  async searchJobs(query: string, phoneNumber: string, offset: number = 0): Promise<JobSearchResult[]> {
+  async searchJobs(
+    query: string,
+    phoneNumber: string,
+    offset: number = 0,
+    limit: number = this.MAX_RESULTS
+  ): Promise<JobSearchResult[]> {
     try {
-      Logger.info('Searching for jobs', { query, phoneNumber, offset })
+      // "stage marketing à Bouaké" -> keywords "marketing" + contract and location filters
+      const { keywords, filters } = JobQueryParser.parse(query)
+      Logger.info('Searching for jobs', { query, keywords, filters, phoneNumber, offset })
 
-      // Use PostgreSQL full-text search on title field
-      // This uses the ILIKE operator for case-insensitive pattern matching
-      const jobs = await this.jobRepo.searchByQuery(query, this.MAX_RESULTS, offset)
+      // PostgreSQL full-text search on the keywords, narrowed by the filters
+      const jobs = await this.jobRepo.search({ query: keywords || undefined, ...filters }, limit, offset)
 
       Logger.info('Raw jobs from database', {
         query,
@@ -97,19 +105,73 @@ export class JobSearchService {
     }
   }
 
+  /**
+   * Summary of the filters understood from a search, sent back with the results
+   * @returns null when the query has no filter
+   */
+  describeFilters(query: string): string | null {
+    const { filters } = JobQueryParser.parse(query)
+    return JobQueryParser.hasFilters(filters) ? JobQueryParser.describe(filters) : null
+  }
+
+  /**
+   * Create personalized links for already selected jobs
+   * Used by job alerts, where jobs come from a scrape run instead of a search
+   * @param jobs - Jobs to send
+   * @param phoneNumber - User's phone number for personalized links
+   * @param metadata - Extra metadata stored on each link
+   */
+  async createResultsForJobs(
+    jobs: JobAd[],
+    phoneNumber: string,
+    metadata: Record<string, any> = {}
+  ): Promise<JobSearchResult[]> {
+    const results: JobSearchResult[] = []
+    for (const job of jobs.slice(0, this.MAX_RESULTS)) {
+      const link = await this.linkRepo.create({
+        phoneNumber,
+        jobAdId: job.id,
+        jobAdUrl: job.url,
+        clickCount: 0,
+        isActive: true,
+        metadata: {
+          ...metadata,
+          timestamp: new Date().toISOString()
+        }
+      })
+
+      results.push({
+        title: job.title,
+        company: job.company || 'Non spécifié',
+        location: job.location || 'Non spécifié',
+        linkId: link.id
+      })
+    }
+
+    return results
+  }
+
   /**
    * Search for similar jobs when exact match not found
    * Uses broader search criteria
    */
-  async searchSimilarJobs(query: string, phoneNumber: string, offset: number = 0): Promise<JobSearchResult[]> {
+  async searchSimilarJobs(
+    query: string,
+    phoneNumber: string,
+    offset: number = 0,
+    limit: number = this.MAX_RESULTS
+  ): Promise<JobSearchResult[]> {
     try {
       Logger.info('Searching for similar jobs', { query, phoneNumber, offset })
 
-      // Extract keywords from query (simple split for now)
-      const keywords = query.toLowerCase().split(/\s+/)
+      // Extract keywords from query, filters ("à Bouaké", "cdi") are too narrow here
+      const keywords = JobQueryParser.parse(query).keywords.toLowerCase().split(/\s+/).filter(Boolean)
       const mainKeyword = keywords[0] // Use first word as main keyword
+      if (!mainKeyword) {
+        return []
+      }
 
-      const jobs = await this.jobRepo.searchByQuery(mainKeyword, this.MAX_RESULTS, offset)
+      const jobs = await this.jobRepo.searchByQuery(mainKeyword, limit, offset)
 
       Logger.info('Raw similar jobs from database', {
         query,
@@ -0,0 +1,80 @@
+import type { Redis } from 'ioredis'
+import { Logger } from '../utils/logger'
+import type { IntentResolverName } from '../intents/IntentResolver'
+
+export interface MessageDeduplicationStats {
+  claimed: number
+  duplicates: number
+  duplicatesByHandler: Record<string, number>
+  lastDuplicateAt: number | null
+}
+
+/**
+ * Message Deduplication Service
+ * Makes sure an incoming WhatsApp message is answered once, whatever the worker
+ * process picking it up (stats are kept per intent resolver: rules, NLP, Langchain)
+ *
+ * Meta retries a webhook until it gets a 200, so the same message id can reach
+ * the queue several times, sometimes hours apart
+ */
+export class MessageDeduplicationService {
+  private readonly CLAIM_PREFIX = 'message:processed:'
+  private readonly STATS_KEY = 'message:dedup:stats'
+  private readonly CLAIM_TTL = 60 * 60 * 24 * 3 // 3 days, longer than Meta's retry window
+
+  constructor(private readonly redis: Redis) {}
+
+  /**
+   * Claim a message before processing it
+   * @returns false when the message was already claimed (duplicate, to be dropped)
+   */
+  async claim(messageId: string, handler: IntentResolverName): Promise<boolean> {
+    const claimed = await this.redis.set(this.getClaimKey(messageId), handler, 'EX', this.CLAIM_TTL, 'NX')
+
+    if (claimed === 'OK') {
+      await this.redis.hincrby(this.STATS_KEY, 'claimed', 1)
+      return true
+    }
+
+    const claimedBy = await this.redis.get(this.getClaimKey(messageId))
+    Logger.warn('Duplicate message dropped', { messageId, handler, claimedBy })
+
+    await this.redis
+      .multi()
+      .hincrby(this.STATS_KEY, 'duplicates', 1)
+      .hincrby(this.STATS_KEY, `duplicates:${handler}`, 1)
+      .hset(this.STATS_KEY, 'lastDuplicateAt', Date.now().toString())
+      .exec()
+
+    return false
+  }
+
+  /**
+   * Release a claim when processing failed, so that the queue retry is not dropped
+   */
+  async release(messageId: string): Promise<void> {
+    await this.redis.del(this.getClaimKey(messageId))
+  }
+
+  async getStats(): Promise<MessageDeduplicationStats> {
+    const stats = await this.redis.hgetall(this.STATS_KEY)
+
+    const duplicatesByHandler: Record<string, number> = {}
+    for (const [field, value] of Object.entries(stats)) {
+      if (field.startsWith('duplicates:')) {
+        duplicatesByHandler[field.slice('duplicates:'.length)] = parseInt(value)
+      }
+    }
+
+    return {
+      claimed: parseInt(stats.claimed || '0'),
+      duplicates: parseInt(stats.duplicates || '0'),
+      duplicatesByHandler,
+      lastDuplicateAt: stats.lastDuplicateAt ? parseInt(stats.lastDuplicateAt) : null,
+    }
+  }
+
+  private getClaimKey(messageId: string): string {
+    return `${this.CLAIM_PREFIX}${messageId}`
+  }
+}
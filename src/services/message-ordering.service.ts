@@ -0,0 +1,99 @@
+import type { Redis } from 'ioredis'
+import { Logger } from '../utils/logger'
+
+/**
+ * Message Ordering Service
+ * Serializes the messages of a phone number while messages of different users
+ * are still processed in parallel
+ *
+ * Each message gets a ticket per phone number when it is enqueued, a worker only
+ * processes a message once the previous ticket of that phone number is completed.
+ * Otherwise two quick messages race through ConversationStateService.handleMessage
+ * and the last one to save its session wins
+ */
+export class MessageOrderingService {
+  private readonly TICKET_PREFIX = 'message:order:ticket:' // last ticket issued
+  private readonly NEXT_PREFIX = 'message:order:next:' // ticket allowed to be processed
+  private readonly ORDER_TTL = 60 * 60 * 24 // 24 hours in seconds
+
+  // Don't hold a user's messages forever when a ticket never completes (job lost, Redis flush)
+  private readonly MAX_WAIT_MS = 60_000
+
+  // A user without pending messages (first message, or keys expired) waits for nobody
+  private readonly ISSUE_SCRIPT = `
+    local ticket = redis.call('INCR', KEYS[1])
+    redis.call('EXPIRE', KEYS[1], ARGV[1])
+    if redis.call('EXISTS', KEYS[2]) == 0 then
+      redis.call('SET', KEYS[2], ticket, 'EX', ARGV[1])
+    else
+      redis.call('EXPIRE', KEYS[2], ARGV[1])
+    end
+    return ticket
+  `
+
+  // Only move "next" forward, a retried or skipped ticket must not move it back
+  private readonly COMPLETE_SCRIPT = `
+    local next = tonumber(redis.call('GET', KEYS[1]) or '0')
+    local ticket = tonumber(ARGV[1])
+    if ticket >= next then
+      redis.call('SET', KEYS[1], ticket + 1, 'EX', ARGV[2])
+    end
+    return 1
+  `
+
+  constructor(private readonly redis: Redis) {}
+
+  /**
+   * Issue the next ticket of a phone number, in webhook reception order
+   */
+  async issueTicket(phoneNumber: string): Promise<number> {
+    const ticket = await this.redis.eval(
+      this.ISSUE_SCRIPT,
+      2,
+      this.getTicketKey(phoneNumber),
+      this.getNextKey(phoneNumber),
+      this.ORDER_TTL
+    )
+
+    return Number(ticket)
+  }
+
+  /**
+   * Whether the message holding this ticket can be processed now
+   * @param enqueuedAt - When the ticket was issued (ms)
+   */
+  async canProcess(phoneNumber: string, ticket: number, enqueuedAt: number): Promise<boolean> {
+    const next = parseInt((await this.redis.get(this.getNextKey(phoneNumber))) || '0')
+
+    if (!next || ticket <= next) {
+      return true
+    }
+
+    if (Date.now() - enqueuedAt > this.MAX_WAIT_MS) {
+      Logger.warn('Previous messages still not processed, no longer waiting for them', {
+        phoneNumber,
+        ticket,
+        next,
+      })
+      return true
+    }
+
+    return false
+  }
+
+  /**
+   * Let the next message of the phone number through
+   * Call it once the message is processed, or failed for good
+   */
+  async complete(phoneNumber: string, ticket: number): Promise<void> {
+    await this.redis.eval(this.COMPLETE_SCRIPT, 1, this.getNextKey(phoneNumber), ticket, this.ORDER_TTL)
+  }
+
+  private getTicketKey(phoneNumber: string): string {
+    return `${this.TICKET_PREFIX}${phoneNumber}`
+  }
+
+  private getNextKey(phoneNumber: string): string {
+    return `${this.NEXT_PREFIX}${phoneNumber}`
+  }
+}
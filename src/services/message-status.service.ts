@@ -0,0 +1,122 @@
+import type { Queue } from 'bullmq'
+import { MessageRepository } from '../db/repositories/MessageRepository'
+import type { WhatsAppWebhookEnvelope, WhatsAppWebhookStatus } from '../models/WhatsAppWebhook'
+import type { WhatsAppMessageJobData } from '../queues/whatsapp-message.queue'
+import { MessageDeliveryTracker } from '../utils/message-delivery'
+import { Logger } from '../utils/logger'
+
+export type MessageStatusStore = Pick<MessageRepository, 'findByWhatsAppMessageId' | 'update'>
+export type MessageStatusRetryQueue = Pick<Queue<WhatsAppMessageJobData>, 'add'>
+
+export type MessageStatusOutcome = 'updated' | 'unchanged' | 'unknown'
+
+/**
+ * Message Status Service
+ * Saves the delivery / read / failed statuses WhatsApp sends back for outgoing messages
+ */
+export class MessageStatusService {
+  // A status can arrive before its message is saved to the chat history (saved once sent)
+  static readonly MAX_STATUS_RETRIES = 2
+  static readonly STATUS_RETRY_DELAY_MS = 5000
+
+  /**
+   * @param retryQueue - Queue the statuses of unknown messages are retried on, dropped without it
+   */
+  constructor(
+    private readonly messages: MessageStatusStore = new MessageRepository(),
+    private readonly retryQueue?: MessageStatusRetryQueue
+  ) {}
+
+  /**
+   * Apply every status of a webhook, the ones of unknown messages are re-queued a few times
+   * @param retry - Times these statuses were already re-queued
+   * @returns Number of messages updated
+   */
+  async applyStatuses(payload: WhatsAppWebhookEnvelope, retry = 0): Promise<number> {
+    let updated = 0
+    const unknown = new Set<WhatsAppWebhookStatus>()
+
+    for (const entry of payload.entry) {
+      for (const change of entry.changes) {
+        for (const status of change.value.statuses ?? []) {
+          const outcome = await this.applyStatus(status)
+          if (outcome === 'updated') updated++
+          if (outcome === 'unknown') unknown.add(status)
+        }
+      }
+    }
+
+    if (unknown.size > 0) {
+      await this.retryUnknown(payload, unknown, retry)
+    }
+
+    return updated
+  }
+
+  async applyStatus(status: WhatsAppWebhookStatus): Promise<MessageStatusOutcome> {
+    const message = await this.messages.findByWhatsAppMessageId(status.id)
+    if (!message) return 'unknown'
+
+    const changes = MessageDeliveryTracker.apply(message, status)
+    if (!changes) return 'unchanged'
+
+    await this.messages.update(message.id, changes)
+
+    if (changes.deliveryStatus === 'failed') {
+      Logger.warn('Message delivery failed', {
+        messageId: message.id,
+        phoneNumber: message.phoneNumber,
+        code: changes.failureReason?.code,
+        title: changes.failureReason?.title,
+      })
+    }
+
+    return 'updated'
+  }
+
+  private async retryUnknown(payload: WhatsAppWebhookEnvelope, unknown: Set<WhatsAppWebhookStatus>, retry: number) {
+    const whatsappMessageIds = [...unknown].map(status => status.id)
+
+    if (!this.retryQueue || retry >= MessageStatusService.MAX_STATUS_RETRIES) {
+      // Sent before ids were stored, or not saved in the chat history (e.g. "see more" prompt)
+      Logger.debug('Status for unknown message', { whatsappMessageIds, retry })
+      return
+    }
+
+    await this.retryQueue.add(
+      'message-status-retry',
+      {
+        payload: MessageStatusService.withStatuses(payload, unknown),
+        receivedAt: new Date().toISOString(),
+        statusRetry: retry + 1,
+      },
+      { delay: MessageStatusService.STATUS_RETRY_DELAY_MS * (retry + 1) }
+    )
+
+    Logger.debug('Status for unknown message re-queued', { whatsappMessageIds, retry: retry + 1 })
+  }
+
+  /**
+   * Status-only copy of a webhook, so retrying it never answers its messages again
+   */
+  private static withStatuses(payload: WhatsAppWebhookEnvelope, statuses: Set<WhatsAppWebhookStatus>): WhatsAppWebhookEnvelope {
+    return {
+      object: payload.object,
+      entry: payload.entry
+        .map(entry => ({
+          id: entry.id,
+          changes: entry.changes
+            .map(change => ({
+              field: change.field,
+              value: {
+                messaging_product: change.value.messaging_product,
+                metadata: change.value.metadata,
+                statuses: (change.value.statuses ?? []).filter(status => statuses.has(status)),
+              },
+            }))
+            .filter(change => change.value.statuses.length > 0),
+        }))
+        .filter(entry => entry.changes.length > 0),
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import type { Job, JobState, Queue } from 'bullmq'
+import type { ScrapeJobData, ScrapeJobProgress } from '../queues/scrape.queue'
+import type { ScraperSourceEntity } from '../db/entities/ScraperSourceEntity'
+import { ScrapeMode } from '@/models/ScrapeSession'
+import { Logger } from '../utils/logger'
+
+/**
+ * Scrape job as shown in the admin portal
+ */
+export interface ScrapeJobStatus {
+  id: string
+  sourceId: string
+  sourceName: string
+  mode: ScrapeMode
+  state: JobState | 'unknown'
+  // null until the first page is scraped
+  progress: ScrapeJobProgress | null
+  attemptsMade: number
+  failedReason?: string
+  createdAt: number
+  processedAt?: number
+  finishedAt?: number
+}
+
+/**
+ * Scrape Jobs Service
+ * On-demand scrapes of one source and the BullMQ jobs of the scrape queue, for the admin portal
+ */
+export class ScrapeJobsService {
+  // Jobs of a source in these states are not finished, another scrape is not enqueued
+  private readonly PENDING_STATES: JobState[] = ['active', 'waiting', 'delayed', 'prioritized']
+  private readonly FINISHED_STATES: JobState[] = ['completed', 'failed']
+  private readonly MAX_JOBS_PER_STATE = 50
+
+  constructor(private readonly queue: Queue<ScrapeJobData>) {}
+
+  /**
+   * Enqueue a manual scrape of a source
+   * @param defaultMaxPages - Used when the source has no maxPages
+   * @returns null when a scrape of the source is already pending
+   */
+  async enqueue(source: ScraperSourceEntity, defaultMaxPages: number): Promise<ScrapeJobStatus | null> {
+    const pending = await this.list(source.id, this.PENDING_STATES)
+    if (pending.length > 0) {
+      return null
+    }
+
+    // One job id per source: BullMQ refuses a second job of a scrape enqueued concurrently
+    const jobId = `manual-${source.id}`
+
+    // The finished job of the previous manual scrape is kept by the queue and would refuse this one
+    const previousState = await this.queue.getJobState(jobId)
+    if (previousState === 'completed' || previousState === 'failed') {
+      await this.queue.remove(jobId)
+    }
+
+    const job = await this.queue.add(
+      `scrape-${source.name}`,
+      {
+        sourceId: source.id,
+        sourceName: source.name,
+        maxPages: source.maxPages || defaultMaxPages,
+        mode: ScrapeMode.MANUAL,
+      },
+      { jobId }
+    )
+
+    Logger.info('Manual scrape enqueued', { jobId: job.id, sourceName: source.name })
+
+    return this.toStatus(job, 'waiting')
+  }
+
+  async get(jobId: string): Promise<ScrapeJobStatus | null> {
+    const job = await this.queue.getJob(jobId)
+    if (!job) return null
+
+    return this.toStatus(job, await job.getState())
+  }
+
+  /**
+   * Most recent jobs first
+   * @param sourceId - Only the jobs of this source
+   */
+  async list(
+    sourceId?: string,
+    states: JobState[] = [...this.PENDING_STATES, ...this.FINISHED_STATES]
+  ): Promise<ScrapeJobStatus[]> {
+    const jobs: ScrapeJobStatus[] = []
+
+    // One call per state, a job doesn't tell its state without another round trip
+    for (const state of states) {
+      const stateJobs = await this.queue.getJobs(state, 0, this.MAX_JOBS_PER_STATE - 1)
+      for (const job of stateJobs) {
+        if (job && (!sourceId || job.data.sourceId === sourceId)) {
+          jobs.push(this.toStatus(job, state))
+        }
+      }
+    }
+
+    return jobs.sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  private toStatus(job: Job<ScrapeJobData>, state: JobState | 'unknown'): ScrapeJobStatus {
+    return {
+      id: job.id!,
+      sourceId: job.data.sourceId,
+      sourceName: job.data.sourceName,
+      mode: job.data.mode || ScrapeMode.AUTOMATIC,
+      state,
+      progress: typeof job.progress === 'object' ? (job.progress as ScrapeJobProgress) : null,
+      attemptsMade: job.attemptsMade,
+      failedReason: job.failedReason || undefined,
+      createdAt: job.timestamp,
+      processedAt: job.processedOn,
+      finishedAt: job.finishedOn,
+    }
+  }
+}
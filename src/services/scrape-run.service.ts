@@ -0,0 +1,132 @@
+import { JobAdRepository } from '../db/repositories/JobAdRepository'
+import { ScraperSourceRepository } from '../db/repositories/ScraperSourceRepository'
+import { ScrapeSessionRepository } from '../db/repositories/ScrapeSessionRepository'
+import { JobAd } from '../models/JobAd'
+import { ScrapeSession, ScrapeMode, ScrapeStatus, type ScrapePageStat } from '../models/ScrapeSession'
+import type { Scraper } from '../scrapers'
+import { applyStructuredFields } from '../scrapers/fields'
+import { JobDeduplicationService } from './job-deduplication.service'
+import { Logger } from '../utils/logger'
+
+export interface ScrapeRunResult {
+  // Jobs returned by the scraper, known ones included
+  scrapedJobs: JobAd[]
+  createdJobIds: string[]
+}
+
+/**
+ * Scrape Run Service
+ * Scrapes the listing pages of a source and records the run as a ScrapeSession:
+ * per-page stats, new and updated jobs, errors
+ */
+export class ScrapeRunService {
+  constructor(
+    private readonly jobRepo: Pick<JobAdRepository, 'saveModelWithResult'> = new JobAdRepository(),
+    private readonly sessionRepo: Pick<ScrapeSessionRepository, 'saveModel' | 'updateModel'> = new ScrapeSessionRepository(),
+    private readonly sourceRepo: Pick<ScraperSourceRepository, 'markAsScraped'> = new ScraperSourceRepository(),
+    private readonly deduplication: Pick<JobDeduplicationService, 'clusterJob'> = new JobDeduplicationService()
+  ) {}
+
+  /**
+   * Record a new run, before anything can fail
+   */
+  async start(sourceId: string, sourceName: string, mode: ScrapeMode): Promise<ScrapeSession> {
+    const session = new ScrapeSession({
+      sourceName,
+      mode,
+      status: ScrapeStatus.IN_PROGRESS,
+      startedAt: new Date(),
+      pagesScraped: 0,
+      jobsFound: 0,
+    })
+    session.sourceId = sourceId
+    session.id = (await this.sessionRepo.saveModel(session)).id
+    return session
+  }
+
+  async fail(session: ScrapeSession, error: string): Promise<void> {
+    session.markFailed(error)
+    await this.sessionRepo.updateModel(session)
+  }
+
+  /**
+   * Scrape up to pagesToScrape pages, stopping at the first empty one, and complete the session
+   * The session is marked failed and the error rethrown when a page fails
+   *
+   * @param result - Filled page after page, still holds the pages scraped before a failure
+   * @param onPage - Called once a page is saved, e.g. to report progress
+   */
+  async run(
+    session: ScrapeSession,
+    scraper: Scraper,
+    pagesToScrape: number,
+    result: ScrapeRunResult,
+    onPage?: (page: number) => Promise<void>
+  ): Promise<void> {
+    try {
+      for (let page = 1; page <= pagesToScrape; page++) {
+        Logger.info('Scraping page', { sourceName: session.sourceName, page })
+
+        const pageStartedAt = Date.now()
+        const pageStat: ScrapePageStat = { page, durationMs: 0, jobsScraped: 0, jobsSaved: 0, jobsUpdated: 0 }
+
+        let results: JobAd[]
+        try {
+          results = await scraper.scrape(page)
+        } catch (error: any) {
+          session.recordPage({ ...pageStat, durationMs: Date.now() - pageStartedAt, error: error?.message })
+          throw error
+        }
+
+        if (!results || results.length === 0) {
+          Logger.info('No jobs found on page', { sourceName: session.sourceName, page })
+          session.recordPage({ ...pageStat, durationMs: Date.now() - pageStartedAt })
+          break
+        }
+
+        pageStat.jobsScraped = results.length
+        result.scrapedJobs.push(...results)
+
+        for (const jobAd of results) {
+          await this.saveJob(session, jobAd, pageStat, result)
+        }
+
+        session.recordPage({ ...pageStat, durationMs: Date.now() - pageStartedAt })
+        await this.sessionRepo.updateModel(session)
+        await onPage?.(page)
+      }
+
+      const lastPage = Math.max(1, session.pagesScraped)
+      await this.sourceRepo.markAsScraped(session.sourceId!, lastPage, session.jobsFound + session.jobsUpdated)
+
+      session.markCompleted(session.pagesScraped, session.jobsFound)
+      await this.sessionRepo.updateModel(session)
+    } catch (error: any) {
+      await this.fail(session, error?.message || String(error))
+      throw error
+    }
+  }
+
+  // A job failing to save is recorded, the rest of the page is still saved
+  private async saveJob(session: ScrapeSession, jobAd: JobAd, pageStat: ScrapePageStat, result: ScrapeRunResult) {
+    try {
+      applyStructuredFields(jobAd)
+      const { job: saved, action } = await this.jobRepo.saveModelWithResult(jobAd)
+      if (action === 'created') {
+        pageStat.jobsSaved++
+        if (saved?.id) result.createdJobIds.push(saved.id)
+        Logger.success('Job saved', { url: jobAd.url, title: jobAd.title })
+        // Same vacancy already scraped from another board
+        if (saved) await this.deduplication.clusterJob(saved)
+      } else if (action === 'updated') {
+        pageStat.jobsUpdated++
+        Logger.success('Job updated', { url: jobAd.url, title: jobAd.title })
+      } else {
+        Logger.debug('Skipping job (already exists with same version)', { url: jobAd.url })
+      }
+    } catch (err: any) {
+      Logger.error('Failed saving job', { url: jobAd.url, error: err?.message })
+      session.addError(`Failed saving ${jobAd.url}: ${err?.message}`)
+    }
+  }
+}
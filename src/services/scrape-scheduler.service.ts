@@ -1,6 +1,7 @@
 import { ScraperSourceRepository } from '@/db/repositories/ScraperSourceRepository'
 import { getScrapeQueue } from '../queues/scrape.queue'
 import { Logger } from '../utils/logger'
+import { ScrapeMode } from '@/models/ScrapeSession'
 
 export class ScrapeSchedulerService {
   constructor(
@@ -12,8 +13,8 @@ export class ScrapeSchedulerService {
     private maxPagesPerScrape: number = 3
   ) {}
 
-  async checkAndEnqueueScrapingTasks(): Promise<void> {
-    Logger.info('Checking for sources that need scraping')
+  async checkAndEnqueueScrapingTasks(mode: ScrapeMode = ScrapeMode.AUTOMATIC): Promise<void> {
+    Logger.info('Checking for sources that need scraping', { mode })
 
     try {
       const activeSources = await this.scraperSourceRepo.findActiveModels()
@@ -45,6 +46,7 @@ export class ScrapeSchedulerService {
             sourceId: source.id!,
             sourceName: source.name,
             maxPages: source.maxPages || this.maxPagesPerScrape,
+            mode,
           })
 
           enqueuedCount++
@@ -0,0 +1,90 @@
+import { ScraperSourceRepository } from '../db/repositories/ScraperSourceRepository'
+import { ScraperSourceEntity } from '../db/entities/ScraperSourceEntity'
+import { BotMessages } from './bot-messages.service'
+import { Logger } from '../utils/logger'
+import { ScraperHealthEvaluator, type ScrapeRunStats, type ScraperHealthState } from '../utils/scraper-health'
+
+/**
+ * Called when a source becomes degraded or recovers
+ */
+export type ScraperHealthAlertHook = (source: ScraperSourceEntity, health: ScraperHealthState) => Promise<void>
+
+/**
+ * Default alert hook: WhatsApp message to ADMIN_ALERT_PHONE_NUMBER
+ * Free-form messages are only delivered if the admin wrote to the bot in the last 24h
+ */
+export const whatsAppAdminAlert: ScraperHealthAlertHook = async (source, health) => {
+  const adminPhoneNumber = process.env.ADMIN_ALERT_PHONE_NUMBER
+  if (!adminPhoneNumber) {
+    Logger.warn('ADMIN_ALERT_PHONE_NUMBER not set, scraper health alert not sent', { source: source.name })
+    return
+  }
+
+  const reasons = health.healthMetrics?.reasons || []
+  const message =
+    health.healthStatus === 'degraded'
+      ? `⚠️ Scraper *${source.name}* semble cassé\n\n${reasons.map(reason => `• ${reason}`).join('\n')}`
+      : `✅ Scraper *${source.name}* fonctionne de nouveau`
+
+  await new BotMessages().sendTextMessage(adminPhoneNumber, message)
+}
+
+/**
+ * Scraper Health Service
+ * Updates the health of a source after each scrape run and alerts admins on status changes
+ */
+export class ScraperHealthService {
+  private sourceRepo = new ScraperSourceRepository()
+
+  constructor(private readonly alertHook: ScraperHealthAlertHook = whatsAppAdminAlert) {}
+
+  /**
+   * Record a scrape run for a source
+   * @returns The new health state, or null if the source does not exist
+   */
+  async recordRun(sourceId: string, run: ScrapeRunStats): Promise<ScraperHealthState | null> {
+    const source = await this.sourceRepo.findById(sourceId)
+    if (!source) {
+      return null
+    }
+
+    const health = ScraperHealthEvaluator.evaluate(source, run)
+    const statusChanged = health.healthStatus !== source.healthStatus
+
+    await this.sourceRepo.updateHealth(sourceId, {
+      ...health,
+      degradedAt: health.healthStatus === 'degraded' ? source.degradedAt || new Date() : null,
+    })
+
+    if (!statusChanged) {
+      return health
+    }
+
+    if (health.healthStatus === 'degraded') {
+      Logger.warn('Scraper source degraded', { source: source.name, reasons: health.healthMetrics?.reasons })
+    } else {
+      Logger.success('Scraper source recovered', { source: source.name })
+    }
+
+    try {
+      await this.alertHook(source, health)
+    } catch (error: any) {
+      // A failing alert must not fail the scrape job
+      Logger.error('Error sending scraper health alert', { source: source.name, error: error?.message })
+    }
+
+    return health
+  }
+
+  /**
+   * Mark a source as healthy again, e.g. after fixing its scraper
+   */
+  async reset(sourceId: string): Promise<ScraperSourceEntity | null> {
+    return this.sourceRepo.updateHealth(sourceId, {
+      healthStatus: 'healthy',
+      consecutiveEmptyRuns: 0,
+      degradedAt: null,
+      healthMetrics: null,
+    })
+  }
+}
@@ -1,10 +1,17 @@
-import { WhatsAppWebhookPayload } from '@microfox/whatsapp-business'
+import type { WhatsAppWebhookEnvelope } from '@models/WhatsAppWebhook'
 import { BotUserRepository } from '../db/repositories/BotUserRepository'
 import { BotMessages } from './bot-messages.service'
 import { JobSearchService } from './job-search.service'
 import { Logger } from '../utils/logger'
 import { ConversationStateService } from './conversation-state.service'
 import { ChatHistoryService } from './chat-history.service'
+import { JobAlertService } from './job-alert.service'
+import { MessageDeduplicationService } from './message-deduplication.service'
+import { DelayedMessageService } from './delayed-message.service'
+import { InteractiveReplyParser, type InteractiveReply } from '../utils/interactive-reply'
+import { IntentResolverSelector, type Intent, type IntentResolverName, type IntentType } from '../intents'
+import type { ExperimentAssignment, ExperimentService } from './experiment.service'
+import { EXPERIMENTS } from '@config/experiments'
 
 /**
  * Context object passed to state handlers
@@ -18,6 +25,8 @@ interface MessageContext {
   shouldSendWelcome: boolean
   existingUser: any
   contactName: string
+  // Null for reply buttons, sent to the machine as their own events
+  intent: Intent | null
 }
 
 /**
@@ -29,10 +38,10 @@ export class WhatsAppMessageService {
   private botMessages = new BotMessages()
   private botUserRepo = new BotUserRepository()
   private jobSearch = new JobSearchService()
+  private jobAlerts: JobAlertService
 
-  // Track processed message IDs to prevent duplicate processing
-  private processedMessages = new Set<string>()
-  private readonly MAX_PROCESSED_CACHE = 1000
+  // Delay before asking whether the user wants more results
+  private readonly SEE_MORE_PROMPT_DELAY_MS = 15_000
 
   /**
    * Table-Driven Pattern: Command Map for state handling
@@ -45,14 +54,34 @@ export class WhatsAppMessageService {
     ['searchingJobs', this.handleJobSearchState.bind(this)],
     ['displayingResults', this.handleJobSearchState.bind(this)],
     ['browsing', this.handleJobSearchState.bind(this)],
+    ['humanHandoff', this.handleHumanHandoffState.bind(this)],
+  ])
+
+  /**
+   * Small talk is answered whatever the state, the machine stays where it was
+   */
+  private readonly intentHandlers: Map<IntentType, StateHandler> = new Map([
+    ['greeting', this.handleGreetingIntent.bind(this)],
+    ['help', this.handleHelpIntent.bind(this)],
+    ['goodbye', this.handleGoodbyeIntent.bind(this)],
+    ['unknown', this.handleUnknownIntent.bind(this)],
   ])
 
   constructor(
     private readonly conversationState: ConversationStateService,
-    private readonly chatHistory: ChatHistoryService
-  ) { }
+    private readonly chatHistory: ChatHistoryService,
+    private readonly deduplication: MessageDeduplicationService,
+    private readonly delayedMessages: DelayedMessageService,
+    private readonly intentResolvers: IntentResolverSelector,
+    private readonly experiments: ExperimentService
+  ) {
+    this.jobAlerts = new JobAlertService(chatHistory)
+  }
+
+  async handleIncomingMessage(payload: WhatsAppWebhookEnvelope): Promise<void> {
+    // Message being processed, released if processing fails
+    let claimedMessageId: string | undefined
 
-  async handleIncomingMessage(payload: WhatsAppWebhookPayload): Promise<void> {
     try {
       Logger.info('Webhook received', {
         entriesCount: payload.entry.length,
@@ -76,32 +105,41 @@ export class WhatsAppMessageService {
             const messageId = message.id
             const contactName = contacts?.[0]?.profile?.name || 'User'
 
-            // Check if we've already processed this message
-            if (this.processedMessages.has(messageId)) {
-              Logger.warn('Duplicate message detected, skipping', { messageId, from })
+            // Rules, NLP or LLM, depending on the feature flags of the user or the intentResolver experiment
+            const resolverExperiment = await this.experiments.assign(EXPERIMENTS.INTENT_RESOLVER, from)
+            const intentResolver = await this.intentResolvers.select(
+              from,
+              resolverExperiment.exposure ? (resolverExperiment.params.resolver as IntentResolverName) : undefined
+            )
+
+            // Drop Meta retries, also when they reach another worker
+            if (!(await this.deduplication.claim(messageId, intentResolver.name))) {
               continue
             }
+            claimedMessageId = messageId
 
-            // Add to processed set
-            this.processedMessages.add(messageId)
-
-            // Limit cache size to prevent memory issues
-            if (this.processedMessages.size > this.MAX_PROCESSED_CACHE) {
-              const firstItem = this.processedMessages.values().next().value
-              if (firstItem) {
-                this.processedMessages.delete(firstItem)
-              }
-            }
+            // The user answered, pending delayed messages ("see more" prompt) are out of date
+            await this.delayedMessages.cancel(from)
 
             Logger.info('Processing incoming message', {
               from,
               messageId,
               contactName,
-              type: message.type
+              type: message.type,
+              intentResolver: intentResolver.name,
             })
 
+            // Click on one of our reply buttons / list rows
+            const reply = InteractiveReplyParser.parse(message)
+
+            // An admin took the conversation over: saved for the portal, no automated reply
+            if (await this.conversationState.getHandoffAgent(from)) {
+              await this.handleHandoffMessage(from, message, reply)
+              continue
+            }
+
             // Handle non-text messages (image, audio, video, etc.)
-            if (message.type !== 'text') {
+            if (message.type !== 'text' && !reply) {
               Logger.info('Received non-text message, sending unsupported media response', {
                 type: message.type,
                 from
@@ -111,7 +149,7 @@ export class WhatsAppMessageService {
               await this.botMessages.sendTypingIndicator(messageId)
 
               // Send unsupported media message
-              await this.botMessages.sendUnsupportedMediaMessage(from, message.type)
+              const replyId = await this.botMessages.sendUnsupportedMediaMessage(from, message.type)
 
               // Get session ID for chat history
               const sessionId = await this.conversationState.getSessionId(from)
@@ -127,7 +165,8 @@ export class WhatsAppMessageService {
                 from,
                 sessionId,
                 'Unsupported media type response',
-                'browsing'
+                'browsing',
+                replyId
               )
 
               continue
@@ -136,26 +175,43 @@ export class WhatsAppMessageService {
             // Send typing indicator (also marks as read automatically)
             await this.botMessages.sendTypingIndicator(messageId)
 
-            const messageText = message.text.body.trim()
+            let messageText = message.type === 'text' ? (message.text?.body ?? '').trim() : ''
+            if (reply) {
+              // Saved to history as what the user would have typed
+              messageText = InteractiveReplyParser.toText(reply, (await this.conversationState.getContext(from)).lastQuery)
+            }
 
             // Get session ID for chat history
             const sessionId = await this.conversationState.getSessionId(from)
 
-            // Handle message through XState machine
-            const { state, context, shouldSendWelcome } = await this.conversationState.handleMessage(
-              from,
-              messageText
-            )
+            // Job alert commands are answered directly, outside of the conversation flow
+            if (await this.jobAlerts.handleCommand(from, sessionId, messageText)) {
+              continue
+            }
+
+            // Handle message through XState machine, reply buttons are sent as their own events
+            const event = reply ? InteractiveReplyParser.toEvent(reply) : null
+            const intent = event ? null : await intentResolver.resolve(from, messageText)
+            const { state, context, shouldSendWelcome } = event
+              ? await this.conversationState.handleEvent(from, event)
+              : await this.conversationState.handleMessage(from, messageText, intent?.type)
 
             Logger.info('Conversation state after message', {
               from,
               state,
               context,
               shouldSendWelcome,
+              intent,
             })
 
             // Save incoming message to chat history
-            await this.chatHistory.saveIncomingMessage(from, sessionId, messageText, state)
+            await this.chatHistory.saveIncomingMessage(
+              from,
+              sessionId,
+              messageText,
+              state,
+              intent ? resolverExperiment.exposure : undefined
+            )
 
             // Check if this is the first message from this user
             const existingUser = await this.botUserRepo.findByPhoneNumber(from)
@@ -174,8 +230,17 @@ export class WhatsAppMessageService {
               })
             }
 
-            // Table-driven dispatch: Look up and execute the appropriate state handler
-            const handler = this.stateHandlers.get(state)
+            // "Nouvelle recherche", or "Voir plus" on an expired session: ask for the job title
+            if (event && state === 'awaitingJobTitle') {
+              const promptId = await this.botMessages.sendNewSearchPrompt(from)
+              await this.chatHistory.saveOutgoingTextMessage(from, sessionId, 'New search prompt', state, promptId)
+              continue
+            }
+
+            // Table-driven dispatch: small talk first, then the state handler
+            const handler =
+              (intent && !shouldSendWelcome ? this.intentHandlers.get(intent.type) : undefined) ??
+              this.stateHandlers.get(state)
             if (handler) {
               await handler({
                 from,
@@ -186,6 +251,7 @@ export class WhatsAppMessageService {
                 shouldSendWelcome,
                 existingUser,
                 contactName,
+                intent,
               })
             } else {
               Logger.warn('No handler found for state', { state, from })
@@ -195,6 +261,10 @@ export class WhatsAppMessageService {
       }
     } catch (error) {
       Logger.error('Error handling incoming message', { error })
+      if (claimedMessageId) {
+        // Let the queue retry process it again
+        await this.deduplication.release(claimedMessageId).catch(() => undefined)
+      }
       throw error
     }
   }
@@ -211,6 +281,30 @@ export class WhatsAppMessageService {
     return false
   }
 
+  /**
+   * Message received during a human handoff, the machine stays in humanHandoff
+   */
+  private async handleHandoffMessage(
+    from: string,
+    message: { type: string; text?: { body: string } },
+    reply: InteractiveReply | null
+  ): Promise<void> {
+    let messageText = message.text ? message.text.body.trim() : `[${message.type} message]`
+    if (reply) {
+      messageText = InteractiveReplyParser.toText(reply, (await this.conversationState.getContext(from)).lastQuery)
+    }
+
+    const event = reply ? InteractiveReplyParser.toEvent(reply) : null
+    const { state } = event
+      ? await this.conversationState.handleEvent(from, event)
+      : await this.conversationState.handleMessage(from, messageText)
+    const sessionId = await this.conversationState.getSessionId(from)
+
+    await this.chatHistory.saveIncomingMessage(from, sessionId, messageText, state)
+
+    Logger.info('Message received during human handoff', { from, state })
+  }
+
   /**
    * STATE HANDLERS - Table-Driven Pattern Implementation
    * Each function handles a specific conversation state
@@ -260,12 +354,13 @@ export class WhatsAppMessageService {
         reason: 'moderately_stale_conversation',
       })
 
-      await this.botMessages.sendReenterJobTitlePrompt(ctx.from)
+      const messageId = await this.botMessages.sendReenterJobTitlePrompt(ctx.from)
       await this.chatHistory.saveOutgoingTextMessage(
         ctx.from,
         ctx.sessionId,
         'Re-enter job title prompt',
-        ctx.state
+        ctx.state,
+        messageId
       )
 
       Logger.success('Re-enter prompt sent successfully', { to: ctx.from })
@@ -283,26 +378,67 @@ export class WhatsAppMessageService {
       messageText: ctx.messageText,
     })
 
-    const isSeeMore = ctx.messageText.toLowerCase() === 'voir plus'
+    // 3 or 5 offers per page, see the resultsPerPage experiment
+    const resultsPage = await this.experiments.assign(EXPERIMENTS.RESULTS_PER_PAGE, ctx.from)
+
+    // The machine only gets to browsing on pagination ("voir plus", "Voir plus" button)
+    const isSeeMore = ctx.state === 'browsing'
     let userQuery: string
     let offset: number = 0
 
     if (isSeeMore) {
       // Handle pagination request
-      const result = await this.handlePaginationRequest(ctx)
+      const result = await this.handlePaginationRequest(ctx, Number(resultsPage.params.pageSize))
       if (!result) return // Early exit if no previous query
 
       userQuery = result.query
       offset = result.offset
     } else {
-      // Handle new search query
-      userQuery = ctx.messageText
+      // Handle new search query, with the job title extracted by the intent resolver if any
+      userQuery = ctx.intent?.query || ctx.messageText
       offset = 0
       Logger.info('Processing new job search', { from: ctx.from, query: userQuery })
     }
 
     // Execute job search
-    await this.executeJobSearch(ctx, userQuery, offset)
+    await this.executeJobSearch(ctx, userQuery, offset, resultsPage)
+  }
+
+  /**
+   * INTENT HANDLERS - Small talk, whatever the state
+   */
+
+  /**
+   * Greeting or ice breaker ("je cherche un emploi") once welcomed: ask for the job title
+   */
+  /**
+   * Handle humanHandoff state - started while the message was being processed, the admin answers
+   */
+  private async handleHumanHandoffState(ctx: MessageContext): Promise<void> {
+    Logger.info('Bot paused by a human handoff', { from: ctx.from })
+  }
+
+  private async handleGreetingIntent(ctx: MessageContext): Promise<void> {
+    const messageId = await this.botMessages.sendNewSearchPrompt(ctx.from)
+    await this.chatHistory.saveOutgoingTextMessage(ctx.from, ctx.sessionId, 'New search prompt', ctx.state, messageId)
+  }
+
+  private async handleHelpIntent(ctx: MessageContext): Promise<void> {
+    const helpMessage = "Je suis un bot qui vous aide à trouver des offres d'emploi. 🤖\n\nEnvoyez-moi simplement le titre du poste que vous recherchez! 💼\n\nExemples:\n- Développeur web\n- Comptable\n- Chef de projet"
+    const messageId = await this.botMessages.sendTextMessage(ctx.from, helpMessage)
+    await this.chatHistory.saveOutgoingTextMessage(ctx.from, ctx.sessionId, helpMessage, ctx.state, messageId)
+  }
+
+  private async handleGoodbyeIntent(ctx: MessageContext): Promise<void> {
+    const goodbyeMessage = "Au revoir! N'hésitez pas à revenir quand vous voulez. 👋"
+    const messageId = await this.botMessages.sendTextMessage(ctx.from, goodbyeMessage)
+    await this.chatHistory.saveOutgoingTextMessage(ctx.from, ctx.sessionId, goodbyeMessage, ctx.state, messageId)
+  }
+
+  private async handleUnknownIntent(ctx: MessageContext): Promise<void> {
+    const clarificationMessage = "Désolé, je n'ai pas bien compris. 😅\n\nPouvez-vous m'indiquer le titre du poste que vous recherchez?\n\nOu tapez 'aide' pour plus d'informations."
+    const messageId = await this.botMessages.sendTextMessage(ctx.from, clarificationMessage)
+    await this.chatHistory.saveOutgoingTextMessage(ctx.from, ctx.sessionId, clarificationMessage, ctx.state, messageId)
   }
 
   /**
@@ -315,12 +451,15 @@ export class WhatsAppMessageService {
   private async sendWelcomeFlow(ctx: MessageContext): Promise<void> {
     Logger.info('Sending welcome flow', { from: ctx.from, state: ctx.state, contactName: ctx.contactName })
 
-    await this.botMessages.sendWelcomeFlow(ctx.from, ctx.contactName)
+    const welcomeCopy = await this.experiments.assign(EXPERIMENTS.WELCOME_COPY, ctx.from)
+    const messageId = await this.botMessages.sendWelcomeFlow(ctx.from, ctx.contactName, String(welcomeCopy.params.copy))
     await this.chatHistory.saveOutgoingTemplateMessage(
       ctx.from,
       ctx.sessionId,
       'eska_job_title_prompt',
-      'welcomed'
+      'welcomed',
+      messageId,
+      welcomeCopy.exposure
     )
     await this.conversationState.markWelcomeSent(ctx.from)
     await this.chatHistory.updateConversationMetadata(ctx.from, { welcomeSent: true })
@@ -333,13 +472,14 @@ export class WhatsAppMessageService {
    * Returns query and offset, or null if no previous query exists
    */
   private async handlePaginationRequest(
-    ctx: MessageContext
+    ctx: MessageContext,
+    pageSize: number
   ): Promise<{ query: string; offset: number } | null> {
     const lastQuery = ctx.context.lastQuery
     const lastOffset = ctx.context.lastOffset || 0
 
     if (!lastQuery) {
-      await this.botMessages.sendTextMessage(
+      const messageId = await this.botMessages.sendTextMessage(
         ctx.from,
         "Veuillez d'abord effectuer une recherche en m'indiquant le poste que vous recherchez! 💼"
       )
@@ -347,12 +487,13 @@ export class WhatsAppMessageService {
         ctx.from,
         ctx.sessionId,
         "Veuillez d'abord effectuer une recherche...",
-        ctx.state
+        ctx.state,
+        messageId
       )
       return null
     }
 
-    const offset = lastOffset + 3
+    const offset = lastOffset + pageSize
     await this.conversationState.markPaginationRequested(ctx.from, offset)
 
     Logger.info('Loading more results', { from: ctx.from, query: lastQuery, offset })
@@ -362,11 +503,13 @@ export class WhatsAppMessageService {
 
   /**
    * Execute job search and send results
+   * @param resultsPage - Assignment of the resultsPerPage experiment
    */
   private async executeJobSearch(
     ctx: MessageContext,
     userQuery: string,
-    offset: number
+    offset: number,
+    resultsPage: ExperimentAssignment
   ): Promise<void> {
     // Send processing message to user
     if (offset === 0) {
@@ -391,7 +534,11 @@ export class WhatsAppMessageService {
       await this.botMessages.sendTextMessage(ctx.from, randomMessage)
     }
 
-    const jobs = await this.jobSearch.searchJobs(userQuery, ctx.from, offset)
+    if (offset === 0) {
+      await this.chatHistory.recordSearch(ctx.from)
+    }
+
+    const jobs = await this.jobSearch.searchJobs(userQuery, ctx.from, offset, Number(resultsPage.params.pageSize))
 
     Logger.info('Jobs retrieved from search', {
       from: ctx.from,
@@ -402,9 +549,9 @@ export class WhatsAppMessageService {
     })
 
     if (jobs.length > 0) {
-      await this.sendJobResults(ctx, jobs, userQuery, offset)
+      await this.sendJobResults(ctx, jobs, userQuery, offset, resultsPage.exposure)
     } else {
-      await this.handleNoJobsFound(ctx, userQuery, offset)
+      await this.handleNoJobsFound(ctx, userQuery, offset, resultsPage)
     }
   }
 
@@ -415,27 +562,33 @@ export class WhatsAppMessageService {
     ctx: MessageContext,
     jobs: any[],
     userQuery: string,
-    offset: number
+    offset: number,
+    experiments?: Record<string, string>
   ): Promise<void> {
-    await this.botMessages.sendMultipleJobOffers(ctx.from, jobs)
+    // Tell the user which filters were understood, e.g. "📍 Bouaké • 📄 Stage"
+    const filtersSummary = offset === 0 ? this.jobSearch.describeFilters(userQuery) : null
+    if (filtersSummary) {
+      const message = `🎯 Filtres appliqués : ${filtersSummary}`
+      const messageId = await this.botMessages.sendTextMessage(ctx.from, message)
+      await this.chatHistory.saveOutgoingTextMessage(ctx.from, ctx.sessionId, message, ctx.state, messageId)
+    }
+
+    const messageIds = await this.botMessages.sendMultipleJobOffers(ctx.from, jobs)
     await this.chatHistory.saveOutgoingInteractiveMessage(
       ctx.from,
       ctx.sessionId,
       'Job offers',
       jobs.map((j) => j.title),
       ctx.state,
-      jobs.length
+      jobs.length,
+      messageIds,
+      experiments
     )
 
     await this.conversationState.markSearchCompleted(ctx.from, userQuery, offset)
-    await this.chatHistory.updateConversationMetadata(ctx.from, {
-      jobOffersShownCount: jobs.length,
-    })
+    await this.chatHistory.recordJobOffersShown(ctx.from, jobs.length)
 
-    // Send "see more" prompt after 15 seconds
-    setTimeout(() => {
-      this.botMessages.sendSeeMorePrompt(ctx.from)
-    }, 15_000)
+    await this.scheduleSeeMorePrompt(ctx, userQuery)
 
     // Store query and offset for pagination (backwards compatibility)
     if (ctx.existingUser) {
@@ -449,36 +602,65 @@ export class WhatsAppMessageService {
     }
   }
 
+  /**
+   * Send the "see more" prompt later, if the user is still looking at these results by then
+   */
+  private async scheduleSeeMorePrompt(ctx: MessageContext, userQuery: string): Promise<void> {
+    await this.delayedMessages.schedule(
+      {
+        type: 'seeMorePrompt',
+        phoneNumber: ctx.from,
+        sessionId: ctx.sessionId,
+        state: ctx.state,
+        conditions: {
+          states: ['displayingResults', 'browsing'],
+          lastQuery: userQuery,
+        },
+      },
+      this.SEE_MORE_PROMPT_DELAY_MS
+    )
+  }
+
   /**
    * Handle case when no jobs are found
    */
   private async handleNoJobsFound(
     ctx: MessageContext,
     userQuery: string,
-    offset: number
+    offset: number,
+    resultsPage: ExperimentAssignment
   ): Promise<void> {
     if (offset > 0) {
       // No more results available for pagination
       const noMoreMessage =
         "Il n'y a plus d'offres disponibles pour cette recherche. 😔\n\nVous pouvez effectuer une nouvelle recherche! 🔍"
 
-      await this.botMessages.sendTextMessage(ctx.from, noMoreMessage)
-      await this.chatHistory.saveOutgoingTextMessage(ctx.from, ctx.sessionId, noMoreMessage, ctx.state)
+      const messageId = await this.botMessages.sendTextMessage(ctx.from, noMoreMessage)
+      await this.chatHistory.saveOutgoingTextMessage(ctx.from, ctx.sessionId, noMoreMessage, ctx.state, messageId)
     } else {
       // No exact matches on first page - try similar jobs
-      await this.searchSimilarJobs(ctx, userQuery)
+      await this.searchSimilarJobs(ctx, userQuery, resultsPage)
     }
   }
 
   /**
    * Search and send similar jobs when no exact matches found
    */
-  private async searchSimilarJobs(ctx: MessageContext, userQuery: string): Promise<void> {
-    const similarJobs = await this.jobSearch.searchSimilarJobs(userQuery, ctx.from, 0)
+  private async searchSimilarJobs(
+    ctx: MessageContext,
+    userQuery: string,
+    resultsPage: ExperimentAssignment
+  ): Promise<void> {
+    const similarJobs = await this.jobSearch.searchSimilarJobs(
+      userQuery,
+      ctx.from,
+      0,
+      Number(resultsPage.params.pageSize)
+    )
 
     if (similarJobs.length > 0) {
       await this.botMessages.sendNoExactMatchMessage(ctx.from)
-      await this.botMessages.sendMultipleJobOffers(ctx.from, similarJobs)
+      const messageIds = await this.botMessages.sendMultipleJobOffers(ctx.from, similarJobs)
 
       await this.chatHistory.saveOutgoingInteractiveMessage(
         ctx.from,
@@ -486,15 +668,15 @@ export class WhatsAppMessageService {
         'Similar job offers',
         similarJobs.map((j) => j.title),
         ctx.state,
-        similarJobs.length
+        similarJobs.length,
+        messageIds,
+        resultsPage.exposure
       )
 
       await this.conversationState.markSearchCompleted(ctx.from, userQuery, 0)
+      await this.chatHistory.recordJobOffersShown(ctx.from, similarJobs.length)
 
-      // Send "see more" prompt after 15 seconds
-      setTimeout(() => {
-        this.botMessages.sendSeeMorePrompt(ctx.from)
-      }, 15_000)
+      await this.scheduleSeeMorePrompt(ctx, userQuery)
 
       // Store query for pagination
       if (ctx.existingUser) {
@@ -508,12 +690,13 @@ export class WhatsAppMessageService {
       }
     } else {
       // No jobs at all
-      await this.botMessages.sendNoJobsFoundMessage(ctx.from, userQuery, ctx.contactName)
+      const messageId = await this.botMessages.sendNoJobsFoundMessage(ctx.from, userQuery, ctx.contactName)
       await this.chatHistory.saveOutgoingTextMessage(
         ctx.from,
         ctx.sessionId,
         'No jobs found for this search',
-        ctx.state
+        ctx.state,
+        messageId
       )
     }
   }
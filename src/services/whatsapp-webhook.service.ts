@@ -0,0 +1,106 @@
+import { WebhookDeadLetterRepository } from '../db/repositories/WebhookDeadLetterRepository'
+import { WhatsAppWebhookEnvelopeSchema, type WhatsAppWebhookEnvelope } from '../models/WhatsAppWebhook'
+import { WebhookSignature } from '../utils/webhook-signature'
+import { Logger } from '../utils/logger'
+
+export type WebhookQuarantineReason = 'invalid_json' | 'invalid_payload'
+
+export interface WebhookValidationIssue {
+  path: string
+  message: string
+}
+
+export type WebhookIntakeResult =
+  | { status: 'accepted'; payload: WhatsAppWebhookEnvelope }
+  | { status: 'rejected'; reason: 'missing_app_secret' | 'invalid_signature' }
+  | { status: 'quarantined'; reason: WebhookQuarantineReason; errors: WebhookValidationIssue[] }
+
+export type WebhookValidationResult =
+  | { success: true; payload: WhatsAppWebhookEnvelope }
+  | { success: false; errors: WebhookValidationIssue[] }
+
+/**
+ * Where malformed webhooks are kept (webhook_dead_letters by default)
+ */
+export type WebhookDeadLetterStore = Pick<WebhookDeadLetterRepository, 'create'>
+
+/**
+ * WhatsApp Webhook Service
+ * Authenticates and validates incoming webhooks before they reach the message queue
+ *
+ * - bad signature: rejected, nothing is stored (anyone can call the endpoint)
+ * - authentic but malformed: quarantined in the dead-letter store and acknowledged,
+ *   so that WhatsApp does not retry it
+ */
+export class WhatsAppWebhookService {
+  static readonly SOURCE = 'whatsapp'
+
+  constructor(
+    private readonly appSecret: string | undefined = process.env.WHATSAPP_APP_SECRET,
+    private readonly deadLetters: WebhookDeadLetterStore = new WebhookDeadLetterRepository()
+  ) {}
+
+  /**
+   * Verify, parse and validate a webhook request
+   * @param rawBody - Request body exactly as received
+   * @param signatureHeader - X-Hub-Signature-256 header
+   */
+  async receive(rawBody: string, signatureHeader: string | null): Promise<WebhookIntakeResult> {
+    if (!this.appSecret) {
+      // Fail closed in production, allow local testing without the app secret
+      if (process.env.NODE_ENV === 'production') {
+        Logger.error('WHATSAPP_APP_SECRET not set, rejecting webhook')
+        return { status: 'rejected', reason: 'missing_app_secret' }
+      }
+      Logger.warn('WHATSAPP_APP_SECRET not set, webhook signature not verified')
+    } else if (!WebhookSignature.verify(rawBody, signatureHeader, this.appSecret)) {
+      Logger.warn('Webhook rejected: invalid signature', { hasSignature: !!signatureHeader })
+      return { status: 'rejected', reason: 'invalid_signature' }
+    }
+
+    let body: unknown
+    try {
+      body = JSON.parse(rawBody)
+    } catch (error: any) {
+      const errors = [{ path: '', message: error?.message || 'Invalid JSON' }]
+      await this.quarantine(rawBody, 'invalid_json', errors)
+      return { status: 'quarantined', reason: 'invalid_json', errors }
+    }
+
+    const validation = this.validate(body)
+    if (!validation.success) {
+      await this.quarantine(rawBody, 'invalid_payload', validation.errors)
+      return { status: 'quarantined', reason: 'invalid_payload', errors: validation.errors }
+    }
+
+    return { status: 'accepted', payload: validation.payload }
+  }
+
+  validate(body: unknown): WebhookValidationResult {
+    const result = WhatsAppWebhookEnvelopeSchema.safeParse(body)
+    if (result.success) {
+      return { success: true, payload: result.data }
+    }
+
+    return {
+      success: false,
+      errors: result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+    }
+  }
+
+  async quarantine(rawBody: string, reason: WebhookQuarantineReason, errors: WebhookValidationIssue[]): Promise<void> {
+    Logger.warn('Webhook quarantined', { reason, errors: errors.slice(0, 5) })
+
+    try {
+      await this.deadLetters.create({
+        source: WhatsAppWebhookService.SOURCE,
+        reason,
+        rawBody,
+        errors,
+        receivedAt: new Date(),
+      })
+    } catch (error: any) {
+      Logger.error('Error saving webhook dead letter', { reason, error: error?.message })
+    }
+  }
+}
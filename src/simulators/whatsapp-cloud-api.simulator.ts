@@ -0,0 +1,302 @@
+import { Elysia } from 'elysia'
+import { WebhookSignature } from '../utils/webhook-signature'
+import type { WhatsAppWebhookStatus } from '../models/WhatsAppWebhook'
+
+export type SimulatedMessageKind = 'text' | 'interactive' | 'template'
+
+/**
+ * Message sent by the bot, as received by the simulator
+ */
+export interface SimulatedMessage {
+  id: string
+  to: string
+  kind: SimulatedMessageKind
+  // Text, interactive body text or template name
+  text: string
+  body: Record<string, any>
+  sentAt: number
+}
+
+export interface WhatsAppSimulatorOptions {
+  // Where webhooks are posted, e.g. http://localhost:3000/webhook/whatsapp
+  webhookUrl: string
+  // Signs webhooks like Meta does (X-Hub-Signature-256), unsigned without it
+  appSecret?: string
+  phoneNumberId?: string
+  businessAccountId?: string
+  // Rejects requests with another token (Graph error 190), any token is accepted without it
+  accessToken?: string
+  // Statuses posted back through the webhook for each message, e.g. ['sent', 'delivered']
+  deliveryStatuses?: WhatsAppWebhookStatus['status'][]
+}
+
+/**
+ * Local WhatsApp Cloud API simulator
+ * Stands in for https://graph.facebook.com with the subset of the Graph API the bot uses
+ * (messages, templates, typing indicators, read receipts, conversational components),
+ * records what the bot sends and posts signed webhooks back to the bot
+ *
+ * Point the bot at it with WHATSAPP_API_BASE_URL=http://localhost:<port>
+ *
+ * Control endpoints, for manual testing:
+ * - GET /_simulator/messages?to=<phone> - messages sent by the bot
+ * - DELETE /_simulator/messages - forget them
+ * - POST /_simulator/inbound { from, text, name? } - send a text message to the bot
+ */
+export class WhatsAppCloudApiSimulator {
+  private readonly DEFAULT_PHONE_NUMBER_ID = '100000000000001'
+  private readonly DEFAULT_BUSINESS_ACCOUNT_ID = '100000000000002'
+  private readonly DISPLAY_PHONE_NUMBER = '15550000000'
+  private readonly WAIT_POLL_INTERVAL_MS = 50
+
+  private sent: SimulatedMessage[] = []
+  private typingMessageIds: string[] = []
+  private conversationalComponents: Record<string, any> | null = null
+  private sequence = 0
+
+  readonly phoneNumberId: string
+  readonly businessAccountId: string
+
+  readonly app = new Elysia()
+    .onBeforeHandle(({ request, set, path }) => {
+      if (path.startsWith('/_simulator')) return
+
+      const token = request.headers.get('authorization')?.replace(/^Bearer /, '')
+      if (!token || (this.options.accessToken && token !== this.options.accessToken)) {
+        set.status = 401
+        return this.graphError(190, 'Invalid OAuth access token - Cannot parse access token')
+      }
+    })
+    // Graph objects share the same route segment: phone number id, business account id
+    .post('/:version/:objectId/messages', ({ params, body, set }) => {
+      if (params.objectId !== this.phoneNumberId) {
+        set.status = 400
+        return this.graphError(100, `Unsupported post request. Object with ID '${params.objectId}' does not exist`)
+      }
+
+      return this.receiveFromBot(body as Record<string, any>, set)
+    })
+    .get('/:version/:objectId/conversational_automation', () => this.conversationalComponents ?? {})
+    .post('/:version/:objectId/conversational_automation', ({ body }) => {
+      this.conversationalComponents = body as Record<string, any>
+      return { success: true }
+    })
+    .get('/:version/:objectId/message_templates', () => ({
+      data: [...new Set(this.messages().filter((m) => m.kind === 'template').map((m) => m.text))].map((name) => ({
+        name,
+        status: 'APPROVED',
+      })),
+      paging: {},
+    }))
+    .get('/_simulator/messages', ({ query }) => ({ data: this.messages(query.to) }))
+    .delete('/_simulator/messages', () => {
+      this.reset()
+      return { success: true }
+    })
+    .post('/_simulator/inbound', async ({ body }) => {
+      const { from, text, name } = body as { from: string; text: string; name?: string }
+      return this.sendText(from, text, { name })
+    })
+
+  constructor(private readonly options: WhatsAppSimulatorOptions) {
+    this.phoneNumberId = options.phoneNumberId ?? this.DEFAULT_PHONE_NUMBER_ID
+    this.businessAccountId = options.businessAccountId ?? this.DEFAULT_BUSINESS_ACCOUNT_ID
+  }
+
+  /**
+   * @returns Base URL to set in WHATSAPP_API_BASE_URL
+   */
+  start(port = 4010): string {
+    this.app.listen(port)
+    return `http://localhost:${this.app.server!.port}`
+  }
+
+  async stop(): Promise<void> {
+    await this.app.stop()
+  }
+
+  /**
+   * Messages sent by the bot, in order, to everyone or to one user
+   */
+  messages(to?: string): SimulatedMessage[] {
+    return to ? this.sent.filter((message) => message.to === to) : [...this.sent]
+  }
+
+  /**
+   * Message ids the bot showed a typing indicator for
+   */
+  typingIndicators(): string[] {
+    return [...this.typingMessageIds]
+  }
+
+  /**
+   * Wait until the bot sent at least `count` messages to a user since the last reset
+   */
+  async waitForMessages(to: string, count: number, timeoutMs = 10_000): Promise<SimulatedMessage[]> {
+    const deadline = Date.now() + timeoutMs
+
+    while (Date.now() < deadline) {
+      const messages = this.messages(to)
+      if (messages.length >= count) return messages
+      await Bun.sleep(this.WAIT_POLL_INTERVAL_MS)
+    }
+
+    const received = this.messages(to).map((message) => message.text)
+    throw new Error(`Expected ${count} messages to ${to} within ${timeoutMs}ms, got ${JSON.stringify(received)}`)
+  }
+
+  reset(): void {
+    this.sent = []
+    this.typingMessageIds = []
+  }
+
+  /**
+   * User sends a text message to the bot
+   * @param id - Message id, reuse one to simulate a webhook retry
+   */
+  async sendText(from: string, text: string, options: { name?: string; id?: string } = {}) {
+    return this.sendUserMessage(from, options, { type: 'text', text: { body: text } })
+  }
+
+  /**
+   * User clicks one of the reply buttons sent by the bot
+   */
+  async sendButtonReply(from: string, buttonId: string, title: string, options: { name?: string } = {}) {
+    return this.sendUserMessage(from, options, {
+      type: 'interactive',
+      interactive: { type: 'button_reply', button_reply: { id: buttonId, title } },
+    })
+  }
+
+  /**
+   * User picks a row of a list message sent by the bot
+   */
+  async sendListReply(from: string, rowId: string, title: string, options: { name?: string } = {}) {
+    return this.sendUserMessage(from, options, {
+      type: 'interactive',
+      interactive: { type: 'list_reply', list_reply: { id: rowId, title } },
+    })
+  }
+
+  /**
+   * Delivery status of a message sent by the bot
+   */
+  async sendStatus(messageId: string, recipientId: string, status: WhatsAppWebhookStatus['status']) {
+    return this.postWebhook({
+      statuses: [{ id: messageId, status, timestamp: this.timestamp(), recipient_id: recipientId }],
+    })
+  }
+
+  /**
+   * Post a webhook to the bot, signed with the app secret unless a signature is given
+   * @returns HTTP status of the bot response
+   */
+  async postRawWebhook(rawBody: string, signature?: string): Promise<number> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    const signatureHeader =
+      signature ?? (this.options.appSecret ? WebhookSignature.sign(rawBody, this.options.appSecret) : undefined)
+    if (signatureHeader) {
+      headers['X-Hub-Signature-256'] = signatureHeader
+    }
+
+    const response = await fetch(this.options.webhookUrl, { method: 'POST', headers, body: rawBody })
+    return response.status
+  }
+
+  /**
+   * Webhook body as Meta sends it, around the value of a single change
+   */
+  envelope(value: Record<string, any>) {
+    return {
+      object: 'whatsapp_business_account',
+      entry: [
+        {
+          id: this.businessAccountId,
+          changes: [
+            {
+              field: 'messages',
+              value: {
+                messaging_product: 'whatsapp',
+                metadata: { display_phone_number: this.DISPLAY_PHONE_NUMBER, phone_number_id: this.phoneNumberId },
+                ...value,
+              },
+            },
+          ],
+        },
+      ],
+    }
+  }
+
+  private async sendUserMessage(
+    from: string,
+    options: { name?: string; id?: string },
+    message: Record<string, any>
+  ): Promise<{ messageId: string; status: number }> {
+    const messageId = options.id ?? this.nextId('in')
+    const status = await this.postWebhook({
+      contacts: [{ profile: { name: options.name ?? 'Simulated User' }, wa_id: from }],
+      messages: [{ from, id: messageId, timestamp: this.timestamp(), ...message }],
+    })
+
+    return { messageId, status }
+  }
+
+  private async postWebhook(value: Record<string, any>): Promise<number> {
+    return this.postRawWebhook(JSON.stringify(this.envelope(value)))
+  }
+
+  private receiveFromBot(body: Record<string, any>, set: { status?: number | string }) {
+    // Typing indicator and read receipt share the same request
+    if (body.status === 'read') {
+      if (body.typing_indicator) {
+        this.typingMessageIds.push(body.message_id)
+      }
+      return { success: true }
+    }
+
+    if (!['text', 'interactive', 'template'].includes(body.type) || !body.to) {
+      set.status = 400
+      return this.graphError(100, `(#100) Param type must be one of {TEXT, INTERACTIVE, TEMPLATE} - got "${body.type}"`)
+    }
+
+    const message: SimulatedMessage = {
+      id: this.nextId('out'),
+      to: body.to,
+      kind: body.type,
+      text: this.textOf(body),
+      body,
+      sentAt: Date.now(),
+    }
+    this.sent.push(message)
+
+    for (const status of this.options.deliveryStatuses ?? []) {
+      // After the response, like Meta
+      setTimeout(() => void this.sendStatus(message.id, message.to, status).catch(() => undefined), 0)
+    }
+
+    return {
+      messaging_product: 'whatsapp',
+      contacts: [{ input: body.to, wa_id: body.to }],
+      messages: [{ id: message.id }],
+    }
+  }
+
+  private textOf(body: Record<string, any>): string {
+    if (body.type === 'text') return body.text?.body ?? ''
+    if (body.type === 'template') return body.template?.name ?? ''
+    return body.interactive?.body?.text ?? ''
+  }
+
+  private graphError(code: number, message: string) {
+    return { error: { message, type: 'OAuthException', code, fbtrace_id: this.nextId('trace') } }
+  }
+
+  private nextId(kind: string): string {
+    this.sequence++
+    return `wamid.SIM${kind.toUpperCase()}${Date.now().toString(36)}${this.sequence}`
+  }
+
+  private timestamp(): string {
+    return Math.floor(Date.now() / 1000).toString()
+  }
+}
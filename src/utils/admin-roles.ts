@@ -0,0 +1,39 @@
+import { createHash, randomBytes } from 'crypto'
+
+export const ADMIN_ROLES = ['viewer', 'operator', 'admin'] as const
+
+/**
+ * - viewer: reads the portal (jobs, users, conversations, stats)
+ * - operator: also acts on conversations (replay, human handoff) and scrapers
+ * - admin: also manages feature flags, jobs and admin accounts, reads the audit log
+ */
+export type AdminRole = (typeof ADMIN_ROLES)[number]
+
+export class AdminRoles {
+  /**
+   * Whether a role has the permissions of another, each role includes the previous ones
+   */
+  static allows(role: AdminRole, required: AdminRole): boolean {
+    return ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(required)
+  }
+
+  static isRole(value: string): value is AdminRole {
+    return (ADMIN_ROLES as readonly string[]).includes(value)
+  }
+}
+
+export class AdminSessionTokens {
+  /**
+   * Random bearer token handed to the portal once, at login
+   */
+  static generate(): string {
+    return randomBytes(32).toString('base64url')
+  }
+
+  /**
+   * Sessions are stored under the token hash, a Redis dump doesn't give usable tokens
+   */
+  static hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+  }
+}
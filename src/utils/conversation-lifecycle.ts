@@ -0,0 +1,61 @@
+export type ConversationOutcome = 'completed' | 'abandoned'
+
+/**
+ * What the user got out of a conversation
+ */
+export interface ConversationOutcomeSignals {
+  jobOffersShown: number
+  linksClicked: number
+}
+
+/**
+ * Active conversation row of a user (ConversationEntity)
+ */
+export interface ActiveConversationSession {
+  sessionId: string
+  lastActivityAt: number
+}
+
+export class ConversationLifecycle {
+  /**
+   * Session of the messages pushed outside of a conversation (job alerts)
+   * They are added to the user's current or last conversation and never open, close or extend one,
+   * so the abandoned counts and experiment stats only reflect conversations the user started
+   */
+  static readonly JOB_ALERT_SESSION_ID = 'job-alert'
+
+  /**
+   * Completed when the user was shown job offers or opened one, abandoned otherwise
+   * (left during the welcome, before or after a search without results)
+   */
+  static classify(signals: ConversationOutcomeSignals): ConversationOutcome {
+    return signals.jobOffersShown > 0 || signals.linksClicked > 0 ? 'completed' : 'abandoned'
+  }
+
+  /**
+   * Whether an active conversation outlived its Redis session
+   * @param sessionTtlMs - Session TTL of ConversationStateService
+   */
+  static isStale(lastActivityAt: number, now: number, sessionTtlMs: number): boolean {
+    return now - lastActivityAt >= sessionTtlMs
+  }
+
+  /**
+   * Whether a message closes the active conversation and starts a new one
+   *
+   * A message from the user in another Redis session always does, job alerts never do.
+   * Other outgoing messages only do once the conversation is stale
+   */
+  static startsNewConversation(
+    active: ActiveConversationSession,
+    message: { sessionId: string; direction: 'incoming' | 'outgoing' },
+    now: number,
+    sessionTtlMs: number
+  ): boolean {
+    if (active.sessionId === message.sessionId) return false
+    if (message.sessionId === this.JOB_ALERT_SESSION_ID) return false
+    if (message.direction === 'incoming') return true
+
+    return this.isStale(active.lastActivityAt, now, sessionTtlMs)
+  }
+}
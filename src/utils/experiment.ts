@@ -0,0 +1,116 @@
+import { createHash } from 'crypto'
+
+export interface ExperimentVariant {
+  name: string
+  // Relative share of the enrolled users
+  weight: number
+  // What the variant changes, read by the code running the experiment
+  params: Record<string, string | number>
+}
+
+export interface ExperimentDefinition {
+  name: string
+  description: string
+  // The first variant is the control, used for the users out of the experiment
+  variants: ExperimentVariant[]
+}
+
+/**
+ * Conversation in which a user saw a variant (ConversationEntity metadata.experiments)
+ */
+export interface ExperimentExposure {
+  phoneNumber: string
+  variant: string
+  startedAt: number
+  searchQueriesCount: number
+}
+
+export interface ExperimentVariantStats {
+  variant: string
+  users: number
+  conversations: number
+  searchesPerSession: number
+  // Share of the users who started another conversation after the first exposed one
+  returnRate: number
+  linksSent: number
+  linksClicked: number
+  clickThroughRate: number
+}
+
+export class ExperimentAssigner {
+  /**
+   * Variant of a user, stable as long as the variants and weights don't change
+   */
+  static assign(experiment: ExperimentDefinition, phoneNumber: string): ExperimentVariant {
+    const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0)
+    // Salted apart from the enrollment flag, so enrolled users aren't biased towards a variant
+    const hash = createHash('sha1').update(`${experiment.name}:variant:${phoneNumber}`).digest()
+    let point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight
+
+    for (const variant of experiment.variants) {
+      if (point < variant.weight) return variant
+      point -= variant.weight
+    }
+
+    return experiment.variants[experiment.variants.length - 1]!
+  }
+}
+
+export class ExperimentMetrics {
+  /**
+   * Outcome metrics of each variant
+   * Users count for the variant of their first exposed conversation, their later conversations
+   * and the links sent from then on count towards return rate and click-through
+   * @param exposures - Conversations exposed to the experiment
+   * @param conversations - All conversations of the exposed users
+   * @param links - Personalized links sent to the exposed users
+   */
+  static compute(
+    experiment: ExperimentDefinition,
+    exposures: ExperimentExposure[],
+    conversations: { phoneNumber: string; startedAt: number }[],
+    links: { phoneNumber: string; createdAt: Date; clickCount: number }[]
+  ): ExperimentVariantStats[] {
+    const firstExposures = new Map<string, ExperimentExposure>()
+    for (const exposure of exposures) {
+      const first = firstExposures.get(exposure.phoneNumber)
+      if (!first || exposure.startedAt < first.startedAt) {
+        firstExposures.set(exposure.phoneNumber, exposure)
+      }
+    }
+
+    return experiment.variants.map(({ name }) => {
+      const variantExposures = exposures.filter((exposure) => exposure.variant === name)
+      const users = [...firstExposures.values()].filter((first) => first.variant === name)
+      const exposedSince = new Map(users.map((first) => [first.phoneNumber, first.startedAt]))
+      const isAfterExposure = (phoneNumber: string, time: number, inclusive: boolean) => {
+        const since = exposedSince.get(phoneNumber)
+        return since !== undefined && (inclusive ? time >= since : time > since)
+      }
+
+      const returningUsers = new Set(
+        conversations
+          .filter((conversation) => isAfterExposure(conversation.phoneNumber, conversation.startedAt, false))
+          .map((conversation) => conversation.phoneNumber)
+      )
+      const sentLinks = links.filter((link) => isAfterExposure(link.phoneNumber, link.createdAt.getTime(), true))
+      const linksClicked = sentLinks.filter((link) => link.clickCount > 0).length
+      const searches = variantExposures.reduce((sum, exposure) => sum + exposure.searchQueriesCount, 0)
+
+      return {
+        variant: name,
+        users: users.length,
+        conversations: variantExposures.length,
+        searchesPerSession: this.ratio(searches, variantExposures.length),
+        returnRate: this.ratio(returningUsers.size, users.length),
+        linksSent: sentLinks.length,
+        linksClicked,
+        clickThroughRate: this.ratio(linksClicked, sentLinks.length),
+      }
+    })
+  }
+
+  private static ratio(value: number, total: number): number {
+    return total > 0 ? Math.round((value / total) * 1000) / 1000 : 0
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * HTML page shown when a personalized link points to a job that is no longer available
+ */
+export class ExpiredLinkPage {
+  static render(job?: { title: string; company?: string } | null): string {
+    const jobLine = job
+      ? `<p class="job">${this.escape(job.title)}${job.company ? ` &middot; ${this.escape(job.company)}` : ''}</p>`
+      : ''
+
+    return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>Offre expirée</title>
+  <style>
+    body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; background: #f4f6f8; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1f2937; }
+    main { max-width: 420px; margin: 24px; padding: 32px 24px; background: #fff; border-radius: 16px; box-shadow: 0 4px 16px rgba(0, 0, 0, 0.06); text-align: center; }
+    .icon { font-size: 48px; }
+    h1 { font-size: 22px; margin: 12px 0 8px; }
+    .job { font-weight: 600; color: #4b5563; }
+    p { line-height: 1.5; }
+  </style>
+</head>
+<body>
+  <main>
+    <div class="icon">⌛</div>
+    <h1>Cette offre a expiré</h1>
+    ${jobLine}
+    <p>La date limite est passée ou le recruteur a retiré l'annonce.</p>
+    <p>Envoyez le poste que vous cherchez à Eska 🤖 sur WhatsApp pour découvrir d'autres offres 💼</p>
+  </main>
+</body>
+</html>`
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+  }
+}
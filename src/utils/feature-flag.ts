@@ -0,0 +1,53 @@
+import { createHash } from 'crypto'
+
+/**
+ * What decides whether a flag is on for a user (subset of FeatureFlagEntity)
+ */
+export interface FeatureFlagRule {
+  name: string
+  enabled: boolean
+  rolloutPercentage: number
+  phoneNumbers: string[]
+}
+
+export class FeatureFlagEvaluator {
+  /**
+   * On for the listed users, and for rolloutPercentage % of the others
+   */
+  static isEnabled(flag: FeatureFlagRule | undefined, phoneNumber: string): boolean {
+    if (!flag || !flag.enabled) return false
+    if (flag.phoneNumbers.includes(phoneNumber)) return true
+    if (flag.rolloutPercentage <= 0) return false
+    if (flag.rolloutPercentage >= 100) return true
+
+    return this.bucket(flag.name, phoneNumber) < flag.rolloutPercentage
+  }
+
+  /**
+   * Stable 0-99 bucket of a user for a flag: raising the percentage only adds users,
+   * and each flag picks a different share of the users
+   */
+  static bucket(flagName: string, phoneNumber: string): number {
+    const hash = createHash('sha1').update(`${flagName}:${phoneNumber}`).digest()
+    return hash.readUInt32BE(0) % 100
+  }
+
+  /**
+   * Fields that differ between two versions of a flag, for the audit log
+   */
+  static diff(
+    before: Partial<FeatureFlagRule> & { description?: string | null },
+    after: Partial<FeatureFlagRule> & { description?: string | null }
+  ): Record<string, { from: unknown; to: unknown }> {
+    const changes: Record<string, { from: unknown; to: unknown }> = {}
+
+    for (const key of Object.keys(after) as (keyof typeof after)[]) {
+      if (after[key] === undefined) continue
+      if (JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null)) {
+        changes[key] = { from: before[key] ?? null, to: after[key] }
+      }
+    }
+
+    return changes
+  }
+}
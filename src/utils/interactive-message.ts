@@ -0,0 +1,112 @@
+import type { InteractiveMessage } from '@microfox/whatsapp-business'
+
+export interface ReplyButton {
+  id: string
+  title: string
+}
+
+export interface ListRow {
+  id: string
+  title: string
+  description?: string
+}
+
+export interface ListSection {
+  title: string
+  rows: ListRow[]
+}
+
+export interface InteractiveMessageOptions {
+  header?: string
+  footer?: string
+}
+
+/**
+ * Build WhatsApp interactive messages (reply buttons and lists)
+ *
+ * WhatsApp rejects the whole message when a limit is exceeded, so texts are
+ * truncated and extra buttons / rows are dropped instead
+ * https://developers.facebook.com/docs/whatsapp/cloud-api/messages/interactive-reply-buttons-messages
+ */
+export class InteractiveMessageBuilder {
+  static readonly MAX_BUTTONS = 3
+  static readonly MAX_BUTTON_TITLE_LENGTH = 20
+  static readonly MAX_LIST_ROWS = 10
+  static readonly MAX_LIST_BUTTON_LENGTH = 20
+  static readonly MAX_SECTION_TITLE_LENGTH = 24
+  static readonly MAX_ROW_TITLE_LENGTH = 24
+  static readonly MAX_ROW_DESCRIPTION_LENGTH = 72
+  static readonly MAX_HEADER_LENGTH = 60
+  static readonly MAX_BODY_LENGTH = 1024
+  static readonly MAX_FOOTER_LENGTH = 60
+  static readonly MAX_ID_LENGTH = 200
+
+  static replyButtons(body: string, buttons: ReplyButton[], options: InteractiveMessageOptions = {}): InteractiveMessage {
+    return {
+      type: 'button',
+      ...this.texts(body, options),
+      action: {
+        buttons: buttons.slice(0, this.MAX_BUTTONS).map((button) => ({
+          type: 'reply' as const,
+          reply: {
+            id: button.id.slice(0, this.MAX_ID_LENGTH),
+            title: this.truncate(button.title, this.MAX_BUTTON_TITLE_LENGTH),
+          },
+        })),
+      },
+    }
+  }
+
+  /**
+   * @param buttonLabel - Label of the button opening the list
+   */
+  static list(
+    body: string,
+    buttonLabel: string,
+    sections: ListSection[],
+    options: InteractiveMessageOptions = {}
+  ): InteractiveMessage {
+    // The row limit applies to the whole message, not to each section
+    let remainingRows = this.MAX_LIST_ROWS
+    const limitedSections = sections
+      .map((section) => {
+        const rows = section.rows.slice(0, Math.max(remainingRows, 0))
+        remainingRows -= rows.length
+        return { ...section, rows }
+      })
+      .filter((section) => section.rows.length > 0)
+
+    return {
+      type: 'list',
+      ...this.texts(body, options),
+      action: {
+        button: this.truncate(buttonLabel, this.MAX_LIST_BUTTON_LENGTH),
+        sections: limitedSections.map((section) => ({
+          title: this.truncate(section.title, this.MAX_SECTION_TITLE_LENGTH),
+          rows: section.rows.map((row) => ({
+            id: row.id.slice(0, this.MAX_ID_LENGTH),
+            title: this.truncate(row.title, this.MAX_ROW_TITLE_LENGTH),
+            ...(row.description
+              ? { description: this.truncate(row.description, this.MAX_ROW_DESCRIPTION_LENGTH) }
+              : {}),
+          })),
+        })),
+      },
+    }
+  }
+
+  private static texts(body: string, options: InteractiveMessageOptions) {
+    return {
+      ...(options.header
+        ? { header: { type: 'text' as const, text: this.truncate(options.header, this.MAX_HEADER_LENGTH) } }
+        : {}),
+      body: { text: this.truncate(body, this.MAX_BODY_LENGTH) },
+      ...(options.footer ? { footer: { text: this.truncate(options.footer, this.MAX_FOOTER_LENGTH) } } : {}),
+    }
+  }
+
+  private static truncate(text: string, maxLength: number): string {
+    const value = text.trim()
+    return value.length > maxLength ? `${value.slice(0, maxLength - 1).trimEnd()}…` : value
+  }
+}
@@ -0,0 +1,77 @@
+import type { WhatsAppWebhookMessage } from '@models/WhatsAppWebhook'
+import type { ConversationEvent } from '@/machines/conversationMachine'
+import type { ReplyButton } from './interactive-message'
+
+export interface InteractiveReply {
+  kind: 'button_reply' | 'list_reply'
+  id: string
+  title: string
+}
+
+/**
+ * Ids of the buttons and list rows we send, and what the user's click means
+ *
+ * - buttons driving the conversation are mapped to conversation machine events
+ * - the others are turned into the equivalent chat command ("Stop alerte comptable"),
+ *   so that they go through the same code as typed messages
+ */
+export class InteractiveReplyParser {
+  static readonly SEE_MORE = 'see_more'
+  static readonly NEW_SEARCH = 'new_search'
+  static readonly CREATE_ALERT = 'create_alert'
+  // List rows of "Mes alertes", followed by the alert query
+  static readonly STOP_ALERT_PREFIX = 'stop_alert:'
+
+  // Sent after each page of results
+  static readonly RESULT_BUTTONS: ReplyButton[] = [
+    { id: this.SEE_MORE, title: 'Voir plus' },
+    { id: this.NEW_SEARCH, title: 'Nouvelle recherche' },
+    { id: this.CREATE_ALERT, title: 'Créer une alerte' },
+  ]
+
+  /**
+   * @returns The reply, or null if the message is not a button / list reply
+   */
+  static parse(message: Pick<WhatsAppWebhookMessage, 'type' | 'interactive'>): InteractiveReply | null {
+    if (message.type !== 'interactive' || !message.interactive) return null
+
+    const { button_reply: buttonReply, list_reply: listReply } = message.interactive
+    if (buttonReply) {
+      return { kind: 'button_reply', id: buttonReply.id, title: buttonReply.title }
+    }
+    if (listReply) {
+      return { kind: 'list_reply', id: listReply.id, title: listReply.title }
+    }
+
+    return null
+  }
+
+  /**
+   * Conversation machine event of a reply, null when the reply is not part of the conversation flow
+   */
+  static toEvent(reply: InteractiveReply, timestamp: number = Date.now()): ConversationEvent | null {
+    switch (reply.id) {
+      case this.SEE_MORE:
+        return { type: 'SEE_MORE_CLICKED', timestamp }
+      case this.NEW_SEARCH:
+        return { type: 'NEW_SEARCH_CLICKED', timestamp }
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Text the user would have typed to get the same result
+   * @param lastQuery - Last search of the user, subscribed to by "Créer une alerte"
+   */
+  static toText(reply: InteractiveReply, lastQuery?: string): string {
+    if (reply.id === this.SEE_MORE) return 'Voir plus'
+    if (reply.id === this.NEW_SEARCH) return 'Nouvelle recherche'
+    if (reply.id === this.CREATE_ALERT) return lastQuery ? `Alerte ${lastQuery}` : 'Mes alertes'
+    if (reply.id.startsWith(this.STOP_ALERT_PREFIX)) {
+      return `Stop alerte ${reply.id.slice(this.STOP_ALERT_PREFIX.length)}`
+    }
+
+    return reply.title
+  }
+}
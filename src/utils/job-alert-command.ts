@@ -0,0 +1,40 @@
+export type JobAlertCommand =
+  | { type: 'subscribe'; query: string }
+  | { type: 'list' }
+  | { type: 'unsubscribe'; target?: string }
+
+/**
+ * Parse job alert chat commands
+ *
+ * Examples:
+ * - "Alerte comptable"       -> subscribe to "comptable"
+ * - "Mes alertes"            -> list active alerts
+ * - "Stop alerte comptable"  -> unsubscribe by query
+ * - "Stop alerte 2"          -> unsubscribe by list number
+ * - "Stop alertes"           -> unsubscribe from everything
+ */
+export class JobAlertCommandParser {
+  /**
+   * Parse a user message
+   * @returns The command, or null if the message is not an alert command
+   */
+  static parse(text: string): JobAlertCommand | null {
+    const normalized = text.trim().replace(/\s+/g, ' ')
+
+    if (/^(mes|voir) alertes?$/i.test(normalized)) {
+      return { type: 'list' }
+    }
+
+    const unsubscribe = normalized.match(/^(?:stop|arr[eê]ter|supprimer) (?:les |mes |l'|une )?alertes?(?: (.+))?$/i)
+    if (unsubscribe) {
+      return { type: 'unsubscribe', target: unsubscribe[1]?.trim() || undefined }
+    }
+
+    const subscribe = normalized.match(/^(?:cr[ée]er (?:une )?)?alerte (.+)$/i)
+    if (subscribe) {
+      return { type: 'subscribe', query: subscribe[1].trim() }
+    }
+
+    return null
+  }
+}
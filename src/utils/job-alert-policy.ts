@@ -0,0 +1,43 @@
+import type { JobAlertEntity } from '@/db/entities/JobAlertEntity'
+
+export type NotifiableAlert = Pick<JobAlertEntity, 'lastNotifiedAt' | 'notificationsToday' | 'notificationsDay'>
+
+/**
+ * When a job alert may be pushed and in which form
+ */
+export class JobAlertPolicy {
+  static readonly MAX_NOTIFICATIONS_PER_DAY = 3
+  static readonly MIN_NOTIFICATION_INTERVAL_MS = 2 * 60 * 60 * 1000 // 2 hours
+  // WhatsApp only allows free-form messages within 24h of the user's last message
+  static readonly CUSTOMER_SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000
+
+  /**
+   * Day the notifications are counted on (JobAlertEntity.notificationsDay)
+   */
+  static notificationDay(now: Date): string {
+    return now.toISOString().slice(0, 10)
+  }
+
+  /**
+   * Frequency caps: daily limit and minimum interval between two notifications
+   */
+  static canNotify(alert: NotifiableAlert, now: Date): boolean {
+    if (alert.notificationsDay === this.notificationDay(now) && alert.notificationsToday >= this.MAX_NOTIFICATIONS_PER_DAY) {
+      return false
+    }
+
+    if (alert.lastNotifiedAt && now.getTime() - new Date(alert.lastNotifiedAt).getTime() < this.MIN_NOTIFICATION_INTERVAL_MS) {
+      return false
+    }
+
+    return true
+  }
+
+  /**
+   * Whether a free-form message can be sent, an approved template is needed otherwise
+   */
+  static isInsideServiceWindow(lastMessageAt: Date | null | undefined, now: Date): boolean {
+    if (!lastMessageAt) return false
+    return now.getTime() - new Date(lastMessageAt).getTime() < this.CUSTOMER_SERVICE_WINDOW_MS
+  }
+}
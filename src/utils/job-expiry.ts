@@ -0,0 +1,40 @@
+import type { JobAd } from '@models/JobAd'
+
+export type ExpirableJob = Pick<JobAd, 'source' | 'postedDate' | 'applicationDeadline'>
+
+/**
+ * Decide when a job ad stops being searchable
+ *
+ * - jobs announcing a deadline ("Date limite: 30/06/2025") expire at the end of that day
+ * - other jobs expire a source-specific number of days after being posted
+ */
+export class JobExpiryPolicy {
+  static readonly DEFAULT_TTL_DAYS = 45
+
+  // Keyed by JobAd.source
+  static readonly SOURCE_TTL_DAYS: Record<string, number> = {
+    // Career page of a single company, offers stay open until filled
+    Djamo: 60,
+    // Aggregator relisting ads from other boards, they go stale quickly
+    OptionCarriere: 30,
+    Socium: 30,
+  }
+
+  static ttlDays(source: string): number {
+    return this.SOURCE_TTL_DAYS[source] ?? this.DEFAULT_TTL_DAYS
+  }
+
+  static computeExpiresAt(job: ExpirableJob): Date {
+    if (job.applicationDeadline && !isNaN(new Date(job.applicationDeadline).getTime())) {
+      const deadline = new Date(job.applicationDeadline)
+      deadline.setHours(23, 59, 59, 999)
+      return deadline
+    }
+
+    return new Date(new Date(job.postedDate).getTime() + this.ttlDays(job.source) * 24 * 60 * 60 * 1000)
+  }
+
+  static isExpired(job: ExpirableJob, now: Date = new Date()): boolean {
+    return this.computeExpiresAt(job).getTime() <= now.getTime()
+  }
+}
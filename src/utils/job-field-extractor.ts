@@ -0,0 +1,239 @@
+import { ContractType, EducationLevel, ExperienceLevel, type JobStructuredFields } from '@models/JobAd'
+
+const FRENCH_MONTHS: Record<string, number> = {
+  janvier: 0,
+  fevrier: 1,
+  mars: 2,
+  avril: 3,
+  mai: 4,
+  juin: 5,
+  juillet: 6,
+  aout: 7,
+  septembre: 8,
+  octobre: 9,
+  novembre: 10,
+  decembre: 11,
+}
+
+const CONTRACT_PATTERNS: [ContractType, RegExp][] = [
+  [ContractType.INTERNSHIP, /\b(stages?|stagiaires?|internship)\b/],
+  [ContractType.FREELANCE, /\b(freelances?|free lance|independant|prestataire|consultant externe)\b/],
+  [ContractType.CDD, /\b(cdd|duree determinee)\b/],
+  [ContractType.CDI, /\b(cdi|duree indeterminee)\b/],
+]
+
+// Checked in order, the first match in the text wins
+const EDUCATION_PATTERNS: [EducationLevel | 'bac+n', RegExp][] = [
+  ['bac+n', /\bbac\s*\+\s*(\d)/],
+  [EducationLevel.DOCTORATE, /\b(doctorat|phd)\b/],
+  [EducationLevel.BAC_5, /\b(master|mastere|ingenieur|dess|dea|mba)\b/],
+  [EducationLevel.BAC_3, /\b(licence|bachelor)\b/],
+  [EducationLevel.BAC_2, /\b(bts|dut|deug)\b/],
+  [EducationLevel.BAC, /\b(bac|baccalaureat)\b/],
+]
+
+const SECTOR_KEYWORDS: Record<string, string[]> = {
+  finance: ['comptab', 'financ', 'audit', 'banque', 'bancaire', 'fiscal', 'tresor', 'credit', 'assurance', 'controleur de gestion'],
+  informatique: ['informatique', 'developpeur', 'logiciel', 'reseau', 'devops', 'data', 'fullstack', 'backend', 'frontend', 'systeme d information'],
+  commercial: ['commercial', 'vente', 'vendeur', 'business developer', 'technico commercial', 'prospection'],
+  marketing: ['marketing', 'communication', 'community manager', 'digital', 'graphiste'],
+  rh: ['ressources humaines', 'recrutement', 'paie', 'talent'],
+  logistique: ['logistique', 'transport', 'supply chain', 'magasinier', 'chauffeur', 'transit', 'entrepot'],
+  btp: ['btp', 'genie civil', 'chantier', 'batiment', 'architecte', 'topograph', 'conducteur de travaux'],
+  sante: ['sante', 'medecin', 'medical', 'infirmi', 'pharmac', 'sage femme', 'clinique'],
+  education: ['enseignant', 'professeur', 'formateur', 'ecole', 'pedagog'],
+  industrie: ['maintenance', 'production', 'usine', 'mecani', 'electrici', 'industriel'],
+  administration: ['assistant de direction', 'assistante de direction', 'secretaire', 'administratif', 'office manager', 'accueil'],
+  juridique: ['juriste', 'juridique', 'avocat', 'notaire'],
+  agriculture: ['agronom', 'agricole', 'agriculture', 'elevage', 'cacao'],
+  hotellerie: ['hotel', 'restaura', 'cuisinier', 'serveur', 'tourisme'],
+  telecom: ['telecom', 'fibre optique'],
+}
+
+// Canonical skill name -> pattern on normalized text
+const KNOWN_SKILLS: [string, RegExp][] = [
+  ['Excel', /\bexcel\b/],
+  ['Word', /\bword\b/],
+  ['PowerPoint', /\bpower ?point\b/],
+  ['Pack Office', /\b(pack office|ms office|microsoft office)\b/],
+  ['Sage', /\bsage\b/],
+  ['SAP', /\bsap\b/],
+  ['Odoo', /\bodoo\b/],
+  ['Power BI', /\bpower ?bi\b/],
+  ['SQL', /\b(sql|mysql|postgresql)\b/],
+  ['Python', /\bpython\b/],
+  ['Java', /\bjava\b/],
+  ['JavaScript', /\bjavascript\b/],
+  ['TypeScript', /\btypescript\b/],
+  ['PHP', /\bphp\b/],
+  ['React', /\breact\b/],
+  ['Angular', /\bangular\b/],
+  ['Node.js', /\bnode ?js\b/],
+  ['AutoCAD', /\bautocad\b/],
+  ['Photoshop', /\bphotoshop\b/],
+  ['Anglais', /\banglais\b/],
+  ['Permis B', /\bpermis b\b/],
+]
+
+/**
+ * Rule-based extraction of structured job fields from free text
+ *
+ * Examples:
+ * - "Contrat: CDD de 6 mois"                      -> contractType cdd
+ * - "3 à 5 ans d'expérience"                       -> experienceLevel intermediaire
+ * - "Titulaire d'un BAC+4 en finance"             -> educationLevel bac+4
+ * - "Date limite de dépôt: 30/06/2025"             -> applicationDeadline 2025-06-30
+ */
+export class JobFieldExtractor {
+  static readonly MAX_SKILLS = 10
+
+  /**
+   * Extract every field found in a job title and text (description, metadata...)
+   */
+  static extract(title: string, text: string = ''): JobStructuredFields {
+    const normalizedTitle = this.normalize(title)
+    const normalizedText = this.normalize(text)
+    const all = `${normalizedTitle} ${normalizedText}`
+    const skills = this.extractSkills(all)
+
+    return this.compact({
+      // The title is the most reliable place for the contract ("Stagiaire comptable")
+      contractType: this.parseContractType(normalizedTitle) || this.parseContractType(normalizedText),
+      experienceLevel: this.parseExperienceLevel(all),
+      educationLevel: this.parseEducationLevel(all),
+      applicationDeadline: this.parseDeadline(normalizedText),
+      sector: this.detectSector(normalizedTitle, normalizedText),
+      skills: skills.length > 0 ? skills : undefined,
+    })
+  }
+
+  static parseContractType(text: string): ContractType | undefined {
+    const normalized = this.normalize(text)
+    let best: { type: ContractType; index: number } | undefined
+
+    for (const [type, pattern] of CONTRACT_PATTERNS) {
+      const match = pattern.exec(normalized)
+      if (match && (!best || match.index < best.index)) {
+        best = { type, index: match.index }
+      }
+    }
+
+    return best?.type
+  }
+
+  static parseExperienceLevel(text: string): ExperienceLevel | undefined {
+    const normalized = this.normalize(text)
+
+    const years =
+      normalized.match(/\b(\d{1,2})\s*(?:\+\s*)?(?:(?:a|ou)?\s*\d{1,2}\s*)?ans?\s+(?:minimum\s+)?(?:d\s*)?experience/) ||
+      normalized.match(/\bexperience\s+(?:professionnelle\s+)?(?:minimum\s+|d au moins\s+|de\s+|d\s+)*(\d{1,2})\s*ans?\b/)
+
+    if (years) {
+      const count = parseInt(years[1], 10)
+      if (count <= 2) return ExperienceLevel.JUNIOR
+      if (count <= 5) return ExperienceLevel.INTERMEDIATE
+      return ExperienceLevel.SENIOR
+    }
+
+    if (/\b(senior|expert)\b/.test(normalized)) return ExperienceLevel.SENIOR
+    if (/\b(confirme|experimente)\b/.test(normalized)) return ExperienceLevel.INTERMEDIATE
+    if (/\b(debutant|junior|jeune diplome)\b/.test(normalized)) return ExperienceLevel.JUNIOR
+
+    return undefined
+  }
+
+  static parseEducationLevel(text: string): EducationLevel | undefined {
+    const normalized = this.normalize(text)
+    let best: { level: EducationLevel; index: number } | undefined
+
+    for (const [level, pattern] of EDUCATION_PATTERNS) {
+      const match = pattern.exec(normalized)
+      if (!match || (best && match.index >= best.index)) continue
+
+      if (level === 'bac+n') {
+        const years = Math.min(parseInt(match[1], 10), 5)
+        if (years < 2) continue
+        best = { level: `bac+${years}` as EducationLevel, index: match.index }
+      } else {
+        best = { level, index: match.index }
+      }
+    }
+
+    return best?.level
+  }
+
+  /**
+   * Deadline announced as "Date limite: ..." or "avant le ..."
+   */
+  static parseDeadline(text: string): Date | undefined {
+    const normalized = this.normalize(text)
+    const match = normalized.match(
+      /(?:date limite|avant le|au plus tard le)(?: [a-z]+){0,4}? (\d{1,2} \d{1,2} \d{4}|\d{1,2} [a-z]+ \d{4})/
+    )
+
+    return match ? this.parseDate(match[1]) : undefined
+  }
+
+  /**
+   * Parse "30/06/2025", "30-06-2025" or "30 juin 2025"
+   */
+  static parseDate(text: string): Date | undefined {
+    const parts = this.normalize(text).split(' ')
+    if (parts.length !== 3) return undefined
+
+    const day = parseInt(parts[0], 10)
+    const month = /^\d+$/.test(parts[1]) ? parseInt(parts[1], 10) - 1 : FRENCH_MONTHS[parts[1]]
+    const year = parseInt(parts[2], 10)
+
+    if (isNaN(day) || month === undefined || isNaN(month) || month < 0 || month > 11 || isNaN(year)) {
+      return undefined
+    }
+
+    return new Date(year, month, day)
+  }
+
+  /**
+   * Sector with the most keyword hits, title hits weigh more than text hits
+   */
+  static detectSector(title: string, text: string = ''): string | undefined {
+    const normalizedTitle = this.normalize(title)
+    const normalizedText = this.normalize(text)
+    let best: { sector: string; score: number } | undefined
+
+    for (const [sector, keywords] of Object.entries(SECTOR_KEYWORDS)) {
+      const score = keywords.reduce(
+        (sum, keyword) => sum + (normalizedTitle.includes(keyword) ? 3 : 0) + (normalizedText.includes(keyword) ? 1 : 0),
+        0
+      )
+      if (score > 0 && (!best || score > best.score)) {
+        best = { sector, score }
+      }
+    }
+
+    return best?.sector
+  }
+
+  static extractSkills(text: string): string[] {
+    const normalized = this.normalize(text)
+
+    return KNOWN_SKILLS.filter(([, pattern]) => pattern.test(normalized))
+      .map(([skill]) => skill)
+      .slice(0, this.MAX_SKILLS)
+  }
+
+  /**
+   * Lowercase, strip accents and punctuation (keeps "+" for "bac+3")
+   */
+  private static normalize(text: string): string {
+    return (text || '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9+]+/g, ' ')
+      .trim()
+  }
+
+  private static compact(fields: JobStructuredFields): JobStructuredFields {
+    return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as JobStructuredFields
+  }
+}
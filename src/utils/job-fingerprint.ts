@@ -0,0 +1,122 @@
+import { createHash } from 'crypto'
+import { TitleTransformer } from './title-transformer'
+
+/**
+ * Fields used to compare two job ads, shared by the JobAd model and JobAdEntity
+ */
+export interface FingerprintableJob {
+  title: string
+  company?: string
+  location?: string
+  description?: string
+  postedDate: Date
+  source: string
+}
+
+// Words carrying no meaning when comparing titles
+const TITLE_STOP_WORDS = ['de', 'du', 'd', 'la', 'le', 'l', 'les', 'et', 'des', 'un', 'une', 'en', 'pour', 'a', 'au', 'aux', 'urgent']
+// Legal forms and suffixes ignored when comparing companies
+const COMPANY_STOP_WORDS = ['sa', 'sarl', 'sas', 'sasu', 'ci', 'cote', 'd', 'ivoire', 'ltd', 'inc']
+
+/**
+ * Detect the same vacancy posted on several job boards
+ *
+ * Jobs sharing a fingerprint (normalized title) are compared on:
+ * - posting window: published within a few days of each other
+ * - company: must match when both boards give it
+ * - location: must overlap when both boards give it
+ * - description: word overlap, used as evidence when the company is unknown
+ */
+export class JobFingerprint {
+  static readonly POSTING_WINDOW_DAYS = 10
+  static readonly MIN_DESCRIPTION_WORDS = 20
+  static readonly MIN_DESCRIPTION_SIMILARITY = 0.35
+
+  /**
+   * Stable key of a job title, e.g. "• RESPONSABLE Commercial H/F" -> "responsable commercial"
+   */
+  static normalizeTitle(title: string): string {
+    const words = this.normalizeText(TitleTransformer.transform(title || ''))
+      .split(' ')
+      .filter(word => word && !TITLE_STOP_WORDS.includes(word))
+
+    return words.join(' ')
+  }
+
+  static normalizeCompany(company?: string): string {
+    return this.normalizeText(company || '')
+      .split(' ')
+      .filter(word => word && !COMPANY_STOP_WORDS.includes(word))
+      .join(' ')
+  }
+
+  /**
+   * Fingerprint stored on job_ads, used to find duplicate candidates
+   */
+  static compute(job: Pick<FingerprintableJob, 'title'>): string | undefined {
+    const title = this.normalizeTitle(job.title)
+    if (!title) return undefined
+
+    return createHash('sha1').update(title).digest('hex').slice(0, 16)
+  }
+
+  /**
+   * Tell whether two jobs from different boards are the same vacancy
+   */
+  static isDuplicate(a: FingerprintableJob, b: FingerprintableJob): boolean {
+    if (a.source === b.source) return false
+    if (this.normalizeTitle(a.title) !== this.normalizeTitle(b.title)) return false
+
+    const daysApart = Math.abs(new Date(a.postedDate).getTime() - new Date(b.postedDate).getTime()) / (24 * 60 * 60 * 1000)
+    if (daysApart > this.POSTING_WINDOW_DAYS) return false
+
+    const companyA = this.normalizeCompany(a.company)
+    const companyB = this.normalizeCompany(b.company)
+    const bothCompanies = !!companyA && !!companyB
+    if (bothCompanies && !companyA.includes(companyB) && !companyB.includes(companyA)) return false
+
+    if (a.location && b.location && !this.locationsOverlap(a.location, b.location)) return false
+
+    // A shared title alone is too weak (every bank hires a "Comptable")
+    return bothCompanies || this.descriptionSimilarity(a.description, b.description) >= this.MIN_DESCRIPTION_SIMILARITY
+  }
+
+  /**
+   * Jaccard similarity of the words of two descriptions (0 when one is too short to compare)
+   */
+  static descriptionSimilarity(a?: string, b?: string): number {
+    const wordsA = this.significantWords(a)
+    const wordsB = this.significantWords(b)
+    if (wordsA.size < this.MIN_DESCRIPTION_WORDS || wordsB.size < this.MIN_DESCRIPTION_WORDS) return 0
+
+    const shared = [...wordsA].filter(word => wordsB.has(word)).length
+    return shared / (wordsA.size + wordsB.size - shared)
+  }
+
+  private static locationsOverlap(a: string, b: string): boolean {
+    const wordsA = this.normalizeText(a).split(' ').filter(Boolean)
+    const wordsB = new Set(this.normalizeText(b).split(' ').filter(Boolean))
+    return wordsA.some(word => wordsB.has(word))
+  }
+
+  private static significantWords(text?: string): Set<string> {
+    return new Set(
+      this.normalizeText(text || '')
+        .split(' ')
+        .filter(word => word.length > 3)
+    )
+  }
+
+  /**
+   * Lowercase, strip accents, flags and punctuation
+   */
+  private static normalizeText(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[\u{1F1E6}-\u{1F1FF}]/gu, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim()
+  }
+}
@@ -0,0 +1,151 @@
+import { ContractType } from '@models/JobAd'
+
+/**
+ * Filters understood from a chat search
+ */
+export interface JobSearchFilters {
+  // Canonical city / commune name, e.g. "Bouaké"
+  location?: string
+  contractType?: ContractType
+  postedWithinDays?: number
+  remote?: boolean
+}
+
+export interface ParsedJobQuery {
+  // What is left for the full-text search
+  keywords: string
+  filters: JobSearchFilters
+}
+
+// Cities and Abidjan communes of Côte d'Ivoire
+export const CI_LOCATIONS = [
+  'Abidjan', 'Abobo', 'Adjamé', 'Anyama', 'Attécoubé', 'Bingerville', 'Cocody', 'Koumassi', 'Marcory',
+  'Plateau', 'Port-Bouët', 'Riviera', 'Songon', 'Treichville', 'Yopougon', 'Zone 4',
+  'Aboisso', 'Abengourou', 'Adzopé', 'Agboville', 'Assinie', 'Bondoukou', 'Bouaflé', 'Bouaké', 'Boundiali',
+  'Dabou', 'Daloa', 'Dimbokro', 'Divo', 'Duékoué', 'Ferkessédougou', 'Gagnoa', 'Grand-Bassam', 'Guiglo',
+  'Issia', 'Jacqueville', 'Katiola', 'Korhogo', 'Man', 'Odienné', 'San-Pédro', 'Sassandra', 'Séguéla',
+  'Sinfra', 'Soubré', 'Tiassalé', 'Toumodi', 'Yamoussoukro',
+]
+
+// Patterns run on normalized text (see JobQueryParser.normalize)
+const CONTRACT_KEYWORDS: [ContractType, RegExp][] = [
+  [ContractType.INTERNSHIP, /\b(?:stages?|stagiaires?)\b/],
+  [ContractType.CDI, /\bcdi\b/],
+  [ContractType.CDD, /\bcdd\b/],
+  [ContractType.FREELANCE, /\b(?:freelances?|free\s+lance)\b/],
+]
+
+const RECENCY_KEYWORDS: [number, RegExp][] = [
+  [1, /\b(?:(?:d\s+)?aujourd\s*hui|du\s+jour)\b/],
+  [7, /\b(?:cette\s+semaine|de\s+la\s+semaine|recentes?|derniers\s+jours)\b/],
+  [30, /\b(?:ce\s+mois(?:\s+ci)?|du\s+mois)\b/],
+]
+
+const REMOTE_PATTERN = /\b(?:(?:en\s+)?teletravail|(?:full\s+)?remote|a\s+distance)\b/
+
+const CONTRACT_LABELS: Record<ContractType, string> = {
+  [ContractType.CDI]: 'CDI',
+  [ContractType.CDD]: 'CDD',
+  [ContractType.INTERNSHIP]: 'Stage',
+  [ContractType.FREELANCE]: 'Freelance',
+}
+
+// Words left over once the filters are removed ("offres de stage à Bouaké" -> "offres de")
+const FILLER_WORDS = ['a', 'au', 'aux', 'en', 'sur', 'dans', 'de', 'des', 'du', 'd', 'pour', 'un', 'une', 'offre', 'offres', 'emploi', 'emplois', 'job', 'jobs', 'poste', 'postes']
+
+/**
+ * Parse a chat search into keywords and structured filters
+ *
+ * Examples:
+ * - "stage marketing à Bouaké"          -> keywords "marketing", contract stage, location Bouaké
+ * - "comptable cdi cette semaine"       -> keywords "comptable", contract cdi, last 7 days
+ * - "développeur en télétravail"        -> keywords "développeur", remote
+ */
+export class JobQueryParser {
+  static parse(text: string): ParsedJobQuery {
+    const filters: JobSearchFilters = {}
+    let remaining = text
+
+    // Patterns match the normalized text, which has the same length, so the match is cut from the original
+    const remove = (pattern: RegExp): boolean => {
+      const match = pattern.exec(this.normalize(remaining))
+      if (!match) return false
+
+      remaining = `${remaining.slice(0, match.index)} ${remaining.slice(match.index + match[0].length)}`
+      return true
+    }
+
+    for (const location of CI_LOCATIONS) {
+      const name = this.normalize(location).trim().replace(/\s+/g, '\\s*')
+      if (remove(new RegExp(`(?:\\b(?:a|au|sur|dans|vers|en)\\s+)?\\b${name}\\b`))) {
+        filters.location = location
+        break
+      }
+    }
+
+    for (const [contractType, pattern] of CONTRACT_KEYWORDS) {
+      if (remove(pattern)) {
+        filters.contractType = contractType
+        break
+      }
+    }
+
+    for (const [days, pattern] of RECENCY_KEYWORDS) {
+      if (remove(pattern)) {
+        filters.postedWithinDays = days
+        break
+      }
+    }
+
+    if (remove(REMOTE_PATTERN)) {
+      filters.remote = true
+    }
+
+    if (!this.hasFilters(filters)) {
+      return { keywords: text.trim(), filters }
+    }
+
+    const keywords = remaining
+      .split(/\s+/)
+      .filter(word => word && !FILLER_WORDS.includes(this.normalize(word).trim()))
+      .join(' ')
+
+    return { keywords, filters }
+  }
+
+  static hasFilters(filters: JobSearchFilters): boolean {
+    return Object.values(filters).some(value => value !== undefined)
+  }
+
+  /**
+   * Filters summary sent back to the user, e.g. "📍 Bouaké • 📄 Stage • 🗓️ Cette semaine"
+   */
+  static describe(filters: JobSearchFilters): string {
+    const parts: string[] = []
+
+    if (filters.location) parts.push(`📍 ${filters.location}`)
+    if (filters.contractType) parts.push(`📄 ${CONTRACT_LABELS[filters.contractType]}`)
+    if (filters.postedWithinDays) {
+      const recency =
+        filters.postedWithinDays === 1 ? "Aujourd'hui" : filters.postedWithinDays <= 7 ? 'Cette semaine' : 'Ce mois-ci'
+      parts.push(`🗓️ ${recency}`)
+    }
+    if (filters.remote) parts.push('🏠 Télétravail')
+
+    return parts.join(' • ')
+  }
+
+  /**
+   * Lowercase, strip accents, punctuation becomes spaces
+   * Done character by character so the result keeps the length of the input
+   */
+  private static normalize(text: string): string {
+    return text
+      .split('')
+      .map(char => {
+        const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+        return /^[a-z0-9]$/.test(base) ? base : ' '
+      })
+      .join('')
+  }
+}
@@ -0,0 +1,76 @@
+import type { JobSearchScore } from '@models/JobAd'
+
+export type JobSearchField = keyof JobSearchScore['fields']
+
+/**
+ * Ranking of job search results, the SQL of JobAdRepository.search is built from it
+ *
+ * - text relevance: ts_rank_cd on searchVector, where a title match (A) weighs more than
+ *   a company/location (B), description (C) or page metadata (D) match
+ * - recency: 1 for a job posted now, halving every RECENCY_HALF_LIFE_DAYS
+ * - score = TEXT_RANK_WEIGHT * relevance + RECENCY_WEIGHT * recency (recency only without keywords)
+ */
+export class JobSearchRanking {
+  static readonly FIELD_WEIGHTS: Record<JobSearchField, number> = {
+    title: 1,
+    companyLocation: 0.4,
+    description: 0.2,
+    pageMetadata: 0.1,
+  }
+  static readonly TEXT_RANK_WEIGHT = 0.8
+  static readonly RECENCY_WEIGHT = 0.2
+  static readonly RECENCY_HALF_LIFE_DAYS = 14
+
+  // Order of the weights expected by ts_rank_cd: {D, C, B, A}
+  private static readonly WEIGHTS_ORDER: JobSearchField[] = ['pageMetadata', 'description', 'companyLocation', 'title']
+
+  /**
+   * ts_rank_cd weights array
+   * @param field - Only this weighted part, for the debug score breakdown
+   */
+  static rankWeights(field?: JobSearchField): string {
+    const weights = this.WEIGHTS_ORDER.map(part => (field ? (part === field ? 1 : 0) : this.FIELD_WEIGHTS[part]))
+    return `{${weights.join(', ')}}`
+  }
+
+  static recency(postedDate: Date, now: Date = new Date()): number {
+    const ageDays = Math.max((now.getTime() - postedDate.getTime()) / (24 * 60 * 60 * 1000), 0)
+    return Math.pow(0.5, ageDays / this.RECENCY_HALF_LIFE_DAYS)
+  }
+
+  static recencySql(postedDateColumn: string): string {
+    return `power(0.5, GREATEST(EXTRACT(EPOCH FROM (now() - ${postedDateColumn})) / 86400, 0) / ${this.RECENCY_HALF_LIFE_DAYS})`
+  }
+
+  /**
+   * @param textRank - null when searching without keywords
+   */
+  static score(textRank: number | null, recency: number): number {
+    return textRank === null ? recency : this.TEXT_RANK_WEIGHT * textRank + this.RECENCY_WEIGHT * recency
+  }
+
+  static scoreSql(textRankSql: string | null, recencySql: string): string {
+    return textRankSql === null
+      ? recencySql
+      : `(${this.TEXT_RANK_WEIGHT} * ${textRankSql} + ${this.RECENCY_WEIGHT} * ${recencySql})`
+  }
+
+  /**
+   * Score breakdown of a raw search row (numeric columns come back as strings)
+   */
+  static toSearchScore(row: Record<string, string | number>): JobSearchScore {
+    const value = (column: string) => Number(row[column])
+
+    return {
+      score: value('score'),
+      textRank: value('text_rank'),
+      recency: value('recency'),
+      fields: {
+        title: value('rank_title'),
+        companyLocation: value('rank_company_location'),
+        description: value('rank_description'),
+        pageMetadata: value('rank_page_metadata'),
+      },
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import type { WhatsAppWebhookStatus } from '@models/WhatsAppWebhook'
+
+export type MessageDeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed'
+
+export interface MessageFailureReason {
+  code: number
+  title: string
+  message?: string
+  details?: string
+}
+
+export interface MessageDeliveryState {
+  deliveryStatus?: MessageDeliveryStatus | null
+  sentAt?: number | null
+  deliveredAt?: number | null
+  readAt?: number | null
+  failedAt?: number | null
+  failureReason?: MessageFailureReason | null
+}
+
+/**
+ * Fold WhatsApp status callbacks (sent → delivered → read, or failed) into a saved message
+ *
+ * - callbacks can arrive out of order or twice, the status never goes back
+ *   (a late "delivered" does not overwrite "read")
+ * - "read" implies "delivered", WhatsApp does not always send both
+ * - "failed" wins over everything: a message grouping several job offers is failed
+ *   as soon as one of them could not be delivered
+ */
+export class MessageDeliveryTracker {
+  static readonly STATUS_RANK: Record<MessageDeliveryStatus, number> = {
+    sent: 1,
+    delivered: 2,
+    read: 3,
+    failed: 4,
+  }
+
+  /**
+   * Changes to save for a status callback, null when it brings nothing new
+   * @param current - Delivery fields currently saved on the message
+   * @param status - Status from the webhook (timestamp in unix seconds)
+   */
+  static apply(current: MessageDeliveryState, status: WhatsAppWebhookStatus): MessageDeliveryState | null {
+    // Message deleted by the user, it says nothing about delivery
+    if (status.status === 'deleted') return null
+
+    const at = Number(status.timestamp) * 1000
+    const changes: MessageDeliveryState = {}
+
+    const setEarliest = (field: 'sentAt' | 'deliveredAt' | 'readAt' | 'failedAt') => {
+      const value = current[field]
+      if (value === null || value === undefined || Number(value) > at) {
+        changes[field] = at
+      }
+    }
+
+    switch (status.status) {
+      case 'sent':
+        setEarliest('sentAt')
+        break
+      case 'delivered':
+        setEarliest('deliveredAt')
+        break
+      case 'read':
+        setEarliest('deliveredAt')
+        setEarliest('readAt')
+        break
+      case 'failed': {
+        setEarliest('failedAt')
+        const error = status.errors?.[0]
+        if (error && !current.failureReason) {
+          changes.failureReason = {
+            code: error.code,
+            title: error.title,
+            message: error.message,
+            details: error.error_data?.details,
+          }
+        }
+        break
+      }
+    }
+
+    const currentRank = current.deliveryStatus ? this.STATUS_RANK[current.deliveryStatus] : 0
+    if (this.STATUS_RANK[status.status] > currentRank) {
+      changes.deliveryStatus = status.status
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null
+  }
+}
@@ -0,0 +1,159 @@
+import type { JobAd } from '@models/JobAd'
+
+export type ScraperHealthStatus = 'healthy' | 'degraded'
+
+export interface FieldFillRatios {
+  company: number
+  location: number
+  description: number
+}
+
+/**
+ * What a single scrape run produced
+ */
+export interface ScrapeRunStats {
+  jobsScraped: number
+  // Items of the listing pages, more than jobsScraped when the scraper skips known jobs
+  listingItemsFound: number
+  // Share of scraped jobs with a non empty field, null when nothing was scraped
+  fillRatios: FieldFillRatios | null
+  dateParseFailures: number
+  dateParseFailureSamples?: string[]
+  error?: string
+}
+
+export interface ScraperHealthMetrics {
+  lastRunAt: string
+  jobsScraped: number
+  fillRatios: FieldFillRatios | null
+  // Moving average of the fill ratios of healthy runs, what "normal" looks like for this source
+  baselineFillRatios?: FieldFillRatios
+  dateParseFailures: number
+  dateParseFailureSamples?: string[]
+  lastError?: string
+  reasons: string[]
+}
+
+export interface ScraperHealthState {
+  healthStatus: ScraperHealthStatus
+  consecutiveEmptyRuns: number
+  healthMetrics?: ScraperHealthMetrics | null
+}
+
+const FILL_RATIO_FIELDS: (keyof FieldFillRatios)[] = ['company', 'location', 'description']
+
+/**
+ * Decide whether a scraper source looks broken
+ *
+ * A source is degraded when:
+ * - several runs in a row found an empty listing (or failed)
+ * - a field is filled much less often than usual (e.g. a selector stopped matching)
+ * - most published dates could not be parsed
+ */
+export class ScraperHealthEvaluator {
+  static readonly MAX_CONSECUTIVE_EMPTY_RUNS = 3
+  // Fill ratios are only meaningful with enough jobs
+  static readonly MIN_JOBS_FOR_FILL_RATIOS = 5
+  // Absolute drop from the baseline (0.5 = 50 points) considered as a breakage
+  static readonly MAX_FILL_RATIO_DROP = 0.5
+  static readonly MAX_DATE_PARSE_FAILURE_RATIO = 0.5
+  // Weight of the latest run in the baseline moving average
+  static readonly BASELINE_WEIGHT = 0.2
+
+  /**
+   * Build the run stats from the jobs returned by a scraper
+   */
+  static collect(
+    jobs: JobAd[],
+    dateParseFailures: number = 0,
+    dateParseFailureSamples: string[] = [],
+    error?: string,
+    listingItemsFound: number | null = null
+  ): ScrapeRunStats {
+    const filled = (field: keyof FieldFillRatios) =>
+      jobs.filter(job => (job[field] || '').trim().length > 0).length / jobs.length
+
+    return {
+      jobsScraped: jobs.length,
+      listingItemsFound: listingItemsFound ?? jobs.length,
+      fillRatios:
+        jobs.length > 0
+          ? { company: filled('company'), location: filled('location'), description: filled('description') }
+          : null,
+      dateParseFailures,
+      dateParseFailureSamples: dateParseFailureSamples.length > 0 ? dateParseFailureSamples : undefined,
+      error,
+    }
+  }
+
+  /**
+   * Compute the new health of a source after a run
+   */
+  static evaluate(previous: ScraperHealthState, run: ScrapeRunStats, now: Date = new Date()): ScraperHealthState {
+    // A listing of known jobs only is a quiet run, not an empty one
+    const consecutiveEmptyRuns = run.listingItemsFound === 0 ? previous.consecutiveEmptyRuns + 1 : 0
+    const baseline = previous.healthMetrics?.baselineFillRatios
+    const reasons: string[] = []
+
+    if (consecutiveEmptyRuns >= this.MAX_CONSECUTIVE_EMPTY_RUNS) {
+      reasons.push(`${consecutiveEmptyRuns} consecutive runs without jobs`)
+    }
+
+    if (run.fillRatios && baseline && run.jobsScraped >= this.MIN_JOBS_FOR_FILL_RATIOS) {
+      for (const field of FILL_RATIO_FIELDS) {
+        if (baseline[field] - run.fillRatios[field] >= this.MAX_FILL_RATIO_DROP) {
+          reasons.push(
+            `${field} filled on ${this.percent(run.fillRatios[field])} of jobs (usually ${this.percent(baseline[field])})`
+          )
+        }
+      }
+    }
+
+    if (run.jobsScraped > 0 && run.dateParseFailures / run.jobsScraped > this.MAX_DATE_PARSE_FAILURE_RATIO) {
+      reasons.push(`Date parsing failed for ${run.dateParseFailures}/${run.jobsScraped} jobs`)
+    }
+
+    const healthStatus: ScraperHealthStatus = reasons.length > 0 ? 'degraded' : 'healthy'
+
+    return {
+      healthStatus,
+      consecutiveEmptyRuns,
+      healthMetrics: {
+        lastRunAt: now.toISOString(),
+        jobsScraped: run.jobsScraped,
+        fillRatios: run.fillRatios,
+        baselineFillRatios: this.nextBaseline(baseline, run, healthStatus),
+        dateParseFailures: run.dateParseFailures,
+        dateParseFailureSamples: run.dateParseFailureSamples,
+        lastError: run.error,
+        reasons,
+      },
+    }
+  }
+
+  /**
+   * Only healthy runs with enough jobs move the baseline, so a breakage does not become the new normal
+   */
+  private static nextBaseline(
+    baseline: FieldFillRatios | undefined,
+    run: ScrapeRunStats,
+    healthStatus: ScraperHealthStatus
+  ): FieldFillRatios | undefined {
+    if (!run.fillRatios || healthStatus !== 'healthy' || run.jobsScraped < this.MIN_JOBS_FOR_FILL_RATIOS) {
+      return baseline
+    }
+    if (!baseline) {
+      return run.fillRatios
+    }
+
+    const ratios = run.fillRatios
+    const average = (field: keyof FieldFillRatios) =>
+      baseline[field] * (1 - this.BASELINE_WEIGHT) + ratios[field] * this.BASELINE_WEIGHT
+
+    return { company: average('company'), location: average('location'), description: average('description') }
+  }
+
+  private static percent(ratio: number): string {
+    return `${Math.round(ratio * 100)}%`
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Server-Sent Events wire format (text/event-stream)
+ * https://html.spec.whatwg.org/multipage/server-sent-events.html
+ */
+export class ServerSentEvents {
+  static readonly HEADERS = {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Disables response buffering of nginx
+    'X-Accel-Buffering': 'no',
+  }
+
+  /**
+   * One event, data serialized as JSON on a single line
+   */
+  static format(event: string, data: unknown, id?: string): string {
+    const lines = [`event: ${event}`]
+    if (id) lines.push(`id: ${id}`)
+    lines.push(`data: ${JSON.stringify(data)}`)
+
+    return `${lines.join('\n')}\n\n`
+  }
+
+  /**
+   * Comment line, ignored by clients, keeps idle connections open through proxies
+   */
+  static comment(text: string): string {
+    return `: ${text.replace(/\n/g, ' ')}\n\n`
+  }
+}
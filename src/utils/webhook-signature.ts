@@ -0,0 +1,25 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+/**
+ * X-Hub-Signature-256 header sent by Meta with each webhook:
+ * "sha256=" + HMAC-SHA256 of the raw request body, keyed with the app secret
+ *
+ * The body must be verified exactly as received, re-serializing the parsed JSON changes it
+ */
+export class WebhookSignature {
+  static readonly PREFIX = 'sha256='
+
+  static sign(rawBody: string, appSecret: string): string {
+    return `${this.PREFIX}${createHmac('sha256', appSecret).update(rawBody, 'utf8').digest('hex')}`
+  }
+
+  static verify(rawBody: string, signatureHeader: string | null | undefined, appSecret: string): boolean {
+    if (!signatureHeader?.startsWith(this.PREFIX)) return false
+
+    const expected = Buffer.from(this.sign(rawBody, appSecret))
+    const received = Buffer.from(signatureHeader.trim())
+
+    // timingSafeEqual throws on length mismatch
+    return expected.length === received.length && timingSafeEqual(expected, received)
+  }
+}
@@ -0,0 +1,80 @@
+import { Worker, Job } from 'bullmq'
+import { getRedisConnection } from '@config/redis'
+import { DelayedMessageJobData } from '../queues/delayed-message.queue'
+import { Logger } from '../utils/logger'
+import { DelayedMessageSender } from '../services/delayed-message-sender.service'
+import { ChatHistoryService } from '../services/chat-history.service'
+import { ConversationStateService } from '../services/conversation-state.service'
+
+let delayedMessageWorker: Worker<DelayedMessageJobData> | null = null
+let delayedMessageSender: DelayedMessageSender | null = null
+
+async function processDelayedMessageJob(job: Job<DelayedMessageJobData>): Promise<void> {
+  const { type, phoneNumber } = job.data
+
+  if (!delayedMessageSender) {
+    const redis = getRedisConnection(
+      process.env.REDIS_HOST || 'localhost',
+      parseInt(process.env.REDIS_PORT || '6379'),
+      process.env.REDIS_PASSWORD
+    )
+    delayedMessageSender = new DelayedMessageSender(
+      new ChatHistoryService(redis),
+      new ConversationStateService(redis)
+    )
+  }
+
+  const result = await delayedMessageSender.deliver(job.data)
+
+  Logger.info('Delayed message processed', {
+    jobId: job.id,
+    type,
+    phoneNumber,
+    result,
+  })
+}
+
+export function startDelayedMessageWorker(
+  redisHost: string,
+  redisPort: number,
+  redisPassword?: string
+): Worker<DelayedMessageJobData> {
+  if (delayedMessageWorker) {
+    return delayedMessageWorker
+  }
+
+  const connection = getRedisConnection(redisHost, redisPort, redisPassword)
+
+  delayedMessageWorker = new Worker<DelayedMessageJobData>(
+    'delayed-messages',
+    processDelayedMessageJob,
+    {
+      connection,
+      concurrency: 5,
+    }
+  )
+
+  delayedMessageWorker.on('failed', (job, err) => {
+    Logger.error('Delayed message worker job failed', {
+      jobId: job?.id,
+      type: job?.data.type,
+      error: err.message,
+    })
+  })
+
+  delayedMessageWorker.on('error', (err) => {
+    Logger.error('Delayed message worker error', { error: err.message })
+  })
+
+  Logger.success('Delayed message worker started', { concurrency: 5 })
+
+  return delayedMessageWorker
+}
+
+export async function stopDelayedMessageWorker(): Promise<void> {
+  if (delayedMessageWorker) {
+    await delayedMessageWorker.close()
+    delayedMessageWorker = null
+    Logger.info('Delayed message worker stopped')
+  }
+}
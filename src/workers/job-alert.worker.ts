@@ -0,0 +1,83 @@
+import { Worker, Job } from 'bullmq'
+import { getRedisConnection } from '@config/redis'
+import { JobAlertJobData } from '../queues/job-alert.queue'
+import { Logger } from '../utils/logger'
+import { JobAlertService } from '../services/job-alert.service'
+import { ChatHistoryService } from '../services/chat-history.service'
+
+let jobAlertWorker: Worker<JobAlertJobData> | null = null
+let jobAlertService: JobAlertService | null = null
+
+async function processJobAlertJob(job: Job<JobAlertJobData>): Promise<void> {
+  const { jobAdIds, sourceName } = job.data
+
+  Logger.info('Job alert matching started', {
+    jobId: job.id,
+    sourceName,
+    jobs: jobAdIds.length,
+  })
+
+  if (!jobAlertService) {
+    const redis = getRedisConnection(
+      process.env.REDIS_HOST || 'localhost',
+      parseInt(process.env.REDIS_PORT || '6379'),
+      process.env.REDIS_PASSWORD
+    )
+    jobAlertService = new JobAlertService(new ChatHistoryService(redis))
+  }
+
+  await jobAlertService.notifyNewJobs(jobAdIds)
+}
+
+export function startJobAlertWorker(
+  redisHost: string,
+  redisPort: number,
+  redisPassword?: string
+): Worker<JobAlertJobData> {
+  if (jobAlertWorker) {
+    return jobAlertWorker
+  }
+
+  const connection = getRedisConnection(redisHost, redisPort, redisPassword)
+
+  // Concurrency 1: frequency caps rely on alerts being processed one run at a time
+  jobAlertWorker = new Worker<JobAlertJobData>(
+    'job-alerts',
+    processJobAlertJob,
+    {
+      connection,
+      concurrency: 1,
+    }
+  )
+
+  jobAlertWorker.on('completed', (job) => {
+    Logger.success('Job alert worker completed job', {
+      jobId: job.id,
+      sourceName: job.data.sourceName,
+    })
+  })
+
+  jobAlertWorker.on('failed', (job, err) => {
+    Logger.error('Job alert worker job failed', {
+      jobId: job?.id,
+      sourceName: job?.data.sourceName,
+      error: err.message,
+    })
+  })
+
+  jobAlertWorker.on('error', (err) => {
+    Logger.error('Job alert worker error', { error: err.message })
+  })
+
+  Logger.success('Job alert worker started', { concurrency: 1 })
+
+  return jobAlertWorker
+}
+
+export async function stopJobAlertWorker(): Promise<void> {
+  if (jobAlertWorker) {
+    await jobAlertWorker.close()
+    jobAlertWorker = null
+    Logger.info('Job alert worker stopped')
+  }
+}
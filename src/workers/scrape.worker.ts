@@ -1,94 +1,143 @@
-import { Worker, Job } from 'bullmq'
+import { Worker, Job, UnrecoverableError } from 'bullmq'
 import { getRedisConnection } from '@config/redis'
-import { ScrapeJobData } from '../queues/scrape.queue'
+import { ScrapeJobData, ScrapeJobProgress } from '../queues/scrape.queue'
+import { getJobAlertQueue } from '../queues/job-alert.queue'
 import { Logger } from '../utils/logger'
-import { JobAdRepository } from '@/db/repositories/JobAdRepository'
 import { ScraperSourceRepository } from '@/db/repositories/ScraperSourceRepository'
-import { JobAd } from '@/models/JobAd'
-import { SociumScraper } from '@/scrapers/SociumScraper'
-import { EduCarriereScraper } from '@/scrapers/EduCarriereScraper'
-import { JobIvoireScraper } from '@/scrapers/JobIvoireScraper'
-import { OptionCarriereScraper } from '@/scrapers/OptionCarriereScraper'
-import { ProJobIvoireScraper } from '@/scrapers/ProJobIvoireScraper'
-import { DjamoScraper } from '@/scrapers/DjamoScraper'
+import { ScrapeMode } from '@/models/ScrapeSession'
+import { scraperRegistry, UnknownScraperError, type Scraper } from '@/scrapers'
+import { ScraperHealthService } from '@/services/scraper-health.service'
+import { ScrapeRunService, type ScrapeRunResult } from '@/services/scrape-run.service'
+import { ScraperHealthEvaluator } from '@/utils/scraper-health'
+import { getAdminEventsService } from '@config/admin-events'
 
 let scrapeWorker: Worker<ScrapeJobData> | null = null
 
 async function processScrapeJob(job: Job<ScrapeJobData>): Promise<void> {
-  const { sourceId, sourceName, maxPages } = job.data
+  const { sourceId, sourceName, maxPages, mode = ScrapeMode.AUTOMATIC } = job.data
 
   Logger.info('Scraping job started', {
     jobId: job.id,
     sourceId,
     sourceName,
     maxPages,
+    mode,
   })
 
-  const jobRepo = new JobAdRepository()
   const sourceRepo = new ScraperSourceRepository()
+  const runService = new ScrapeRunService()
+
+  // Every run is recorded, including the ones failing before the first page
+  const session = await runService.start(sourceId, sourceName, mode)
+
+  // Completed or failed run, shown live in the admin portal
+  const publishFinished = async () => {
+    await getAdminEventsService().publish({
+      type: 'scrape.finished',
+      data: {
+        id: session.id,
+        sourceName,
+        status: session.status,
+        pagesScraped: session.pagesScraped,
+        jobsFound: session.jobsFound,
+        jobsUpdated: session.jobsUpdated,
+        durationMs: session.getDuration(),
+        errors: session.errors,
+      },
+    })
+  }
 
-  // pick scraper by sourceName
-  const pickScraper = (name: string) => {
-    const key = name.toLowerCase()
-    if (key.includes('socium')) return new SociumScraper()
-    if (key.includes('educarriere') || key.includes('edu')) return new EduCarriereScraper()
-    if (key.includes('jobivoire')) return new JobIvoireScraper()
-    if (key.includes('optioncarriere') || key.includes('option')) return new OptionCarriereScraper()
-    if (key.includes('projobivoire') || key.includes('projob')) return new ProJobIvoireScraper()
-    if (key.includes('djamo')) return new DjamoScraper()
-    return null
+  const source = await sourceRepo.findById(sourceId)
+  const scraperKey = source ? scraperRegistry.resolveKey(source) : null
+
+  // Backfill the key of sources seeded before scraper keys existed
+  if (source && scraperKey && !source.scraperKey) {
+    await sourceRepo.update(source.id, { scraperKey })
+    Logger.info('Scraper key backfilled from the source name', { sourceName, scraperKey })
   }
 
-  const scraper: any = pickScraper(sourceName)
-  if (!scraper) {
-    Logger.error('No scraper found for source', { sourceName })
-    return
+  let scraper: Scraper
+  try {
+    scraper = scraperRegistry.create(scraperKey ?? source?.scraperKey)
+  } catch (error: any) {
+    if (!(error instanceof UnknownScraperError)) throw error
+
+    Logger.error('No scraper registered for source', {
+      sourceName,
+      scraperKey: source?.scraperKey,
+      registered: scraperRegistry.keys(),
+    })
+
+    await runService.fail(session, error.message)
+    await publishFinished()
+
+    // Retrying will not register the scraper, fail the job right away
+    throw new UnrecoverableError(error.message)
   }
 
-  let totalSaved = 0
-  let page = 1
+  // Non paginated boards only have a single listing page
+  const pagesToScrape = scraper.capabilities.paginated ? (maxPages || 1) : 1
+  const run: ScrapeRunResult = { scrapedJobs: [], createdJobIds: [] }
 
-  try {
-    for (page = 1; page <= (maxPages || 1); page++) {
-      Logger.info('Scraping page', { sourceName, page })
-
-      // Many scrapers accept page param; some ignore it
-      const results: JobAd[] = await scraper.scrape(page)
-
-      if (!results || results.length === 0) {
-        Logger.info('No jobs found on page', { sourceName, page })
-        break
-      }
-
-      for (const jobAd of results) {
-        try {
-          const saved = await jobRepo.saveModel(jobAd)
-          if (saved) {
-            totalSaved++
-            Logger.success('Job saved', { url: jobAd.url, title: jobAd.title })
-          } else {
-            Logger.debug('Skipping job (already exists with same version)', { url: jobAd.url })
-          }
-        } catch (err: any) {
-          Logger.error('Failed saving job', { url: jobAd.url, error: err?.message })
-        }
-      }
+  const reportProgress = async (page: number) => {
+    const progress: ScrapeJobProgress = {
+      page,
+      totalPages: pagesToScrape,
+      jobsFound: session.jobsFound,
+      jobsUpdated: session.jobsUpdated,
     }
+    await job.updateProgress(progress)
+  }
 
-    // mark source as scraped, last page is page-1 if loop ended
-    const lastPage = Math.max(1, page - 1)
-    await sourceRepo.markAsScraped(sourceId, lastPage, totalSaved)
+  // Health tracking must never fail the scrape job itself
+  const recordHealth = async (error?: string) => {
+    try {
+      const stats = ScraperHealthEvaluator.collect(
+        run.scrapedJobs,
+        scraper.diagnostics?.dateParseFailures,
+        scraper.diagnostics?.dateParseFailureSamples,
+        error,
+        scraper.diagnostics?.listingItemsFound
+      )
+      await new ScraperHealthService().recordRun(sourceId, stats)
+    } catch (err: any) {
+      Logger.error('Failed recording scraper health', { sourceName, error: err?.message })
+    }
+  }
 
-    Logger.success('Scraping job completed', {
-      jobId: job.id,
-      sourceName,
-      pagesScraped: lastPage,
-      jobsSaved: totalSaved,
-    })
+  try {
+    await runService.run(session, scraper, pagesToScrape, run, reportProgress)
   } catch (error: any) {
     Logger.error('Error during scraping job', { error: error?.message })
+    await publishFinished()
+    // Retried attempts of the same run only count once, on the last attempt
+    if (job.attemptsMade + 1 >= (job.opts.attempts || 1)) {
+      await recordHealth(error?.message || String(error))
+    }
     throw error
   }
+
+  await recordHealth()
+  await publishFinished()
+
+  // Hand new jobs over to the job alert worker
+  if (run.createdJobIds.length > 0) {
+    const alertQueue = getJobAlertQueue(
+      process.env.REDIS_HOST || 'localhost',
+      parseInt(process.env.REDIS_PORT || '6379'),
+      process.env.REDIS_PASSWORD
+    )
+    await alertQueue.add('match-alerts', { jobAdIds: run.createdJobIds, sourceName })
+  }
+
+  Logger.success('Scraping job completed', {
+    jobId: job.id,
+    sessionId: session.sessionId,
+    sourceName,
+    pagesScraped: session.pagesScraped,
+    jobsSaved: session.jobsFound,
+    jobsUpdated: session.jobsUpdated,
+  })
 }
 
 export function startScrapeWorker(
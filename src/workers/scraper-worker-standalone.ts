@@ -2,8 +2,10 @@ import { initializeDatabase } from '../db'
 import { startScrapeWorker } from './scrape.worker'
 import { closeRedisConnection } from '@config/redis'
 import { closeScrapeQueue } from '../queues/scrape.queue'
+import { closeJobAlertQueue } from '../queues/job-alert.queue'
 import { ScraperSourceRepository } from '../db/repositories/ScraperSourceRepository'
 import { ScrapeSchedulerService } from '../services/scrape-scheduler.service'
+import { JobExpiryService } from '../services/job-expiry.service'
 import { Logger } from '../utils/logger'
 import { Cron } from 'croner'
 
@@ -50,14 +52,46 @@ const weekendCron = new Cron(
   }
 )
 
+// Job expiry: hourly sweep of jobs past their deadline, nightly check that source pages still exist
+const jobExpiryService = new JobExpiryService()
+const expirySweepCron = new Cron(
+  process.env.JOB_EXPIRY_SWEEP_CRON || '15 * * * *',
+  { protect: true },
+  async () => {
+    Logger.info('Running job expiry sweep')
+    // croner doesn't catch a rejected callback, the error would exit the worker
+    try {
+      await jobExpiryService.sweep()
+    } catch (error: any) {
+      Logger.error('Error sweeping expired jobs', { error: error?.message })
+    }
+  }
+)
+
+const revalidationCron = new Cron(
+  process.env.JOB_REVALIDATION_CRON || '0 2 * * *',
+  { protect: true },
+  async () => {
+    Logger.info('Running job URL revalidation')
+    try {
+      await jobExpiryService.revalidate()
+    } catch (error: any) {
+      Logger.error('Error revalidating job URLs', { error: error?.message })
+    }
+  }
+)
+
 Logger.success('Scraper worker started with cron-based scrape checks (Mon-Fri 9am-8pm every 20min, Sat-Sun 10am & 4pm)')
 
 const shutdown = async (signal: string) => {
   Logger.info(`${signal} received, shutting down scraper worker gracefully`)
   weekdayCron.stop()
   weekendCron.stop()
+  expirySweepCron.stop()
+  revalidationCron.stop()
   await scrapeWorker.close()
   await closeScrapeQueue()
+  await closeJobAlertQueue()
   await closeRedisConnection()
   process.exit(0)
 }
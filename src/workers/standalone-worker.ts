@@ -1,11 +1,17 @@
 import { initializeDatabase } from '../db'
 import { startScrapeWorker } from './scrape.worker'
 import { startWhatsAppMessageWorker } from './whatsapp-message.worker'
-import { closeRedisConnection } from '@config/redis'
+import { startJobAlertWorker } from './job-alert.worker'
+import { startDelayedMessageWorker } from './delayed-message.worker'
+import { closeRedisConnection, getRedisConnection } from '@config/redis'
 import { closeScrapeQueue } from '../queues/scrape.queue'
 import { closeWhatsAppMessageQueue } from '../queues/whatsapp-message.queue'
+import { closeJobAlertQueue } from '../queues/job-alert.queue'
+import { closeDelayedMessageQueue } from '../queues/delayed-message.queue'
 import { ScraperSourceRepository } from '../db/repositories/ScraperSourceRepository'
 import { ScrapeSchedulerService } from '../services/scrape-scheduler.service'
+import { JobExpiryService } from '../services/job-expiry.service'
+import { ConversationLifecycleService } from '../services/conversation-lifecycle.service'
 import { Logger } from '../utils/logger'
 import { Cron } from 'croner'
 
@@ -26,6 +32,19 @@ const whatsappWorker = startWhatsAppMessageWorker(
   process.env.REDIS_PASSWORD
 )
 
+const jobAlertWorker = startJobAlertWorker(
+  process.env.REDIS_HOST || 'localhost',
+  parseInt(process.env.REDIS_PORT || '6379'),
+  process.env.REDIS_PASSWORD
+)
+
+// Bot messages sent some time after the user's message ("see more" prompt)
+const delayedMessageWorker = startDelayedMessageWorker(
+  process.env.REDIS_HOST || 'localhost',
+  parseInt(process.env.REDIS_PORT || '6379'),
+  process.env.REDIS_PASSWORD
+)
+
 // Run initial scrape check on startup
 const scraperSourceRepo = new ScraperSourceRepository()
 const scheduler = new ScrapeSchedulerService(
@@ -58,16 +77,73 @@ const weekendCron = new Cron(
   }
 )
 
+// Job expiry: hourly sweep of jobs past their deadline, nightly check that source pages still exist
+const jobExpiryService = new JobExpiryService()
+const expirySweepCron = new Cron(
+  process.env.JOB_EXPIRY_SWEEP_CRON || '15 * * * *',
+  { protect: true },
+  async () => {
+    Logger.info('Running job expiry sweep')
+    // croner doesn't catch a rejected callback, the error would exit the worker
+    try {
+      await jobExpiryService.sweep()
+    } catch (error: any) {
+      Logger.error('Error sweeping expired jobs', { error: error?.message })
+    }
+  }
+)
+
+const revalidationCron = new Cron(
+  process.env.JOB_REVALIDATION_CRON || '0 2 * * *',
+  { protect: true },
+  async () => {
+    Logger.info('Running job URL revalidation')
+    try {
+      await jobExpiryService.revalidate()
+    } catch (error: any) {
+      Logger.error('Error revalidating job URLs', { error: error?.message })
+    }
+  }
+)
+
+// Conversations: close the ones whose Redis session expired, as completed or abandoned
+const conversationLifecycleService = new ConversationLifecycleService(
+  getRedisConnection(
+    process.env.REDIS_HOST || 'localhost',
+    parseInt(process.env.REDIS_PORT || '6379'),
+    process.env.REDIS_PASSWORD
+  )
+)
+const conversationSweepCron = new Cron(
+  process.env.CONVERSATION_SWEEP_CRON || '*/5 * * * *',
+  { protect: true },
+  async () => {
+    Logger.info('Running conversation sweep')
+    try {
+      await conversationLifecycleService.sweep()
+    } catch (error: any) {
+      Logger.error('Error sweeping conversations', { error: error?.message })
+    }
+  }
+)
+
 Logger.success('Standalone worker started with cron-based scrape checks (Mon-Fri 9am-8pm every 20min, Sat-Sun 10am & 4pm)')
 
 const shutdown = async (signal: string) => {
   Logger.info(`${signal} received, shutting down workers gracefully`)
   weekdayCron.stop()
   weekendCron.stop()
+  expirySweepCron.stop()
+  revalidationCron.stop()
+  conversationSweepCron.stop()
   await scrapeWorker.close()
   await whatsappWorker.close()
+  await jobAlertWorker.close()
+  await delayedMessageWorker.close()
   await closeScrapeQueue()
   await closeWhatsAppMessageQueue()
+  await closeJobAlertQueue()
+  await closeDelayedMessageQueue()
   await closeRedisConnection()
   process.exit(0)
 }
@@ -1,25 +1,110 @@
-import { Worker, Job } from 'bullmq'
+import { Worker, Job, DelayedError } from 'bullmq'
 import { getRedisConnection } from '@config/redis'
-import { WhatsAppMessageJobData } from '../queues/whatsapp-message.queue'
+import { getExperimentService } from '@config/experiments'
+import { WhatsAppMessageJobData, getWhatsAppMessageQueue } from '../queues/whatsapp-message.queue'
 import { Logger } from '../utils/logger'
 import { WhatsAppMessageService } from '../services/whatsapp-message.service'
-import { WhatsAppMessageNLPService } from '../services/whatsapp-message-nlp.service'
-import { WhatsAppMessageLangchainService } from '../services/whatsapp-message-langchain.service'
 import { ConversationStateService } from '../services/conversation-state.service'
 import { ChatHistoryService } from '../services/chat-history.service'
-import { FeatureFlags } from '../config/feature-flags'
+import { WhatsAppWebhookService } from '../services/whatsapp-webhook.service'
+import { MessageStatusService } from '../services/message-status.service'
+import { MessageDeduplicationService } from '../services/message-deduplication.service'
+import { MessageOrderingService } from '../services/message-ordering.service'
+import { DelayedMessageService } from '../services/delayed-message.service'
+import { getDelayedMessageQueue } from '../queues/delayed-message.queue'
+import { getWebhookSender } from '../models/WhatsAppWebhook'
+import { IntentResolverSelector } from '../intents'
 
 let whatsappMessageWorker: Worker<WhatsAppMessageJobData> | null = null
-let conversationStateService: ConversationStateService | null = null
-let chatHistoryService: ChatHistoryService | null = null
-let whatsappNLPService: WhatsAppMessageNLPService | null = null
-let whatsappLangchainService: WhatsAppMessageLangchainService | null = null
+let whatsappService: WhatsAppMessageService | null = null
+let webhookService: WhatsAppWebhookService | null = null
+let messageStatusService: MessageStatusService | null = null
+let orderingService: MessageOrderingService | null = null
+
+// How long a message waits before checking again whether its turn has come
+const ORDER_RETRY_DELAY_MS = 500
+
+/**
+ * Process the messages of a phone number one at a time and in reception order,
+ * messages of different phone numbers still run concurrently
+ */
+async function processWhatsAppMessage(job: Job<WhatsAppMessageJobData>, token?: string): Promise<void> {
+  const { phoneNumber, ticket } = job.data
+
+  // Status-only webhooks and jobs enqueued before tickets existed are not ordered
+  if (!phoneNumber || ticket === undefined) {
+    return handleWhatsAppMessage(job)
+  }
+
+  if (!orderingService) {
+    orderingService = new MessageOrderingService(
+      getRedisConnection(
+        process.env.REDIS_HOST || 'localhost',
+        parseInt(process.env.REDIS_PORT || '6379'),
+        process.env.REDIS_PASSWORD
+      )
+    )
+  }
+
+  if (!(await orderingService.canProcess(phoneNumber, ticket, job.timestamp))) {
+    // A previous message of this user is still in progress, free the worker slot meanwhile
+    Logger.debug('Waiting for previous messages of the user', { jobId: job.id, phoneNumber, ticket })
+    await job.moveToDelayed(Date.now() + ORDER_RETRY_DELAY_MS, token)
+    throw new DelayedError()
+  }
 
-async function processWhatsAppMessage(job: Job<WhatsAppMessageJobData>): Promise<void> {
-  const { payload, receivedAt } = job.data
+  try {
+    await handleWhatsAppMessage(job)
+    await orderingService.complete(phoneNumber, ticket)
+  } catch (error) {
+    // Keep the next messages waiting while this one can still be retried
+    if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+      await orderingService.complete(phoneNumber, ticket)
+    }
+    throw error
+  }
+}
+
+async function handleWhatsAppMessage(job: Job<WhatsAppMessageJobData>): Promise<void> {
+  const { receivedAt } = job.data
+
+  if (!webhookService) {
+    webhookService = new WhatsAppWebhookService()
+  }
+
+  // Payloads are validated by the webhook endpoint, this also covers jobs enqueued before it did
+  const validation = webhookService.validate(job.data.payload)
+  if (!validation.success) {
+    await webhookService.quarantine(JSON.stringify(job.data.payload ?? null), 'invalid_payload', validation.errors)
+    return
+  }
+  const payload = validation.payload
+
+  // Delivery / read statuses of the messages we sent
+  if (!messageStatusService) {
+    messageStatusService = new MessageStatusService(
+      undefined,
+      getWhatsAppMessageQueue(
+        process.env.REDIS_HOST || 'localhost',
+        parseInt(process.env.REDIS_PORT || '6379'),
+        process.env.REDIS_PASSWORD
+      )
+    )
+  }
+  try {
+    await messageStatusService.applyStatuses(payload, job.data.statusRetry)
+  } catch (error: any) {
+    // Don't retry the whole job (and answer the user twice) for a status
+    Logger.error('Error saving message statuses', { jobId: job.id, error: error?.message })
+  }
 
   // Extract phone number from payload to check feature flags
-  const phoneNumber = payload.entry[0]?.changes[0]?.value?.messages?.[0]?.from
+  const phoneNumber = getWebhookSender(payload)
+
+  // Status-only webhook, nothing to answer
+  if (!phoneNumber) {
+    return
+  }
 
   Logger.info('Processing WhatsApp message', {
     jobId: job.id,
@@ -28,53 +113,32 @@ async function processWhatsAppMessage(job: Job<WhatsAppMessageJobData>): Promise
   })
 
   // Create services if they don't exist (singleton pattern)
-  if (!conversationStateService || !chatHistoryService) {
+  if (!whatsappService) {
     const redis = getRedisConnection(
       process.env.REDIS_HOST || 'localhost',
       parseInt(process.env.REDIS_PORT || '6379'),
       process.env.REDIS_PASSWORD
     )
-    conversationStateService = new ConversationStateService(redis)
-    chatHistoryService = new ChatHistoryService(redis)
-  }
-
-  try {
-    // Check feature flags in priority order: Langchain > NLP > XState
-    if (phoneNumber && FeatureFlags.isLangchainEnabled(phoneNumber)) {
-      Logger.info('[FeatureFlag] Using Langchain+Grok conversation handler', { phoneNumber })
-
-      // Initialize Langchain service if needed
-      if (!whatsappLangchainService) {
-        const redis = getRedisConnection(
+    whatsappService = new WhatsAppMessageService(
+      new ConversationStateService(redis),
+      new ChatHistoryService(redis),
+      new MessageDeduplicationService(redis),
+      new DelayedMessageService(
+        getDelayedMessageQueue(
           process.env.REDIS_HOST || 'localhost',
           parseInt(process.env.REDIS_PORT || '6379'),
           process.env.REDIS_PASSWORD
         )
-        whatsappLangchainService = new WhatsAppMessageLangchainService(redis, chatHistoryService)
-      }
-
-      await whatsappLangchainService.handleIncomingMessage(payload)
-    } else if (phoneNumber && FeatureFlags.isNLPEnabled(phoneNumber)) {
-      Logger.info('[FeatureFlag] Using NLP-based conversation handler', { phoneNumber })
-
-      // Initialize NLP service if needed
-      if (!whatsappNLPService) {
-        const redis = getRedisConnection(
-          process.env.REDIS_HOST || 'localhost',
-          parseInt(process.env.REDIS_PORT || '6379'),
-          process.env.REDIS_PASSWORD
-        )
-        whatsappNLPService = new WhatsAppMessageNLPService(redis, chatHistoryService)
-        await whatsappNLPService.initialize()
-      }
-
-      await whatsappNLPService.handleIncomingMessage(payload)
-    } else {
-      Logger.info('[FeatureFlag] Using XState-based conversation handler', { phoneNumber })
+      ),
+      // Kept across jobs: the NLP model is trained on first use
+      new IntentResolverSelector(redis),
+      getExperimentService()
+    )
+  }
 
-      const whatsappService = new WhatsAppMessageService(conversationStateService, chatHistoryService)
-      await whatsappService.handleIncomingMessage(payload)
-    }
+  try {
+    // The feature flags of the user only switch the intent resolver (rules, NLP, Langchain)
+    await whatsappService.handleIncomingMessage(payload)
 
     Logger.success('WhatsApp message processed', {
       jobId: job.id,
@@ -1,8 +1,14 @@
 import { initializeDatabase } from '../db'
 import { startWhatsAppMessageWorker } from './whatsapp-message.worker'
-import { closeRedisConnection } from '@config/redis'
+import { startJobAlertWorker } from './job-alert.worker'
+import { startDelayedMessageWorker } from './delayed-message.worker'
+import { closeRedisConnection, getRedisConnection } from '@config/redis'
 import { closeWhatsAppMessageQueue } from '../queues/whatsapp-message.queue'
+import { closeJobAlertQueue } from '../queues/job-alert.queue'
+import { closeDelayedMessageQueue } from '../queues/delayed-message.queue'
+import { ConversationLifecycleService } from '../services/conversation-lifecycle.service'
 import { Logger } from '../utils/logger'
+import { Cron } from 'croner'
 
 // Initialize database
 await initializeDatabase()
@@ -15,12 +21,52 @@ const whatsappWorker = startWhatsAppMessageWorker(
   process.env.REDIS_PASSWORD
 )
 
+const jobAlertWorker = startJobAlertWorker(
+  process.env.REDIS_HOST || 'localhost',
+  parseInt(process.env.REDIS_PORT || '6379'),
+  process.env.REDIS_PASSWORD
+)
+
+// Bot messages sent some time after the user's message ("see more" prompt)
+const delayedMessageWorker = startDelayedMessageWorker(
+  process.env.REDIS_HOST || 'localhost',
+  parseInt(process.env.REDIS_PORT || '6379'),
+  process.env.REDIS_PASSWORD
+)
+
+// Conversations: close the ones whose Redis session expired, as completed or abandoned
+const conversationLifecycleService = new ConversationLifecycleService(
+  getRedisConnection(
+    process.env.REDIS_HOST || 'localhost',
+    parseInt(process.env.REDIS_PORT || '6379'),
+    process.env.REDIS_PASSWORD
+  )
+)
+const conversationSweepCron = new Cron(
+  process.env.CONVERSATION_SWEEP_CRON || '*/5 * * * *',
+  { protect: true },
+  async () => {
+    Logger.info('Running conversation sweep')
+    // croner doesn't catch a rejected callback, the error would exit the worker
+    try {
+      await conversationLifecycleService.sweep()
+    } catch (error: any) {
+      Logger.error('Error sweeping conversations', { error: error?.message })
+    }
+  }
+)
+
 Logger.success('WhatsApp worker started and ready to process messages')
 
 const shutdown = async (signal: string) => {
   Logger.info(`${signal} received, shutting down WhatsApp worker gracefully`)
+  conversationSweepCron.stop()
   await whatsappWorker.close()
+  await jobAlertWorker.close()
+  await delayedMessageWorker.close()
   await closeWhatsAppMessageQueue()
+  await closeJobAlertQueue()
+  await closeDelayedMessageQueue()
   await closeRedisConnection()
   process.exit(0)
 }
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import Redis from 'ioredis'
+import { AdminEventsService, type AdminEvent } from '@/services/admin-events.service'
+
+describe('AdminEventsService', () => {
+  let redis: Redis
+  let publisher: AdminEventsService
+  let subscriber: AdminEventsService
+
+  const waitForEvents = async (events: AdminEvent[], count: number) => {
+    const deadline = Date.now() + 2_000
+    while (events.length < count && Date.now() < deadline) {
+      await Bun.sleep(10)
+    }
+  }
+
+  beforeEach(() => {
+    redis = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+      db: 1, // Use different database for tests
+    })
+
+    // Another process, e.g. the WhatsApp worker
+    publisher = new AdminEventsService(redis)
+    subscriber = new AdminEventsService(redis)
+  })
+
+  afterEach(async () => {
+    await redis.quit()
+  })
+
+  it('should deliver published events to every listener', async () => {
+    const first: AdminEvent[] = []
+    const second: AdminEvent[] = []
+    const unsubscribeFirst = await subscriber.subscribe((event) => first.push(event))
+    const unsubscribeSecond = await subscriber.subscribe((event) => second.push(event))
+
+    await publisher.publish({
+      type: 'conversation.started',
+      data: { id: 'conversation-1', phoneNumber: '+1234567890', sessionId: 'session-1', startedAt: 1 },
+    })
+    await waitForEvents(second, 1)
+
+    expect(first).toHaveLength(1)
+    expect(second[0]).toMatchObject({ type: 'conversation.started', data: { id: 'conversation-1' } })
+    expect(second[0]!.publishedAt).toBeGreaterThan(0)
+
+    await unsubscribeFirst()
+    await unsubscribeSecond()
+  })
+
+  it('should stop delivering events once unsubscribed', async () => {
+    const events: AdminEvent[] = []
+    const unsubscribe = await subscriber.subscribe((event) => events.push(event))
+    await unsubscribe()
+
+    await publisher.publish({
+      type: 'link.clicked',
+      data: { id: 'link-1', phoneNumber: '+1234567890', jobAdId: 'job-1', clickCount: 1 },
+    })
+    await Bun.sleep(100)
+
+    expect(events).toHaveLength(0)
+  })
+})
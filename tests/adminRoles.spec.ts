@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'bun:test'
+import { AdminRoles, AdminSessionTokens } from '@/utils/admin-roles'
+import { getClientIp } from '@/middleware/adminAuth'
+
+describe('AdminRoles', () => {
+  it('should give each role the permissions of the roles below it', () => {
+    expect(AdminRoles.allows('admin', 'operator')).toBe(true)
+    expect(AdminRoles.allows('operator', 'viewer')).toBe(true)
+    expect(AdminRoles.allows('operator', 'operator')).toBe(true)
+  })
+
+  it('should deny the permissions of higher roles', () => {
+    expect(AdminRoles.allows('viewer', 'operator')).toBe(false)
+    expect(AdminRoles.allows('operator', 'admin')).toBe(false)
+  })
+
+  it('should only accept known roles', () => {
+    expect(AdminRoles.isRole('operator')).toBe(true)
+    expect(AdminRoles.isRole('superadmin')).toBe(false)
+  })
+})
+
+describe('AdminSessionTokens', () => {
+  it('should generate distinct URL-safe tokens', () => {
+    const token = AdminSessionTokens.generate()
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/)
+    expect(AdminSessionTokens.generate()).not.toBe(token)
+  })
+
+  it('should hash a token the same way every time, without keeping it', () => {
+    const token = AdminSessionTokens.generate()
+
+    expect(AdminSessionTokens.hash(token)).toBe(AdminSessionTokens.hash(token))
+    expect(AdminSessionTokens.hash(token)).toMatch(/^[a-f0-9]{64}$/)
+    expect(AdminSessionTokens.hash(token)).not.toContain(token)
+  })
+})
+
+describe('getClientIp', () => {
+  const server = { requestIP: () => ({ address: '203.0.113.7', family: 'IPv4' as const, port: 51234 }) }
+  const request = new Request('http://localhost/admin/auth/login', {
+    headers: { 'x-forwarded-for': '198.51.100.1, 10.0.0.2' },
+  })
+
+  it('should use the socket address unless behind a trusted proxy', () => {
+    delete process.env.TRUST_PROXY
+
+    expect(getClientIp(request, server)).toBe('203.0.113.7')
+    expect(getClientIp(request, null)).toBe('unknown')
+  })
+
+  it('should read the address added by the trusted proxy to X-Forwarded-For', () => {
+    process.env.TRUST_PROXY = 'true'
+    try {
+      expect(getClientIp(request, server)).toBe('10.0.0.2')
+      expect(getClientIp(new Request('http://localhost/admin/auth/login'), server)).toBe('203.0.113.7')
+    } finally {
+      delete process.env.TRUST_PROXY
+    }
+  })
+})
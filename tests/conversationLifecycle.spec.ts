@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'bun:test'
+import { ConversationLifecycle } from '@/utils/conversation-lifecycle'
+
+const SESSION_TTL_MS = 20 * 60 * 1000
+const now = Date.now()
+
+describe('ConversationLifecycle', () => {
+  it('should complete conversations where job offers were shown or opened', () => {
+    expect(ConversationLifecycle.classify({ jobOffersShown: 3, linksClicked: 0 })).toBe('completed')
+    expect(ConversationLifecycle.classify({ jobOffersShown: 0, linksClicked: 1 })).toBe('completed')
+    expect(ConversationLifecycle.classify({ jobOffersShown: 0, linksClicked: 0 })).toBe('abandoned')
+  })
+
+  it('should consider a conversation stale once its session expired', () => {
+    expect(ConversationLifecycle.isStale(now - SESSION_TTL_MS + 1000, now, SESSION_TTL_MS)).toBe(false)
+    expect(ConversationLifecycle.isStale(now - SESSION_TTL_MS, now, SESSION_TTL_MS)).toBe(true)
+  })
+
+  it('should start a new conversation for a message of another session', () => {
+    const active = { sessionId: 'session-1', lastActivityAt: now - 60_000 }
+
+    expect(
+      ConversationLifecycle.startsNewConversation(active, { sessionId: 'session-1', direction: 'incoming' }, now, SESSION_TTL_MS)
+    ).toBe(false)
+    expect(
+      ConversationLifecycle.startsNewConversation(active, { sessionId: 'session-2', direction: 'incoming' }, now, SESSION_TTL_MS)
+    ).toBe(true)
+  })
+
+  it('should never start a new conversation for a job alert', () => {
+    const live = { sessionId: 'session-1', lastActivityAt: now - 60_000 }
+    const stale = { sessionId: 'session-1', lastActivityAt: now - 2 * SESSION_TTL_MS }
+    const alert = { sessionId: ConversationLifecycle.JOB_ALERT_SESSION_ID, direction: 'outgoing' as const }
+
+    expect(ConversationLifecycle.startsNewConversation(live, alert, now, SESSION_TTL_MS)).toBe(false)
+    expect(ConversationLifecycle.startsNewConversation(stale, alert, now, SESSION_TTL_MS)).toBe(false)
+  })
+
+  it('should start a new conversation for other outgoing messages once stale', () => {
+    const stale = { sessionId: 'session-1', lastActivityAt: now - 2 * SESSION_TTL_MS }
+
+    expect(
+      ConversationLifecycle.startsNewConversation(stale, { sessionId: 'session-2', direction: 'outgoing' }, now, SESSION_TTL_MS)
+    ).toBe(true)
+  })
+})
@@ -368,6 +368,141 @@ describe('Conversation State Machine', () => {
     })
   })
 
+  describe('Interactive Replies', () => {
+    beforeEach(() => {
+      actor.send({
+        type: 'USER_MESSAGE',
+        message: 'Hello',
+        timestamp: Date.now(),
+      })
+      actor.send({
+        type: 'WELCOME_SENT',
+        timestamp: Date.now(),
+      })
+      actor.send({
+        type: 'USER_MESSAGE',
+        message: 'developer',
+        timestamp: Date.now(),
+      })
+      actor.send({
+        type: 'SEARCH_COMPLETED',
+        query: 'developer',
+        offset: 0,
+      })
+    })
+
+    it('should transition to browsing when "Voir plus" is clicked', () => {
+      actor.send({
+        type: 'SEE_MORE_CLICKED',
+        timestamp: Date.now(),
+      })
+
+      expect(actor.getSnapshot().value).toBe('browsing')
+      expect(actor.getSnapshot().context.lastQuery).toBe('developer')
+    })
+
+    it('should wait for a new job title when "Nouvelle recherche" is clicked', () => {
+      actor.send({
+        type: 'NEW_SEARCH_CLICKED',
+        timestamp: Date.now(),
+      })
+
+      expect(actor.getSnapshot().value).toBe('awaitingJobTitle')
+    })
+
+    it('should update lastMessageAt on button clicks', () => {
+      const timestamp = Date.now() + 1000
+      actor.send({
+        type: 'SEE_MORE_CLICKED',
+        timestamp,
+      })
+
+      expect(actor.getSnapshot().context.lastMessageAt).toBe(timestamp)
+    })
+  })
+
+  describe('Resolved Intents', () => {
+    beforeEach(() => {
+      actor.send({ type: 'USER_MESSAGE', message: 'Hello', timestamp: Date.now(), intent: 'greeting' })
+      actor.send({ type: 'WELCOME_SENT', timestamp: Date.now() })
+    })
+
+    it('should stay in awaitingJobTitle on small talk', () => {
+      actor.send({
+        type: 'USER_MESSAGE',
+        message: 'je cherche un emploi',
+        timestamp: Date.now(),
+        intent: 'greeting',
+      })
+
+      expect(actor.getSnapshot().value).toBe('awaitingJobTitle')
+    })
+
+    it('should paginate on a pagination intent whatever the wording', () => {
+      actor.send({ type: 'USER_MESSAGE', message: 'developer', timestamp: Date.now(), intent: 'search' })
+      actor.send({ type: 'SEARCH_COMPLETED', query: 'developer', offset: 0 })
+
+      actor.send({
+        type: 'USER_MESSAGE',
+        message: "d'autres offres svp",
+        timestamp: Date.now(),
+        intent: 'paginate',
+      })
+
+      expect(actor.getSnapshot().value).toBe('browsing')
+    })
+
+    it('should keep the results on small talk', () => {
+      actor.send({ type: 'USER_MESSAGE', message: 'developer', timestamp: Date.now(), intent: 'search' })
+      actor.send({ type: 'SEARCH_COMPLETED', query: 'developer', offset: 0 })
+
+      actor.send({ type: 'USER_MESSAGE', message: 'aide', timestamp: Date.now(), intent: 'help' })
+
+      expect(actor.getSnapshot().value).toBe('displayingResults')
+      expect(actor.getSnapshot().context.lastQuery).toBe('developer')
+    })
+  })
+
+  describe('Human Handoff', () => {
+    beforeEach(() => {
+      actor.send({ type: 'USER_MESSAGE', message: 'Hello', timestamp: Date.now() })
+      actor.send({ type: 'WELCOME_SENT', timestamp: Date.now() })
+      actor.send({ type: 'USER_MESSAGE', message: 'developer', timestamp: Date.now() })
+      actor.send({ type: 'SEARCH_COMPLETED', query: 'developer', offset: 0 })
+    })
+
+    it('should pause the bot from any state', () => {
+      const timestamp = Date.now()
+      actor.send({ type: 'HANDOFF_STARTED', agent: 'admin', timestamp })
+
+      expect(actor.getSnapshot().value).toBe('humanHandoff')
+      expect(actor.getSnapshot().context.handoffAgent).toBe('admin')
+      expect(actor.getSnapshot().context.handoffStartedAt).toBe(timestamp)
+    })
+
+    it('should stay in humanHandoff on user messages and buttons', () => {
+      actor.send({ type: 'HANDOFF_STARTED', agent: 'admin', timestamp: Date.now() })
+
+      actor.send({ type: 'USER_MESSAGE', message: 'voir plus', timestamp: Date.now() })
+      actor.send({ type: 'SEE_MORE_CLICKED', timestamp: Date.now() })
+      actor.send({ type: 'NEW_SEARCH_CLICKED', timestamp: Date.now() })
+      actor.send({ type: 'TIMEOUT' })
+
+      expect(actor.getSnapshot().value).toBe('humanHandoff')
+    })
+
+    it('should give the conversation back to the bot', () => {
+      actor.send({ type: 'HANDOFF_STARTED', agent: 'admin', timestamp: Date.now() })
+      actor.send({ type: 'HANDOFF_ENDED', timestamp: Date.now() })
+
+      expect(actor.getSnapshot().value).toBe('awaitingJobTitle')
+      expect(actor.getSnapshot().context.handoffAgent).toBeUndefined()
+
+      actor.send({ type: 'USER_MESSAGE', message: 'comptable', timestamp: Date.now() })
+      expect(actor.getSnapshot().value).toBe('searchingJobs')
+    })
+  })
+
   describe('Timeout and Reset', () => {
     it('should reset context on TIMEOUT', () => {
       actor.send({
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import Redis from 'ioredis'
+import { ConversationStateService } from '@/services/conversation-state.service'
+import { ChatHistoryService } from '@/services/chat-history.service'
+import { DelayedMessageSender } from '@/services/delayed-message-sender.service'
+import type { DelayedMessageJobData } from '@/queues/delayed-message.queue'
+
+describe('DelayedMessageSender', () => {
+  let redis: Redis
+  let conversationState: ConversationStateService
+  let chatHistory: ChatHistoryService
+  let sender: DelayedMessageSender
+  const testPhoneNumber = '+1234567890'
+
+  // "See more" prompt scheduled right after showing the results of a search
+  const showResults = async (query: string): Promise<DelayedMessageJobData> => {
+    await conversationState.handleMessage(testPhoneNumber, 'Bonjour')
+    await conversationState.markWelcomeSent(testPhoneNumber)
+    await conversationState.handleMessage(testPhoneNumber, query)
+    await conversationState.markSearchCompleted(testPhoneNumber, query, 0)
+
+    return {
+      type: 'seeMorePrompt',
+      phoneNumber: testPhoneNumber,
+      sessionId: await conversationState.getSessionId(testPhoneNumber),
+      state: 'displayingResults',
+      scheduledAt: Date.now(),
+      conditions: {
+        states: ['displayingResults', 'browsing'],
+        lastQuery: query,
+      },
+    }
+  }
+
+  beforeEach(() => {
+    redis = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+      db: 1, // Use different database for tests
+    })
+
+    conversationState = new ConversationStateService(redis)
+    chatHistory = new ChatHistoryService(redis)
+    sender = new DelayedMessageSender(chatHistory, conversationState)
+  })
+
+  afterEach(async () => {
+    await conversationState.clearSession(testPhoneNumber)
+    await chatHistory.clearHistory(testPhoneNumber)
+    await redis.quit()
+  })
+
+  it('should skip the prompt when the user wrote after it was scheduled', async () => {
+    const data = await showResults('comptable')
+
+    await Bun.sleep(5)
+    await chatHistory.saveIncomingMessage(testPhoneNumber, data.sessionId, 'Merci')
+
+    expect(await sender.deliver(data)).toBe('skipped')
+  })
+
+  it('should skip the prompt when the user started another search', async () => {
+    const data = await showResults('comptable')
+    await conversationState.handleMessage(testPhoneNumber, 'chauffeur')
+    await conversationState.markSearchCompleted(testPhoneNumber, 'chauffeur', 0)
+
+    expect(await sender.deliver(data)).toBe('skipped')
+  })
+
+  it('should skip the prompt when the conversation ended', async () => {
+    const data = await showResults('comptable')
+    await conversationState.clearSession(testPhoneNumber)
+
+    expect(await sender.deliver(data)).toBe('skipped')
+  })
+})
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import type { Subprocess } from 'bun'
+import { join } from 'path'
+import { AppDataSource, initializeDatabase } from '@/db/data-source'
+import { JobAdRepository } from '@/db/repositories/JobAdRepository'
+import { MessageRepository } from '@/db/repositories/MessageRepository'
+import { WhatsAppCloudApiSimulator, type SimulatedMessage } from '@/simulators/whatsapp-cloud-api.simulator'
+import { InteractiveReplyParser } from '@/utils/interactive-reply'
+
+/**
+ * Full user journeys: simulator -> API webhook -> queue -> WhatsApp worker -> simulator
+ * Needs PostgreSQL and Redis (DB_* and REDIS_* variables), run with `bun run test:e2e`
+ */
+const E2E = process.env.E2E === 'true'
+
+const ROOT_DIR = join(import.meta.dir, '..', '..')
+const API_PORT = process.env.E2E_API_PORT || '3999'
+const SIMULATOR_PORT = parseInt(process.env.E2E_SIMULATOR_PORT || '4010')
+const APP_SECRET = 'e2e-app-secret'
+const ACCESS_TOKEN = 'e2e-access-token'
+const RUN_ID = Date.now().toString(36)
+// One job title word only found in the jobs of this run
+const JOB_KEYWORD = `e2eplombier${RUN_ID}`
+
+// A new WhatsApp user for each journey
+let userSequence = 0
+const newUser = () => `22599${(Date.now() % 1_000_000).toString().padStart(6, '0')}${userSequence++}`
+
+const offerTitles = (messages: SimulatedMessage[]) =>
+  messages
+    .filter(message => message.kind === 'template' && message.text === 'eska_job_offer_single')
+    .map(message => message.body.template.components[0].parameters[0].text as string)
+
+async function waitFor<T>(check: () => Promise<T | null | undefined>, timeoutMs = 10_000): Promise<T> {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    const result = await check()
+    if (result) return result
+    await Bun.sleep(100)
+  }
+  throw new Error(`Condition not met within ${timeoutMs}ms`)
+}
+
+describe.skipIf(!E2E)('WhatsApp bot end-to-end', () => {
+  const jobRepo = new JobAdRepository()
+  const messageRepo = new MessageRepository()
+  const seededJobIds: string[] = []
+  const processes: Subprocess[] = []
+
+  let simulator: WhatsAppCloudApiSimulator
+
+  beforeAll(async () => {
+    await initializeDatabase()
+
+    // 5 jobs: a first page of 3, then 2 more with "Voir plus"
+    for (let i = 1; i <= 5; i++) {
+      const job = await jobRepo.create({
+        title: `${JOB_KEYWORD} ${i}`,
+        company: 'E2E Company',
+        location: 'Abidjan',
+        url: `https://e2e.example.com/${RUN_ID}/jobs/${i}`,
+        postedDate: new Date(Date.now() - i * 60_000),
+        source: 'E2E',
+      })
+      seededJobIds.push(job.id)
+    }
+
+    simulator = new WhatsAppCloudApiSimulator({
+      webhookUrl: `http://localhost:${API_PORT}/webhook/whatsapp`,
+      appSecret: APP_SECRET,
+      accessToken: ACCESS_TOKEN,
+    })
+    const simulatorUrl = simulator.start(SIMULATOR_PORT)
+
+    const env = {
+      ...process.env,
+      PORT: API_PORT,
+      NODE_ENV: 'test',
+      WHATSAPP_API_BASE_URL: simulatorUrl,
+      WHATSAPP_ACCESS_TOKEN: ACCESS_TOKEN,
+      WHATSAPP_PHONE_NUMBER_ID: simulator.phoneNumberId,
+      WHATSAPP_BUSINESS_ACCOUNT_ID: simulator.businessAccountId,
+      WHATSAPP_APP_SECRET: APP_SECRET,
+    }
+    for (const entry of ['src/index.ts', 'src/workers/whatsapp-worker-standalone.ts']) {
+      processes.push(Bun.spawn(['bun', 'run', entry], { cwd: ROOT_DIR, env, stdout: 'ignore', stderr: 'inherit' }))
+    }
+
+    await waitFor(async () => {
+      const response = await fetch(`http://localhost:${API_PORT}/health`).catch(() => null)
+      return response?.ok
+    }, 30_000)
+  }, 60_000)
+
+  afterAll(async () => {
+    for (const child of processes) {
+      child.kill()
+      await child.exited
+    }
+    await simulator?.stop()
+
+    if (AppDataSource.isInitialized) {
+      for (const id of seededJobIds) {
+        await jobRepo.hardDelete(id)
+      }
+      await AppDataSource.destroy()
+    }
+  })
+
+  it('should welcome a new user, send job offers and the next page on "Voir plus"', async () => {
+    const user = newUser()
+
+    await simulator.sendText(user, 'Bonjour', { name: 'Awa' })
+    const [welcome] = await simulator.waitForMessages(user, 1)
+    expect(welcome!.text).toContain('Awa')
+
+    // Searching message + 3 offers
+    await simulator.sendText(user, JOB_KEYWORD, { name: 'Awa' })
+    const firstPage = offerTitles(await simulator.waitForMessages(user, 5))
+    expect(firstPage).toEqual([`${JOB_KEYWORD} 1`, `${JOB_KEYWORD} 2`, `${JOB_KEYWORD} 3`])
+
+    // Searching message + the 2 remaining offers
+    await simulator.sendButtonReply(user, InteractiveReplyParser.SEE_MORE, 'Voir plus', { name: 'Awa' })
+    const offers = offerTitles(await simulator.waitForMessages(user, 8))
+    expect(offers.slice(3)).toEqual([`${JOB_KEYWORD} 4`, `${JOB_KEYWORD} 5`])
+  }, 30_000)
+
+  it('should record the delivery statuses of the bot messages', async () => {
+    const user = newUser()
+
+    await simulator.sendText(user, 'Bonjour')
+    const [welcome] = await simulator.waitForMessages(user, 1)
+    await simulator.sendStatus(welcome!.id, user, 'read')
+
+    const saved = await waitFor(async () => {
+      const message = await messageRepo.findByWhatsAppMessageId(welcome!.id)
+      return message?.deliveryStatus === 'read' ? message : null
+    })
+    expect(saved.direction).toBe('outgoing')
+  }, 30_000)
+
+  it('should answer a message retried by WhatsApp once', async () => {
+    const user = newUser()
+    const id = `wamid.E2ERETRY${RUN_ID}`
+
+    await simulator.sendText(user, 'Bonjour', { id })
+    await simulator.sendText(user, 'Bonjour', { id })
+    await simulator.waitForMessages(user, 1)
+
+    await Bun.sleep(2_000)
+    expect(simulator.messages(user)).toHaveLength(1)
+  }, 30_000)
+
+  it('should ignore webhooks with an invalid signature', async () => {
+    const user = newUser()
+    const rawBody = JSON.stringify(
+      simulator.envelope({
+        messages: [{ from: user, id: `wamid.E2EFORGED${RUN_ID}`, timestamp: '1750150800', type: 'text', text: { body: 'Bonjour' } }],
+      })
+    )
+
+    expect(await simulator.postRawWebhook(rawBody, 'sha256=forged')).toBe(401)
+
+    await Bun.sleep(2_000)
+    expect(simulator.messages(user)).toHaveLength(0)
+  }, 30_000)
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import { AppDataSource, initializeDatabase } from '@/db/data-source'
+import { JobAdRepository } from '@/db/repositories/JobAdRepository'
+import { JobSearchRanking } from '@/utils/job-search-ranking'
+
+/**
+ * Search ranking against the real searchVector and ts_rank_cd
+ * Needs PostgreSQL (DB_* variables), run with `bun run test:e2e`
+ */
+const E2E = process.env.E2E === 'true'
+
+const RUN_ID = Date.now().toString(36)
+// One word only found in the jobs of this run
+const JOB_KEYWORD = `e2emenuisier${RUN_ID}`
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe.skipIf(!E2E)('JobAdRepository.search ranking', () => {
+  const jobRepo = new JobAdRepository()
+  const seededJobIds: string[] = []
+
+  const seed = async (title: string, description: string, ageDays: number) => {
+    const job = await jobRepo.create({
+      title,
+      description,
+      company: 'E2E Company',
+      location: 'Abidjan',
+      url: `https://e2e.example.com/${RUN_ID}/jobs/${seededJobIds.length}`,
+      postedDate: new Date(Date.now() - ageDays * DAY_MS),
+      source: 'E2E',
+    })
+    seededJobIds.push(job.id)
+  }
+
+  beforeAll(async () => {
+    await initializeDatabase()
+
+    await seed(`${JOB_KEYWORD} confirmé`, 'Atelier de fabrication', 0)
+    await seed('Poste en atelier', `Vous travaillerez avec notre ${JOB_KEYWORD}`, 0)
+    await seed(`${JOB_KEYWORD} junior`, 'Atelier de fabrication', 7)
+  })
+
+  afterAll(async () => {
+    if (AppDataSource.isInitialized) {
+      for (const id of seededJobIds) {
+        await jobRepo.hardDelete(id)
+      }
+      await AppDataSource.destroy()
+    }
+  })
+
+  it('should rank title matches above description matches, then by recency', async () => {
+    const jobs = await jobRepo.search({ query: JOB_KEYWORD }, 10)
+
+    expect(jobs.map(job => job.title)).toEqual([`${JOB_KEYWORD} confirmé`, `${JOB_KEYWORD} junior`, 'Poste en atelier'])
+  })
+
+  it('should attach the score breakdown of each job in debug mode', async () => {
+    const jobs = await jobRepo.search({ query: JOB_KEYWORD }, 10, 0, { debug: true })
+    const byTitle = new Map(jobs.map(job => [job.title, job.searchScore!]))
+
+    const titleMatch = byTitle.get(`${JOB_KEYWORD} confirmé`)!
+    expect(titleMatch.fields.title).toBeGreaterThan(0)
+    expect(titleMatch.fields.description).toBe(0)
+
+    const descriptionMatch = byTitle.get('Poste en atelier')!
+    expect(descriptionMatch.fields.title).toBe(0)
+    expect(descriptionMatch.fields.description).toBeGreaterThan(0)
+
+    const olderMatch = byTitle.get(`${JOB_KEYWORD} junior`)!
+    expect(olderMatch.recency).toBeCloseTo(0.5 ** (7 / JobSearchRanking.RECENCY_HALF_LIFE_DAYS), 3)
+
+    for (const job of jobs) {
+      const { score, textRank, recency } = job.searchScore!
+      expect(score).toBeCloseTo(JobSearchRanking.score(textRank, recency), 6)
+    }
+  })
+
+  it('should keep the score breakdown on its job when paginating', async () => {
+    const [first] = await jobRepo.search({ query: JOB_KEYWORD }, 1, 1, { debug: true })
+
+    expect(first.title).toBe(`${JOB_KEYWORD} junior`)
+    expect(first.searchScore!.fields.title).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'bun:test'
+import { ExperimentAssigner, ExperimentMetrics, type ExperimentDefinition } from '@/utils/experiment'
+
+const experiment: ExperimentDefinition = {
+  name: 'resultsPerPage',
+  description: '3 vs 5 job offers per page',
+  variants: [
+    { name: 'control', weight: 50, params: { pageSize: 3 } },
+    { name: 'five', weight: 50, params: { pageSize: 5 } },
+  ],
+}
+
+const phones = Array.from({ length: 1000 }, (_, i) => `22507${String(i).padStart(8, '0')}`)
+
+describe('ExperimentAssigner', () => {
+  it('should always give a user the same variant', () => {
+    const first = phones.map(phone => ExperimentAssigner.assign(experiment, phone).name)
+    const second = phones.map(phone => ExperimentAssigner.assign(experiment, phone).name)
+
+    expect(second).toEqual(first)
+  })
+
+  it('should split the users according to the weights', () => {
+    const skewed: ExperimentDefinition = {
+      ...experiment,
+      variants: [
+        { name: 'control', weight: 80, params: {} },
+        { name: 'five', weight: 20, params: {} },
+      ],
+    }
+    const five = phones.filter(phone => ExperimentAssigner.assign(skewed, phone).name === 'five')
+
+    expect(five.length).toBeGreaterThan(140)
+    expect(five.length).toBeLessThan(260)
+  })
+
+  it('should give every user a variant with a single variant', () => {
+    const single = { ...experiment, variants: [experiment.variants[1]!] }
+    expect(phones.every(phone => ExperimentAssigner.assign(single, phone).name === 'five')).toBe(true)
+  })
+})
+
+describe('ExperimentMetrics', () => {
+  const day = 24 * 60 * 60 * 1000
+
+  it('should compute the outcome metrics of each variant', () => {
+    const exposures = [
+      { phoneNumber: 'a', variant: 'control', startedAt: day, searchQueriesCount: 1 },
+      { phoneNumber: 'a', variant: 'control', startedAt: 3 * day, searchQueriesCount: 3 },
+      { phoneNumber: 'b', variant: 'control', startedAt: day, searchQueriesCount: 2 },
+      { phoneNumber: 'c', variant: 'five', startedAt: 2 * day, searchQueriesCount: 1 },
+    ]
+    const conversations = [
+      { phoneNumber: 'a', startedAt: day },
+      { phoneNumber: 'a', startedAt: 3 * day },
+      { phoneNumber: 'b', startedAt: 0 },
+      { phoneNumber: 'b', startedAt: day },
+      { phoneNumber: 'c', startedAt: 2 * day },
+    ]
+    const links = [
+      { phoneNumber: 'a', createdAt: new Date(day), clickCount: 2 },
+      { phoneNumber: 'a', createdAt: new Date(3 * day), clickCount: 0 },
+      // Sent before b saw the experiment
+      { phoneNumber: 'b', createdAt: new Date(0), clickCount: 1 },
+      { phoneNumber: 'b', createdAt: new Date(day), clickCount: 0 },
+      { phoneNumber: 'c', createdAt: new Date(2 * day), clickCount: 1 },
+    ]
+
+    const [control, five] = ExperimentMetrics.compute(experiment, exposures, conversations, links)
+
+    expect(control).toEqual({
+      variant: 'control',
+      users: 2,
+      conversations: 3,
+      searchesPerSession: 2,
+      returnRate: 0.5,
+      linksSent: 3,
+      linksClicked: 1,
+      clickThroughRate: 0.333,
+    })
+    expect(five).toEqual({
+      variant: 'five',
+      users: 1,
+      conversations: 1,
+      searchesPerSession: 1,
+      returnRate: 0,
+      linksSent: 1,
+      linksClicked: 1,
+      clickThroughRate: 1,
+    })
+  })
+
+  it('should return empty metrics without exposures', () => {
+    const stats = ExperimentMetrics.compute(experiment, [], [], [])
+
+    expect(stats.map(variant => variant.variant)).toEqual(['control', 'five'])
+    expect(stats.every(variant => variant.users === 0 && variant.clickThroughRate === 0)).toBe(true)
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'bun:test'
+import { FeatureFlagEvaluator, type FeatureFlagRule } from '@/utils/feature-flag'
+
+const flag = (fields: Partial<FeatureFlagRule> = {}): FeatureFlagRule => ({
+  name: 'nlpConversation',
+  enabled: true,
+  rolloutPercentage: 0,
+  phoneNumbers: [],
+  ...fields,
+})
+
+const phones = Array.from({ length: 1000 }, (_, i) => `22507${String(i).padStart(8, '0')}`)
+
+describe('FeatureFlagEvaluator', () => {
+  it('should be off for unknown and disabled flags', () => {
+    expect(FeatureFlagEvaluator.isEnabled(undefined, phones[0]!)).toBe(false)
+    expect(
+      FeatureFlagEvaluator.isEnabled(
+        flag({ enabled: false, rolloutPercentage: 100, phoneNumbers: [phones[0]!] }),
+        phones[0]!
+      )
+    ).toBe(false)
+  })
+
+  it('should be on for listed users only at 0%', () => {
+    const rule = flag({ phoneNumbers: [phones[0]!] })
+
+    expect(FeatureFlagEvaluator.isEnabled(rule, phones[0]!)).toBe(true)
+    expect(phones.slice(1).some(phone => FeatureFlagEvaluator.isEnabled(rule, phone))).toBe(false)
+  })
+
+  it('should be on for everyone at 100%', () => {
+    const rule = flag({ rolloutPercentage: 100 })
+    expect(phones.every(phone => FeatureFlagEvaluator.isEnabled(rule, phone))).toBe(true)
+  })
+
+  it('should roll out to roughly the configured share of users', () => {
+    const enabled = phones.filter(phone => FeatureFlagEvaluator.isEnabled(flag({ rolloutPercentage: 25 }), phone))
+
+    expect(enabled.length).toBeGreaterThan(180)
+    expect(enabled.length).toBeLessThan(320)
+  })
+
+  it('should only add users when the percentage is raised', () => {
+    const at10 = phones.filter(phone => FeatureFlagEvaluator.isEnabled(flag({ rolloutPercentage: 10 }), phone))
+    const at50 = phones.filter(phone => FeatureFlagEvaluator.isEnabled(flag({ rolloutPercentage: 50 }), phone))
+
+    expect(at10.every(phone => at50.includes(phone))).toBe(true)
+    expect(FeatureFlagEvaluator.bucket('nlpConversation', phones[0]!)).toBe(
+      FeatureFlagEvaluator.bucket('nlpConversation', phones[0]!)
+    )
+  })
+
+  it('should pick different users for different flags', () => {
+    const buckets = (name: string) => phones.map(phone => FeatureFlagEvaluator.bucket(name, phone))
+    expect(buckets('nlpConversation')).not.toEqual(buckets('langchainConversation'))
+  })
+
+  it('should list the changed fields', () => {
+    const changes = FeatureFlagEvaluator.diff(
+      { enabled: true, rolloutPercentage: 10, description: null },
+      { enabled: true, rolloutPercentage: 30, description: 'NLP rollout' }
+    )
+
+    expect(changes).toEqual({
+      rolloutPercentage: { from: 10, to: 30 },
+      description: { from: null, to: 'NLP rollout' },
+    })
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'bun:test'
+import { RuleIntentResolver } from '@/intents'
+
+describe('RuleIntentResolver', () => {
+  const resolver = new RuleIntentResolver()
+
+  it('should treat job titles as searches', async () => {
+    expect(await resolver.resolve('+1234567890', 'Comptable à Abidjan')).toEqual({
+      type: 'search',
+      query: 'Comptable à Abidjan',
+      confidence: 1,
+      resolver: 'rules',
+    })
+  })
+
+  it('should recognize pagination requests', () => {
+    expect(resolver.resolveText('Voir plus').type).toBe('paginate')
+    expect(resolver.resolveText('suivant').type).toBe('paginate')
+    expect(resolver.resolveText('autres offres').type).toBe('paginate')
+  })
+
+  it('should recognize small talk', () => {
+    expect(resolver.resolveText('Bonjour !').type).toBe('greeting')
+    expect(resolver.resolveText('je cherche un emploi').type).toBe('greeting')
+    expect(resolver.resolveText('aide').type).toBe('help')
+    expect(resolver.resolveText('Au revoir').type).toBe('goodbye')
+  })
+
+  it('should search job titles that start like small talk', () => {
+    for (const message of [
+      'Aide soignante',
+      'Aide comptable',
+      'Bonjour je cherche un poste de comptable',
+      'Salut, comptable Abidjan',
+      'Hello chauffeur',
+    ]) {
+      expect(resolver.resolveText(message)).toMatchObject({ type: 'search', query: message })
+    }
+  })
+
+  it('should search short job acronyms', () => {
+    expect(resolver.resolveText('RH')).toMatchObject({ type: 'search', query: 'RH' })
+    expect(resolver.resolveText('IT')).toMatchObject({ type: 'search', query: 'IT' })
+  })
+
+  it('should not search acknowledgements', () => {
+    expect(resolver.resolveText('ok').type).toBe('unknown')
+    expect(resolver.resolveText('Oui').type).toBe('unknown')
+    expect(resolver.resolveText('?').type).toBe('unknown')
+  })
+})
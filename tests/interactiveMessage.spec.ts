@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'bun:test'
+import { InteractiveMessageBuilder } from '@/utils/interactive-message'
+import { InteractiveReplyParser } from '@/utils/interactive-reply'
+
+describe('InteractiveMessageBuilder', () => {
+  it('should keep at most 3 reply buttons with short titles', () => {
+    const message = InteractiveMessageBuilder.replyButtons('Que voulez-vous faire ?', [
+      { id: 'a', title: 'Voir plus' },
+      { id: 'b', title: 'Une recherche beaucoup trop longue' },
+      { id: 'c', title: 'Créer une alerte' },
+      { id: 'd', title: 'En trop' },
+    ])
+
+    expect(message.type).toBe('button')
+    expect(message.action.buttons).toHaveLength(3)
+    expect(message.action.buttons![1]!.reply?.title?.length).toBeLessThanOrEqual(20)
+    expect(message.action.buttons![1]!.reply?.title?.endsWith('…')).toBe(true)
+    expect(message.action.buttons![0]!.reply).toEqual({ id: 'a', title: 'Voir plus' })
+  })
+
+  it('should limit the rows of the whole list, not of each section', () => {
+    const rows = (prefix: string) =>
+      Array.from({ length: 7 }, (_, i) => ({ id: `${prefix}${i}`, title: `${prefix} ${i}` }))
+
+    const message = InteractiveMessageBuilder.list('Vos alertes', 'Voir', [
+      { title: 'Première', rows: rows('a') },
+      { title: 'Deuxième', rows: rows('b') },
+      { title: 'Troisième', rows: rows('c') },
+    ])
+
+    const sections = message.action.sections!
+    expect(sections).toHaveLength(2)
+    expect(sections.reduce((total, section) => total + section.rows.length, 0)).toBe(10)
+  })
+
+  it('should add header and footer only when given', () => {
+    const withoutOptions = InteractiveMessageBuilder.replyButtons('Body', [{ id: 'a', title: 'A' }])
+    const withOptions = InteractiveMessageBuilder.replyButtons('Body', [{ id: 'a', title: 'A' }], {
+      header: 'Header',
+      footer: 'Footer',
+    })
+
+    expect(withoutOptions.header).toBeUndefined()
+    expect(withoutOptions.footer).toBeUndefined()
+    expect(withOptions.header).toEqual({ type: 'text', text: 'Header' })
+    expect(withOptions.footer).toEqual({ text: 'Footer' })
+  })
+})
+
+describe('InteractiveReplyParser', () => {
+  it('should parse button and list replies', () => {
+    expect(
+      InteractiveReplyParser.parse({
+        type: 'interactive',
+        interactive: { type: 'button_reply', button_reply: { id: 'see_more', title: 'Voir plus' } },
+      })
+    ).toEqual({ kind: 'button_reply', id: 'see_more', title: 'Voir plus' })
+
+    expect(
+      InteractiveReplyParser.parse({
+        type: 'interactive',
+        interactive: { type: 'list_reply', list_reply: { id: 'stop_alert:comptable', title: 'comptable' } },
+      })
+    ).toEqual({ kind: 'list_reply', id: 'stop_alert:comptable', title: 'comptable' })
+  })
+
+  it('should ignore other messages', () => {
+    expect(InteractiveReplyParser.parse({ type: 'text' })).toBeNull()
+  })
+
+  it('should map conversation buttons to machine events', () => {
+    const timestamp = Date.now()
+
+    expect(InteractiveReplyParser.toEvent({ kind: 'button_reply', id: 'see_more', title: 'Voir plus' }, timestamp)).toEqual({
+      type: 'SEE_MORE_CLICKED',
+      timestamp,
+    })
+    expect(
+      InteractiveReplyParser.toEvent({ kind: 'button_reply', id: 'new_search', title: 'Nouvelle recherche' }, timestamp)
+    ).toEqual({ type: 'NEW_SEARCH_CLICKED', timestamp })
+    expect(
+      InteractiveReplyParser.toEvent({ kind: 'button_reply', id: 'create_alert', title: 'Créer une alerte' })
+    ).toBeNull()
+  })
+
+  it('should turn other replies into chat commands', () => {
+    const createAlert = { kind: 'button_reply' as const, id: 'create_alert', title: 'Créer une alerte' }
+
+    expect(InteractiveReplyParser.toText(createAlert, 'comptable')).toBe('Alerte comptable')
+    expect(InteractiveReplyParser.toText(createAlert)).toBe('Mes alertes')
+    expect(
+      InteractiveReplyParser.toText({ kind: 'list_reply', id: 'stop_alert:chauffeur', title: 'chauffeur' })
+    ).toBe('Stop alerte chauffeur')
+  })
+})
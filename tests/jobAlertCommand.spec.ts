@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'bun:test'
+import { JobAlertCommandParser } from '@/utils/job-alert-command'
+
+describe('JobAlertCommandParser', () => {
+  it('should parse a subscription', () => {
+    expect(JobAlertCommandParser.parse('Alerte comptable')).toEqual({ type: 'subscribe', query: 'comptable' })
+    expect(JobAlertCommandParser.parse('créer une alerte  développeur web ')).toEqual({
+      type: 'subscribe',
+      query: 'développeur web',
+    })
+  })
+
+  it('should parse the list command', () => {
+    expect(JobAlertCommandParser.parse('mes alertes')).toEqual({ type: 'list' })
+    expect(JobAlertCommandParser.parse('Voir alerte')).toEqual({ type: 'list' })
+  })
+
+  it('should parse unsubscribe commands', () => {
+    expect(JobAlertCommandParser.parse('stop alerte comptable')).toEqual({ type: 'unsubscribe', target: 'comptable' })
+    expect(JobAlertCommandParser.parse('Stop alerte 2')).toEqual({ type: 'unsubscribe', target: '2' })
+    expect(JobAlertCommandParser.parse('stop alertes')).toEqual({ type: 'unsubscribe', target: undefined })
+    expect(JobAlertCommandParser.parse('arrêter mes alertes')).toEqual({ type: 'unsubscribe', target: undefined })
+  })
+
+  it('should ignore regular messages', () => {
+    expect(JobAlertCommandParser.parse('comptable')).toBeNull()
+    expect(JobAlertCommandParser.parse('voir plus')).toBeNull()
+    expect(JobAlertCommandParser.parse('alerte')).toBeNull()
+  })
+})
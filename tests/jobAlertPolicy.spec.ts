@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'bun:test'
+import { JobAlertPolicy } from '@/utils/job-alert-policy'
+
+describe('JobAlertPolicy', () => {
+  const now = new Date('2025-06-15T10:00:00Z')
+  const today = JobAlertPolicy.notificationDay(now)
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000)
+
+  it('should notify an alert never notified', () => {
+    expect(JobAlertPolicy.canNotify({ notificationsToday: 0 }, now)).toBe(true)
+  })
+
+  it('should stop notifying once the daily limit is reached', () => {
+    const alert = { notificationsToday: JobAlertPolicy.MAX_NOTIFICATIONS_PER_DAY, notificationsDay: today, lastNotifiedAt: hoursAgo(3) }
+
+    expect(JobAlertPolicy.canNotify(alert, now)).toBe(false)
+    expect(JobAlertPolicy.canNotify({ ...alert, notificationsToday: JobAlertPolicy.MAX_NOTIFICATIONS_PER_DAY - 1 }, now)).toBe(true)
+  })
+
+  it('should reset the daily limit on the next day', () => {
+    const alert = { notificationsToday: JobAlertPolicy.MAX_NOTIFICATIONS_PER_DAY, notificationsDay: '2025-06-14', lastNotifiedAt: hoursAgo(12) }
+
+    expect(JobAlertPolicy.canNotify(alert, now)).toBe(true)
+  })
+
+  it('should wait the minimum interval between two notifications', () => {
+    expect(JobAlertPolicy.canNotify({ notificationsToday: 1, notificationsDay: today, lastNotifiedAt: hoursAgo(1) }, now)).toBe(false)
+    expect(JobAlertPolicy.canNotify({ notificationsToday: 1, notificationsDay: today, lastNotifiedAt: hoursAgo(2) }, now)).toBe(true)
+  })
+
+  it('should send a free-form message within 24h of the last user message', () => {
+    expect(JobAlertPolicy.isInsideServiceWindow(hoursAgo(1), now)).toBe(true)
+    expect(JobAlertPolicy.isInsideServiceWindow(hoursAgo(23.9), now)).toBe(true)
+  })
+
+  it('should need a template past 24h or without any user message', () => {
+    expect(JobAlertPolicy.isInsideServiceWindow(hoursAgo(24), now)).toBe(false)
+    expect(JobAlertPolicy.isInsideServiceWindow(hoursAgo(72), now)).toBe(false)
+    expect(JobAlertPolicy.isInsideServiceWindow(undefined, now)).toBe(false)
+  })
+})
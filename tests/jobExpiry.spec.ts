@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'bun:test'
+import { JobExpiryPolicy } from '@/utils/job-expiry'
+import { ExpiredLinkPage } from '@/utils/expired-link-page'
+
+describe('JobExpiryPolicy', () => {
+  it('should expire a job at the end of its application deadline', () => {
+    const job = { source: 'EduCarriere', postedDate: new Date(2025, 5, 1), applicationDeadline: new Date(2025, 5, 30) }
+
+    expect(JobExpiryPolicy.computeExpiresAt(job)).toEqual(new Date(2025, 5, 30, 23, 59, 59, 999))
+    expect(JobExpiryPolicy.isExpired(job, new Date(2025, 5, 30, 18))).toBe(false)
+    expect(JobExpiryPolicy.isExpired(job, new Date(2025, 6, 1))).toBe(true)
+  })
+
+  it('should fall back to the source TTL when there is no deadline', () => {
+    const postedDate = new Date('2025-06-01T10:00:00Z')
+    const day = 24 * 60 * 60 * 1000
+
+    expect(JobExpiryPolicy.computeExpiresAt({ source: 'OptionCarriere', postedDate }).getTime()).toBe(postedDate.getTime() + 30 * day)
+    expect(JobExpiryPolicy.computeExpiresAt({ source: 'Djamo', postedDate }).getTime()).toBe(postedDate.getTime() + 60 * day)
+    expect(JobExpiryPolicy.computeExpiresAt({ source: 'UnknownBoard', postedDate }).getTime()).toBe(
+      postedDate.getTime() + JobExpiryPolicy.DEFAULT_TTL_DAYS * day
+    )
+  })
+
+  it('should ignore an invalid deadline', () => {
+    const postedDate = new Date('2025-06-01T10:00:00Z')
+
+    expect(JobExpiryPolicy.computeExpiresAt({ source: 'JobIvoire', postedDate, applicationDeadline: new Date('invalid') })).toEqual(
+      new Date(postedDate.getTime() + JobExpiryPolicy.DEFAULT_TTL_DAYS * 24 * 60 * 60 * 1000)
+    )
+  })
+})
+
+describe('ExpiredLinkPage', () => {
+  it('should render the job title escaped', () => {
+    const html = ExpiredLinkPage.render({ title: 'Comptable <senior>', company: 'Orange & Co' })
+
+    expect(html).toContain('Cette offre a expiré')
+    expect(html).toContain('Comptable &lt;senior&gt; &middot; Orange &amp; Co')
+    expect(ExpiredLinkPage.render(null)).not.toContain('class="job"')
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'bun:test'
+import { JobAd, ContractType, EducationLevel, ExperienceLevel } from '@/models/JobAd'
+import { JobFieldExtractor } from '@/utils/job-field-extractor'
+import { extractStructuredFields } from '@/scrapers/fields'
+
+const job = (data: Partial<ConstructorParameters<typeof JobAd>[0]>) =>
+  new JobAd({
+    title: 'Comptable',
+    url: 'https://example.com/job',
+    postedDate: new Date('2025-06-10'),
+    source: 'JobIvoire',
+    ...data,
+  })
+
+describe('JobFieldExtractor', () => {
+  it('should detect the contract type, preferring the title', () => {
+    expect(JobFieldExtractor.parseContractType('Poste en CDI à pourvoir')).toBe(ContractType.CDI)
+    expect(JobFieldExtractor.parseContractType('Contrat à durée déterminée de 6 mois')).toBe(ContractType.CDD)
+    expect(JobFieldExtractor.extract('Stagiaire Comptable', 'Possibilité de CDI')).toMatchObject({
+      contractType: ContractType.INTERNSHIP,
+    })
+  })
+
+  it('should map years of experience to a level', () => {
+    expect(JobFieldExtractor.parseExperienceLevel("1 an d'expérience")).toBe(ExperienceLevel.JUNIOR)
+    expect(JobFieldExtractor.parseExperienceLevel("3 à 5 ans d'expérience")).toBe(ExperienceLevel.INTERMEDIATE)
+    expect(JobFieldExtractor.parseExperienceLevel('Expérience minimum de 8 ans')).toBe(ExperienceLevel.SENIOR)
+    expect(JobFieldExtractor.parseExperienceLevel('Débutant accepté')).toBe(ExperienceLevel.JUNIOR)
+  })
+
+  it('should detect the education level', () => {
+    expect(JobFieldExtractor.parseEducationLevel("Titulaire d'un BAC+4 en finance")).toBe(EducationLevel.BAC_4)
+    expect(JobFieldExtractor.parseEducationLevel('Bac + 2 minimum (BTS, DUT)')).toBe(EducationLevel.BAC_2)
+    expect(JobFieldExtractor.parseEducationLevel('Diplôme de Master en gestion')).toBe(EducationLevel.BAC_5)
+  })
+
+  it('should parse deadlines in numeric and French formats', () => {
+    expect(JobFieldExtractor.parseDeadline('Date limite de dépôt des candidatures : 30/06/2025')).toEqual(new Date(2025, 5, 30))
+    expect(JobFieldExtractor.parseDeadline('Envoyez votre CV avant le 15 août 2025')).toEqual(new Date(2025, 7, 15))
+    expect(JobFieldExtractor.parseDeadline('Poste à pourvoir rapidement')).toBeUndefined()
+  })
+
+  it('should detect the sector and known skills', () => {
+    const fields = JobFieldExtractor.extract('Développeur Web', 'Maîtrise de React, Node.js et SQL. Anglais courant.')
+
+    expect(fields.sector).toBe('informatique')
+    expect(fields.skills).toEqual(['SQL', 'React', 'Node.js', 'Anglais'])
+  })
+})
+
+describe('extractStructuredFields', () => {
+  it('should prefer the data given by the job board', () => {
+    const fields = extractStructuredFields(
+      job({
+        source: 'Socium',
+        description: 'Poste en CDD, BAC+2 minimum',
+        pageMetadata: { contractType: 'CDI', educationLevel: 'BAC+4', skills: ['Sage', 'Excel'], bestCandidateProfil: '5 ans d’expérience' },
+      })
+    )
+
+    expect(fields).toMatchObject({
+      contractType: ContractType.CDI,
+      educationLevel: EducationLevel.BAC_4,
+      experienceLevel: ExperienceLevel.INTERMEDIATE,
+      skills: ['Sage', 'Excel'],
+      sector: 'finance',
+    })
+  })
+
+  it('should read EduCarriere list items', () => {
+    const fields = extractStructuredFields(
+      job({
+        source: 'EduCarriere',
+        pageMetadata: { listItems: ['Lieu: Abidjan', 'Date de publication: 05/06/2025', 'Date limite: 30/06/2025'] },
+      })
+    )
+
+    expect(fields.applicationDeadline).toEqual(new Date(2025, 5, 30))
+  })
+})
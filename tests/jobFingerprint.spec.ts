@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'bun:test'
+import { JobFingerprint, type FingerprintableJob } from '@/utils/job-fingerprint'
+
+const description =
+  'Notre client, une entreprise de distribution basée à Abidjan, recherche un responsable commercial chargé de développer le portefeuille clients, ' +
+  'animer une équipe de commerciaux terrain, suivre les objectifs mensuels, négocier les contrats importants et produire les rapports de ventes hebdomadaires.'
+
+const job = (overrides: Partial<FingerprintableJob> = {}): FingerprintableJob => ({
+  title: 'Responsable Commercial',
+  company: 'SODIS',
+  location: 'Abidjan',
+  description,
+  postedDate: new Date('2025-06-10'),
+  source: 'EduCarriere',
+  ...overrides,
+})
+
+describe('JobFingerprint', () => {
+  it('should normalize titles across boards', () => {
+    expect(JobFingerprint.normalizeTitle('• RESPONSABLE COMMERCIAL H/F')).toBe('responsable commercial')
+    expect(JobFingerprint.normalizeTitle('Développeur Web - 🇨🇮')).toBe('developpeur web')
+    expect(JobFingerprint.compute(job({ title: 'RESPONSABLE COMMERCIAL (H/F)' }))).toBe(JobFingerprint.compute(job()))
+  })
+
+  it('should match the same vacancy on two boards', () => {
+    const other = job({ source: 'JobIvoire', company: 'SODIS CI SA', location: 'Abidjan, Plateau', postedDate: new Date('2025-06-12') })
+    expect(JobFingerprint.isDuplicate(job(), other)).toBe(true)
+  })
+
+  it('should rely on the description when a board has no company', () => {
+    expect(JobFingerprint.isDuplicate(job(), job({ source: 'JobIvoire', company: undefined }))).toBe(true)
+    expect(JobFingerprint.isDuplicate(job(), job({ source: 'JobIvoire', company: undefined, description: 'Poste de commercial' }))).toBe(false)
+  })
+
+  it('should keep distinct vacancies apart', () => {
+    expect(JobFingerprint.isDuplicate(job(), job())).toBe(false) // same board
+    expect(JobFingerprint.isDuplicate(job(), job({ source: 'JobIvoire', company: 'ACME' }))).toBe(false)
+    expect(JobFingerprint.isDuplicate(job(), job({ source: 'JobIvoire', location: 'San-Pédro' }))).toBe(false)
+    expect(JobFingerprint.isDuplicate(job(), job({ source: 'JobIvoire', postedDate: new Date('2025-07-10') }))).toBe(false)
+    expect(JobFingerprint.isDuplicate(job(), job({ source: 'JobIvoire', title: 'Directeur Commercial' }))).toBe(false)
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'bun:test'
+import { ContractType } from '@/models/JobAd'
+import { JobQueryParser } from '@/utils/job-query-parser'
+
+describe('JobQueryParser', () => {
+  it('should extract the contract type and location from the keywords', () => {
+    expect(JobQueryParser.parse('stage marketing à Bouaké')).toEqual({
+      keywords: 'marketing',
+      filters: { location: 'Bouaké', contractType: ContractType.INTERNSHIP },
+    })
+  })
+
+  it('should match locations written without accents or hyphens', () => {
+    expect(JobQueryParser.parse('caissière port bouet').filters.location).toBe('Port-Bouët')
+    expect(JobQueryParser.parse('comptable a yopougon').filters.location).toBe('Yopougon')
+  })
+
+  it('should understand recency and remote work', () => {
+    expect(JobQueryParser.parse('comptable cdi cette semaine')).toEqual({
+      keywords: 'comptable',
+      filters: { contractType: ContractType.CDI, postedWithinDays: 7 },
+    })
+    expect(JobQueryParser.parse("offres d'aujourd'hui").filters.postedWithinDays).toBe(1)
+    expect(JobQueryParser.parse('développeur en télétravail')).toEqual({
+      keywords: 'développeur',
+      filters: { remote: true },
+    })
+  })
+
+  it('should keep the query untouched when no filter is found', () => {
+    expect(JobQueryParser.parse('  offre de développeur web ')).toEqual({
+      keywords: 'offre de développeur web',
+      filters: {},
+    })
+  })
+
+  it('should allow searching with filters only', () => {
+    const { keywords, filters } = JobQueryParser.parse('offres de stage à Abidjan')
+    expect(keywords).toBe('')
+    expect(JobQueryParser.hasFilters(filters)).toBe(true)
+  })
+
+  it('should describe the applied filters', () => {
+    expect(
+      JobQueryParser.describe({ location: 'Bouaké', contractType: ContractType.INTERNSHIP, postedWithinDays: 7, remote: true })
+    ).toBe('📍 Bouaké • 📄 Stage • 🗓️ Cette semaine • 🏠 Télétravail')
+  })
+})
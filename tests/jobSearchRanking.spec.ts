@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'bun:test'
+import { JobSearchRanking } from '@/utils/job-search-ranking'
+
+describe('JobSearchRanking', () => {
+  const now = new Date('2025-06-15T10:00:00Z')
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+
+  // ts_rank_cd of a single word query found once (normalized), in the title or the description
+  const TITLE_MATCH_RANK = 0.5
+  const DESCRIPTION_MATCH_RANK = 1 / 6
+
+  it('should pass the field weights to ts_rank_cd in {D, C, B, A} order', () => {
+    expect(JobSearchRanking.rankWeights()).toBe('{0.1, 0.2, 0.4, 1}')
+    expect(JobSearchRanking.rankWeights('title')).toBe('{0, 0, 0, 1}')
+    expect(JobSearchRanking.rankWeights('description')).toBe('{0, 1, 0, 0}')
+  })
+
+  it('should halve the recency every half-life', () => {
+    expect(JobSearchRanking.recency(now, now)).toBe(1)
+    expect(JobSearchRanking.recency(daysAgo(JobSearchRanking.RECENCY_HALF_LIFE_DAYS), now)).toBeCloseTo(0.5)
+    expect(JobSearchRanking.recency(daysAgo(2 * JobSearchRanking.RECENCY_HALF_LIFE_DAYS), now)).toBeCloseTo(0.25)
+    // Dates in the future (time zone slips) count as now
+    expect(JobSearchRanking.recency(daysAgo(-1), now)).toBe(1)
+  })
+
+  it('should rank a title match above a description match, even a few weeks older', () => {
+    const oldTitleMatch = JobSearchRanking.score(TITLE_MATCH_RANK, JobSearchRanking.recency(daysAgo(30), now))
+    const freshDescriptionMatch = JobSearchRanking.score(DESCRIPTION_MATCH_RANK, JobSearchRanking.recency(now, now))
+
+    expect(oldTitleMatch).toBeGreaterThan(freshDescriptionMatch)
+  })
+
+  it('should rank the most recent of equally relevant jobs first', () => {
+    expect(JobSearchRanking.score(TITLE_MATCH_RANK, JobSearchRanking.recency(daysAgo(1), now))).toBeGreaterThan(
+      JobSearchRanking.score(TITLE_MATCH_RANK, JobSearchRanking.recency(daysAgo(7), now))
+    )
+  })
+
+  it('should rank by recency alone without keywords', () => {
+    expect(JobSearchRanking.score(null, 0.25)).toBe(0.25)
+    expect(JobSearchRanking.scoreSql(null, 'recency')).toBe('recency')
+    expect(JobSearchRanking.scoreSql('text_rank', 'recency')).toBe('(0.8 * text_rank + 0.2 * recency)')
+  })
+
+  it('should read the score breakdown of a raw search row', () => {
+    const row = {
+      job_id: 'job-1',
+      score: '0.6',
+      text_rank: '0.5',
+      recency: '1',
+      rank_title: '0.5',
+      rank_company_location: '0',
+      rank_description: '0',
+      rank_page_metadata: '0',
+    }
+
+    expect(JobSearchRanking.toSearchScore(row)).toEqual({
+      score: 0.6,
+      textRank: 0.5,
+      recency: 1,
+      fields: { title: 0.5, companyLocation: 0, description: 0, pageMetadata: 0 },
+    })
+  })
+})
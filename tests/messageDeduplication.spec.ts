@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import Redis from 'ioredis'
+import { MessageDeduplicationService } from '@/services/message-deduplication.service'
+
+describe('MessageDeduplicationService', () => {
+  let redis: Redis
+  let deduplication: MessageDeduplicationService
+  const testMessageId = 'wamid.test-dedup-123'
+
+  beforeEach(async () => {
+    redis = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+      db: 1, // Use different database for tests
+    })
+
+    deduplication = new MessageDeduplicationService(redis)
+    await redis.del(`message:processed:${testMessageId}`, 'message:dedup:stats')
+  })
+
+  afterEach(async () => {
+    await redis.del(`message:processed:${testMessageId}`, 'message:dedup:stats')
+    await redis.quit()
+  })
+
+  it('should claim a message only once across handlers', async () => {
+    expect(await deduplication.claim(testMessageId, 'rules')).toBe(true)
+    expect(await deduplication.claim(testMessageId, 'rules')).toBe(false)
+    expect(await deduplication.claim(testMessageId, 'nlp')).toBe(false)
+
+    const stats = await deduplication.getStats()
+    expect(stats.claimed).toBe(1)
+    expect(stats.duplicates).toBe(2)
+    expect(stats.duplicatesByHandler).toEqual({ xstate: 1, nlp: 1 })
+    expect(stats.lastDuplicateAt).not.toBeNull()
+  })
+
+  it('should let a single worker win concurrent claims', async () => {
+    // Two workers sharing Redis, as with several worker processes
+    const otherWorker = new MessageDeduplicationService(redis)
+
+    const results = await Promise.all([
+      deduplication.claim(testMessageId, 'rules'),
+      otherWorker.claim(testMessageId, 'rules'),
+      otherWorker.claim(testMessageId, 'langchain'),
+    ])
+
+    expect(results.filter(Boolean)).toHaveLength(1)
+  })
+
+  it('should claim a released message again', async () => {
+    expect(await deduplication.claim(testMessageId, 'nlp')).toBe(true)
+
+    await deduplication.release(testMessageId)
+
+    expect(await deduplication.claim(testMessageId, 'nlp')).toBe(true)
+  })
+})
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'bun:test'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { MessageDeliveryTracker } from '@/utils/message-delivery'
+import { MessageStatusService, type MessageStatusStore, type MessageStatusRetryQueue } from '@/services/message-status.service'
+import type { WhatsAppWebhookEnvelope, WhatsAppWebhookStatus } from '@/models/WhatsAppWebhook'
+
+const WAMID = 'wamid.HBgMMjI1MDcwMDAwMDAxFQIAERgSQzg3RDVGMTc2QjlEN0I3RQA='
+
+const statusUpdate = JSON.parse(
+  readFileSync(join(import.meta.dir, 'fixtures', 'webhooks', 'status-update.json'), 'utf8')
+) as WhatsAppWebhookEnvelope
+
+const status = (value: WhatsAppWebhookStatus['status'], timestamp: number): WhatsAppWebhookStatus => ({
+  id: WAMID,
+  status: value,
+  timestamp: String(timestamp),
+  recipient_id: '2250700000001',
+})
+
+describe('MessageDeliveryTracker', () => {
+  it('should move forward through sent, delivered and read', () => {
+    const sent = MessageDeliveryTracker.apply({}, status('sent', 1000))
+    expect(sent).toEqual({ sentAt: 1_000_000, deliveryStatus: 'sent' })
+
+    const delivered = MessageDeliveryTracker.apply({ ...sent }, status('delivered', 1002))
+    expect(delivered).toEqual({ deliveredAt: 1_002_000, deliveryStatus: 'delivered' })
+
+    const read = MessageDeliveryTracker.apply({ ...sent, ...delivered }, status('read', 1010))
+    expect(read).toEqual({ readAt: 1_010_000, deliveryStatus: 'read' })
+  })
+
+  it('should not go back on late or repeated statuses', () => {
+    // "read" received first also marks the message as delivered
+    const read = MessageDeliveryTracker.apply({ deliveryStatus: 'sent', sentAt: 1_000_000 }, status('read', 1010))
+    expect(read).toEqual({ deliveredAt: 1_010_000, readAt: 1_010_000, deliveryStatus: 'read' })
+
+    // The late "delivered" only fixes the delivery time
+    const state = { deliveryStatus: 'read' as const, deliveredAt: 1_010_000, readAt: 1_010_000 }
+    expect(MessageDeliveryTracker.apply(state, status('delivered', 1002))).toEqual({ deliveredAt: 1_002_000 })
+
+    expect(MessageDeliveryTracker.apply(state, status('read', 1010))).toBeNull()
+    expect(MessageDeliveryTracker.apply(state, status('deleted', 1020))).toBeNull()
+  })
+})
+
+describe('MessageStatusService', () => {
+  it('should save the failure reason of a failed message', async () => {
+    const updates: Array<{ id: string; data: any }> = []
+    const store: MessageStatusStore = {
+      findByWhatsAppMessageId: async (whatsappMessageId: string) =>
+        whatsappMessageId === WAMID
+          ? ({ id: 'message-1', phoneNumber: '2250700000001', deliveryStatus: 'delivered', deliveredAt: 1_000 } as any)
+          : null,
+      update: async (id: string, data: any) => {
+        updates.push({ id, data })
+        return null
+      },
+    }
+
+    const updated = await new MessageStatusService(store).applyStatuses(statusUpdate)
+
+    expect(updated).toBe(1)
+    expect(updates).toEqual([
+      {
+        id: 'message-1',
+        data: {
+          failedAt: 1_750_150_860_000,
+          deliveryStatus: 'failed',
+          failureReason: {
+            code: 131047,
+            title: 'Re-engagement message',
+            message: 'Re-engagement message',
+            details: 'Message failed to send because more than 24 hours have passed since the customer last replied to this number.',
+          },
+        },
+      },
+    ])
+  })
+
+  it('should ignore statuses of unknown messages', async () => {
+    const store: MessageStatusStore = {
+      findByWhatsAppMessageId: async () => null,
+      update: async () => {
+        throw new Error('should not update')
+      },
+    }
+
+    expect(await new MessageStatusService(store).applyStatuses(statusUpdate)).toBe(0)
+  })
+
+  describe('statuses of messages not saved yet', () => {
+    const OTHER_WAMID = 'wamid.HBgMMjI1MDcwMDAwMDAxFQIAERgSRkY5QjI3QTY0RjI4NDE0OQA='
+
+    // Status webhook also holding a user message
+    const webhookWith = (statuses: WhatsAppWebhookStatus[]): WhatsAppWebhookEnvelope => {
+      const [entry] = statusUpdate.entry
+      const [change] = entry.changes
+      const message = { from: '2250700000001', id: 'wamid.incoming', timestamp: '1750150861', type: 'text', text: { body: 'Bonjour' } }
+
+      return { ...statusUpdate, entry: [{ ...entry, changes: [{ ...change, value: { ...change.value, messages: [message], statuses } }] }] }
+    }
+
+    const [unknownStatus] = statusUpdate.entry[0].changes[0].value.statuses!
+    const knownStatus = { ...status('delivered', 1_750_150_861), id: OTHER_WAMID }
+
+    const createService = () => {
+      const queued: Array<{ name: string; data: any; opts: any }> = []
+      const queue: MessageStatusRetryQueue = {
+        add: async (name: string, data: any, opts: any) => {
+          queued.push({ name, data, opts })
+          return null as any
+        },
+      }
+      const store: MessageStatusStore = {
+        findByWhatsAppMessageId: async (whatsappMessageId: string) =>
+          whatsappMessageId === OTHER_WAMID ? ({ id: 'message-2', deliveryStatus: 'sent', sentAt: 1_000 } as any) : null,
+        update: async () => null,
+      }
+
+      return { service: new MessageStatusService(store, queue), queued }
+    }
+
+    it('should re-queue only the statuses of unknown messages, with a delay', async () => {
+      const { service, queued } = createService()
+
+      expect(await service.applyStatuses(webhookWith([unknownStatus, knownStatus]))).toBe(1)
+
+      expect(queued).toHaveLength(1)
+      expect(queued[0].opts).toEqual({ delay: MessageStatusService.STATUS_RETRY_DELAY_MS })
+      expect(queued[0].data.statusRetry).toBe(1)
+
+      const [change] = queued[0].data.payload.entry[0].changes
+      expect(change.value.statuses.map((s: WhatsAppWebhookStatus) => s.id)).toEqual([WAMID])
+      expect(change.value.messages).toBeUndefined()
+      expect(change.value.metadata).toEqual(statusUpdate.entry[0].changes[0].value.metadata)
+    })
+
+    it('should wait longer on each retry and give up after the last one', async () => {
+      const { service, queued } = createService()
+
+      await service.applyStatuses(statusUpdate, 1)
+      expect(queued[0].opts).toEqual({ delay: 2 * MessageStatusService.STATUS_RETRY_DELAY_MS })
+      expect(queued[0].data.statusRetry).toBe(2)
+
+      await service.applyStatuses(statusUpdate, MessageStatusService.MAX_STATUS_RETRIES)
+      expect(queued).toHaveLength(1)
+    })
+
+    it('should not re-queue anything when every message is known', async () => {
+      const { service, queued } = createService()
+
+      expect(await service.applyStatuses(webhookWith([knownStatus]))).toBe(1)
+      expect(queued).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import Redis from 'ioredis'
+import { MessageOrderingService } from '@/services/message-ordering.service'
+
+describe('MessageOrderingService', () => {
+  let redis: Redis
+  let ordering: MessageOrderingService
+  const testPhoneNumber = '+1234567890'
+  const sessionKey = `test:ordering:session:${testPhoneNumber}`
+  const keys = [
+    `message:order:ticket:${testPhoneNumber}`,
+    `message:order:next:${testPhoneNumber}`,
+    sessionKey,
+  ]
+
+  // Same read-modify-write as ConversationStateService.handleMessage: load the session,
+  // run the machine (async), save the session
+  const appendToSession = async (text: string) => {
+    const messages: string[] = JSON.parse((await redis.get(sessionKey)) || '[]')
+    await Bun.sleep(20)
+    messages.push(text)
+    await redis.set(sessionKey, JSON.stringify(messages))
+  }
+
+  // What the worker does, waiting in place of moving the job to the delayed set
+  const processInOrder = async (ticket: number, text: string) => {
+    while (!(await ordering.canProcess(testPhoneNumber, ticket, Date.now()))) {
+      await Bun.sleep(5)
+    }
+
+    try {
+      await appendToSession(text)
+    } finally {
+      await ordering.complete(testPhoneNumber, ticket)
+    }
+  }
+
+  beforeEach(async () => {
+    redis = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+      db: 1, // Use different database for tests
+    })
+
+    ordering = new MessageOrderingService(redis)
+    await redis.del(...keys)
+  })
+
+  afterEach(async () => {
+    await redis.del(...keys)
+    await redis.quit()
+  })
+
+  it('should lose a message when two messages of a user are processed concurrently', async () => {
+    // The race the ordering prevents
+    await Promise.all([appendToSession('Bonjour'), appendToSession('Comptable')])
+
+    expect(JSON.parse((await redis.get(sessionKey)) || '[]')).toHaveLength(1)
+  })
+
+  it('should process the messages of a user one at a time in reception order', async () => {
+    const first = await ordering.issueTicket(testPhoneNumber)
+    const second = await ordering.issueTicket(testPhoneNumber)
+    const third = await ordering.issueTicket(testPhoneNumber)
+
+    // Workers pick the jobs up in any order
+    await Promise.all([
+      processInOrder(third, 'Voir plus'),
+      processInOrder(second, 'Comptable'),
+      processInOrder(first, 'Bonjour'),
+    ])
+
+    expect(JSON.parse((await redis.get(sessionKey)) || '[]')).toEqual(['Bonjour', 'Comptable', 'Voir plus'])
+  })
+
+  it('should not make other users wait', async () => {
+    const otherPhoneNumber = '+1234567899'
+    await ordering.issueTicket(testPhoneNumber)
+    await ordering.issueTicket(testPhoneNumber)
+
+    const otherTicket = await ordering.issueTicket(otherPhoneNumber)
+
+    expect(await ordering.canProcess(otherPhoneNumber, otherTicket, Date.now())).toBe(true)
+    await redis.del(`message:order:ticket:${otherPhoneNumber}`, `message:order:next:${otherPhoneNumber}`)
+  })
+
+  it('should stop waiting for a ticket that never completes', async () => {
+    await ordering.issueTicket(testPhoneNumber)
+    const second = await ordering.issueTicket(testPhoneNumber)
+
+    expect(await ordering.canProcess(testPhoneNumber, second, Date.now())).toBe(false)
+    expect(await ordering.canProcess(testPhoneNumber, second, Date.now() - 2 * 60_000)).toBe(true)
+
+    // The late first message does not move the order back
+    await ordering.complete(testPhoneNumber, second)
+    await ordering.complete(testPhoneNumber, 1)
+    expect(await redis.get(`message:order:next:${testPhoneNumber}`)).toBe('3')
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { Queue, Worker } from 'bullmq'
+import { ScrapeJobsService } from '@/services/scrape-jobs.service'
+import type { ScrapeJobData } from '@/queues/scrape.queue'
+import type { ScraperSourceEntity } from '@/db/entities/ScraperSourceEntity'
+import { ScrapeMode } from '@/models/ScrapeSession'
+
+describe('ScrapeJobsService', () => {
+  let queue: Queue<ScrapeJobData>
+  let service: ScrapeJobsService
+
+  const source = (name: string, maxPages?: number) =>
+    ({ id: `source-${name}`, name, maxPages }) as ScraperSourceEntity
+
+  const connection = {
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379'),
+    password: process.env.REDIS_PASSWORD,
+    db: 1, // Use different database for tests
+  }
+
+  beforeEach(() => {
+    queue = new Queue<ScrapeJobData>('scrape-jobs-test', { connection })
+    service = new ScrapeJobsService(queue)
+  })
+
+  afterEach(async () => {
+    await queue.obliterate({ force: true })
+    await queue.close()
+  })
+
+  it('should enqueue a manual scrape with the pages of the source', async () => {
+    const job = await service.enqueue(source('djamo', 2), 3)
+
+    expect(job).toMatchObject({
+      sourceId: 'source-djamo',
+      sourceName: 'djamo',
+      mode: ScrapeMode.MANUAL,
+      state: 'waiting',
+      progress: null,
+    })
+    expect((await queue.getJob(job!.id))?.data.maxPages).toBe(2)
+  })
+
+  it('should fall back to the default number of pages', async () => {
+    const job = await service.enqueue(source('jobivoire'), 3)
+
+    expect((await queue.getJob(job!.id))?.data.maxPages).toBe(3)
+  })
+
+  it('should not enqueue a source twice while a scrape is pending', async () => {
+    expect(await service.enqueue(source('djamo'), 3)).not.toBeNull()
+    expect(await service.enqueue(source('djamo'), 3)).toBeNull()
+    expect(await service.enqueue(source('jobivoire'), 3)).not.toBeNull()
+  })
+
+  it('should enqueue a single job for concurrent scrapes of a source', async () => {
+    const jobs = await Promise.all([service.enqueue(source('djamo'), 3), service.enqueue(source('djamo'), 3)])
+
+    expect(jobs.filter(job => job !== null).map(job => job!.id)).toContain('manual-source-djamo')
+    expect(await queue.getJobs('waiting')).toHaveLength(1)
+  })
+
+  it('should enqueue a source again once its scrape finished', async () => {
+    const first = await service.enqueue(source('djamo'), 3)
+
+    const worker = new Worker<ScrapeJobData>('scrape-jobs-test', async () => {}, { connection })
+    await new Promise(resolve => worker.once('completed', resolve))
+    await worker.close()
+
+    const second = await service.enqueue(source('djamo'), 3)
+
+    expect(second).toMatchObject({ id: first!.id, state: 'waiting' })
+    expect(await queue.getJobState(second!.id)).toBe('waiting')
+  })
+
+  it('should list the jobs of a source with their progress', async () => {
+    const job = await service.enqueue(source('djamo'), 3)
+    await service.enqueue(source('jobivoire'), 3)
+    await (await queue.getJob(job!.id))!.updateProgress({ page: 1, totalPages: 3, jobsFound: 4, jobsUpdated: 1 })
+
+    const jobs = await service.list('source-djamo')
+
+    expect(jobs).toHaveLength(1)
+    expect(jobs[0].progress).toEqual({ page: 1, totalPages: 3, jobsFound: 4, jobsUpdated: 1 })
+    expect(await service.get(job!.id)).toMatchObject({ id: job!.id, state: 'waiting' })
+  })
+
+  it('should return null for an unknown job', async () => {
+    expect(await service.get('missing')).toBeNull()
+  })
+})
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'bun:test'
+import { JobAd } from '@/models/JobAd'
+import { ScrapeSession, ScrapeMode, ScrapeStatus } from '@/models/ScrapeSession'
+import { UnknownScraperError } from '@/scrapers/ScraperRegistry'
+import type { Scraper } from '@/scrapers/Scraper'
+import { ScrapeRunService, type ScrapeRunResult } from '@/services/scrape-run.service'
+import type { JobAdSaveResult } from '@/db/repositories/JobAdRepository'
+
+const newSession = () =>
+  new ScrapeSession({
+    sourceName: 'Fake',
+    mode: ScrapeMode.MANUAL,
+    status: ScrapeStatus.IN_PROGRESS,
+    startedAt: new Date(Date.now() - 5000),
+    pagesScraped: 0,
+    jobsFound: 0,
+  })
+
+const jobAd = (slug: string) =>
+  new JobAd({
+    title: `Comptable ${slug}`,
+    company: 'Fake Company',
+    location: 'Abidjan',
+    url: `https://jobs.example.com/${slug}`,
+    postedDate: new Date(),
+    source: 'Fake',
+  })
+
+describe('ScrapeSession', () => {
+  it('should add up the new and updated jobs of its pages', () => {
+    const session = newSession()
+
+    session.recordPage({ page: 1, durationMs: 1200, jobsScraped: 10, jobsSaved: 4, jobsUpdated: 2 })
+    session.recordPage({ page: 2, durationMs: 900, jobsScraped: 8, jobsSaved: 1, jobsUpdated: 0 })
+
+    expect(session.pagesScraped).toBe(2)
+    expect(session.jobsFound).toBe(5)
+    expect(session.jobsUpdated).toBe(2)
+    expect(session.pageStats.map(stat => stat.jobsScraped)).toEqual([10, 8])
+    expect(session.errors).toEqual([])
+  })
+
+  it('should keep the error of a failed page', () => {
+    const session = newSession()
+
+    session.recordPage({ page: 1, durationMs: 300, jobsScraped: 0, jobsSaved: 0, jobsUpdated: 0, error: 'Timeout' })
+
+    expect(session.pagesScraped).toBe(1)
+    expect(session.errors).toEqual(['Page 1: Timeout'])
+  })
+
+  it('should be completed or failed with a duration', () => {
+    const completed = newSession()
+    completed.markCompleted(3, 7)
+
+    expect(completed.status).toBe(ScrapeStatus.COMPLETED)
+    expect(completed.pagesScraped).toBe(3)
+    expect(completed.jobsFound).toBe(7)
+    expect(completed.getDuration()).toBeGreaterThanOrEqual(5000)
+
+    const failed = newSession()
+    expect(failed.getDuration()).toBeNull()
+    failed.markFailed('Navigation failed')
+
+    expect(failed.status).toBe(ScrapeStatus.FAILED)
+    expect(failed.errors).toEqual(['Navigation failed'])
+    expect(failed.getDuration()).toBeGreaterThanOrEqual(5000)
+  })
+})
+
+describe('ScrapeRunService', () => {
+  // In-memory repositories: jobs are new unless their URL is listed as known
+  const createService = (knownUrls: string[] = [], failingUrls: string[] = []) => {
+    const savedSessions: ScrapeSession[] = []
+    const scrapedSources: { page: number; jobsFound: number }[] = []
+    let nextJobId = 1
+
+    const service = new ScrapeRunService(
+      {
+        saveModelWithResult: async (job: JobAd): Promise<JobAdSaveResult> => {
+          if (failingUrls.includes(job.url)) throw new Error('duplicate key')
+          if (knownUrls.includes(job.url)) return { job, action: 'updated' }
+          job.id = `job-${nextJobId++}`
+          return { job, action: 'created' }
+        },
+      },
+      {
+        saveModel: async (session: ScrapeSession) => Object.assign(session, { id: 'session-1' }),
+        updateModel: async (session: ScrapeSession) => {
+          savedSessions.push(JSON.parse(JSON.stringify(session)))
+          return session
+        },
+      },
+      {
+        markAsScraped: async (_id: string, page: number, jobsFound: number) => {
+          scrapedSources.push({ page, jobsFound })
+          return null
+        },
+      },
+      { clusterJob: async () => null }
+    )
+
+    return { service, savedSessions, scrapedSources }
+  }
+
+  const scraperOf = (pages: (JobAd[] | Error)[]): Scraper => ({
+    sourceName: 'Fake',
+    capabilities: { paginated: true, fetchesDetails: false },
+    scrape: async (page: number) => {
+      const result = pages[page - 1] ?? []
+      if (result instanceof Error) throw result
+      return result
+    },
+  })
+
+  const newRun = (): ScrapeRunResult => ({ scrapedJobs: [], createdJobIds: [] })
+
+  it('should record every page and complete the session', async () => {
+    const { service, savedSessions, scrapedSources } = createService(['https://jobs.example.com/b'])
+    const session = await service.start('source-1', 'Fake', ScrapeMode.AUTOMATIC)
+    const run = newRun()
+    const pagesReported: number[] = []
+
+    await service.run(
+      session,
+      scraperOf([[jobAd('a'), jobAd('b')], [jobAd('c')]]),
+      3,
+      run,
+      async page => {
+        pagesReported.push(page)
+      }
+    )
+
+    expect(session.id).toBe('session-1')
+    expect(session.sourceId).toBe('source-1')
+    expect(session.status).toBe(ScrapeStatus.COMPLETED)
+    // The third page is empty, scraping stops there
+    expect(session.pageStats.map(({ page, jobsScraped, jobsSaved, jobsUpdated }) => ({ page, jobsScraped, jobsSaved, jobsUpdated }))).toEqual([
+      { page: 1, jobsScraped: 2, jobsSaved: 1, jobsUpdated: 1 },
+      { page: 2, jobsScraped: 1, jobsSaved: 1, jobsUpdated: 0 },
+      { page: 3, jobsScraped: 0, jobsSaved: 0, jobsUpdated: 0 },
+    ])
+    expect(session.pagesScraped).toBe(3)
+    expect(session.jobsFound).toBe(2)
+    expect(session.jobsUpdated).toBe(1)
+    expect(pagesReported).toEqual([1, 2])
+    expect(run.createdJobIds).toEqual(['job-1', 'job-2'])
+    expect(run.scrapedJobs).toHaveLength(3)
+    expect(scrapedSources).toEqual([{ page: 3, jobsFound: 3 }])
+    expect(savedSessions[savedSessions.length - 1].status).toBe(ScrapeStatus.COMPLETED)
+  })
+
+  it('should record jobs failing to save without failing the run', async () => {
+    const { service } = createService([], ['https://jobs.example.com/b'])
+    const session = await service.start('source-1', 'Fake', ScrapeMode.AUTOMATIC)
+
+    await service.run(session, scraperOf([[jobAd('a'), jobAd('b')]]), 1, newRun())
+
+    expect(session.status).toBe(ScrapeStatus.COMPLETED)
+    expect(session.jobsFound).toBe(1)
+    expect(session.errors).toEqual(['Failed saving https://jobs.example.com/b: duplicate key'])
+  })
+
+  it('should fail the session on a failing page and keep the pages scraped before', async () => {
+    const { service, savedSessions, scrapedSources } = createService()
+    const session = await service.start('source-1', 'Fake', ScrapeMode.MANUAL)
+    const run = newRun()
+
+    await expect(
+      service.run(session, scraperOf([[jobAd('a')], new Error('Navigation timeout')]), 3, run)
+    ).rejects.toThrow('Navigation timeout')
+
+    expect(session.status).toBe(ScrapeStatus.FAILED)
+    expect(session.pageStats.map(stat => stat.error)).toEqual([undefined, 'Navigation timeout'])
+    expect(session.jobsFound).toBe(1)
+    expect(session.errors).toEqual(['Page 2: Navigation timeout', 'Navigation timeout'])
+    expect(run.scrapedJobs).toHaveLength(1)
+    expect(scrapedSources).toEqual([])
+    expect(savedSessions[savedSessions.length - 1].status).toBe(ScrapeStatus.FAILED)
+  })
+
+  it('should fail the session of a source without a registered scraper', async () => {
+    const { service, savedSessions } = createService()
+    const session = await service.start('source-1', 'Fake', ScrapeMode.AUTOMATIC)
+
+    await service.fail(session, new UnknownScraperError('unknownboard').message)
+
+    expect(session.status).toBe(ScrapeStatus.FAILED)
+    expect(session.pagesScraped).toBe(0)
+    expect(session.errors).toEqual(['No scraper registered for key "unknownboard"'])
+    expect(savedSessions).toHaveLength(1)
+  })
+})
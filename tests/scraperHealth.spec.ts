@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'bun:test'
+import { JobAd } from '@/models/JobAd'
+import { ScraperHealthEvaluator, type ScraperHealthState } from '@/utils/scraper-health'
+
+const healthy: ScraperHealthState = { healthStatus: 'healthy', consecutiveEmptyRuns: 0, healthMetrics: null }
+
+const makeJobs = (count: number, fields: { company?: string; location?: string; description?: string } = {}) =>
+  Array.from({ length: count }, (_, i) =>
+    new JobAd({
+      title: `Job ${i}`,
+      url: `https://example.com/jobs/${i}`,
+      postedDate: new Date(),
+      source: 'Test',
+      company: 'ACME',
+      location: 'Abidjan',
+      description: 'Description',
+      ...fields,
+    })
+  )
+
+describe('ScraperHealthEvaluator', () => {
+  it('should compute field fill ratios', () => {
+    const jobs = [...makeJobs(3), ...makeJobs(1, { company: '', description: '  ' })]
+    const run = ScraperHealthEvaluator.collect(jobs)
+
+    expect(run.jobsScraped).toBe(4)
+    expect(run.fillRatios).toEqual({ company: 0.75, location: 1, description: 0.75 })
+    expect(ScraperHealthEvaluator.collect([]).fillRatios).toBeNull()
+  })
+
+  it('should degrade after consecutive empty runs and recover on the next jobs', () => {
+    const empty = ScraperHealthEvaluator.collect([])
+
+    let state = ScraperHealthEvaluator.evaluate(healthy, empty)
+    state = ScraperHealthEvaluator.evaluate(state, empty)
+    expect(state.healthStatus).toBe('healthy')
+    expect(state.consecutiveEmptyRuns).toBe(2)
+
+    state = ScraperHealthEvaluator.evaluate(state, empty)
+    expect(state.healthStatus).toBe('degraded')
+    expect(state.healthMetrics?.reasons).toEqual(['3 consecutive runs without jobs'])
+
+    state = ScraperHealthEvaluator.evaluate(state, ScraperHealthEvaluator.collect(makeJobs(2)))
+    expect(state.healthStatus).toBe('healthy')
+    expect(state.consecutiveEmptyRuns).toBe(0)
+  })
+
+  it('should not count a listing of already known jobs as empty', () => {
+    // The scraper skipped the 12 listing items it already saved
+    const quiet = ScraperHealthEvaluator.collect([], 0, [], undefined, 12)
+    expect(quiet.listingItemsFound).toBe(12)
+
+    let state = healthy
+    for (let run = 0; run < ScraperHealthEvaluator.MAX_CONSECUTIVE_EMPTY_RUNS; run++) {
+      state = ScraperHealthEvaluator.evaluate(state, quiet)
+    }
+
+    expect(state.healthStatus).toBe('healthy')
+    expect(state.consecutiveEmptyRuns).toBe(0)
+    expect(ScraperHealthEvaluator.evaluate(healthy, ScraperHealthEvaluator.collect([], 0, [], undefined, 0)).consecutiveEmptyRuns).toBe(1)
+  })
+
+  it('should degrade when a field fill ratio drops below its baseline', () => {
+    const baseline = ScraperHealthEvaluator.evaluate(healthy, ScraperHealthEvaluator.collect(makeJobs(10)))
+    expect(baseline.healthMetrics?.baselineFillRatios).toEqual({ company: 1, location: 1, description: 1 })
+
+    const broken = ScraperHealthEvaluator.evaluate(baseline, ScraperHealthEvaluator.collect(makeJobs(10, { company: '' })))
+    expect(broken.healthStatus).toBe('degraded')
+    expect(broken.healthMetrics?.reasons).toEqual(['company filled on 0% of jobs (usually 100%)'])
+    // A broken run does not move the baseline
+    expect(broken.healthMetrics?.baselineFillRatios).toEqual({ company: 1, location: 1, description: 1 })
+  })
+
+  it('should not judge fill ratios on small runs or sources without a baseline', () => {
+    const noBaseline = ScraperHealthEvaluator.evaluate(healthy, ScraperHealthEvaluator.collect(makeJobs(10, { company: '' })))
+    expect(noBaseline.healthStatus).toBe('healthy')
+
+    const baseline = ScraperHealthEvaluator.evaluate(healthy, ScraperHealthEvaluator.collect(makeJobs(10)))
+    const smallRun = ScraperHealthEvaluator.evaluate(baseline, ScraperHealthEvaluator.collect(makeJobs(2, { company: '' })))
+    expect(smallRun.healthStatus).toBe('healthy')
+  })
+
+  it('should degrade when most dates cannot be parsed', () => {
+    const run = ScraperHealthEvaluator.collect(makeJobs(4), 3, ['hier'])
+    const state = ScraperHealthEvaluator.evaluate(healthy, run)
+
+    expect(state.healthStatus).toBe('degraded')
+    expect(state.healthMetrics?.reasons).toEqual(['Date parsing failed for 3/4 jobs'])
+    expect(state.healthMetrics?.dateParseFailureSamples).toEqual(['hier'])
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'bun:test'
+import { ScraperRegistry, UnknownScraperError } from '@/scrapers/ScraperRegistry'
+import type { Scraper } from '@/scrapers/Scraper'
+
+const fakeScraper = (): Scraper => ({
+  sourceName: 'Fake',
+  capabilities: { paginated: false, fetchesDetails: false },
+  scrape: async () => [],
+})
+
+describe('ScraperRegistry', () => {
+  it('should create a registered scraper', () => {
+    const registry = new ScraperRegistry()
+    registry.register('fake', fakeScraper)
+
+    expect(registry.has('fake')).toBe(true)
+    expect(registry.create('fake').sourceName).toBe('Fake')
+    expect(registry.keys()).toEqual(['fake'])
+  })
+
+  it('should throw for unknown or missing keys', () => {
+    const registry = new ScraperRegistry()
+
+    expect(registry.has('unknown')).toBe(false)
+    expect(() => registry.create('unknown')).toThrow(UnknownScraperError)
+    expect(() => registry.create(undefined)).toThrow(UnknownScraperError)
+  })
+
+  it('should resolve the scraper key of a source, by name when it has none', () => {
+    const registry = new ScraperRegistry()
+    registry.register('fake', fakeScraper)
+
+    expect(registry.resolveKey({ name: 'other', scraperKey: 'fake' })).toBe('fake')
+    expect(registry.resolveKey({ name: 'Fake', scraperKey: null })).toBe('fake')
+    expect(registry.resolveKey({ name: 'unknown', scraperKey: null })).toBeNull()
+    expect(registry.resolveKey({ name: 'fake', scraperKey: 'unknown' })).toBeNull()
+  })
+
+  it('should refuse duplicate registrations', () => {
+    const registry = new ScraperRegistry()
+    registry.register('fake', fakeScraper)
+
+    expect(() => registry.register('fake', fakeScraper)).toThrow()
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach, setSystemTime } from 'bun:test'
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import puppeteer from 'puppeteer'
+import { scraperRegistry } from '@/scrapers'
+import { FixtureStore } from '@/scrapers/harness/FixtureStore'
+import { scraperHarness } from '@/scrapers/harness/ScraperHarness'
+import { createOfflineScraper, toGoldenJobAds } from '@/scrapers/harness/golden'
+
+/**
+ * Golden tests: every scraper is replayed against its recorded pages and
+ * must produce exactly the jobs stored in expected.json.
+ * Re-record with `bun run record-fixtures <scraper>` when a site changes.
+ */
+const fixturesDir = join(import.meta.dir, 'fixtures/scrapers')
+
+// Scrapers relying on Puppeteer need a headless Chrome, even when replaying
+// (PUPPETEER_EXECUTABLE_PATH points to one when Puppeteer's download is not installed)
+const REPLAY_TIMEOUT_MS = 60_000
+const BROWSERLESS_SCRAPERS = ['sociumjob']
+const chromeAvailable = isChromeAvailable()
+
+function isChromeAvailable(): boolean {
+  try {
+    return existsSync(process.env.PUPPETEER_EXECUTABLE_PATH || puppeteer.executablePath())
+  } catch {
+    return false
+  }
+}
+
+describe('Scrapers (recorded fixtures)', () => {
+  afterEach(() => {
+    scraperHarness.useLive()
+    setSystemTime()
+  })
+
+  for (const key of scraperRegistry.keys()) {
+    const dir = join(fixturesDir, key)
+    const hasFixtures = existsSync(join(dir, 'manifest.json'))
+    // Skipped rather than failed on machines and CI runners without Chrome
+    const missingChrome = !BROWSERLESS_SCRAPERS.includes(key) && !chromeAvailable
+
+    it.skipIf(!hasFixtures || missingChrome)(
+      `${key} should parse its recorded pages`,
+      async () => {
+        const store = new FixtureStore(dir)
+        const expected = JSON.parse(readFileSync(join(dir, 'expected.json'), 'utf-8'))
+
+        // Scrapers without a published date fall back to now
+        setSystemTime(store.recordedAt)
+        scraperHarness.useReplay(store)
+
+        const jobs = await createOfflineScraper(key).scrape(store.page)
+
+        expect(scraperHarness.missing).toEqual([])
+        expect(toGoldenJobAds(jobs)).toEqual(expected)
+      },
+      REPLAY_TIMEOUT_MS
+    )
+  }
+})
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'bun:test'
+import { ServerSentEvents } from '@/utils/server-sent-events'
+
+describe('ServerSentEvents', () => {
+  it('should format an event with its JSON data on one line', () => {
+    expect(ServerSentEvents.format('message.saved', { text: 'Bonjour\nAbidjan' })).toBe(
+      'event: message.saved\ndata: {"text":"Bonjour\\nAbidjan"}\n\n'
+    )
+  })
+
+  it('should add the event id when given', () => {
+    expect(ServerSentEvents.format('scrape.finished', { status: 'completed' }, '42')).toBe(
+      'event: scrape.finished\nid: 42\ndata: {"status":"completed"}\n\n'
+    )
+  })
+
+  it('should keep comments on a single line', () => {
+    expect(ServerSentEvents.comment('heartbeat\nagain')).toBe(': heartbeat again\n\n')
+  })
+})
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test'
+import { Elysia } from 'elysia'
+import { WhatsAppBusinessSDK } from '@microfox/whatsapp-business'
+import { WhatsAppCloudApiSimulator } from '@/simulators/whatsapp-cloud-api.simulator'
+import { WhatsAppWebhookService, type WebhookIntakeResult } from '@/services/whatsapp-webhook.service'
+import { InteractiveReplyParser } from '@/utils/interactive-reply'
+
+const APP_SECRET = 'simulator-app-secret'
+const ACCESS_TOKEN = 'simulator-access-token'
+const USER = '2250700000042'
+
+describe('WhatsAppCloudApiSimulator', () => {
+  // Stands in for the bot webhook endpoint
+  const webhookService = new WhatsAppWebhookService(APP_SECRET, { create: async (data: any) => data })
+  let intakes: WebhookIntakeResult[] = []
+  const bot = new Elysia().post(
+    '/webhook/whatsapp',
+    async ({ body, request }) => {
+      intakes.push(await webhookService.receive(body as string, request.headers.get('x-hub-signature-256')))
+      return { success: true }
+    },
+    { parse: 'text' }
+  )
+
+  let simulator: WhatsAppCloudApiSimulator
+  let client: WhatsAppBusinessSDK
+
+  beforeAll(() => {
+    bot.listen(0)
+    simulator = new WhatsAppCloudApiSimulator({
+      webhookUrl: `http://localhost:${bot.server!.port}/webhook/whatsapp`,
+      appSecret: APP_SECRET,
+      accessToken: ACCESS_TOKEN,
+    })
+    const baseUrl = simulator.start(0)
+
+    client = new WhatsAppBusinessSDK({
+      phoneNumberId: simulator.phoneNumberId,
+      businessAccountId: simulator.businessAccountId,
+      accessToken: ACCESS_TOKEN,
+      version: 'v23.0',
+      baseUrl: `${baseUrl}/v23.0`,
+    })
+  })
+
+  afterAll(async () => {
+    await simulator.stop()
+    await bot.stop()
+  })
+
+  beforeEach(() => {
+    simulator.reset()
+    intakes = []
+  })
+
+  it('should record the messages sent through the SDK', async () => {
+    const response = await client.sendTextMessage(USER, 'Bonjour 👋', { recipientType: 'individual', previewUrl: false })
+    await client.sendTemplateMessage(USER, 'eska_job_offer_single', 'fr' as any, [])
+    await client.sendInteractiveMessage(USER, {
+      type: 'button',
+      body: { text: "Souhaitez-vous voir plus d'offres? 🔍" },
+      action: { buttons: [{ type: 'reply', reply: { id: 'see_more', title: 'Voir plus' } }] },
+    } as any)
+    await client.sendTypingIndicator({ messageId: 'wamid.incoming' } as any)
+
+    const messages = simulator.messages(USER)
+    expect(messages.map(message => [message.kind, message.text])).toEqual([
+      ['text', 'Bonjour 👋'],
+      ['template', 'eska_job_offer_single'],
+      ['interactive', "Souhaitez-vous voir plus d'offres? 🔍"],
+    ])
+    expect(response.data.messages[0].id).toBe(messages[0]!.id)
+    expect(simulator.typingIndicators()).toEqual(['wamid.incoming'])
+  })
+
+  it('should answer with Graph API errors', async () => {
+    const otherToken = new WhatsAppBusinessSDK({
+      phoneNumberId: simulator.phoneNumberId,
+      businessAccountId: simulator.businessAccountId,
+      accessToken: 'another-token',
+      version: 'v23.0',
+      baseUrl: `http://localhost:${simulator.app.server!.port}/v23.0`,
+    })
+
+    await expect(otherToken.sendTextMessage(USER, 'Bonjour')).rejects.toMatchObject({ code: 190 })
+    await expect(client.sendAudioMessage(USER, { id: 'audio-id' } as any)).rejects.toMatchObject({ code: 100 })
+    expect(simulator.messages()).toHaveLength(0)
+  })
+
+  it('should post signed webhooks the bot accepts', async () => {
+    const text = await simulator.sendText(USER, 'Développeur à Cocody', { name: 'Aïcha' })
+    await simulator.sendButtonReply(USER, InteractiveReplyParser.SEE_MORE, 'Voir plus')
+
+    expect(text.status).toBe(200)
+    expect(intakes.map(intake => intake.status)).toEqual(['accepted', 'accepted'])
+
+    const [first, second] = intakes.map(intake => (intake.status === 'accepted' ? intake.payload : null))
+    expect(first!.entry[0]!.changes[0]!.value.messages![0]).toMatchObject({
+      id: text.messageId,
+      from: USER,
+      text: { body: 'Développeur à Cocody' },
+    })
+    expect(InteractiveReplyParser.parse(second!.entry[0]!.changes[0]!.value.messages![0] as any)).toMatchObject({
+      id: InteractiveReplyParser.SEE_MORE,
+    })
+  })
+
+  it('should post a wrong signature when asked to', async () => {
+    const rawBody = JSON.stringify(simulator.envelope({ statuses: [] }))
+    await simulator.postRawWebhook(rawBody, 'sha256=0000')
+
+    expect(intakes).toEqual([{ status: 'rejected', reason: 'invalid_signature' }])
+  })
+
+  it('should report delivery statuses of the messages sent by the bot', async () => {
+    const delivering = new WhatsAppCloudApiSimulator({
+      webhookUrl: `http://localhost:${bot.server!.port}/webhook/whatsapp`,
+      appSecret: APP_SECRET,
+      deliveryStatuses: ['sent', 'delivered'],
+    })
+    const baseUrl = delivering.start(0)
+
+    try {
+      const deliveringClient = new WhatsAppBusinessSDK({
+        phoneNumberId: delivering.phoneNumberId,
+        businessAccountId: delivering.businessAccountId,
+        accessToken: ACCESS_TOKEN,
+        version: 'v23.0',
+        baseUrl: `${baseUrl}/v23.0`,
+      })
+      await deliveringClient.sendTextMessage(USER, 'Bonjour')
+      const [message] = await delivering.waitForMessages(USER, 1)
+
+      const deadline = Date.now() + 2_000
+      while (intakes.length < 2 && Date.now() < deadline) {
+        await Bun.sleep(20)
+      }
+
+      const statuses = intakes.flatMap(intake =>
+        intake.status === 'accepted' ? intake.payload.entry[0]!.changes[0]!.value.statuses ?? [] : []
+      )
+      expect(statuses.map(status => [status.id, status.status])).toEqual([
+        [message!.id, 'sent'],
+        [message!.id, 'delivered'],
+      ])
+    } finally {
+      await delivering.stop()
+    }
+  })
+
+  it('should fail when the bot does not answer in time', async () => {
+    await expect(simulator.waitForMessages(USER, 1, 200)).rejects.toThrow('Expected 1 messages')
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'bun:test'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { WebhookSignature } from '@/utils/webhook-signature'
+import { WhatsAppWebhookService, type WebhookDeadLetterStore } from '@/services/whatsapp-webhook.service'
+import { getWebhookSender } from '@/models/WhatsAppWebhook'
+
+const FIXTURES_DIR = join(import.meta.dir, 'fixtures', 'webhooks')
+const { appSecret, signatures } = JSON.parse(readFileSync(join(FIXTURES_DIR, 'signatures.json'), 'utf8')) as {
+  appSecret: string
+  signatures: Record<string, string>
+}
+
+const fixture = (name: string) => ({
+  rawBody: readFileSync(join(FIXTURES_DIR, name), 'utf8'),
+  signature: signatures[name],
+})
+
+const createService = () => {
+  const deadLetters: any[] = []
+  const store: WebhookDeadLetterStore = {
+    create: async (data: any) => {
+      deadLetters.push(data)
+      return data
+    },
+  }
+
+  return { service: new WhatsAppWebhookService(appSecret, store), deadLetters }
+}
+
+describe('WebhookSignature', () => {
+  it('should verify the signature of the raw body', () => {
+    const { rawBody, signature } = fixture('text-message.json')
+
+    expect(WebhookSignature.verify(rawBody, signature, appSecret)).toBe(true)
+    expect(WebhookSignature.verify(rawBody, signature, 'another-secret')).toBe(false)
+    expect(WebhookSignature.verify(rawBody, null, appSecret)).toBe(false)
+    expect(WebhookSignature.verify(rawBody, signature.replace('sha256=', 'sha1='), appSecret)).toBe(false)
+  })
+
+  it('should not verify a re-serialized body', () => {
+    const { rawBody, signature } = fixture('text-message.json')
+
+    expect(WebhookSignature.verify(JSON.stringify(JSON.parse(rawBody)), signature, appSecret)).toBe(false)
+  })
+})
+
+describe('WhatsAppWebhookService', () => {
+  it('should accept signed messages, statuses and errors', async () => {
+    const { service, deadLetters } = createService()
+
+    for (const name of ['text-message.json', 'status-update.json', 'webhook-error.json']) {
+      const { rawBody, signature } = fixture(name)
+      const result = await service.receive(rawBody, signature)
+      expect(result.status).toBe('accepted')
+    }
+
+    const { rawBody, signature } = fixture('text-message.json')
+    const result = await service.receive(rawBody, signature)
+    expect(result.status === 'accepted' && getWebhookSender(result.payload)).toBe('2250700000001')
+    expect(deadLetters).toHaveLength(0)
+  })
+
+  it('should reject a tampered body without storing it', async () => {
+    const { service, deadLetters } = createService()
+    const { rawBody, signature } = fixture('text-message.json')
+
+    const result = await service.receive(rawBody.replace('Cocody', 'Yopougon'), signature)
+
+    expect(result).toEqual({ status: 'rejected', reason: 'invalid_signature' })
+    expect(deadLetters).toHaveLength(0)
+  })
+
+  it('should quarantine signed but malformed payloads', async () => {
+    const { service, deadLetters } = createService()
+
+    const malformed = fixture('malformed.json')
+    const result = await service.receive(malformed.rawBody, malformed.signature)
+    expect(result.status).toBe('quarantined')
+    if (result.status === 'quarantined') {
+      expect(result.reason).toBe('invalid_payload')
+      expect(result.errors.map(error => error.path)).toContain('entry.0.changes.0.value.messaging_product')
+      expect(result.errors.map(error => error.path)).toContain('entry.0.changes.0.value.messages.0.from')
+    }
+
+    const invalidJson = fixture('invalid-json.txt')
+    expect(await service.receive(invalidJson.rawBody, invalidJson.signature)).toMatchObject({
+      status: 'quarantined',
+      reason: 'invalid_json',
+    })
+
+    expect(deadLetters.map(letter => [letter.source, letter.reason])).toEqual([
+      ['whatsapp', 'invalid_payload'],
+      ['whatsapp', 'invalid_json'],
+    ])
+    expect(deadLetters[1].rawBody).toBe(invalidJson.rawBody)
+  })
+})